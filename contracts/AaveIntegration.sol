@@ -205,7 +205,7 @@ contract AaveIntegration is Ownable, ReentrancyGuard, Pausable {
             uint128 currentVarBorrowRate,
             uint128 currentStableBorrowRate,
             uint40 lastUpdate,
-            ,,,,,
+            ,,,,,,,
         ) = aavePool.getReserveData(address(cbBTC));
         
         return (
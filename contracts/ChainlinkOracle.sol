@@ -24,7 +24,7 @@ contract ChainlinkOracle is Ownable, ReentrancyGuard {
         priceFeeds["BTC/USD"] = btcPriceFeed;
     }
     
-    function getBTCPrice() external view returns (int256 price, uint256 timestamp) {
+    function getBTCPrice() public view returns (int256 price, uint256 timestamp) {
         return getLatestPrice("BTC/USD");
     }
     
@@ -26,8 +26,15 @@ contract ProofOfReserve is Ownable, ReentrancyGuard, Pausable {
         uint256 blocksFound24h;      // Blocks found in last 24h
     }
     
+    struct ReserveProof {
+        bytes32 blockHash;           // BTC block the balance was read at
+        bytes32 utxoSetDigest;       // See computeUtxoSetDigest
+        uint256 utxoCount;           // Unspent outputs behind btcBalance
+    }
+    
     mapping(string => ReserveData) public reserves;        // Pool ID => Reserve Data
     mapping(string => PoolPerformance) public performance; // Pool ID => Performance Data
+    mapping(string => ReserveProof) public reserveProofs;  // Pool ID => UTXO proof of the last update
     mapping(address => bool) public authorizedOracles;     // Authorized oracle addresses
     
     string[] public poolIds;                               // Array of all pool IDs
@@ -40,6 +47,7 @@ contract ProofOfReserve is Ownable, ReentrancyGuard, Pausable {
     event OracleAuthorized(address indexed oracle, bool status);
     event ReserveVerificationFailed(string indexed poolId, string reason);
     event PoolAdded(string indexed poolId, string poolAddress);
+    event ReserveProofSubmitted(string indexed poolId, uint256 blockHeight, bytes32 blockHash, bytes32 utxoSetDigest, uint256 utxoCount);
     
     modifier onlyAuthorizedOracle() {
         require(authorizedOracles[msg.sender] || msg.sender == owner(), "ProofOfReserve: not authorized oracle");
@@ -86,6 +94,88 @@ contract ProofOfReserve is Ownable, ReentrancyGuard, Pausable {
         uint256 hashrateActive,
         uint256 blockHeight
     ) external onlyAuthorizedOracle validPoolId(poolId) {
+        // A balance without a proof replaces the previous proof
+        delete reserveProofs[poolId];
+        _updateReserveData(poolId, btcBalance, hashrateActive, blockHeight);
+    }
+    
+    /**
+     * Update reserves with the confirmed balance of the pool's BTC address at `blockHash`,
+     * committing to the UTXOs it was summed from so anyone can recheck it with verifyReserveProof
+     */
+    function updateReserveDataWithProof(
+        string memory poolId,
+        uint256 btcBalance,
+        uint256 hashrateActive,
+        uint256 blockHeight,
+        bytes32 blockHash,
+        bytes32 utxoSetDigest,
+        uint256 utxoCount
+    ) external onlyAuthorizedOracle validPoolId(poolId) {
+        require(blockHash != bytes32(0), "ProofOfReserve: invalid block hash");
+        require(utxoCount > 0 || btcBalance == 0, "ProofOfReserve: balance without UTXOs");
+        
+        reserveProofs[poolId] = ReserveProof({
+            blockHash: blockHash,
+            utxoSetDigest: utxoSetDigest,
+            utxoCount: utxoCount
+        });
+        _updateReserveData(poolId, btcBalance, hashrateActive, blockHeight);
+        
+        emit ReserveProofSubmitted(poolId, blockHeight, blockHash, utxoSetDigest, utxoCount);
+    }
+    
+    /**
+     * keccak256(abi.encode(txids, vouts, values)) over the UTXOs sorted by (txid, vout),
+     * with txids as displayed by block explorers, plus their total value in satoshis
+     */
+    function computeUtxoSetDigest(
+        bytes32[] memory txids,
+        uint32[] memory vouts,
+        uint64[] memory values
+    ) public pure returns (bytes32 digest, uint256 totalValue) {
+        require(txids.length == vouts.length && vouts.length == values.length, "ProofOfReserve: UTXO length mismatch");
+        
+        for (uint256 i = 0; i < txids.length; i++) {
+            if (i > 0) {
+                // Sorted and unique, so every UTXO set has exactly one digest
+                require(
+                    txids[i] > txids[i - 1] || (txids[i] == txids[i - 1] && vouts[i] > vouts[i - 1]),
+                    "ProofOfReserve: UTXOs not sorted"
+                );
+            }
+            totalValue += values[i];
+        }
+        
+        digest = keccak256(abi.encode(txids, vouts, values));
+    }
+    
+    /**
+     * Check a UTXO list against the pool's last proof: same digest, count and total balance
+     */
+    function verifyReserveProof(
+        string memory poolId,
+        bytes32[] memory txids,
+        uint32[] memory vouts,
+        uint64[] memory values
+    ) external view validPoolId(poolId) returns (bool) {
+        ReserveProof storage proof = reserveProofs[poolId];
+        if (proof.blockHash == bytes32(0)) {
+            return false;
+        }
+        
+        (bytes32 digest, uint256 totalValue) = computeUtxoSetDigest(txids, vouts, values);
+        return digest == proof.utxoSetDigest
+            && txids.length == proof.utxoCount
+            && totalValue == reserves[poolId].btcBalance;
+    }
+    
+    function _updateReserveData(
+        string memory poolId,
+        uint256 btcBalance,
+        uint256 hashrateActive,
+        uint256 blockHeight
+    ) internal {
         require(btcBalance >= 0, "ProofOfReserve: invalid BTC balance");
         require(hashrateActive > 0, "ProofOfReserve: invalid hashrate");
         require(blockHeight > reserves[poolId].blockHeight, "ProofOfReserve: block height must increase");
@@ -285,6 +375,7 @@ contract ProofOfReserve is Ownable, ReentrancyGuard, Pausable {
         
         delete reserves[poolId];
         delete performance[poolId];
+        delete reserveProofs[poolId];
         
         // Remove from poolIds array
         for (uint256 i = 0; i < poolIds.length; i++) {
@@ -82,7 +82,7 @@ contract SecureAaveIntegration is AccessControl, ReentrancyGuard, Pausable {
     
     // Custom errors
     error RateLimitExceeded();
-    error UserFrozen();
+    error AccountFrozen();
     error ExceedsLimit();
     error InsufficientBalance();
     error CircuitBreakerActive();
@@ -97,7 +97,7 @@ contract SecureAaveIntegration is AccessControl, ReentrancyGuard, Pausable {
     
     modifier notFrozen() {
         if (frozenUsers[msg.sender] || userDeposits[msg.sender].frozen) {
-            revert UserFrozen();
+            revert AccountFrozen();
         }
         _;
     }
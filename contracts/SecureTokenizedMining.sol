@@ -294,8 +294,8 @@ contract SecureTokenizedMining is
         require(block.timestamp.sub(updatedAt) <= PRICE_STALENESS_THRESHOLD, "Price too old");
         
         // Price bounds validation
-        require(answer >= MIN_BTC_PRICE, "Price below minimum threshold");
-        require(answer <= MAX_BTC_PRICE, "Price above maximum threshold");
+        require(answer >= int256(MIN_BTC_PRICE), "Price below minimum threshold");
+        require(answer <= int256(MAX_BTC_PRICE), "Price above maximum threshold");
         
         // Price deviation check
         int256 lastPrice = lastValidPrices["BTC/USD"];
@@ -372,7 +372,7 @@ contract SecureTokenizedMining is
         if (oldPrice == 0) return 0;
         
         int256 difference = newPrice > oldPrice ? newPrice - oldPrice : oldPrice - newPrice;
-        return uint256(difference.mul(10000).div(oldPrice));
+        return uint256(difference) * 10000 / uint256(oldPrice);
     }
     
     /**
@@ -8,27 +8,59 @@ import "@openzeppelin/contracts/security/ReentrancyGuard.sol";
 import "@openzeppelin/contracts/security/Pausable.sol";
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
-import "./interfaces/IChainlinkAggregator.sol";
+import "./ChainlinkOracle.sol";
 
 contract TokenizedMining is ERC721, ERC721Enumerable, Ownable, ReentrancyGuard, Pausable {
     using SafeERC20 for IERC20;
     
     // Business Model Parameters
-    uint256 public constant PRECO_INICIAL_TH = 35e6; // US$35 per TH (6 decimals USDC)
-    uint256 public constant LUCRO_DIARIO_BASE = 75000; // US$0.075 per TH per day (6 decimals USDC)
-    uint256 public constant MARKUP_PERCENTUAL = 5; // 5%
     uint256 public constant ENTRADA_MINIMA_TH = 18; // 18 TH minimum
     uint256 public constant ENTRADA_MINIMA_USD = 700e6; // US$700 (6 decimals USDC)
-    uint256 public constant ROI_ANUAL = 77; // 77%
-    uint256 public constant BREAKEVEN_DIAS = 466; // 15.5 months * 30 days
-    uint256 public constant BREAKEVEN_DEFI_DIAS = 408; // 13.6 months * 30 days
     uint256 public constant REINVESTIMENTO_DEFI_DIARIO = 500000; // US$0.50 per day (6 decimals USDC)
     
-    // Equipment Specifications
+    // Equipment Specifications (per machine)
     string public constant EQUIPMENT_MODEL = "Bitmain Antminer S21+";
-    uint256 public constant TOTAL_HASHRATE = 216; // 216 TH/s
-    uint256 public constant POWER_CONSUMPTION = 3510; // 3,510W
-    uint256 public constant EQUIPMENT_COST = 7170e6; // US$7,170 (6 decimals USDC)
+    
+    // Hashprice units
+    uint256 private constant HASHES_PER_TH = 1e12;
+    uint256 private constant SATOSHIS_PER_BTC = 1e8;
+    uint256 private constant USDC_UNIT = 1e6;
+    
+    // Inputs of the hashprice. Network data moves every difficulty epoch and is kept
+    // current by pricing operators; the rest is the owner's economics.
+    struct PricingParameters {
+        uint256 networkDifficulty;
+        uint256 blockSubsidy; // Satoshis per block
+        uint256 blockFees; // Average fees per block in satoshis
+        uint256 energyPricePerKwh; // USDC (6 decimals) per kWh
+        uint256 machinePowerW; // Power draw of one machine
+        uint256 machineRatedTh; // Hashrate the machine's energy cost is spread over
+        uint256 equipmentCost; // USDC (6 decimals) per machine; per TH, the floor of the TH price
+        uint256 breakevenDays; // Days of net earnings the TH price is set at
+        uint256 markupPercent; // Added on top of the TH price
+    }
+    
+    // Retired is final: the machine sells no more TH and leaves totalHashrate
+    enum MachineStatus { Active, Maintenance, Retired }
+    
+    struct Machine {
+        string serialNumber;
+        string hostingSite;
+        uint256 commissionedAt; // Commissioning date (unix timestamp)
+        uint256 ratedTh; // Rated hashrate in TH/s
+        uint256 allocatedTh; // TH sold as positions on this machine
+        MachineStatus status;
+        uint256 retiredAt; // When it stopped mining; its positions accrue nothing after this
+    }
+    
+    // End-of-life sale of a retired machine, paid out to its holders in cbBTC
+    struct MachineSettlement {
+        uint256 saleProceeds; // cbBTC the whole machine sold for
+        uint256 payoutPool; // Holders' share: saleProceeds * allocatedTh / ratedTh
+        uint256 redeemedTh; // TH of positions already redeemed
+        uint256 paidOut; // cbBTC paid to redeemed positions
+        uint256 settledAt;
+    }
     
     struct MiningPosition {
         uint256 thAmount; // Amount of TH owned
@@ -38,13 +70,36 @@ contract TokenizedMining is ERC721, ERC721Enumerable, Ownable, ReentrancyGuard,
         uint256 lastClaimTime; // Last claim timestamp
         uint256 defiEarnings; // DeFi earnings accumulated
         bool active; // Position active status
+        uint256 earningsIndex; // earningsPerThIndex at purchase or the last claim
     }
     
     IERC20 public usdc;
-    IChainlinkAggregator public btcPriceFeed;
+    IERC20 public cbBTC;
+    ChainlinkOracle public oracle;
+    
+    PricingParameters public pricing;
+    uint256 public pricingUpdatedAt;
+    mapping(address => bool) public pricingOperators;
+    
+    // Mining earnings accrue into a cumulative USDC-per-TH index (times the seconds in a
+    // day, so accrual is exact) at the hashprice locked in by the last checkpoint. Each
+    // period is paid at the price it was mined at, not the one in force at the claim.
+    uint256 public earningsPerThIndex;
+    uint256 public earningsRatePerTh; // USDC (6 decimals) per TH per day since the last checkpoint
+    uint256 public earningsCheckpointAt;
+    mapping(uint256 => uint256) public earningsIndexAtRetirement; // machineId → earningsPerThIndex when it retired
     
     mapping(uint256 => MiningPosition) public positions;
     mapping(address => uint256[]) public userPositions;
+    mapping(uint256 => uint256) public positionMachine; // tokenId → machineId
+    
+    // Machines are numbered from 1; 0 means "not registered"
+    mapping(uint256 => Machine) public machines;
+    mapping(string => uint256) public machineIdBySerial;
+    mapping(uint256 => uint256[]) public machinePositions; // machineId → tokenIds minted on it
+    mapping(uint256 => MachineSettlement) public settlements;
+    uint256 public machineCount;
+    uint256 public totalHashrate; // Rated TH/s of every machine that is not retired
     
     uint256 private _tokenIdCounter = 1;
     uint256 public totalThSold;
@@ -54,6 +109,7 @@ contract TokenizedMining is ERC721, ERC721Enumerable, Ownable, ReentrancyGuard,
     event PositionCreated(
         uint256 indexed tokenId,
         address indexed owner,
+        uint256 indexed machineId,
         uint256 thAmount,
         uint256 priceUsdc
     );
@@ -70,23 +126,85 @@ contract TokenizedMining is ERC721, ERC721Enumerable, Ownable, ReentrancyGuard,
         uint256 amount
     );
     
+    event MachineRegistered(
+        uint256 indexed machineId,
+        string serialNumber,
+        string hostingSite,
+        uint256 commissionedAt,
+        uint256 ratedTh
+    );
+    
+    event MachineStatusChanged(uint256 indexed machineId, MachineStatus status);
+    
+    event MachineHostingSiteChanged(uint256 indexed machineId, string hostingSite);
+    
+    event MachineSaleRecorded(uint256 indexed machineId, uint256 saleProceeds, uint256 payoutPool);
+    
+    event PricingParametersUpdated(
+        uint256 networkDifficulty,
+        uint256 blockSubsidy,
+        uint256 blockFees,
+        uint256 energyPricePerKwh,
+        uint256 machinePowerW,
+        uint256 machineRatedTh,
+        uint256 equipmentCost,
+        uint256 breakevenDays,
+        uint256 markupPercent
+    );
+    
+    event PricingOperatorSet(address indexed operator, bool authorized);
+    
+    event EarningsCheckpointed(uint256 earningsPerThIndex, uint256 earningsRatePerTh);
+    
+    event PositionRedeemed(
+        uint256 indexed tokenId,
+        address indexed owner,
+        uint256 indexed machineId,
+        uint256 thAmount,
+        uint256 payout
+    );
+    
+    event EarningsForfeited(uint256 indexed tokenId, address indexed owner, uint256 amount);
+    
+    modifier machineExists(uint256 machineId) {
+        require(machineId > 0 && machineId <= machineCount, "Machine does not exist");
+        _;
+    }
+    
+    modifier onlyPricingOperator() {
+        require(pricingOperators[msg.sender] || msg.sender == owner(), "Not pricing operator");
+        _;
+    }
+    
     constructor(
         address _usdc,
-        address _btcPriceFeed
+        address _oracle,
+        address _cbBTC
     ) ERC721("Tokenized Mining Position", "TMP") {
         require(_usdc != address(0), "Invalid USDC address");
-        require(_btcPriceFeed != address(0), "Invalid BTC price feed");
+        require(_oracle != address(0), "Invalid oracle address");
+        require(_cbBTC != address(0), "Invalid cbBTC address");
         
         usdc = IERC20(_usdc);
-        btcPriceFeed = IChainlinkAggregator(_btcPriceFeed);
+        cbBTC = IERC20(_cbBTC);
+        oracle = ChainlinkOracle(_oracle);
     }
     
-    function purchaseMiningPosition(uint256 thAmount) external nonReentrant whenNotPaused {
+    function purchaseMiningPosition(uint256 machineId, uint256 thAmount)
+        external
+        nonReentrant
+        whenNotPaused
+        machineExists(machineId)
+    {
         require(thAmount >= ENTRADA_MINIMA_TH, "Below minimum TH amount");
-        require(totalThSold + thAmount <= TOTAL_HASHRATE, "Exceeds total hashrate available");
+        
+        Machine storage machine = machines[machineId];
+        require(machine.status == MachineStatus.Active, "Machine not active");
+        require(machine.allocatedTh + thAmount <= machine.ratedTh, "Exceeds machine capacity");
         
         uint256 totalCost = calculatePurchaseCost(thAmount);
         require(usdc.balanceOf(msg.sender) >= totalCost, "Insufficient USDC balance");
+        _checkpointEarnings();
         
         // Transfer USDC from user
         usdc.safeTransferFrom(msg.sender, address(this), totalCost);
@@ -102,14 +220,56 @@ contract TokenizedMining is ERC721, ERC721Enumerable, Ownable, ReentrancyGuard,
             totalEarned: 0,
             lastClaimTime: block.timestamp,
             defiEarnings: 0,
-            active: true
+            active: true,
+            earningsIndex: earningsPerThIndex
         });
         
+        positionMachine[tokenId] = machineId;
+        machinePositions[machineId].push(tokenId);
+        machine.allocatedTh += thAmount;
+        
         userPositions[msg.sender].push(tokenId);
         totalThSold += thAmount;
         totalUsdcCollected += totalCost;
         
-        emit PositionCreated(tokenId, msg.sender, thAmount, totalCost);
+        emit PositionCreated(tokenId, msg.sender, machineId, thAmount, totalCost);
+    }
+    
+    /**
+     * @dev Burn a position on a settled machine for its share of the sale proceeds.
+     * Unclaimed USDC earnings are paid with it while the contract can cover them and
+     * forfeited otherwise, so an unfunded contract never holds the cbBTC back.
+     */
+    function redeemPosition(uint256 tokenId) external nonReentrant whenNotPaused {
+        require(ownerOf(tokenId) == msg.sender, "Not token owner");
+        
+        (uint256 miningEarnings, uint256 defiEarnings) = _pendingEarnings(tokenId);
+        uint256 unclaimed = miningEarnings + defiEarnings;
+        bool payEarnings = unclaimed > 0 && usdc.balanceOf(address(this)) >= unclaimed;
+        
+        uint256 machineId = positionMachine[tokenId];
+        uint256 thAmount = positions[tokenId].thAmount;
+        uint256 payout = getRedemptionAmount(tokenId);
+        
+        MachineSettlement storage settlement = settlements[machineId];
+        settlement.redeemedTh += thAmount;
+        settlement.paidOut += payout;
+        
+        _removeUserPosition(msg.sender, tokenId);
+        delete positions[tokenId];
+        delete positionMachine[tokenId];
+        _burn(tokenId);
+        
+        if (payEarnings) {
+            totalUsdcDistributed += unclaimed;
+            usdc.safeTransfer(msg.sender, unclaimed);
+            emit EarningsClaimed(tokenId, msg.sender, miningEarnings, defiEarnings);
+        } else if (unclaimed > 0) {
+            emit EarningsForfeited(tokenId, msg.sender, unclaimed);
+        }
+        cbBTC.safeTransfer(msg.sender, payout);
+        
+        emit PositionRedeemed(tokenId, msg.sender, machineId, thAmount, payout);
     }
     
     function claimEarnings(uint256 tokenId) external nonReentrant {
@@ -118,12 +278,7 @@ contract TokenizedMining is ERC721, ERC721Enumerable, Ownable, ReentrancyGuard,
         
         MiningPosition storage position = positions[tokenId];
         
-        // Calculate mining earnings
-        uint256 daysSinceLastClaim = (block.timestamp - position.lastClaimTime) / 86400;
-        uint256 miningEarnings = position.thAmount * LUCRO_DIARIO_BASE * daysSinceLastClaim;
-        
-        // Add pending DeFi earnings
-        uint256 defiEarnings = position.defiEarnings;
+        (uint256 miningEarnings, uint256 defiEarnings) = _pendingEarnings(tokenId);
         
         uint256 totalEarnings = miningEarnings + defiEarnings;
         
@@ -134,6 +289,7 @@ contract TokenizedMining is ERC721, ERC721Enumerable, Ownable, ReentrancyGuard,
             position.totalEarned += totalEarnings;
             position.lastClaimTime = block.timestamp;
             position.defiEarnings = 0;
+            position.earningsIndex = _accruedEarningsIndex(tokenId);
             
             totalUsdcDistributed += totalEarnings;
             
@@ -153,47 +309,106 @@ contract TokenizedMining is ERC721, ERC721Enumerable, Ownable, ReentrancyGuard,
         emit DefiEarningsDistributed(tokenId, amount);
     }
     
-    function calculatePurchaseCost(uint256 thAmount) public pure returns (uint256) {
-        return thAmount * PRECO_INICIAL_TH;
+    /**
+     * @dev USDC (6 decimals) per TH per day at the current BTC price. Revenue is the TH's
+     * expected share of block rewards: 1e12 * 86400 / (difficulty * 2^32) blocks a day.
+     * Net earnings are revenue less the machine's energy cost spread over its rated TH, and
+     * the TH price is the larger of breakevenDays of net earnings and the equipment cost per
+     * TH, plus the markup.
+     */
+    function getHashprice() public view returns (
+        uint256 btcPrice,
+        uint256 revenuePerTh,
+        uint256 energyCostPerTh,
+        uint256 dailyEarningsPerTh,
+        uint256 thPrice
+    ) {
+        PricingParameters storage params = pricing;
+        require(pricingUpdatedAt > 0, "Pricing not set");
+        
+        (int256 price, uint8 decimals, ) = oracle.getPriceWithDecimals("BTC/USD");
+        require(price > 0, "Invalid BTC price");
+        btcPrice = (uint256(price) * USDC_UNIT) / (10 ** decimals);
+        
+        revenuePerTh = (HASHES_PER_TH * 1 days * (params.blockSubsidy + params.blockFees) * btcPrice) /
+            (params.networkDifficulty * 2**32 * SATOSHIS_PER_BTC);
+        energyCostPerTh = (params.machinePowerW * 24 * params.energyPricePerKwh) / (1000 * params.machineRatedTh);
+        dailyEarningsPerTh = revenuePerTh > energyCostPerTh ? revenuePerTh - energyCostPerTh : 0;
+        
+        uint256 basePrice = dailyEarningsPerTh * params.breakevenDays;
+        uint256 equipmentCostPerTh = params.equipmentCost / params.machineRatedTh;
+        if (basePrice < equipmentCostPerTh) {
+            basePrice = equipmentCostPerTh;
+        }
+        thPrice = (basePrice * (100 + params.markupPercent)) / 100;
+    }
+    
+    function calculatePurchaseCost(uint256 thAmount) public view returns (uint256) {
+        (, , , , uint256 thPrice) = getHashprice();
+        return thAmount * thPrice;
     }
     
-    function calculateDailyEarnings(uint256 thAmount) public pure returns (uint256) {
-        return thAmount * LUCRO_DIARIO_BASE;
+    function calculateDailyEarnings(uint256 thAmount) public view returns (uint256) {
+        (, , , uint256 dailyEarningsPerTh, ) = getHashprice();
+        return thAmount * dailyEarningsPerTh;
     }
     
-    function calculateMonthlyEarnings(uint256 thAmount) public pure returns (uint256) {
+    function calculateMonthlyEarnings(uint256 thAmount) public view returns (uint256) {
         return calculateDailyEarnings(thAmount) * 30;
     }
     
-    function calculateAnnualROI(uint256 thAmount) public pure returns (uint256) {
+    function calculateAnnualROI(uint256 thAmount) public view returns (uint256) {
         uint256 annualEarnings = calculateDailyEarnings(thAmount) * 365;
         uint256 investment = calculatePurchaseCost(thAmount);
         return (annualEarnings * 100) / investment;
     }
     
-    function calculateBreakevenDays(uint256 thAmount, bool withDefi) public pure returns (uint256) {
+    // type(uint256).max while the position earns nothing
+    function calculateBreakevenDays(uint256 thAmount, bool withDefi) public view returns (uint256) {
         uint256 investment = calculatePurchaseCost(thAmount);
         uint256 dailyEarnings = calculateDailyEarnings(thAmount);
         
         if (withDefi) {
             dailyEarnings += REINVESTIMENTO_DEFI_DIARIO;
         }
+        if (dailyEarnings == 0) {
+            return type(uint256).max;
+        }
         
         return investment / dailyEarnings;
     }
     
     function getPendingEarnings(uint256 tokenId) external view returns (uint256 miningEarnings, uint256 defiEarnings) {
         require(_exists(tokenId), "Token does not exist");
-        
+        return _pendingEarnings(tokenId);
+    }
+    
+    // Earnings-per-TH accrued since the position's last claim, until the machine retires
+    function _pendingEarnings(uint256 tokenId) internal view returns (uint256 miningEarnings, uint256 defiEarnings) {
         MiningPosition storage position = positions[tokenId];
         
         if (position.active) {
-            uint256 daysSinceLastClaim = (block.timestamp - position.lastClaimTime) / 86400;
-            miningEarnings = position.thAmount * LUCRO_DIARIO_BASE * daysSinceLastClaim;
+            uint256 accrued = _accruedEarningsIndex(tokenId) - position.earningsIndex;
+            miningEarnings = (position.thAmount * accrued) / 1 days;
             defiEarnings = position.defiEarnings;
         }
     }
     
+    function _accruedEarningsIndex(uint256 tokenId) internal view returns (uint256) {
+        uint256 machineId = positionMachine[tokenId];
+        if (machines[machineId].retiredAt > 0) {
+            return earningsIndexAtRetirement[machineId];
+        }
+        return currentEarningsIndex();
+    }
+    
+    /**
+     * @dev earningsPerThIndex brought up to now at the rate of the last checkpoint
+     */
+    function currentEarningsIndex() public view returns (uint256) {
+        return earningsPerThIndex + earningsRatePerTh * (block.timestamp - earningsCheckpointAt);
+    }
+    
     function getPositionDetails(uint256 tokenId) external view returns (
         uint256 thAmount,
         uint256 purchasePrice,
@@ -203,7 +418,8 @@ contract TokenizedMining is ERC721, ERC721Enumerable, Ownable, ReentrancyGuard,
         uint256 defiEarnings,
         bool active,
         uint256 currentROI,
-        uint256 daysHeld
+        uint256 daysHeld,
+        uint256 machineId
     ) {
         require(_exists(tokenId), "Token does not exist");
         
@@ -216,6 +432,7 @@ contract TokenizedMining is ERC721, ERC721Enumerable, Ownable, ReentrancyGuard,
         lastClaimTime = position.lastClaimTime;
         defiEarnings = position.defiEarnings;
         active = position.active;
+        machineId = positionMachine[tokenId];
         
         daysHeld = (block.timestamp - position.purchaseTime) / 86400;
         
@@ -228,7 +445,7 @@ contract TokenizedMining is ERC721, ERC721Enumerable, Ownable, ReentrancyGuard,
         return userPositions[user];
     }
     
-    function getBusinessParameters() external pure returns (
+    function getBusinessParameters() external view returns (
         uint256 precoInicialTh,
         uint256 lucroDiarioBase,
         uint256 entradaMinimaTh,
@@ -238,29 +455,31 @@ contract TokenizedMining is ERC721, ERC721Enumerable, Ownable, ReentrancyGuard,
         uint256 breakevenDefiDias,
         uint256 reinvestimentoDefiDiario
     ) {
+        (, , , lucroDiarioBase, precoInicialTh) = getHashprice();
+        
         return (
-            PRECO_INICIAL_TH,
-            LUCRO_DIARIO_BASE,
+            precoInicialTh,
+            lucroDiarioBase,
             ENTRADA_MINIMA_TH,
             ENTRADA_MINIMA_USD,
-            ROI_ANUAL,
-            BREAKEVEN_DIAS,
-            BREAKEVEN_DEFI_DIAS,
+            calculateAnnualROI(ENTRADA_MINIMA_TH),
+            calculateBreakevenDays(ENTRADA_MINIMA_TH, false),
+            calculateBreakevenDays(ENTRADA_MINIMA_TH, true),
             REINVESTIMENTO_DEFI_DIARIO
         );
     }
     
-    function getEquipmentSpecs() external pure returns (
+    function getEquipmentSpecs() external view returns (
         string memory model,
-        uint256 totalHashrate,
+        uint256 hashrate,
         uint256 powerConsumption,
         uint256 equipmentCost
     ) {
         return (
             EQUIPMENT_MODEL,
-            TOTAL_HASHRATE,
-            POWER_CONSUMPTION,
-            EQUIPMENT_COST
+            totalHashrate,
+            pricing.machinePowerW,
+            pricing.equipmentCost
         );
     }
     
@@ -275,24 +494,166 @@ contract TokenizedMining is ERC721, ERC721Enumerable, Ownable, ReentrancyGuard,
             totalThSold,
             totalUsdcCollected,
             totalUsdcDistributed,
-            TOTAL_HASHRATE - totalThSold,
+            getAvailableTh(),
             usdc.balanceOf(address(this))
         );
     }
     
+    /**
+     * @dev TH still for sale across every active machine
+     */
+    function getAvailableTh() public view returns (uint256 available) {
+        for (uint256 machineId = 1; machineId <= machineCount; machineId++) {
+            Machine storage machine = machines[machineId];
+            if (machine.status == MachineStatus.Active) {
+                available += machine.ratedTh - machine.allocatedTh;
+            }
+        }
+    }
+    
+    function getMachine(uint256 machineId) external view machineExists(machineId) returns (Machine memory) {
+        return machines[machineId];
+    }
+    
+    function getMachinePositions(uint256 machineId) external view returns (uint256[] memory) {
+        return machinePositions[machineId];
+    }
+    
+    /**
+     * @dev cbBTC the position receives when redeemed, pro-rata to its TH share of the machine.
+     * The last position redeemed on a machine also gets the rounding remainder of the payout pool.
+     */
+    function getRedemptionAmount(uint256 tokenId) public view returns (uint256) {
+        require(_exists(tokenId), "Token does not exist");
+        
+        uint256 machineId = positionMachine[tokenId];
+        MachineSettlement storage settlement = settlements[machineId];
+        require(settlement.settledAt > 0, "Machine not settled");
+        
+        uint256 thAmount = positions[tokenId].thAmount;
+        if (settlement.redeemedTh + thAmount == machines[machineId].allocatedTh) {
+            return settlement.payoutPool - settlement.paidOut;
+        }
+        return (settlement.saleProceeds * thAmount) / machines[machineId].ratedTh;
+    }
+    
     function getBTCPrice() external view returns (int256 price, uint256 timestamp) {
-        (
-            uint80 roundId,
-            int256 answer,
-            uint256 startedAt,
-            uint256 updatedAt,
-            uint80 answeredInRound
-        ) = btcPriceFeed.latestRoundData();
+        return oracle.getBTCPrice();
+    }
+    
+    // Pricing
+    function setPricingParameters(PricingParameters calldata params) external onlyOwner {
+        require(params.energyPricePerKwh > 0, "Energy price required");
+        require(params.machinePowerW > 0, "Machine power required");
+        require(params.machineRatedTh > 0, "Machine hashrate required");
+        require(params.equipmentCost > 0, "Equipment cost required");
+        require(params.breakevenDays > 0, "Breakeven days required");
         
-        require(answeredInRound >= roundId, "Stale price data");
-        require(updatedAt > 0, "Round not complete");
+        _accrueEarnings();
+        pricing = params;
+        _updateNetworkData(params.networkDifficulty, params.blockSubsidy, params.blockFees);
+    }
+    
+    /**
+     * @dev Network data for the hashprice, refreshed by pricing operators as difficulty
+     * adjusts and fees move
+     */
+    function updateNetworkData(uint256 networkDifficulty, uint256 blockSubsidy, uint256 blockFees) external onlyPricingOperator {
+        require(pricing.machineRatedTh > 0, "Pricing not set");
+        _accrueEarnings();
+        _updateNetworkData(networkDifficulty, blockSubsidy, blockFees);
+    }
+    
+    /**
+     * @dev Lock in the hashprice at the current BTC price. Pricing operators call this as
+     * the price moves (pricing updates and purchases checkpoint on their own).
+     */
+    function checkpointEarnings() external onlyPricingOperator {
+        _checkpointEarnings();
+    }
+    
+    function setPricingOperator(address operator, bool authorized) external onlyOwner {
+        require(operator != address(0), "Invalid operator address");
+        pricingOperators[operator] = authorized;
+        emit PricingOperatorSet(operator, authorized);
+    }
+    
+    // Machine registry
+    function registerMachine(
+        string calldata serialNumber,
+        string calldata hostingSite,
+        uint256 commissionedAt,
+        uint256 ratedTh
+    ) external onlyOwner returns (uint256 machineId) {
+        require(bytes(serialNumber).length > 0, "Serial number required");
+        require(bytes(hostingSite).length > 0, "Hosting site required");
+        require(machineIdBySerial[serialNumber] == 0, "Machine already registered");
+        require(commissionedAt > 0, "Commissioning date required");
+        require(ratedTh > 0, "Rated hashrate required");
+        
+        machineId = ++machineCount;
+        machines[machineId] = Machine({
+            serialNumber: serialNumber,
+            hostingSite: hostingSite,
+            commissionedAt: commissionedAt,
+            ratedTh: ratedTh,
+            allocatedTh: 0,
+            status: MachineStatus.Active,
+            retiredAt: 0
+        });
+        machineIdBySerial[serialNumber] = machineId;
+        totalHashrate += ratedTh;
         
-        return (answer, updatedAt);
+        emit MachineRegistered(machineId, serialNumber, hostingSite, commissionedAt, ratedTh);
+    }
+    
+    function setMachineStatus(uint256 machineId, MachineStatus status) external onlyOwner machineExists(machineId) {
+        Machine storage machine = machines[machineId];
+        require(machine.status != MachineStatus.Retired, "Machine retired");
+        require(machine.status != status, "Status unchanged");
+        
+        machine.status = status;
+        if (status == MachineStatus.Retired) {
+            machine.retiredAt = block.timestamp;
+            earningsIndexAtRetirement[machineId] = currentEarningsIndex();
+            totalHashrate -= machine.ratedTh;
+        }
+        
+        emit MachineStatusChanged(machineId, status);
+    }
+    
+    function setMachineHostingSite(uint256 machineId, string calldata hostingSite) external onlyOwner machineExists(machineId) {
+        require(bytes(hostingSite).length > 0, "Hosting site required");
+        require(machines[machineId].status != MachineStatus.Retired, "Machine retired");
+        
+        machines[machineId].hostingSite = hostingSite;
+        
+        emit MachineHostingSiteChanged(machineId, hostingSite);
+    }
+    
+    /**
+     * @dev Record the sale of a retired machine and deposit its holders' share of the
+     * proceeds from the caller, after which its positions can be redeemed
+     */
+    function recordMachineSale(uint256 machineId, uint256 saleProceeds) external onlyOwner machineExists(machineId) {
+        Machine storage machine = machines[machineId];
+        require(machine.status == MachineStatus.Retired, "Machine not retired");
+        require(settlements[machineId].settledAt == 0, "Machine already settled");
+        require(machine.allocatedTh > 0, "No positions on machine");
+        require(saleProceeds > 0, "Sale proceeds required");
+        
+        uint256 payoutPool = (saleProceeds * machine.allocatedTh) / machine.ratedTh;
+        settlements[machineId] = MachineSettlement({
+            saleProceeds: saleProceeds,
+            payoutPool: payoutPool,
+            redeemedTh: 0,
+            paidOut: 0,
+            settledAt: block.timestamp
+        });
+        
+        cbBTC.safeTransferFrom(msg.sender, address(this), payoutPool);
+        
+        emit MachineSaleRecorded(machineId, saleProceeds, payoutPool);
     }
     
     function deactivatePosition(uint256 tokenId) external onlyOwner {
@@ -313,6 +674,59 @@ contract TokenizedMining is ERC721, ERC721Enumerable, Ownable, ReentrancyGuard,
         _unpause();
     }
     
+    function _updateNetworkData(uint256 networkDifficulty, uint256 blockSubsidy, uint256 blockFees) internal {
+        require(networkDifficulty > 0, "Network difficulty required");
+        require(blockSubsidy + blockFees > 0, "Block reward required");
+        
+        PricingParameters storage params = pricing;
+        params.networkDifficulty = networkDifficulty;
+        params.blockSubsidy = blockSubsidy;
+        params.blockFees = blockFees;
+        pricingUpdatedAt = block.timestamp;
+        _refreshEarningsRate();
+        
+        emit PricingParametersUpdated(
+            networkDifficulty,
+            blockSubsidy,
+            blockFees,
+            params.energyPricePerKwh,
+            params.machinePowerW,
+            params.machineRatedTh,
+            params.equipmentCost,
+            params.breakevenDays,
+            params.markupPercent
+        );
+    }
+    
+    function _accrueEarnings() internal {
+        earningsPerThIndex = currentEarningsIndex();
+        earningsCheckpointAt = block.timestamp;
+    }
+    
+    // Accrues at the old rate, then prices what follows at the current hashprice
+    function _checkpointEarnings() internal {
+        _accrueEarnings();
+        _refreshEarningsRate();
+    }
+    
+    function _refreshEarningsRate() internal {
+        (, , , earningsRatePerTh, ) = getHashprice();
+        
+        emit EarningsCheckpointed(earningsPerThIndex, earningsRatePerTh);
+    }
+    
+    // Positions are listed under their current owner; a redeemed one leaves the list
+    function _removeUserPosition(address user, uint256 tokenId) internal {
+        uint256[] storage tokenIds = userPositions[user];
+        for (uint256 i = 0; i < tokenIds.length; i++) {
+            if (tokenIds[i] == tokenId) {
+                tokenIds[i] = tokenIds[tokenIds.length - 1];
+                tokenIds.pop();
+                return;
+            }
+        }
+    }
+    
     // Override required functions
     function _beforeTokenTransfer(
         address from,
@@ -321,6 +735,12 @@ contract TokenizedMining is ERC721, ERC721Enumerable, Ownable, ReentrancyGuard,
         uint256 batchSize
     ) internal override(ERC721, ERC721Enumerable) whenNotPaused {
         super._beforeTokenTransfer(from, to, tokenId, batchSize);
+        
+        // Mints and burns are listed by purchaseMiningPosition and redeemPosition
+        if (from != address(0) && to != address(0)) {
+            _removeUserPosition(from, tokenId);
+            userPositions[to].push(tokenId);
+        }
     }
     
     function supportsInterface(bytes4 interfaceId)
@@ -0,0 +1,35 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC721/IERC721Receiver.sol";
+
+interface IFlashLoanTarget {
+    function ENTRADA_MAXIMA_TH() external view returns (uint256);
+    function purchaseMiningPosition(uint256 thAmount) external;
+    function claimEarnings(uint256 tokenId) external;
+}
+
+// Spends a flash-borrowed USDC balance on the largest position and claims it in the same
+// transaction, as a flash loan would have to; used by SecurityTests
+contract FlashLoanAttacker is IERC721Receiver {
+    IFlashLoanTarget public mining;
+    IERC20 public token;
+    uint256 public lastTokenId;
+    
+    constructor(address _mining, address _token) {
+        mining = IFlashLoanTarget(_mining);
+        token = IERC20(_token);
+    }
+    
+    function executeFlashLoanAttack() external {
+        token.approve(address(mining), type(uint256).max);
+        mining.purchaseMiningPosition(mining.ENTRADA_MAXIMA_TH());
+        mining.claimEarnings(lastTokenId);
+    }
+    
+    function onERC721Received(address, address, uint256 tokenId, bytes calldata) external override returns (bytes4) {
+        lastTokenId = tokenId;
+        return IERC721Receiver.onERC721Received.selector;
+    }
+}
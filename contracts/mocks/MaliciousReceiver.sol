@@ -0,0 +1,37 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC721/IERC721Receiver.sol";
+
+interface IReentrancyTarget {
+    function purchaseMiningPosition(uint256 thAmount) external;
+    function claimEarnings(uint256 tokenId) external;
+}
+
+// Buys a position and re-enters claimEarnings from the mint callback; used by SecurityTests
+contract MaliciousReceiver is IERC721Receiver {
+    IReentrancyTarget public mining;
+    IERC20 public usdc;
+    bool public attacking;
+    
+    constructor(address _mining, address _usdc) {
+        mining = IReentrancyTarget(_mining);
+        usdc = IERC20(_usdc);
+    }
+    
+    function attackClaimEarnings(uint256 thAmount) external {
+        attacking = true;
+        usdc.approve(address(mining), type(uint256).max);
+        mining.purchaseMiningPosition(thAmount);
+        attacking = false;
+    }
+    
+    // _safeMint calls back here while purchaseMiningPosition still holds the reentrancy lock
+    function onERC721Received(address, address, uint256 tokenId, bytes calldata) external override returns (bytes4) {
+        if (attacking) {
+            mining.claimEarnings(tokenId);
+        }
+        return IERC721Receiver.onERC721Received.selector;
+    }
+}
@@ -0,0 +1,109 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "../interfaces/IAavePool.sol";
+import "./MockERC20.sol";
+
+// Single-reserve Aave V3 pool: aTokens are minted 1:1 on supply and burned on withdraw
+contract MockAavePool is IAavePool {
+    using SafeERC20 for IERC20;
+    
+    IERC20 public asset;
+    MockERC20 public aToken;
+    
+    uint128 public constant LIQUIDITY_RATE = 2e25; // 2% APR in ray
+    
+    constructor(address _asset, address _aToken) {
+        asset = IERC20(_asset);
+        aToken = MockERC20(_aToken);
+    }
+    
+    modifier onlyReserveAsset(address reserveAsset) {
+        require(reserveAsset == address(asset), "MockAavePool: unsupported asset");
+        _;
+    }
+    
+    function supply(
+        address reserveAsset,
+        uint256 amount,
+        address onBehalfOf,
+        uint16
+    ) external override onlyReserveAsset(reserveAsset) {
+        asset.safeTransferFrom(msg.sender, address(this), amount);
+        aToken.mint(onBehalfOf, amount);
+    }
+    
+    function withdraw(
+        address reserveAsset,
+        uint256 amount,
+        address to
+    ) external override onlyReserveAsset(reserveAsset) returns (uint256) {
+        if (amount == type(uint256).max) {
+            amount = aToken.balanceOf(msg.sender);
+        }
+        
+        aToken.burn(msg.sender, amount);
+        asset.safeTransfer(to, amount);
+        return amount;
+    }
+    
+    // Simulates interest: credits `amount` of aTokens to `holder`, backed by freshly minted asset
+    function accrueYield(address holder, uint256 amount) external {
+        MockERC20(address(asset)).mint(address(this), amount);
+        aToken.mint(holder, amount);
+    }
+    
+    function getUserAccountData(address user) external view override returns (
+        uint256 totalCollateralBase,
+        uint256 totalDebtBase,
+        uint256 availableBorrowsBase,
+        uint256 currentLiquidationThreshold,
+        uint256 ltv,
+        uint256 healthFactor
+    ) {
+        return (aToken.balanceOf(user), 0, 0, 0, 0, type(uint256).max);
+    }
+    
+    function getReserveData(address reserveAsset) external view override onlyReserveAsset(reserveAsset) returns (
+        uint256 configuration,
+        uint128 liquidityIndex,
+        uint128 currentLiquidityRate,
+        uint128 variableBorrowIndex,
+        uint128 currentVariableBorrowRate,
+        uint128 currentStableBorrowRate,
+        uint40 lastUpdateTimestamp,
+        uint16 id,
+        address aTokenAddress,
+        address stableDebtTokenAddress,
+        address variableDebtTokenAddress,
+        address interestRateStrategyAddress,
+        uint128 accruedToTreasury,
+        uint128 unbacked,
+        uint128 isolationModeTotalDebt
+    ) {
+        aTokenAddress = address(aToken);
+        liquidityIndex = 1e27;
+        variableBorrowIndex = 1e27;
+        currentLiquidityRate = LIQUIDITY_RATE;
+        lastUpdateTimestamp = uint40(block.timestamp);
+        return (
+            configuration,
+            liquidityIndex,
+            currentLiquidityRate,
+            variableBorrowIndex,
+            currentVariableBorrowRate,
+            currentStableBorrowRate,
+            lastUpdateTimestamp,
+            id,
+            aTokenAddress,
+            stableDebtTokenAddress,
+            variableDebtTokenAddress,
+            interestRateStrategyAddress,
+            accruedToTreasury,
+            unbacked,
+            isolationModeTotalDebt
+        );
+    }
+}
@@ -0,0 +1,70 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import "../interfaces/IChainlinkAggregator.sol";
+
+// Settable USD price feed with 8 decimals, like the Chainlink BTC/USD and ETH/USD feeds on Base
+contract MockChainlinkAggregator is IChainlinkAggregator {
+    
+    uint80 private _roundId;
+    int256 private _answer;
+    uint256 private _startedAt;
+    uint256 private _updatedAt;
+    uint80 private _answeredInRound;
+    string private _description;
+    
+    event AnswerUpdated(int256 indexed current, uint256 indexed roundId, uint256 updatedAt);
+    
+    constructor(string memory description_, int256 initialAnswer) {
+        _description = description_;
+        updateAnswer(initialAnswer);
+    }
+    
+    function latestRoundData() external view override returns (
+        uint80 roundId,
+        int256 answer,
+        uint256 startedAt,
+        uint256 updatedAt,
+        uint80 answeredInRound
+    ) {
+        return (_roundId, _answer, _startedAt, _updatedAt, _answeredInRound);
+    }
+    
+    function decimals() external pure override returns (uint8) {
+        return 8;
+    }
+    
+    function description() external view override returns (string memory) {
+        return _description;
+    }
+    
+    function version() external pure override returns (uint256) {
+        return 4;
+    }
+    
+    // Starts a new round at the current block time, keeping the price fresh for staleness checks
+    function updateAnswer(int256 answer) public {
+        _roundId++;
+        _answer = answer;
+        _startedAt = block.timestamp;
+        _updatedAt = block.timestamp;
+        _answeredInRound = _roundId;
+        emit AnswerUpdated(answer, _roundId, block.timestamp);
+    }
+    
+    // Full control over the round, for stale and incomplete round scenarios
+    function setLatestRoundData(
+        uint80 roundId,
+        int256 answer,
+        uint256 startedAt,
+        uint256 updatedAt,
+        uint80 answeredInRound
+    ) external {
+        _roundId = roundId;
+        _answer = answer;
+        _startedAt = startedAt;
+        _updatedAt = updatedAt;
+        _answeredInRound = answeredInRound;
+        emit AnswerUpdated(answer, roundId, updatedAt);
+    }
+}
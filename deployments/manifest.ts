@@ -0,0 +1,152 @@
+// Shared by the deploy scripts, the BTC → cbBTC service and the frontend, so keep this
+// module free of Node and browser dependencies.
+
+export const MANIFEST_SCHEMA_VERSION = 1;
+
+// Third-party contracts the system is wired to, keyed independently of any deploy script
+export type ExternalContract = 'cbBTC' | 'usdc' | 'btcUsdFeed' | 'ethUsdFeed' | 'aavePool' | 'aCbBTC';
+
+export interface ContractDeployment {
+  contract: string; // Artifact name, e.g. ChainlinkOracle for SecureChainlinkOracle
+  address: string;
+  transactionHash?: string;
+  deployedAt: string;
+  args?: unknown[]; // Constructor arguments, bigints as decimal strings; absent for entries from older deploys
+}
+
+export interface DeploymentManifest {
+  schemaVersion: typeof MANIFEST_SCHEMA_VERSION;
+  network: string;
+  chainId: number;
+  deployer: string;
+  updatedAt: string;
+  contracts: Record<string, ContractDeployment>;
+  external: Partial<Record<ExternalContract, string>>;
+  roles: Record<string, string>;
+}
+
+export class DeploymentManifestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DeploymentManifestError';
+  }
+}
+
+const EXTERNAL_CONTRACTS: ExternalContract[] = ['cbBTC', 'usdc', 'btcUsdFeed', 'ethUsdFeed', 'aavePool', 'aCbBTC'];
+
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+
+export const isAddress = (value: unknown): value is string =>
+  typeof value === 'string' && ADDRESS_PATTERN.test(value);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export function createManifest(network: string, chainId: number, deployer: string): DeploymentManifest {
+  return {
+    schemaVersion: MANIFEST_SCHEMA_VERSION,
+    network,
+    chainId,
+    deployer,
+    updatedAt: new Date().toISOString(),
+    contracts: {},
+    external: {},
+    roles: {}
+  };
+}
+
+/**
+ * Constructor arguments in the JSON form the manifest records them in
+ */
+export function manifestArgs(args: unknown[]): unknown[] {
+  return JSON.parse(JSON.stringify(args, (_key, value) => (typeof value === 'bigint' ? value.toString() : value)));
+}
+
+/**
+ * Validate untrusted JSON against the manifest schema, reporting every problem at once
+ */
+export function parseManifest(json: unknown, source: string): DeploymentManifest {
+  if (!isRecord(json)) {
+    throw new DeploymentManifestError(`${source}: deployment manifest must be a JSON object`);
+  }
+
+  if (json.schemaVersion !== MANIFEST_SCHEMA_VERSION) {
+    throw new DeploymentManifestError(
+      `${source}: unsupported schemaVersion ${JSON.stringify(json.schemaVersion)}, expected ${MANIFEST_SCHEMA_VERSION}`
+    );
+  }
+
+  const problems: string[] = [];
+
+  if (typeof json.network !== 'string' || json.network === '') problems.push('network must be a non-empty string');
+  if (!Number.isInteger(json.chainId) || (json.chainId as number) <= 0) problems.push('chainId must be a positive integer');
+  if (!isAddress(json.deployer)) problems.push('deployer must be an address');
+  if (typeof json.updatedAt !== 'string') problems.push('updatedAt must be an ISO timestamp');
+
+  if (!isRecord(json.contracts)) {
+    problems.push('contracts must be an object');
+  } else {
+    for (const [name, entry] of Object.entries(json.contracts)) {
+      if (!isRecord(entry)) {
+        problems.push(`contracts.${name} must be an object`);
+        continue;
+      }
+      if (typeof entry.contract !== 'string' || entry.contract === '') problems.push(`contracts.${name}.contract must be an artifact name`);
+      if (!isAddress(entry.address)) problems.push(`contracts.${name}.address must be an address`);
+      if (entry.transactionHash !== undefined && typeof entry.transactionHash !== 'string') {
+        problems.push(`contracts.${name}.transactionHash must be a string`);
+      }
+      if (typeof entry.deployedAt !== 'string') problems.push(`contracts.${name}.deployedAt must be an ISO timestamp`);
+      if (entry.args !== undefined && !Array.isArray(entry.args)) problems.push(`contracts.${name}.args must be an array`);
+    }
+  }
+
+  if (!isRecord(json.external)) {
+    problems.push('external must be an object');
+  } else {
+    for (const [name, address] of Object.entries(json.external)) {
+      if (!EXTERNAL_CONTRACTS.includes(name as ExternalContract)) problems.push(`external.${name} is not a known external contract`);
+      else if (!isAddress(address)) problems.push(`external.${name} must be an address`);
+    }
+  }
+
+  if (!isRecord(json.roles)) {
+    problems.push('roles must be an object');
+  } else {
+    for (const [role, address] of Object.entries(json.roles)) {
+      if (!isAddress(address)) problems.push(`roles.${role} must be an address`);
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new DeploymentManifestError(`${source}: invalid deployment manifest:\n  - ${problems.join('\n  - ')}`);
+  }
+
+  return json as unknown as DeploymentManifest;
+}
+
+/**
+ * Resolve deployed contracts (by deployment name) and external contracts to addresses.
+ * Throws one error naming every missing entry so a partial deployment is obvious.
+ */
+export function requireAddresses<K extends string>(
+  manifest: DeploymentManifest,
+  names: readonly K[]
+): Record<K, string> {
+  const addresses = {} as Record<K, string>;
+  const missing: string[] = [];
+
+  for (const name of names) {
+    const address = manifest.contracts[name]?.address ?? manifest.external[name as ExternalContract];
+    if (address) addresses[name] = address;
+    else missing.push(name);
+  }
+
+  if (missing.length > 0) {
+    throw new DeploymentManifestError(
+      `Deployment manifest for ${manifest.network} (chainId ${manifest.chainId}) is missing addresses for: ${missing.join(', ')}`
+    );
+  }
+
+  return addresses;
+}
@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { CoinbaseWalletConnector } from './components/wallet/CoinbaseWalletConnector';
 import { CleanMiningInterface } from './components/CleanMiningInterface';
+import { PositionRedemption } from './components/mining/PositionRedemption';
 import { useWeb3 } from './hooks/useWeb3';
 import { useCoinbaseWallet } from './hooks/useCoinbaseWallet';
 
@@ -27,10 +28,16 @@ function App() {
 
       {/* Main Interface */}
       {walletInfo.isConnected ? (
-        <CleanMiningInterface 
-          web3Service={web3Service}
-          userAddress={walletInfo.address}
-        />
+        <>
+          <CleanMiningInterface 
+            web3Service={web3Service}
+            userAddress={walletInfo.address}
+          />
+          <PositionRedemption
+            web3Service={web3Service}
+            userAddress={walletInfo.address}
+          />
+        </>
       ) : (
         <div className="welcome-screen">
           <div className="welcome-content">
@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { Web3Service } from '../services/web3Service';
+import { MiningPricing, Web3Service } from '../services/web3Service';
 
 interface CleanMiningInterfaceProps {
   web3Service: Web3Service | null;
@@ -14,17 +14,25 @@ export const CleanMiningInterface: React.FC<CleanMiningInterfaceProps> = ({
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
+  const [pricing, setPricing] = useState<MiningPricing | null>(null);
   
-  // Mining parameters
-  const pricePerTH = 35; // $35 per TH
-  const dailyROI = 0.075; // $0.075 per TH per day
+  // Mining parameters; price and earnings per TH follow the contract's live hashprice
+  const pricePerTH = pricing ? pricing.thPrice.toNumber() : 0;
+  const dailyEarningsPerTH = pricing ? pricing.dailyEarningsPerTh.toNumber() : 0;
   const minTH = 18;
   const maxTH = 50;
 
+  useEffect(() => {
+    if (!web3Service) return;
+    web3Service.getMiningPricing()
+      .then(setPricing)
+      .catch((err) => console.error('Error loading TH pricing:', err));
+  }, [web3Service]);
+
   const calculateCost = (th: number) => th * pricePerTH;
-  const calculateDailyEarnings = (th: number) => th * dailyROI;
+  const calculateDailyEarnings = (th: number) => th * dailyEarningsPerTH;
   const calculateMonthlyEarnings = (th: number) => calculateDailyEarnings(th) * 30;
-  const calculateROI = (th: number) => (calculateDailyEarnings(th) * 365 / calculateCost(th)) * 100;
+  const calculateROI = (th: number) => calculateCost(th) > 0 ? (calculateDailyEarnings(th) * 365 / calculateCost(th)) * 100 : 0;
 
   const handlePurchase = async () => {
     if (!web3Service || !thAmount) return;
@@ -39,11 +47,15 @@ export const CleanMiningInterface: React.FC<CleanMiningInterfaceProps> = ({
         throw new Error(`TH amount must be between ${minTH} and ${maxTH}`);
       }
       
-      // Simulate purchase
-      console.log(`Purchasing ${th} TH for $${calculateCost(th)}`);
-      await new Promise(resolve => setTimeout(resolve, 2000));
+      if (!Number.isInteger(th)) {
+        throw new Error('TH amount must be a whole number');
+      }
+      
+      // Approves USDC if needed, then mints the mining position NFT on a machine with room for it
+      const machine = await web3Service.selectMachineFor(th);
+      const txHash = await web3Service.purchaseMiningPosition(machine.machineId, th);
       
-      setSuccess(`Successfully purchased ${th} TH! You'll earn $${calculateDailyEarnings(th).toFixed(2)}/day`);
+      setSuccess(`Successfully purchased ${th} TH on ${machine.serialNumber}! You'll earn $${calculateDailyEarnings(th).toFixed(2)}/day (tx ${txHash.slice(0, 10)}...)`);
       setThAmount('18');
     } catch (err: any) {
       setError(err.message || 'Purchase failed');
@@ -105,15 +117,15 @@ export const CleanMiningInterface: React.FC<CleanMiningInterfaceProps> = ({
               
               <div className="key-metrics">
                 <div className="metric">
-                  <span className="metric-value">$35</span>
+                  <span className="metric-value">{pricing ? `$${pricePerTH.toFixed(2)}` : '—'}</span>
                   <span className="metric-label">per TH</span>
                 </div>
                 <div className="metric">
-                  <span className="metric-value">$1.50</span>
+                  <span className="metric-value">{pricing ? `$${calculateDailyEarnings(20).toFixed(2)}` : '—'}</span>
                   <span className="metric-label">daily per 20 TH</span>
                 </div>
                 <div className="metric">
-                  <span className="metric-value">77%</span>
+                  <span className="metric-value">{pricing ? `${calculateROI(20).toFixed(0)}%` : '—'}</span>
                   <span className="metric-label">annual ROI</span>
                 </div>
               </div>
@@ -178,7 +190,7 @@ export const CleanMiningInterface: React.FC<CleanMiningInterfaceProps> = ({
               <div className="calculations">
                 <div className="calc-row">
                   <span className="calc-label">Investment Cost</span>
-                  <span className="calc-value">${calculateCost(parseFloat(thAmount || '0')).toLocaleString()}</span>
+                  <span className="calc-value">${calculateCost(parseFloat(thAmount || '0')).toLocaleString(undefined, { maximumFractionDigits: 2 })}</span>
                 </div>
                 <div className="calc-row">
                   <span className="calc-label">Daily Earnings</span>
@@ -192,12 +204,20 @@ export const CleanMiningInterface: React.FC<CleanMiningInterfaceProps> = ({
                   <span className="calc-label">Annual ROI</span>
                   <span className="calc-value roi">{calculateROI(parseFloat(thAmount || '0')).toFixed(1)}%</span>
                 </div>
+                {pricing && (
+                  <div className="calc-row">
+                    <span className="calc-label">Priced At</span>
+                    <span className="calc-value">
+                      BTC ${pricing.btcPrice.toNumber().toLocaleString()} • {(Number(pricing.networkDifficulty) / 1e12).toFixed(1)}T difficulty
+                    </span>
+                  </div>
+                )}
               </div>
               
               {/* Purchase Button */}
               <button 
                 onClick={handlePurchase}
-                disabled={isLoading || !thAmount || parseFloat(thAmount) < minTH || parseFloat(thAmount) > maxTH}
+                disabled={isLoading || !pricing || !thAmount || parseFloat(thAmount) < minTH || parseFloat(thAmount) > maxTH}
                 className="purchase-btn"
               >
                 {isLoading ? (
@@ -207,7 +227,7 @@ export const CleanMiningInterface: React.FC<CleanMiningInterfaceProps> = ({
                   </>
                 ) : (
                   <>
-                    Buy {thAmount || '0'} TH for ${calculateCost(parseFloat(thAmount || '0')).toLocaleString()}
+                    Buy {thAmount || '0'} TH for ${calculateCost(parseFloat(thAmount || '0')).toLocaleString(undefined, { maximumFractionDigits: 2 })}
                   </>
                 )}
               </button>
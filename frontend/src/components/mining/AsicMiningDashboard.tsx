@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { Web3Service } from '../../services/web3Service';
 
 interface AsicMiningDashboardProps {
@@ -12,7 +12,7 @@ interface AsicInfo {
   fractionHashRate: number; // TH/s per token
   totalFractions: number;
   availableFractions: number;
-  dailyRoi: number; // USD per fraction
+  dailyEarningsPerTh: number; // USD, the contract's hashprice less energy
   pricePerFraction: number; // USD
 }
 
@@ -21,7 +21,10 @@ interface UserPosition {
   totalHashRateOwned: number; // TH/s
   dailyEarnings: number; // USD
   totalEarned: number; // USD
+  pendingEarnings: number; // USD, accrues per full day on-chain
   lastClaimTime: number;
+  tokenIds: number[]; // Positions with earnings to claim
+  machineSerials: string[]; // Machines the active positions are allocated on
 }
 
 export const AsicMiningDashboard: React.FC<AsicMiningDashboardProps> = ({
@@ -34,8 +37,8 @@ export const AsicMiningDashboard: React.FC<AsicMiningDashboardProps> = ({
     totalHashRate: 216, // 216 TH/s
     fractionHashRate: 18, // 18 TH/s per fraction
     totalFractions: 12, // 216/18 = 12 fractions total
-    availableFractions: 8.2, // Available for purchase
-    dailyRoi: 0.9, // $0.90 USD per day per fraction
+    availableFractions: 12, // Updated from the contract's unsold TH
+    dailyEarningsPerTh: 0, // Read from the contract's pricing
     pricePerFraction: 630 // $630 USD per 18 TH/s fraction
   });
 
@@ -44,7 +47,10 @@ export const AsicMiningDashboard: React.FC<AsicMiningDashboardProps> = ({
     totalHashRateOwned: 0,
     dailyEarnings: 0,
     totalEarned: 0,
-    lastClaimTime: 0
+    pendingEarnings: 0,
+    lastClaimTime: 0,
+    tokenIds: [],
+    machineSerials: []
   });
 
   const [btcPrice, setBtcPrice] = useState<number>(45000); // USD
@@ -53,18 +59,60 @@ export const AsicMiningDashboard: React.FC<AsicMiningDashboardProps> = ({
   const [error, setError] = useState<string | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
 
-  // Mock data for demonstration - in real app this would come from contracts
+  // Sum the user's TokenizedMining positions into a single view of their share of the machines
+  const loadUserPosition = useCallback(async () => {
+    if (!web3Service || !userAddress) return;
+    
+    try {
+      const [pricing, machines, tokenIds] = await Promise.all([
+        web3Service.getMiningPricing(),
+        web3Service.getMachines(),
+        web3Service.getUserPositions(userAddress)
+      ]);
+      
+      const inService = machines.filter(machine => machine.status !== 'retired');
+      const totalHashRate = inService.reduce((sum, machine) => sum + machine.ratedTh, 0);
+      const availableTH = machines.reduce((sum, machine) => sum + machine.availableTh, 0);
+      
+      setAsicInfo(prev => ({
+        ...prev,
+        totalHashRate,
+        totalFractions: totalHashRate / prev.fractionHashRate,
+        availableFractions: availableTH / prev.fractionHashRate,
+        dailyEarningsPerTh: pricing.dailyEarningsPerTh.toNumber(),
+        pricePerFraction: pricing.thPrice.toNumber() * prev.fractionHashRate
+      }));
+      
+      const positions = await Promise.all(tokenIds.map(async (tokenId) => {
+        const [details, pending] = await Promise.all([
+          web3Service.getPositionDetails(tokenId),
+          web3Service.getPendingEarnings(tokenId)
+        ]);
+        return { details, pending: pending.total.toNumber() };
+      }));
+      
+      const active = positions.filter(position => position.details.active);
+      const totalHashRateOwned = active.reduce((sum, position) => sum + position.details.thAmount, 0);
+      
+      setUserPosition({
+        ownedFractions: totalHashRateOwned / asicInfo.fractionHashRate,
+        totalHashRateOwned,
+        dailyEarnings: totalHashRateOwned * pricing.dailyEarningsPerTh.toNumber(),
+        totalEarned: positions.reduce((sum, position) => sum + position.details.totalEarned.toNumber(), 0),
+        pendingEarnings: active.reduce((sum, position) => sum + position.pending, 0),
+        lastClaimTime: Math.max(0, ...active.map(position => position.details.lastClaimTime * 1000)),
+        tokenIds: active.filter(position => position.pending > 0).map(position => position.details.tokenId),
+        machineSerials: Array.from(new Set(active.map(position => position.details.machineId)))
+          .map(machineId => machines[machineId - 1]?.serialNumber || `#${machineId}`)
+      });
+    } catch (err) {
+      console.error('Error loading mining positions:', err);
+    }
+  }, [web3Service, userAddress, asicInfo.fractionHashRate]);
+
   useEffect(() => {
-    // Simulate user having some fractions
-    setUserPosition({
-      ownedFractions: 1.5, // User owns 1.5 fractions (27 TH/s)
-      totalHashRateOwned: 27, // 1.5 * 18 TH/s
-      dailyEarnings: 1.35, // $1.35 per day
-      totalEarned: 45.0, // $45 total earned
-      lastClaimTime: Date.now() - 86400000 // Last claim 1 day ago
-    });
+    loadUserPosition();
 
-    // Simulate fetching BTC price
     const fetchBtcPrice = async () => {
       if (web3Service) {
         try {
@@ -77,9 +125,12 @@ export const AsicMiningDashboard: React.FC<AsicMiningDashboardProps> = ({
     };
 
     fetchBtcPrice();
-    const interval = setInterval(fetchBtcPrice, 30000); // Update every 30s
+    const interval = setInterval(() => {
+      fetchBtcPrice();
+      loadUserPosition();
+    }, 30000); // Update every 30s
     return () => clearInterval(interval);
-  }, [web3Service]);
+  }, [web3Service, loadUserPosition]);
 
   const handlePurchaseFractions = async () => {
     if (!web3Service || !purchaseAmount) return;
@@ -90,30 +141,21 @@ export const AsicMiningDashboard: React.FC<AsicMiningDashboardProps> = ({
     
     try {
       const fractions = parseFloat(purchaseAmount);
-      const totalCost = fractions * asicInfo.pricePerFraction;
-      
-      // In real implementation, this would interact with smart contracts
-      console.log(`Purchasing ${fractions} fractions for $${totalCost}`);
+      const thAmount = fractions * asicInfo.fractionHashRate;
       
-      // Simulate transaction
-      await new Promise(resolve => setTimeout(resolve, 2000));
+      // Positions are minted in whole TH
+      if (!Number.isInteger(thAmount)) {
+        throw new Error(`Fractions must add up to a whole number of TH/s (${asicInfo.fractionHashRate} TH/s each)`);
+      }
       
-      // Update user position
-      setUserPosition(prev => ({
-        ...prev,
-        ownedFractions: prev.ownedFractions + fractions,
-        totalHashRateOwned: prev.totalHashRateOwned + (fractions * asicInfo.fractionHashRate),
-        dailyEarnings: prev.dailyEarnings + (fractions * asicInfo.dailyRoi)
-      }));
+      const machine = await web3Service.selectMachineFor(thAmount);
+      console.log(`Purchasing ${fractions} fractions on ${machine.serialNumber} for $${fractions * asicInfo.pricePerFraction}`);
       
-      // Update available fractions
-      setAsicInfo(prev => ({
-        ...prev,
-        availableFractions: prev.availableFractions - fractions
-      }));
+      const txHash = await web3Service.purchaseMiningPosition(machine.machineId, thAmount);
       
-      setSuccessMessage(`Successfully purchased ${fractions} fractions (${fractions * asicInfo.fractionHashRate} TH/s)!`);
+      setSuccessMessage(`Successfully purchased ${fractions} fractions (${thAmount} TH/s) on ${machine.serialNumber}! (tx ${txHash.slice(0, 10)}...)`);
       setPurchaseAmount('1');
+      await loadUserPosition();
     } catch (err: any) {
       setError(err.message || 'Failed to purchase fractions');
     } finally {
@@ -129,20 +171,15 @@ export const AsicMiningDashboard: React.FC<AsicMiningDashboardProps> = ({
     setSuccessMessage(null);
     
     try {
-      // Calculate pending earnings (simplified)
-      const hoursElapsed = (Date.now() - userPosition.lastClaimTime) / (1000 * 60 * 60);
-      const pendingEarnings = (userPosition.dailyEarnings / 24) * hoursElapsed;
-      
-      // Simulate claim transaction
-      await new Promise(resolve => setTimeout(resolve, 1500));
+      const pendingEarnings = userPosition.pendingEarnings;
       
-      setUserPosition(prev => ({
-        ...prev,
-        totalEarned: prev.totalEarned + pendingEarnings,
-        lastClaimTime: Date.now()
-      }));
+      // One claim per position NFT with earnings to collect
+      for (const tokenId of userPosition.tokenIds) {
+        await web3Service.claimEarnings(tokenId);
+      }
       
       setSuccessMessage(`Successfully claimed $${pendingEarnings.toFixed(2)} in earnings!`);
+      await loadUserPosition();
     } catch (err: any) {
       setError(err.message || 'Failed to claim earnings');
     } finally {
@@ -154,12 +191,12 @@ export const AsicMiningDashboard: React.FC<AsicMiningDashboardProps> = ({
     return value.toFixed(decimals);
   };
 
-  const calculatePendingEarnings = () => {
-    const hoursElapsed = (Date.now() - userPosition.lastClaimTime) / (1000 * 60 * 60);
-    return (userPosition.dailyEarnings / 24) * hoursElapsed;
-  };
+  const calculatePendingEarnings = () => userPosition.pendingEarnings;
+
+  const dailyEarningsPerFraction = asicInfo.dailyEarningsPerTh * asicInfo.fractionHashRate;
 
   const calculateHashratePercentage = (hashrate: number) => {
+    if (asicInfo.totalHashRate === 0) return '0.00';
     return ((hashrate / asicInfo.totalHashRate) * 100).toFixed(2);
   };
 
@@ -177,7 +214,7 @@ export const AsicMiningDashboard: React.FC<AsicMiningDashboardProps> = ({
         <div className="asic-header">
           <h3>🔧 {asicInfo.model}</h3>
           <div className="asic-specs">
-            <span className="spec">216 TH/s Total</span>
+            <span className="spec">{asicInfo.totalHashRate} TH/s Total</span>
             <span className="spec">3,510W Power</span>
             <span className="spec">SHA-256</span>
           </div>
@@ -202,8 +239,8 @@ export const AsicMiningDashboard: React.FC<AsicMiningDashboardProps> = ({
               <span className="stat-value">{formatNumber(asicInfo.availableFractions, 1)}</span>
             </div>
             <div className="stat-item">
-              <span className="stat-label">Daily ROI/Fraction</span>
-              <span className="stat-value">${formatNumber(asicInfo.dailyRoi)}</span>
+              <span className="stat-label">Daily Earnings/Fraction</span>
+              <span className="stat-value">${formatNumber(dailyEarningsPerFraction)}</span>
             </div>
             <div className="stat-item">
               <span className="stat-label">Price/Fraction</span>
@@ -244,6 +281,10 @@ export const AsicMiningDashboard: React.FC<AsicMiningDashboardProps> = ({
                 <span className="position-label">Pending Earnings</span>
                 <span className="position-value">${formatNumber(calculatePendingEarnings())}</span>
               </div>
+              <div className="position-item">
+                <span className="position-label">Backing Machines</span>
+                <span className="position-value">{userPosition.machineSerials.join(', ')}</span>
+              </div>
             </div>
             
             <button 
@@ -271,8 +312,8 @@ export const AsicMiningDashboard: React.FC<AsicMiningDashboardProps> = ({
             <h4>Fraction Details:</h4>
             <ul>
               <li>📈 Hashrate: {asicInfo.fractionHashRate} TH/s per fraction</li>
-              <li>💵 Daily ROI: ${asicInfo.dailyRoi} per fraction</li>
-              <li>🔋 Power Share: {(3510 / asicInfo.totalFractions * parseFloat(purchaseAmount || '1')).toFixed(0)}W</li>
+              <li>💵 Daily earnings: ${formatNumber(dailyEarningsPerFraction)} per fraction at today's hashprice</li>
+              <li>🔋 Power Share: {(3510 / 216 * asicInfo.fractionHashRate * parseFloat(purchaseAmount || '1')).toFixed(0)}W</li>
               <li>📊 Machine Share: {calculateHashratePercentage(asicInfo.fractionHashRate * parseFloat(purchaseAmount || '1'))}%</li>
             </ul>
           </div>
@@ -300,7 +341,7 @@ export const AsicMiningDashboard: React.FC<AsicMiningDashboardProps> = ({
               <span>Hashrate: {formatNumber((parseFloat(purchaseAmount || '0')) * asicInfo.fractionHashRate)} TH/s</span>
             </div>
             <div className="summary-item">
-              <span>Daily Earnings: ${formatNumber((parseFloat(purchaseAmount || '0')) * asicInfo.dailyRoi)}</span>
+              <span>Daily Earnings: ${formatNumber((parseFloat(purchaseAmount || '0')) * dailyEarningsPerFraction)}</span>
             </div>
             <div className="summary-item total">
               <span>Total Cost: ${formatNumber((parseFloat(purchaseAmount || '0')) * asicInfo.pricePerFraction, 0)}</span>
@@ -323,19 +364,21 @@ export const AsicMiningDashboard: React.FC<AsicMiningDashboardProps> = ({
         <div className="calculator-grid">
           <div className="calc-item">
             <span className="calc-label">Revenue per TH/s/day:</span>
-            <span className="calc-value">${(asicInfo.dailyRoi / asicInfo.fractionHashRate).toFixed(3)}</span>
+            <span className="calc-value">${asicInfo.dailyEarningsPerTh.toFixed(3)}</span>
           </div>
           <div className="calc-item">
             <span className="calc-label">Annual ROI per fraction:</span>
-            <span className="calc-value">{((asicInfo.dailyRoi * 365 / asicInfo.pricePerFraction) * 100).toFixed(1)}%</span>
+            <span className="calc-value">{((dailyEarningsPerFraction * 365 / asicInfo.pricePerFraction) * 100).toFixed(1)}%</span>
           </div>
           <div className="calc-item">
             <span className="calc-label">Break-even period:</span>
-            <span className="calc-value">{(asicInfo.pricePerFraction / asicInfo.dailyRoi).toFixed(0)} days</span>
+            <span className="calc-value">
+              {dailyEarningsPerFraction > 0 ? `${(asicInfo.pricePerFraction / dailyEarningsPerFraction).toFixed(0)} days` : 'Not at today\'s hashprice'}
+            </span>
           </div>
           <div className="calc-item">
             <span className="calc-label">Monthly earnings/fraction:</span>
-            <span className="calc-value">${(asicInfo.dailyRoi * 30).toFixed(0)}</span>
+            <span className="calc-value">${(dailyEarningsPerFraction * 30).toFixed(0)}</span>
           </div>
         </div>
       </div>
@@ -6,18 +6,19 @@ interface BusinessModelDashboardProps {
   userAddress: string;
 }
 
+// Price, earnings and breakeven follow TokenizedMining's live hashprice
 interface MiningParameters {
-  preco_inicial_th: number; // US$35/TH
-  lucro_diario_base: number; // US$0.075/TH/dia
+  preco_inicial_th: number; // US$/TH
+  lucro_diario_base: number; // US$/TH/dia, after energy
   markup_percentual: number; // 5%
   custo_energia_kwh: number; // US$0.07
-  entrada_minima_th: number; // 20 TH
-  entrada_minima_usd: number; // US$700
-  lucro_diario_pacote: number; // US$1.50/dia
-  lucro_mensal_pacote: number; // US$45/mês
-  roi_anual: number; // 77%
-  breakeven_meses: number; // 15.5 meses
-  breakeven_defi_meses: number; // 13.6 meses
+  entrada_minima_th: number; // 18 TH
+  entrada_minima_usd: number; // entrada_minima_th × preco_inicial_th
+  lucro_diario_pacote: number; // US$/dia per minimum entry
+  lucro_mensal_pacote: number; // US$/mês per minimum entry
+  roi_anual: number; // %
+  breakeven_meses: number;
+  breakeven_defi_meses: number;
   reinvestimento_defi_diario: number; // US$0.50/dia
   crescimento_th_mensal: number; // 0.429 TH/mês
 }
@@ -40,18 +41,18 @@ export const BusinessModelDashboard: React.FC<BusinessModelDashboardProps> = ({
   web3Service,
   userAddress
 }) => {
-  const [params] = useState<MiningParameters>({
-    preco_inicial_th: 35.00,
-    lucro_diario_base: 0.075,
+  const [params, setParams] = useState<MiningParameters>({
+    preco_inicial_th: 0,
+    lucro_diario_base: 0,
     markup_percentual: 5,
     custo_energia_kwh: 0.07,
     entrada_minima_th: 18,
-    entrada_minima_usd: 630,
-    lucro_diario_pacote: 1.35,
-    lucro_mensal_pacote: 40.5,
-    roi_anual: 77,
-    breakeven_meses: 15.5,
-    breakeven_defi_meses: 13.6,
+    entrada_minima_usd: 0,
+    lucro_diario_pacote: 0,
+    lucro_mensal_pacote: 0,
+    roi_anual: 0,
+    breakeven_meses: 0,
+    breakeven_defi_meses: 0,
     reinvestimento_defi_diario: 0.50,
     crescimento_th_mensal: 0.429
   });
@@ -76,6 +77,34 @@ export const BusinessModelDashboard: React.FC<BusinessModelDashboardProps> = ({
   const [error, setError] = useState<string | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
 
+  useEffect(() => {
+    if (!web3Service) return;
+
+    web3Service.getMiningPricing()
+      .then((pricing) => {
+        setBtcPrice(pricing.btcPrice.toNumber());
+        setParams(prev => {
+          const preco = pricing.thPrice.toNumber();
+          const lucro = pricing.dailyEarningsPerTh.toNumber();
+          const investimento = preco * prev.entrada_minima_th;
+          const lucroPacote = lucro * prev.entrada_minima_th;
+          return {
+            ...prev,
+            preco_inicial_th: preco,
+            lucro_diario_base: lucro,
+            custo_energia_kwh: pricing.energyPricePerKwh.toNumber(),
+            entrada_minima_usd: investimento,
+            lucro_diario_pacote: lucroPacote,
+            lucro_mensal_pacote: lucroPacote * 30,
+            roi_anual: Math.round((lucro * 365 / preco) * 100),
+            breakeven_meses: Number((investimento / lucroPacote / 30).toFixed(1)),
+            breakeven_defi_meses: Number((investimento / (lucroPacote + prev.reinvestimento_defi_diario) / 30).toFixed(1))
+          };
+        });
+      })
+      .catch((err) => console.error('Error loading TH pricing:', err));
+  }, [web3Service]);
+
   // Simulate real-time data updates
   useEffect(() => {
     const interval = setInterval(() => {
@@ -109,7 +138,7 @@ export const BusinessModelDashboard: React.FC<BusinessModelDashboardProps> = ({
     const dailyEarnings = calculateDailyEarnings(th);
     const annualEarnings = dailyEarnings * 365;
     const investment = calculatePurchaseCost(th);
-    return (annualEarnings / investment) * 100;
+    return investment > 0 ? (annualEarnings / investment) * 100 : 0;
   };
 
   const calculateBreakevenDays = (th: number, withDefi: boolean = false) => {
@@ -187,7 +216,7 @@ export const BusinessModelDashboard: React.FC<BusinessModelDashboardProps> = ({
           </div>
           <div className="param-item">
             <span className="param-label">Entrada mínima:</span>
-            <span className="param-value">{params.entrada_minima_th} TH (${params.entrada_minima_usd})</span>
+            <span className="param-value">{params.entrada_minima_th} TH (${formatNumber(params.entrada_minima_usd)})</span>
           </div>
           <div className="param-item">
             <span className="param-label">ROI anual:</span>
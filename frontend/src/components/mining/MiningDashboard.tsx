@@ -53,15 +53,27 @@ export const MiningDashboard: React.FC<MiningDashboardProps> = ({
       
       // Fetch pool info
       const pool = await web3Service.getPoolInfo(poolId);
-      setPoolInfo(pool);
+      setPoolInfo({
+        ...pool,
+        totalHashRate: pool.totalHashRate.toString(),
+        totalStaked: pool.totalStaked.format(),
+        rewardRate: pool.rewardRate.format(),
+        minimumStake: pool.minimumStake.format(),
+        lockupPeriod: pool.lockupPeriod.toString()
+      });
       
       // Fetch user info
       const user = await web3Service.getUserInfo(poolId, userAddress);
-      setUserInfo(user);
+      setUserInfo({
+        amount: user.amount.format(),
+        rewardDebt: user.rewardDebt.format(),
+        stakeTime: user.stakeTime.toString(),
+        lastClaimTime: user.lastClaimTime.toString()
+      });
       
       // Fetch pending rewards
       const pending = await web3Service.getPendingRewards(poolId, userAddress);
-      setPendingRewards(pending);
+      setPendingRewards(pending.format());
       
       // Fetch BTC price
       const price = await web3Service.getBTCPrice();
@@ -69,13 +81,13 @@ export const MiningDashboard: React.FC<MiningDashboardProps> = ({
       
       // Fetch balances
       const cbBTCBal = await web3Service.getCbBTCBalance(userAddress);
-      setCbBTCBalance(cbBTCBal);
+      setCbBTCBalance(cbBTCBal.format());
       
       const miningBal = await web3Service.getMiningTokenBalance(userAddress);
-      setMiningTokenBalance(miningBal);
+      setMiningTokenBalance(miningBal.format());
       
       const unclaimed = await web3Service.getUnclaimedRewards(userAddress);
-      setUnclaimedRewards(unclaimed);
+      setUnclaimedRewards(unclaimed.format());
       
     } catch (err: any) {
       setError(err.message || 'Failed to fetch mining data');
@@ -98,7 +110,8 @@ export const MiningDashboard: React.FC<MiningDashboardProps> = ({
     setSuccessMessage(null);
     
     try {
-      await web3Service.stakeToPool(poolId, stakeAmount);
+      const amount = await web3Service.parseAmount('cbBTC', stakeAmount);
+      await web3Service.stakeToPool(poolId, amount);
       setSuccessMessage(`Successfully staked ${stakeAmount} cbBTC!`);
       setStakeAmount('');
       await fetchData();
@@ -117,7 +130,8 @@ export const MiningDashboard: React.FC<MiningDashboardProps> = ({
     setSuccessMessage(null);
     
     try {
-      await web3Service.unstakeFromPool(poolId, unstakeAmount);
+      const amount = await web3Service.parseAmount('cbBTC', unstakeAmount);
+      await web3Service.unstakeFromPool(poolId, amount);
       setSuccessMessage(`Successfully unstaked ${unstakeAmount} cbBTC!`);
       setUnstakeAmount('');
       await fetchData();
@@ -1,5 +1,5 @@
-import React, { useState, useEffect } from 'react';
-import { Web3Service } from '../../services/web3Service';
+import React, { useState, useEffect, useCallback } from 'react';
+import { Web3Service, TransactionCallbacks, TransactionState } from '../../services/web3Service';
 
 interface MiningDashboardCompleteProps {
   web3Service: Web3Service | null;
@@ -24,6 +24,33 @@ interface ReinvestmentPlan {
   additionalHashrate: number;
 }
 
+interface PoolPosition {
+  poolId: number;
+  pendingRewards: number;
+  pendingCbBTCRewards: number;
+}
+
+// One wallet transaction of an action; claims across pools send several
+interface TransactionStatus {
+  label: string;
+  state: TransactionState;
+  hash?: string;
+}
+
+// Sends one transaction with its own status, resolving to its hash; `confirmedMessage` joins the success message once mined
+type TrackTransaction = (
+  label: string,
+  confirmedMessage: string,
+  send: (callbacks: TransactionCallbacks) => Promise<string>
+) => Promise<string>;
+
+const SECONDS_PER_DAY = 86400;
+const REINVEST_MIN_AMOUNT = '0.001'; // cbBTC, parsed with the token's on-chain decimals
+const REINVEST_FREQUENCY = SECONDS_PER_DAY;
+const FALLBACK_BTC_PRICE = 50000;
+
+const shortHash = (hash: string) => `${hash.slice(0, 10)}...${hash.slice(-8)}`;
+
 export const MiningDashboardComplete: React.FC<MiningDashboardCompleteProps> = ({
   web3Service,
   userAddress
@@ -46,206 +73,220 @@ export const MiningDashboardComplete: React.FC<MiningDashboardCompleteProps> = (
     additionalHashrate: 0
   });
   
+  const [positions, setPositions] = useState<PoolPosition[]>([]);
+  const [btcPrice, setBtcPrice] = useState(FALLBACK_BTC_PRICE);
   const [isLoading, setIsLoading] = useState(false);
   const [activeTab, setActiveTab] = useState<'overview' | 'rewards' | 'aave' | 'reinvest'>('overview');
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
+  const [txStatuses, setTxStatuses] = useState<TransactionStatus[]>([]);
 
-  // Load user data
-  useEffect(() => {
-    if (web3Service && userAddress) {
-      loadUserData();
-      const interval = setInterval(loadUserData, 30000); // Update every 30 seconds
-      return () => clearInterval(interval);
-    }
-  }, [web3Service, userAddress]);
-
-  const loadUserData = async () => {
-    if (!web3Service) return;
+  const loadUserData = useCallback(async () => {
+    if (!web3Service || !userAddress) return;
     
     try {
-      // Simulate loading user mining data
-      const mockStats: UserStats = {
-        totalStaked: 1.5, // 1.5 cbBTC
-        totalHashrate: 40, // 40 TH/s
-        pendingRewards: 0.025, // 0.025 mining tokens
-        pendingCbBTCRewards: 0.002, // 0.002 cbBTC
-        aaveYield: 0.001, // 0.001 cbBTC
-        totalEarned: 0.15, // Total earned so far
-        dailyRewards: 0.003, // Daily rewards
-        monthlyProjection: 0.09 // Monthly projection
-      };
+      const poolCount = await web3Service.getPoolCount();
+      const poolIds = Array.from({ length: poolCount }, (_, poolId) => poolId);
+      
+      const pools = await Promise.all(poolIds.map(async (poolId) => {
+        const [info, user, pendingRewards, pendingCbBTCRewards] = await Promise.all([
+          web3Service.getPoolInfo(poolId),
+          web3Service.getUserInfo(poolId, userAddress),
+          web3Service.getPendingRewards(poolId, userAddress),
+          web3Service.getPendingCbBTCRewards(poolId, userAddress)
+        ]);
+        
+        const staked = user.amount.toNumber();
+        const poolStaked = info.totalStaked.toNumber();
+        const share = poolStaked > 0 ? staked / poolStaked : 0;
+        
+        return {
+          poolId,
+          staked,
+          hashrate: share * Number(info.totalHashRate),
+          dailyRewards: share * info.rewardRate.toNumber() * SECONDS_PER_DAY, // rewardRate is per second
+          pendingRewards: pendingRewards.toNumber(),
+          pendingCbBTCRewards: pendingCbBTCRewards.toNumber()
+        };
+      }));
       
-      const mockReinvestment: ReinvestmentPlan = {
-        enabled: true,
-        percentage: 60,
-        totalReinvested: 0.08,
-        additionalHashrate: 4.5
-      };
+      const [aaveYield, reinvestment] = await Promise.all([
+        web3Service.getYieldBalance(userAddress),
+        web3Service.getUserReinvestmentData(userAddress)
+      ]);
       
-      setUserStats(mockStats);
-      setReinvestmentPlan(mockReinvestment);
+      const sum = (key: keyof typeof pools[number]) => pools.reduce((total, pool) => total + pool[key], 0);
+      const dailyRewards = sum('dailyRewards');
+      const pendingRewards = sum('pendingRewards');
+      const pendingCbBTCRewards = sum('pendingCbBTCRewards');
+      
+      setPositions(pools
+        .filter(pool => pool.staked > 0)
+        .map(({ poolId, pendingRewards, pendingCbBTCRewards }) => ({ poolId, pendingRewards, pendingCbBTCRewards })));
+      
+      setUserStats({
+        totalStaked: sum('staked'),
+        totalHashrate: sum('hashrate') + parseFloat(reinvestment.additionalHashrate),
+        pendingRewards,
+        pendingCbBTCRewards,
+        aaveYield: aaveYield.toNumber(),
+        // Unclaimed rewards plus everything already compounded back into hashrate
+        totalEarned: pendingRewards + pendingCbBTCRewards + aaveYield.toNumber() + reinvestment.rewardsGenerated.toNumber(),
+        dailyRewards,
+        monthlyProjection: dailyRewards * 30
+      });
+      
+      setReinvestmentPlan({
+        enabled: reinvestment.enabled,
+        percentage: reinvestment.percentage,
+        totalReinvested: reinvestment.totalReinvested.toNumber(),
+        additionalHashrate: parseFloat(reinvestment.additionalHashrate)
+      });
     } catch (error) {
       console.error('Error loading user data:', error);
     }
-  };
-
-  const handleClaimMiningRewards = async () => {
-    if (!web3Service) return;
-    
-    setIsLoading(true);
-    setError(null);
-    setSuccess(null);
     
     try {
-      // Simulate claiming mining rewards
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      
-      setSuccess(`Successfully claimed ${userStats.pendingRewards.toFixed(4)} mining tokens!`);
-      
-      // Update stats
-      setUserStats(prev => ({
-        ...prev,
-        pendingRewards: 0,
-        totalEarned: prev.totalEarned + prev.pendingRewards
-      }));
-    } catch (error: any) {
-      setError(error.message || 'Failed to claim mining rewards');
-    } finally {
-      setIsLoading(false);
+      const { price } = await web3Service.getBTCPrice();
+      setBtcPrice(parseFloat(price));
+    } catch (error) {
+      console.error('Error loading BTC price:', error);
     }
-  };
+  }, [web3Service, userAddress]);
 
-  const handleClaimCbBTCRewards = async () => {
-    if (!web3Service) return;
-    
+  // Load user data
+  useEffect(() => {
+    if (web3Service && userAddress) {
+      loadUserData();
+      const interval = setInterval(loadUserData, 30000); // Update every 30 seconds
+      return () => clearInterval(interval);
+    }
+  }, [web3Service, userAddress, loadUserData]);
+
+  // Runs one or more transactions, tracking each pending → confirmed/failed, then reloads on-chain state.
+  // The success message only lists the transactions that confirmed, also when a later one fails.
+  const runTransactions = async (
+    send: (track: TrackTransaction) => Promise<unknown>,
+    failureMessage: string
+  ) => {
     setIsLoading(true);
     setError(null);
     setSuccess(null);
+    setTxStatuses([]);
     
-    try {
-      // Simulate claiming cbBTC rewards
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      
-      setSuccess(`Successfully claimed ${userStats.pendingCbBTCRewards.toFixed(4)} cbBTC!`);
+    const confirmed: string[] = [];
+    let sent = 0;
+    const update = (index: number, status: Partial<TransactionStatus>) =>
+      setTxStatuses(prev => prev.map((entry, i) => (i === index ? { ...entry, ...status } : entry)));
+    
+    const track: TrackTransaction = async (label, confirmedMessage, sendOne) => {
+      const index = sent++;
+      let hash: string | undefined;
+      setTxStatuses(prev => [...prev, { label, state: 'pending' }]);
       
-      // Update stats
-      setUserStats(prev => ({
-        ...prev,
-        pendingCbBTCRewards: 0,
-        totalEarned: prev.totalEarned + prev.pendingCbBTCRewards
-      }));
+      try {
+        hash = await sendOne({
+          onTransactionHash: (broadcast) => {
+            hash = broadcast;
+            update(index, { hash: broadcast });
+          }
+        });
+        update(index, { state: 'confirmed', hash });
+        confirmed.push(confirmedMessage);
+        return hash;
+      } catch (error) {
+        update(index, { state: 'failed', hash });
+        throw error;
+      }
+    };
+    
+    try {
+      await send(track);
     } catch (error: any) {
-      setError(error.message || 'Failed to claim cbBTC rewards');
+      setError(error.message || failureMessage);
     } finally {
+      if (confirmed.length > 0) setSuccess(confirmed.join(' '));
       setIsLoading(false);
+      await loadUserData();
     }
   };
 
-  const handleClaimAaveYield = async () => {
-    if (!web3Service) return;
-    
-    setIsLoading(true);
-    setError(null);
-    setSuccess(null);
-    
-    try {
-      // Simulate claiming Aave yield
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      
-      setSuccess(`Successfully claimed ${userStats.aaveYield.toFixed(4)} cbBTC from Aave!`);
-      
-      // Update stats
-      setUserStats(prev => ({
-        ...prev,
-        aaveYield: 0,
-        totalEarned: prev.totalEarned + prev.aaveYield
-      }));
-    } catch (error: any) {
-      setError(error.message || 'Failed to claim Aave yield');
-    } finally {
-      setIsLoading(false);
+  const claimMiningRewardsFromPools = async (track: TrackTransaction) => {
+    for (const position of positions.filter(position => position.pendingRewards > 0)) {
+      await track(
+        `Claim mining rewards from pool ${position.poolId}`,
+        `Claimed ${position.pendingRewards.toFixed(4)} mining tokens from pool ${position.poolId}.`,
+        (callbacks) => web3Service!.claimMiningRewards(position.poolId, callbacks)
+      );
     }
   };
 
-  const handleClaimAllRewards = async () => {
+  const claimCbBTCRewardsFromPools = async (track: TrackTransaction) => {
+    for (const position of positions.filter(position => position.pendingCbBTCRewards > 0)) {
+      await track(
+        `Claim cbBTC rewards from pool ${position.poolId}`,
+        `Claimed ${position.pendingCbBTCRewards.toFixed(4)} cbBTC from pool ${position.poolId}.`,
+        (callbacks) => web3Service!.claimCbBTCRewards(position.poolId, callbacks)
+      );
+    }
+  };
+
+  const claimAaveYield = (track: TrackTransaction) => track(
+    'Claim Aave yield',
+    `Claimed ${userStats.aaveYield.toFixed(4)} cbBTC from Aave.`,
+    (callbacks) => web3Service!.claimAaveYield(callbacks)
+  );
+
+  const handleClaimMiningRewards = async () => {
     if (!web3Service) return;
     
-    setIsLoading(true);
-    setError(null);
-    setSuccess(null);
+    await runTransactions(claimMiningRewardsFromPools, 'Failed to claim mining rewards');
+  };
+
+  const handleClaimCbBTCRewards = async () => {
+    if (!web3Service) return;
     
-    try {
-      // Simulate claiming all rewards
-      await new Promise(resolve => setTimeout(resolve, 3000));
-      
-      const totalClaimed = userStats.pendingRewards + userStats.pendingCbBTCRewards + userStats.aaveYield;
-      setSuccess(`Successfully claimed all rewards! Total: ${totalClaimed.toFixed(4)} tokens`);
-      
-      // Update stats
-      setUserStats(prev => ({
-        ...prev,
-        pendingRewards: 0,
-        pendingCbBTCRewards: 0,
-        aaveYield: 0,
-        totalEarned: prev.totalEarned + totalClaimed
-      }));
-    } catch (error: any) {
-      setError(error.message || 'Failed to claim all rewards');
-    } finally {
-      setIsLoading(false);
-    }
+    await runTransactions(claimCbBTCRewardsFromPools, 'Failed to claim cbBTC rewards');
   };
 
-  const handleDepositToAave = async () => {
+  const handleClaimAaveYield = async () => {
     if (!web3Service) return;
     
-    setIsLoading(true);
-    setError(null);
-    setSuccess(null);
+    await runTransactions(claimAaveYield, 'Failed to claim Aave yield');
+  };
+
+  const handleClaimAllRewards = async () => {
+    if (!web3Service) return;
     
-    try {
-      // Simulate depositing to Aave
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      
-      const depositAmount = userStats.pendingCbBTCRewards;
-      setSuccess(`Successfully deposited ${depositAmount.toFixed(4)} cbBTC to Aave for yield farming!`);
-      
-      // Update stats
-      setUserStats(prev => ({
-        ...prev,
-        pendingCbBTCRewards: 0
-      }));
-    } catch (error: any) {
-      setError(error.message || 'Failed to deposit to Aave');
-    } finally {
-      setIsLoading(false);
-    }
+    await runTransactions(
+      async (track) => {
+        if (userStats.pendingRewards > 0) await claimMiningRewardsFromPools(track);
+        if (userStats.pendingCbBTCRewards > 0) await claimCbBTCRewardsFromPools(track);
+        if (userStats.aaveYield > 0) await claimAaveYield(track);
+      },
+      'Failed to claim all rewards'
+    );
   };
 
   const handleUpdateReinvestment = async (percentage: number) => {
     if (!web3Service) return;
     
-    setIsLoading(true);
-    setError(null);
-    setSuccess(null);
+    // Reinvest into the first pool the user is staked in
+    const targetPoolId = positions.length > 0 ? positions[0].poolId : 0;
     
-    try {
-      // Simulate updating reinvestment plan
-      await new Promise(resolve => setTimeout(resolve, 1500));
-      
-      setReinvestmentPlan(prev => ({
-        ...prev,
-        enabled: percentage > 0,
-        percentage
-      }));
-      
-      setSuccess(`Reinvestment plan updated: ${percentage}% auto-reinvestment ${percentage > 0 ? 'enabled' : 'disabled'}`);
-    } catch (error: any) {
-      setError(error.message || 'Failed to update reinvestment plan');
-    } finally {
-      setIsLoading(false);
-    }
+    await runTransactions(
+      async (track) => {
+        const confirmedMessage = `Reinvestment plan updated: ${percentage}% auto-reinvestment ${percentage > 0 ? 'enabled' : 'disabled'}`;
+        if (percentage === 0) {
+          return track('Update reinvestment plan', confirmedMessage, (callbacks) => web3Service.disableAutoReinvestment(callbacks));
+        }
+        const minAmount = await web3Service.parseAmount('cbBTC', REINVEST_MIN_AMOUNT);
+        return track('Update reinvestment plan', confirmedMessage, (callbacks) =>
+          web3Service.setupReinvestmentPlan(percentage, minAmount, targetPoolId, REINVEST_FREQUENCY, callbacks)
+        );
+      },
+      'Failed to update reinvestment plan'
+    );
   };
 
   return (
@@ -265,7 +306,7 @@ export const MiningDashboardComplete: React.FC<MiningDashboardCompleteProps> = (
             <div className="stat-icon">💰</div>
             <div className="stat-info">
               <span className="stat-label">Daily Rewards</span>
-              <span className="stat-value">${(userStats.dailyRewards * 50000).toFixed(2)}</span>
+              <span className="stat-value">${(userStats.dailyRewards * btcPrice).toFixed(2)}</span>
             </div>
           </div>
           
@@ -273,7 +314,7 @@ export const MiningDashboardComplete: React.FC<MiningDashboardCompleteProps> = (
             <div className="stat-icon">📈</div>
             <div className="stat-info">
               <span className="stat-label">Total Earned</span>
-              <span className="stat-value">${(userStats.totalEarned * 50000).toFixed(2)}</span>
+              <span className="stat-value">${(userStats.totalEarned * btcPrice).toFixed(2)}</span>
             </div>
           </div>
           
@@ -281,7 +322,7 @@ export const MiningDashboardComplete: React.FC<MiningDashboardCompleteProps> = (
             <div className="stat-icon">🎯</div>
             <div className="stat-info">
               <span className="stat-label">Monthly Projection</span>
-              <span className="stat-value">${(userStats.monthlyProjection * 50000).toFixed(2)}</span>
+              <span className="stat-value">${(userStats.monthlyProjection * btcPrice).toFixed(2)}</span>
             </div>
           </div>
         </div>
@@ -444,8 +485,8 @@ export const MiningDashboardComplete: React.FC<MiningDashboardCompleteProps> = (
               
               <div className="aave-stats">
                 <div className="aave-stat">
-                  <span className="stat-label">Available to Deposit</span>
-                  <span className="stat-value">{userStats.pendingCbBTCRewards.toFixed(4)} cbBTC</span>
+                  <span className="stat-label">Your Aave Yield</span>
+                  <span className="stat-value">{userStats.aaveYield.toFixed(4)} cbBTC</span>
                 </div>
                 <div className="aave-stat">
                   <span className="stat-label">Current APY</span>
@@ -458,13 +499,6 @@ export const MiningDashboardComplete: React.FC<MiningDashboardCompleteProps> = (
               </div>
               
               <div className="aave-actions">
-                <button 
-                  className="aave-btn primary"
-                  onClick={handleDepositToAave}
-                  disabled={isLoading || userStats.pendingCbBTCRewards === 0}
-                >
-                  Deposit to Aave
-                </button>
                 <button 
                   className="aave-btn"
                   disabled={isLoading}
@@ -474,7 +508,7 @@ export const MiningDashboardComplete: React.FC<MiningDashboardCompleteProps> = (
               </div>
               
               <div className="aave-info">
-                <p>Automatically deposit your cbBTC rewards to Aave V3 for additional yield. Your deposits earn interest while remaining as collateral for future opportunities.</p>
+                <p>The mining pool deposits its cbBTC to Aave V3 for additional yield; deposits are made by the pool operator, not from your wallet. Claim your share of the yield from the Rewards tab.</p>
               </div>
             </div>
           </div>
@@ -540,17 +574,32 @@ export const MiningDashboardComplete: React.FC<MiningDashboardCompleteProps> = (
       </div>
 
       {/* Messages */}
+      {txStatuses.filter(status => status.state === 'pending').map(status => (
+        <div key={status.label} className="message pending">
+          <div className="loading-spinner"></div>
+          <span>
+            {status.label}: {status.hash ? `waiting for confirmation (${shortHash(status.hash)})` : 'confirm in your wallet'}
+          </span>
+        </div>
+      ))}
+      
       {error && (
         <div className="message error">
           <div className="message-icon">⚠️</div>
-          <span>{error}</span>
+          <span>
+            {error}
+            {txStatuses.filter(status => status.state === 'failed' && status.hash).map(status => ` (tx ${shortHash(status.hash!)})`)}
+          </span>
         </div>
       )}
       
       {success && (
         <div className="message success">
           <div className="message-icon">✅</div>
-          <span>{success}</span>
+          <span>
+            {success}
+            {txStatuses.filter(status => status.state === 'confirmed' && status.hash).map(status => ` (tx ${shortHash(status.hash!)})`)}
+          </span>
         </div>
       )}
 
@@ -1014,6 +1063,17 @@ export const MiningDashboardComplete: React.FC<MiningDashboardCompleteProps> = (
           color: #166534;
         }
         
+        .message.pending {
+          background: #eff6ff;
+          border: 1px solid #bfdbfe;
+          color: #1e40af;
+        }
+        
+        .message.pending .loading-spinner {
+          border-color: rgba(30, 64, 175, 0.3);
+          border-top-color: #1e40af;
+        }
+        
         .message-icon {
           font-size: 1.2rem;
         }
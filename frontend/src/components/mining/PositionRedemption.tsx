@@ -0,0 +1,233 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { MiningMachine, TransactionState, Web3Service } from '../../services/web3Service';
+import { TokenAmount } from '../../services/tokenAmount';
+
+interface PositionRedemptionProps {
+  web3Service: Web3Service | null;
+  userAddress: string;
+}
+
+interface RedeemablePosition {
+  tokenId: number;
+  thAmount: number;
+  machine: MiningMachine;
+  // Null while the retired machine's sale has not been recorded
+  payout: TokenAmount | null;
+  pendingEarnings: TokenAmount; // USDC, paid with the redemption
+}
+
+/**
+ * End of a machine's life: positions on retired machines, and once the operator has
+ * recorded the sale, a burn of each NFT for its cbBTC share of the proceeds
+ */
+export const PositionRedemption: React.FC<PositionRedemptionProps> = ({
+  web3Service,
+  userAddress
+}) => {
+  const [positions, setPositions] = useState<RedeemablePosition[]>([]);
+  const [transactions, setTransactions] = useState<Record<number, TransactionState>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  const loadPositions = useCallback(async () => {
+    if (!web3Service || !userAddress) return;
+
+    try {
+      const [machines, tokenIds] = await Promise.all([
+        web3Service.getMachines(),
+        web3Service.getUserPositions(userAddress)
+      ]);
+
+      const retired = await Promise.all(tokenIds.map(async (tokenId): Promise<RedeemablePosition | null> => {
+        const details = await web3Service.getPositionDetails(tokenId);
+        const machine = machines[details.machineId - 1];
+        if (!machine || machine.status !== 'retired') return null;
+
+        const [settlement, pending] = await Promise.all([
+          web3Service.getMachineSettlement(machine.machineId),
+          web3Service.getPendingEarnings(tokenId)
+        ]);
+        return {
+          tokenId,
+          thAmount: details.thAmount,
+          machine,
+          payout: settlement.settledAt > 0 ? await web3Service.getRedemptionAmount(tokenId) : null,
+          pendingEarnings: pending.total
+        };
+      }));
+
+      setPositions(retired.filter((position): position is RedeemablePosition => position !== null));
+    } catch (err) {
+      console.error('Error loading redeemable positions:', err);
+    }
+  }, [web3Service, userAddress]);
+
+  useEffect(() => {
+    loadPositions();
+  }, [loadPositions]);
+
+  const handleRedeem = async (position: RedeemablePosition) => {
+    if (!web3Service || !position.payout) return;
+
+    setError(null);
+    setSuccessMessage(null);
+    setTransactions(prev => ({ ...prev, [position.tokenId]: 'pending' }));
+
+    try {
+      const txHash = await web3Service.redeemPosition(position.tokenId);
+
+      setTransactions(prev => ({ ...prev, [position.tokenId]: 'confirmed' }));
+      setSuccessMessage(`Redeemed position #${position.tokenId} for ${position.payout.toString()} (tx ${txHash.slice(0, 10)}...)`);
+      await loadPositions();
+    } catch (err: any) {
+      setTransactions(prev => ({ ...prev, [position.tokenId]: 'failed' }));
+      setError(err.message || 'Failed to redeem position');
+    }
+  };
+
+  if (positions.length === 0 && !error && !successMessage) return null;
+
+  return (
+    <div className="position-redemption">
+      <h3>♻️ Machine End of Life</h3>
+      <p className="redemption-intro">
+        These machines have been retired and sold. Redeeming a position burns its NFT and pays your share of the sale in cbBTC.
+      </p>
+
+      <div className="redemption-list">
+        {positions.map(position => (
+          <div key={position.tokenId} className="redemption-item">
+            <div className="redemption-details">
+              <span className="redemption-title">Position #{position.tokenId} • {position.thAmount} TH</span>
+              <span className="redemption-machine">{position.machine.serialNumber} ({position.machine.hostingSite})</span>
+            </div>
+
+            {position.payout ? (
+              <div className="redemption-action">
+                <span className="redemption-payout">{position.payout.format(8)} cbBTC</span>
+                {!position.pendingEarnings.isZero() && (
+                  <span className="redemption-note">Plus {position.pendingEarnings.format(2)} USDC of earnings, forfeited if the contract cannot cover them</span>
+                )}
+                <button
+                  onClick={() => handleRedeem(position)}
+                  disabled={transactions[position.tokenId] === 'pending'}
+                  className="redeem-button"
+                >
+                  {transactions[position.tokenId] === 'pending' ? 'Redeeming...' : 'Redeem'}
+                </button>
+              </div>
+            ) : (
+              <span className="redemption-note">Awaiting sale of the machine</span>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {error && (
+        <div className="message error">
+          <p>❌ {error}</p>
+        </div>
+      )}
+
+      {successMessage && (
+        <div className="message success">
+          <p>✅ {successMessage}</p>
+        </div>
+      )}
+
+      <style jsx>{`
+        .position-redemption {
+          max-width: 1200px;
+          margin: 24px auto;
+          padding: 24px;
+          background: white;
+          border: 1px solid #e5e7eb;
+          border-radius: 12px;
+        }
+
+        .position-redemption h3 {
+          margin: 0 0 8px 0;
+          color: #1f2937;
+          font-size: 1.25rem;
+          font-weight: 600;
+        }
+
+        .redemption-intro {
+          margin: 0 0 20px 0;
+          color: #6b7280;
+        }
+
+        .redemption-list {
+          display: flex;
+          flex-direction: column;
+          gap: 12px;
+        }
+
+        .redemption-item {
+          display: flex;
+          justify-content: space-between;
+          align-items: center;
+          gap: 16px;
+          padding: 16px;
+          border: 1px solid #e5e7eb;
+          border-radius: 8px;
+        }
+
+        .redemption-details, .redemption-action {
+          display: flex;
+          flex-direction: column;
+          gap: 4px;
+        }
+
+        .redemption-action {
+          align-items: flex-end;
+        }
+
+        .redemption-title, .redemption-payout {
+          color: #1f2937;
+          font-weight: 700;
+        }
+
+        .redemption-machine, .redemption-note {
+          color: #6b7280;
+          font-size: 0.85rem;
+        }
+
+        .redeem-button {
+          background: linear-gradient(135deg, #f59e0b 0%, #d97706 100%);
+          color: white;
+          border: none;
+          padding: 10px 20px;
+          border-radius: 8px;
+          font-weight: 600;
+          cursor: pointer;
+        }
+
+        .redeem-button:disabled {
+          opacity: 0.6;
+          cursor: not-allowed;
+        }
+
+        .message {
+          margin-top: 16px;
+          padding: 12px 16px;
+          border-radius: 8px;
+        }
+
+        .message p {
+          margin: 0;
+        }
+
+        .message.error {
+          background: #fef2f2;
+          color: #b91c1c;
+        }
+
+        .message.success {
+          background: #f0fdf4;
+          color: #15803d;
+        }
+      `}</style>
+    </div>
+  );
+};
@@ -0,0 +1,59 @@
+import {
+  DeploymentManifest,
+  DeploymentManifestError,
+  parseManifest,
+  requireAddresses
+} from '../../../deployments/manifest';
+import { ContractAddresses } from '../services/web3Service';
+
+// Bundled at build time from the repo-level deployments/ directory written by the deploy scripts
+const manifests = import.meta.glob('../../../deployments/*.json', { eager: true, import: 'default' });
+
+export const DEPLOYMENT_NETWORK = import.meta.env.VITE_DEPLOYMENT_NETWORK || 'base';
+
+export function loadDeploymentManifest(network: string = DEPLOYMENT_NETWORK): DeploymentManifest {
+  const json = manifests[`../../../deployments/${network}.json`];
+
+  if (json === undefined) {
+    throw new DeploymentManifestError(
+      `No deployment manifest for ${network}. Deploy to ${network} first or set VITE_DEPLOYMENT_NETWORK ` +
+      `to one of: ${Object.keys(manifests).map((key) => key.split('/').pop()!.replace('.json', '')).join(', ') || 'none'}`
+    );
+  }
+
+  return parseManifest(json, `deployments/${network}.json`);
+}
+
+/**
+ * Addresses for every contract Web3Service talks to; throws if the manifest lacks any of them
+ */
+export function loadContractAddresses(network: string = DEPLOYMENT_NETWORK): ContractAddresses {
+  const manifest = loadDeploymentManifest(network);
+
+  // The client is generated from the TokenizedMining ABI, which SecureTokenizedMining does not share
+  if (!manifest.contracts.TokenizedMining && manifest.contracts.SecureTokenizedMining) {
+    throw new DeploymentManifestError(
+      `The ${network} manifest only has SecureTokenizedMining; the app needs TokenizedMining from the complete deploy profile`
+    );
+  }
+
+  const addresses = requireAddresses(manifest, [
+    'MiningPool',
+    'cbBTCMiningToken',
+    'ChainlinkOracle',
+    'AaveIntegration',
+    'AutoReinvestment',
+    'TokenizedMining',
+    'cbBTC'
+  ]);
+
+  return {
+    miningPool: addresses.MiningPool,
+    miningToken: addresses.cbBTCMiningToken,
+    chainlinkOracle: addresses.ChainlinkOracle,
+    aaveIntegration: addresses.AaveIntegration,
+    autoReinvestment: addresses.AutoReinvestment,
+    tokenizedMining: addresses.TokenizedMining,
+    cbBTC: addresses.cbBTC
+  };
+}
@@ -0,0 +1,17 @@
+// Generated by scripts/generate-frontend-bindings.ts. Do not edit.
+
+export * from './AaveIntegration';
+export * from './AutoReinvestment';
+export * from './AutomationCompatibleInterface';
+export * from './ChainlinkAutomation';
+export * from './ChainlinkOracle';
+export * from './IAavePool';
+export * from './IChainlinkAggregator';
+export * from './IERC20Metadata';
+export * from './MiningPool';
+export * from './ProofOfReserve';
+export * from './SecureAaveIntegration';
+export * from './SecureTokenizedMining';
+export * from './SecurityManager';
+export * from './TokenizedMining';
+export * from './cbBTCMiningToken';
@@ -0,0 +1,98 @@
+export interface TokenInfo {
+  address: string;
+  symbol: string;
+  decimals: number;
+}
+
+export const isSameToken = (a: TokenInfo, b: TokenInfo): boolean =>
+  a.address.toLowerCase() === b.address.toLowerCase();
+
+// Fixed-point amount of a specific token, stored in base units.
+// Only constructible from a TokenInfo, so the decimals always match the token.
+export class TokenAmount {
+  private constructor(readonly token: TokenInfo, readonly raw: bigint) {}
+
+  static fromRaw(token: TokenInfo, raw: bigint | string | number): TokenAmount {
+    return new TokenAmount(token, BigInt(raw));
+  }
+
+  static zero(token: TokenInfo): TokenAmount {
+    return new TokenAmount(token, 0n);
+  }
+
+  // Parses a human-readable decimal string such as "0.015" into base units
+  static parse(token: TokenInfo, value: string): TokenAmount {
+    const trimmed = value.trim();
+    const match = /^(\d*)(?:\.(\d*))?$/.exec(trimmed);
+
+    if (!match || (match[1] === '' && !match[2])) {
+      throw new Error(`Invalid ${token.symbol} amount: "${value}"`);
+    }
+
+    const whole = match[1] || '0';
+    const fraction = match[2] || '';
+
+    if (fraction.length > token.decimals) {
+      throw new Error(`${token.symbol} supports at most ${token.decimals} decimals: "${value}"`);
+    }
+
+    return new TokenAmount(token, BigInt(whole + fraction.padEnd(token.decimals, '0')));
+  }
+
+  get symbol(): string {
+    return this.token.symbol;
+  }
+
+  isZero(): boolean {
+    return this.raw === 0n;
+  }
+
+  add(other: TokenAmount): TokenAmount {
+    this.assertSameToken(other);
+    return new TokenAmount(this.token, this.raw + other.raw);
+  }
+
+  sub(other: TokenAmount): TokenAmount {
+    this.assertSameToken(other);
+    return new TokenAmount(this.token, this.raw - other.raw);
+  }
+
+  cmp(other: TokenAmount): number {
+    this.assertSameToken(other);
+    return this.raw === other.raw ? 0 : this.raw > other.raw ? 1 : -1;
+  }
+
+  // Throws unless this amount is denominated in the given token
+  assertToken(token: TokenInfo): this {
+    if (!isSameToken(this.token, token)) {
+      throw new Error(`Expected a ${token.symbol} amount, got ${this.token.symbol}`);
+    }
+    return this;
+  }
+
+  // Decimal string without trailing zeros, optionally truncated to maxDecimals
+  format(maxDecimals: number = this.token.decimals): string {
+    const negative = this.raw < 0n;
+    const digits = (negative ? -this.raw : this.raw).toString().padStart(this.token.decimals + 1, '0');
+    const whole = digits.slice(0, digits.length - this.token.decimals);
+    const fraction = digits
+      .slice(digits.length - this.token.decimals)
+      .slice(0, Math.max(0, maxDecimals))
+      .replace(/0+$/, '');
+
+    return `${negative ? '-' : ''}${whole}${fraction ? `.${fraction}` : ''}`;
+  }
+
+  // Lossy; for display maths and charts only
+  toNumber(): number {
+    return parseFloat(this.format());
+  }
+
+  toString(): string {
+    return `${this.format()} ${this.token.symbol}`;
+  }
+
+  private assertSameToken(other: TokenAmount) {
+    other.assertToken(this.token);
+  }
+}
@@ -0,0 +1,42 @@
+import Web3 from 'web3';
+import { TokenInfo } from './tokenAmount';
+import { IERC20MetadataAbi } from '../contracts/generated';
+
+// Reads decimals() and symbol() once per token and caches the result
+export class TokenRegistry {
+  private web3: Web3;
+  private tokens = new Map<string, Promise<TokenInfo>>();
+
+  constructor(web3: Web3) {
+    this.web3 = web3;
+  }
+
+  get(address: string): Promise<TokenInfo> {
+    const key = address.toLowerCase();
+    let token = this.tokens.get(key);
+
+    if (!token) {
+      token = this.load(address);
+      // Drop failed lookups so the next call retries instead of caching the error
+      token.catch(() => this.tokens.delete(key));
+      this.tokens.set(key, token);
+    }
+
+    return token;
+  }
+
+  // For tokens whose metadata is known up front
+  register(token: TokenInfo) {
+    this.tokens.set(token.address.toLowerCase(), Promise.resolve(token));
+  }
+
+  private async load(address: string): Promise<TokenInfo> {
+    const contract = new this.web3.eth.Contract(IERC20MetadataAbi, address);
+    const [decimals, symbol] = await Promise.all([
+      contract.methods.decimals().call(),
+      contract.methods.symbol().call()
+    ]);
+
+    return { address, symbol, decimals: Number(decimals) };
+  }
+}
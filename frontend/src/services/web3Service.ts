@@ -1,226 +1,122 @@
 import Web3 from 'web3';
 import { Contract } from 'web3-eth-contract';
-
-// Contract ABIs (simplified versions)
-const MINING_POOL_ABI = [
-  {
-    "inputs": [{"name": "poolId", "type": "uint256"}, {"name": "amount", "type": "uint256"}],
-    "name": "stake",
-    "outputs": [],
-    "stateMutability": "nonpayable",
-    "type": "function"
-  },
-  {
-    "inputs": [{"name": "poolId", "type": "uint256"}, {"name": "amount", "type": "uint256"}],
-    "name": "unstake",
-    "outputs": [],
-    "stateMutability": "nonpayable",
-    "type": "function"
-  },
-  {
-    "inputs": [{"name": "poolId", "type": "uint256"}],
-    "name": "claimRewards",
-    "outputs": [],
-    "stateMutability": "nonpayable",
-    "type": "function"
-  },
-  {
-    "inputs": [{"name": "poolId", "type": "uint256"}, {"name": "user", "type": "address"}],
-    "name": "getPendingRewards",
-    "outputs": [{"name": "", "type": "uint256"}],
-    "stateMutability": "view",
-    "type": "function"
-  },
-  {
-    "inputs": [{"name": "poolId", "type": "uint256"}],
-    "name": "getPoolInfo",
-    "outputs": [
-      {"name": "name", "type": "string"},
-      {"name": "totalHashRate", "type": "uint256"},
-      {"name": "totalStaked", "type": "uint256"},
-      {"name": "rewardRate", "type": "uint256"},
-      {"name": "active", "type": "bool"},
-      {"name": "minimumStake", "type": "uint256"},
-      {"name": "lockupPeriod", "type": "uint256"}
-    ],
-    "stateMutability": "view",
-    "type": "function"
-  },
-  {
-    "inputs": [{"name": "poolId", "type": "uint256"}, {"name": "user", "type": "address"}],
-    "name": "getUserInfo",
-    "outputs": [
-      {"name": "amount", "type": "uint256"},
-      {"name": "rewardDebt", "type": "uint256"},
-      {"name": "stakeTime", "type": "uint256"},
-      {"name": "lastClaimTime", "type": "uint256"}
-    ],
-    "stateMutability": "view",
-    "type": "function"
-  }
-];
-
-const CBBTC_MINING_TOKEN_ABI = [
-  {
-    "inputs": [{"name": "owner", "type": "address"}],
-    "name": "balanceOf",
-    "outputs": [{"name": "", "type": "uint256"}],
-    "stateMutability": "view",
-    "type": "function"
-  },
-  {
-    "inputs": [{"name": "spender", "type": "address"}, {"name": "amount", "type": "uint256"}],
-    "name": "approve",
-    "outputs": [{"name": "", "type": "bool"}],
-    "stateMutability": "nonpayable",
-    "type": "function"
-  },
-  {
-    "inputs": [{"name": "user", "type": "address"}],
-    "name": "getRewards",
-    "outputs": [{"name": "", "type": "uint256"}],
-    "stateMutability": "view",
-    "type": "function"
-  },
-  {
-    "inputs": [],
-    "name": "claimRewards",
-    "outputs": [],
-    "stateMutability": "nonpayable",
-    "type": "function"
-  }
-];
-
-const CHAINLINK_ORACLE_ABI = [
-  {
-    "inputs": [],
-    "name": "getBTCPrice",
-    "outputs": [{"name": "price", "type": "int256"}, {"name": "timestamp", "type": "uint256"}],
-    "stateMutability": "view",
-    "type": "function"
-  },
-  {
-    "inputs": [],
-    "name": "getBTCPriceInWei",
-    "outputs": [{"name": "", "type": "uint256"}],
-    "stateMutability": "view",
-    "type": "function"
-  },
-  {
-    "inputs": [{"name": "hashRate", "type": "uint256"}, {"name": "duration", "type": "uint256"}],
-    "name": "calculateMiningReward",
-    "outputs": [{"name": "", "type": "uint256"}],
-    "stateMutability": "view",
-    "type": "function"
-  }
-];
-
-const AAVE_INTEGRATION_ABI = [
-  {
-    "inputs": [{"name": "amount", "type": "uint256"}],
-    "name": "depositToAave",
-    "outputs": [],
-    "stateMutability": "nonpayable",
-    "type": "function"
-  },
-  {
-    "inputs": [{"name": "amount", "type": "uint256"}],
-    "name": "withdrawFromAave",
-    "outputs": [],
-    "stateMutability": "nonpayable",
-    "type": "function"
-  },
-  {
-    "inputs": [],
-    "name": "claimYield",
-    "outputs": [],
-    "stateMutability": "nonpayable",
-    "type": "function"
-  },
-  {
-    "inputs": [{"name": "user", "type": "address"}],
-    "name": "getYieldBalance",
-    "outputs": [{"name": "", "type": "uint256"}],
-    "stateMutability": "view",
-    "type": "function"
-  },
-  {
-    "inputs": [{"name": "user", "type": "address"}],
-    "name": "getUserDepositInfo",
-    "outputs": [
-      {"name": "amount", "type": "uint256"},
-      {"name": "depositTime", "type": "uint256"},
-      {"name": "lastYieldClaim", "type": "uint256"},
-      {"name": "accumulatedYield", "type": "uint256"}
-    ],
-    "stateMutability": "view",
-    "type": "function"
-  },
-  {
-    "inputs": [],
-    "name": "getTotalStats",
-    "outputs": [
-      {"name": "totalDeposited", "type": "uint256"},
-      {"name": "totalYieldGenerated", "type": "uint256"},
-      {"name": "currentATokenBalance", "type": "uint256"},
-      {"name": "estimatedAPY", "type": "uint256"}
-    ],
-    "stateMutability": "view",
-    "type": "function"
-  }
-];
-
-const ERC20_ABI = [
-  {
-    "inputs": [{"name": "owner", "type": "address"}],
-    "name": "balanceOf",
-    "outputs": [{"name": "", "type": "uint256"}],
-    "stateMutability": "view",
-    "type": "function"
-  },
-  {
-    "inputs": [{"name": "spender", "type": "address"}, {"name": "amount", "type": "uint256"}],
-    "name": "approve",
-    "outputs": [{"name": "", "type": "bool"}],
-    "stateMutability": "nonpayable",
-    "type": "function"
-  },
-  {
-    "inputs": [{"name": "to", "type": "address"}, {"name": "amount", "type": "uint256"}],
-    "name": "transfer",
-    "outputs": [{"name": "", "type": "bool"}],
-    "stateMutability": "nonpayable",
-    "type": "function"
-  }
-];
+import { TokenAmount, TokenInfo } from './tokenAmount';
+import { TokenRegistry } from './tokenRegistry';
+import {
+  AaveIntegrationAbi,
+  AutoReinvestmentAbi,
+  ChainlinkOracleAbi,
+  IERC20MetadataAbi,
+  MiningPoolAbi,
+  TokenizedMiningAbi,
+  cbBTCMiningTokenAbi
+} from '../contracts/generated';
 
 export interface ContractAddresses {
   miningPool: string;
   miningToken: string;
   chainlinkOracle: string;
   aaveIntegration: string;
+  autoReinvestment: string;
+  tokenizedMining: string; // TokenizedMining (the app rejects a SecureTokenizedMining-only manifest)
   cbBTC: string;
 }
 
+// Tokens the service moves amounts of; decimals come from the TokenRegistry
+export type TokenKind = 'cbBTC' | 'miningToken' | 'usdc';
+
+export interface MiningPositionDetails {
+  tokenId: number;
+  thAmount: number;
+  purchasePrice: TokenAmount; // USDC
+  purchaseTime: number;
+  totalEarned: TokenAmount; // USDC
+  lastClaimTime: number;
+  defiEarnings: TokenAmount; // USDC
+  active: boolean;
+  currentROI: number; // percent
+  daysHeld: number;
+  machineId: number; // Machine the position's TH is allocated on
+}
+
+export type MachineStatus = 'active' | 'maintenance' | 'retired';
+
+// A machine in the TokenizedMining registry
+export interface MiningMachine {
+  machineId: number;
+  serialNumber: string;
+  hostingSite: string;
+  commissionedAt: number; // unix seconds
+  ratedTh: number;
+  allocatedTh: number;
+  availableTh: number; // 0 unless active
+  status: MachineStatus;
+}
+
+// End-of-life sale of a retired machine, redeemable by its position holders
+export interface MachineSettlement {
+  machineId: number;
+  saleProceeds: TokenAmount; // cbBTC, the whole machine
+  payoutPool: TokenAmount; // cbBTC, the holders' share
+  paidOut: TokenAmount; // cbBTC
+  settledAt: number; // unix seconds, 0 until the sale is recorded
+}
+
+// TokenizedMining's live hashprice: what a TH costs and earns per day at the current BTC price
+export interface MiningPricing {
+  btcPrice: TokenAmount; // USD, at USDC precision
+  revenuePerTh: TokenAmount; // USDC per TH per day
+  energyCostPerTh: TokenAmount; // USDC per TH per day
+  dailyEarningsPerTh: TokenAmount; // USDC, revenue less energy
+  thPrice: TokenAmount; // USDC
+  networkDifficulty: bigint;
+  energyPricePerKwh: TokenAmount; // USDC
+  updatedAt: number; // unix seconds the network data was last set
+}
+
+// Same order as TokenizedMining.MachineStatus
+const MACHINE_STATUSES: MachineStatus[] = ['active', 'maintenance', 'retired'];
+
+export interface PendingEarnings {
+  miningEarnings: TokenAmount; // USDC
+  defiEarnings: TokenAmount; // USDC
+  total: TokenAmount; // USDC
+}
+
+// Lifecycle of a transaction as seen by the UI
+export type TransactionState = 'idle' | 'pending' | 'confirmed' | 'failed';
+
+export interface TransactionCallbacks {
+  // Fired once the wallet has broadcast the transaction, before it is mined
+  onTransactionHash?: (hash: string) => void;
+}
+
 export class Web3Service {
   private web3: Web3;
   private contracts: {
-    miningPool: Contract<typeof MINING_POOL_ABI>;
-    miningToken: Contract<typeof CBBTC_MINING_TOKEN_ABI>;
-    chainlinkOracle: Contract<typeof CHAINLINK_ORACLE_ABI>;
-    aaveIntegration: Contract<typeof AAVE_INTEGRATION_ABI>;
-    cbBTC: Contract<typeof ERC20_ABI>;
+    miningPool: Contract<MiningPoolAbi>;
+    miningToken: Contract<cbBTCMiningTokenAbi>;
+    chainlinkOracle: Contract<ChainlinkOracleAbi>;
+    aaveIntegration: Contract<AaveIntegrationAbi>;
+    autoReinvestment: Contract<AutoReinvestmentAbi>;
+    tokenizedMining: Contract<TokenizedMiningAbi>;
+    cbBTC: Contract<IERC20MetadataAbi>;
   };
+  private usdcAddress: Promise<string> | null = null;
+  readonly tokens: TokenRegistry;
 
   constructor(provider: any, contractAddresses: ContractAddresses) {
     this.web3 = new Web3(provider);
+    this.tokens = new TokenRegistry(this.web3);
     
     this.contracts = {
-      miningPool: new this.web3.eth.Contract(MINING_POOL_ABI, contractAddresses.miningPool),
-      miningToken: new this.web3.eth.Contract(CBBTC_MINING_TOKEN_ABI, contractAddresses.miningToken),
-      chainlinkOracle: new this.web3.eth.Contract(CHAINLINK_ORACLE_ABI, contractAddresses.chainlinkOracle),
-      aaveIntegration: new this.web3.eth.Contract(AAVE_INTEGRATION_ABI, contractAddresses.aaveIntegration),
-      cbBTC: new this.web3.eth.Contract(ERC20_ABI, contractAddresses.cbBTC)
+      miningPool: new this.web3.eth.Contract(MiningPoolAbi, contractAddresses.miningPool),
+      miningToken: new this.web3.eth.Contract(cbBTCMiningTokenAbi, contractAddresses.miningToken),
+      chainlinkOracle: new this.web3.eth.Contract(ChainlinkOracleAbi, contractAddresses.chainlinkOracle),
+      aaveIntegration: new this.web3.eth.Contract(AaveIntegrationAbi, contractAddresses.aaveIntegration),
+      autoReinvestment: new this.web3.eth.Contract(AutoReinvestmentAbi, contractAddresses.autoReinvestment),
+      tokenizedMining: new this.web3.eth.Contract(TokenizedMiningAbi, contractAddresses.tokenizedMining),
+      cbBTC: new this.web3.eth.Contract(IERC20MetadataAbi, contractAddresses.cbBTC)
     };
   }
 
@@ -235,37 +131,85 @@ export class Web3Service {
     return this.web3.utils.fromWei(balance, 'ether');
   }
 
-  // Mining Pool methods
-  async stakeToPool(poolId: number, amount: string): Promise<string> {
+  // Token methods
+  async getToken(kind: TokenKind): Promise<TokenInfo> {
+    switch (kind) {
+      case 'cbBTC':
+        return this.tokens.get(this.contracts.cbBTC.options.address!);
+      case 'miningToken':
+        return this.tokens.get(this.contracts.miningToken.options.address!);
+      case 'usdc':
+        // The USDC address is whatever TokenizedMining was deployed with
+        this.usdcAddress = this.usdcAddress || this.contracts.tokenizedMining.methods.usdc().call();
+        return this.tokens.get(await this.usdcAddress);
+    }
+  }
+
+  // Parses user input such as "0.5" using the token's on-chain decimals
+  async parseAmount(kind: TokenKind, value: string): Promise<TokenAmount> {
+    return TokenAmount.parse(await this.getToken(kind), value);
+  }
+
+  private async toAmount(kind: TokenKind, raw: unknown): Promise<TokenAmount> {
+    return TokenAmount.fromRaw(await this.getToken(kind), raw as bigint);
+  }
+
+  // Sends a contract call and resolves with the transaction hash once it is mined.
+  // Reverted transactions reject, so callers only see a hash for confirmed transactions.
+  private async sendTransaction(method: any, callbacks?: TransactionCallbacks): Promise<string> {
     const account = await this.getAccount();
-    const amountWei = this.web3.utils.toWei(amount, 'ether');
+    const promiEvent = method.send({ from: account });
+    
+    if (callbacks?.onTransactionHash) {
+      promiEvent.on('transactionHash', (hash: string) => callbacks.onTransactionHash!(hash.toString()));
+    }
+    
+    const receipt = await promiEvent;
+    return receipt.transactionHash.toString();
+  }
+
+  // Mining Pool methods
+  async getPoolCount(): Promise<number> {
+    const count = await this.contracts.miningPool.methods.poolCount().call();
+    return Number(count);
+  }
+
+  async stakeToPool(poolId: number, amount: TokenAmount): Promise<string> {
+    amount.assertToken(await this.getToken('cbBTC'));
     
     // First approve cbBTC spending
-    await this.contracts.cbBTC.methods.approve(
-      this.contracts.miningPool.options.address,
-      amountWei
-    ).send({ from: account });
+    await this.sendTransaction(this.contracts.cbBTC.methods.approve(
+      this.contracts.miningPool.options.address!,
+      amount.raw.toString()
+    ));
     
     // Then stake
-    return await this.contracts.miningPool.methods.stake(poolId, amountWei).send({ from: account });
+    return this.sendTransaction(this.contracts.miningPool.methods.stake(poolId, amount.raw.toString()));
   }
 
-  async unstakeFromPool(poolId: number, amount: string): Promise<string> {
-    const account = await this.getAccount();
-    const amountWei = this.web3.utils.toWei(amount, 'ether');
-    
-    return await this.contracts.miningPool.methods.unstake(poolId, amountWei).send({ from: account });
+  async unstakeFromPool(poolId: number, amount: TokenAmount): Promise<string> {
+    amount.assertToken(await this.getToken('cbBTC'));
+    return this.sendTransaction(this.contracts.miningPool.methods.unstake(poolId, amount.raw.toString()));
   }
 
-  async claimMiningRewards(poolId: number): Promise<string> {
-    const account = await this.getAccount();
-    return await this.contracts.miningPool.methods.claimRewards(poolId).send({ from: account });
+  async claimMiningRewards(poolId: number, callbacks?: TransactionCallbacks): Promise<string> {
+    return this.sendTransaction(this.contracts.miningPool.methods.claimRewards(poolId), callbacks);
+  }
+
+  async claimCbBTCRewards(poolId: number, callbacks?: TransactionCallbacks): Promise<string> {
+    return this.sendTransaction(this.contracts.miningPool.methods.claimCbBTCRewards(poolId), callbacks);
+  }
+
+  async getPendingCbBTCRewards(poolId: number, userAddress?: string): Promise<TokenAmount> {
+    const address = userAddress || await this.getAccount();
+    const rewards = await this.contracts.miningPool.methods.getPendingCbBTCRewards(poolId, address).call();
+    return this.toAmount('cbBTC', rewards);
   }
 
-  async getPendingRewards(poolId: number, userAddress?: string): Promise<string> {
+  async getPendingRewards(poolId: number, userAddress?: string): Promise<TokenAmount> {
     const address = userAddress || await this.getAccount();
     const rewards = await this.contracts.miningPool.methods.getPendingRewards(poolId, address).call();
-    return this.web3.utils.fromWei(rewards, 'ether');
+    return this.toAmount('miningToken', rewards);
   }
 
   async getPoolInfo(poolId: number) {
@@ -273,10 +217,10 @@ export class Web3Service {
     return {
       name: info.name,
       totalHashRate: info.totalHashRate,
-      totalStaked: this.web3.utils.fromWei(info.totalStaked, 'ether'),
-      rewardRate: this.web3.utils.fromWei(info.rewardRate, 'ether'),
+      totalStaked: await this.toAmount('cbBTC', info.totalStaked),
+      rewardRate: await this.toAmount('miningToken', info.rewardRate), // per second
       active: info.active,
-      minimumStake: this.web3.utils.fromWei(info.minimumStake, 'ether'),
+      minimumStake: await this.toAmount('cbBTC', info.minimumStake),
       lockupPeriod: info.lockupPeriod
     };
   }
@@ -285,46 +229,45 @@ export class Web3Service {
     const address = userAddress || await this.getAccount();
     const info = await this.contracts.miningPool.methods.getUserInfo(poolId, address).call();
     return {
-      amount: this.web3.utils.fromWei(info.amount, 'ether'),
-      rewardDebt: this.web3.utils.fromWei(info.rewardDebt, 'ether'),
+      amount: await this.toAmount('cbBTC', info.amount),
+      rewardDebt: await this.toAmount('miningToken', info.rewardDebt),
       stakeTime: info.stakeTime,
       lastClaimTime: info.lastClaimTime
     };
   }
 
-  // Token methods
-  async getMiningTokenBalance(userAddress?: string): Promise<string> {
+  async getMiningTokenBalance(userAddress?: string): Promise<TokenAmount> {
     const address = userAddress || await this.getAccount();
     const balance = await this.contracts.miningToken.methods.balanceOf(address).call();
-    return this.web3.utils.fromWei(balance, 'ether');
+    return this.toAmount('miningToken', balance);
   }
 
-  async getCbBTCBalance(userAddress?: string): Promise<string> {
+  async getCbBTCBalance(userAddress?: string): Promise<TokenAmount> {
     const address = userAddress || await this.getAccount();
     const balance = await this.contracts.cbBTC.methods.balanceOf(address).call();
-    return this.web3.utils.fromWei(balance, 'ether');
+    return this.toAmount('cbBTC', balance);
   }
 
-  async getUnclaimedRewards(userAddress?: string): Promise<string> {
+  async getUnclaimedRewards(userAddress?: string): Promise<TokenAmount> {
     const address = userAddress || await this.getAccount();
     const rewards = await this.contracts.miningToken.methods.getRewards(address).call();
-    return this.web3.utils.fromWei(rewards, 'ether');
+    return this.toAmount('miningToken', rewards);
   }
 
   async claimTokenRewards(): Promise<string> {
-    const account = await this.getAccount();
-    return await this.contracts.miningToken.methods.claimRewards().send({ from: account });
+    return this.sendTransaction(this.contracts.miningToken.methods.claimRewards());
   }
 
   // Oracle methods
   async getBTCPrice(): Promise<{ price: string; timestamp: number }> {
     const result = await this.contracts.chainlinkOracle.methods.getBTCPrice().call();
     return {
-      price: (parseInt(result.price) / 100000000).toString(), // Convert from 8 decimals to readable format
-      timestamp: parseInt(result.timestamp)
+      price: (Number(result.price) / 100000000).toString(), // Convert from 8 decimals to readable format
+      timestamp: Number(result.timestamp)
     };
   }
 
+  // Oracle maths is 18-decimal fixed point, not a token amount
   async getBTCPriceInWei(): Promise<string> {
     const price = await this.contracts.chainlinkOracle.methods.getBTCPriceInWei().call();
     return this.web3.utils.fromWei(price, 'ether');
@@ -337,69 +280,230 @@ export class Web3Service {
   }
 
   // Aave methods
-  async depositToAave(amount: string): Promise<string> {
-    const account = await this.getAccount();
-    const amountWei = this.web3.utils.toWei(amount, 'ether');
+  async depositToAave(amount: TokenAmount): Promise<string> {
+    amount.assertToken(await this.getToken('cbBTC'));
     
     // First approve cbBTC spending
-    await this.contracts.cbBTC.methods.approve(
-      this.contracts.aaveIntegration.options.address,
-      amountWei
-    ).send({ from: account });
+    await this.sendTransaction(this.contracts.cbBTC.methods.approve(
+      this.contracts.aaveIntegration.options.address!,
+      amount.raw.toString()
+    ));
     
     // Then deposit
-    return await this.contracts.aaveIntegration.methods.depositToAave(amountWei).send({ from: account });
+    return this.sendTransaction(this.contracts.aaveIntegration.methods.depositToAave(amount.raw.toString()));
   }
 
-  async withdrawFromAave(amount: string): Promise<string> {
-    const account = await this.getAccount();
-    const amountWei = this.web3.utils.toWei(amount, 'ether');
-    
-    return await this.contracts.aaveIntegration.methods.withdrawFromAave(amountWei).send({ from: account });
+  async withdrawFromAave(amount: TokenAmount): Promise<string> {
+    amount.assertToken(await this.getToken('cbBTC'));
+    return this.sendTransaction(this.contracts.aaveIntegration.methods.withdrawFromAave(amount.raw.toString()));
   }
 
-  async claimAaveYield(): Promise<string> {
-    const account = await this.getAccount();
-    return await this.contracts.aaveIntegration.methods.claimYield().send({ from: account });
+  async claimAaveYield(callbacks?: TransactionCallbacks): Promise<string> {
+    return this.sendTransaction(this.contracts.aaveIntegration.methods.claimYield(), callbacks);
   }
 
-  async getYieldBalance(userAddress?: string): Promise<string> {
+  async getYieldBalance(userAddress?: string): Promise<TokenAmount> {
     const address = userAddress || await this.getAccount();
     const balance = await this.contracts.aaveIntegration.methods.getYieldBalance(address).call();
-    return this.web3.utils.fromWei(balance, 'ether');
+    return this.toAmount('cbBTC', balance);
   }
 
   async getUserDepositInfo(userAddress?: string) {
     const address = userAddress || await this.getAccount();
     const info = await this.contracts.aaveIntegration.methods.getUserDepositInfo(address).call();
     return {
-      amount: this.web3.utils.fromWei(info.amount, 'ether'),
+      amount: await this.toAmount('cbBTC', info.amount),
       depositTime: info.depositTime,
       lastYieldClaim: info.lastYieldClaim,
-      accumulatedYield: this.web3.utils.fromWei(info.accumulatedYield, 'ether')
+      accumulatedYield: await this.toAmount('cbBTC', info.accumulatedYield)
     };
   }
 
   async getAaveTotalStats() {
     const stats = await this.contracts.aaveIntegration.methods.getTotalStats().call();
     return {
-      totalDeposited: this.web3.utils.fromWei(stats.totalDeposited, 'ether'),
-      totalYieldGenerated: this.web3.utils.fromWei(stats.totalYieldGenerated, 'ether'),
-      currentATokenBalance: this.web3.utils.fromWei(stats.currentATokenBalance, 'ether'),
-      estimatedAPY: (parseInt(stats.estimatedAPY) / 100).toString() // Convert to percentage
+      totalDeposited: await this.toAmount('cbBTC', stats.totalDeposited_),
+      totalYieldGenerated: await this.toAmount('cbBTC', stats.totalYieldGenerated_),
+      currentATokenBalance: await this.toAmount('cbBTC', stats.currentATokenBalance),
+      estimatedAPY: (Number(stats.estimatedAPY) / 100).toString() // Convert to percentage
     };
   }
 
-  // Utility methods
-  toWei(amount: string): string {
-    return this.web3.utils.toWei(amount, 'ether');
+  // Auto-reinvestment methods
+  async getUserReinvestmentData(userAddress?: string) {
+    const address = userAddress || await this.getAccount();
+    const data = await this.contracts.autoReinvestment.methods.getUserReinvestmentData(address).call();
+    return {
+      enabled: data.enabled,
+      percentage: Number(data.percentage),
+      totalReinvested: await this.toAmount('cbBTC', data.totalReinvested),
+      additionalHashrate: this.web3.utils.fromWei(data.additionalHashrate, 'ether'), // TH with 18 decimals
+      rewardsGenerated: await this.toAmount('cbBTC', data.rewardsGenerated),
+      lastCompound: Number(data.lastCompound)
+    };
+  }
+
+  async setupReinvestmentPlan(
+    percentage: number,
+    minReinvestAmount: TokenAmount,
+    targetPoolId: number,
+    compoundFrequency: number,
+    callbacks?: TransactionCallbacks
+  ): Promise<string> {
+    minReinvestAmount.assertToken(await this.getToken('cbBTC'));
+    return this.sendTransaction(
+      this.contracts.autoReinvestment.methods.setupReinvestmentPlan(
+        percentage,
+        minReinvestAmount.raw.toString(),
+        targetPoolId,
+        compoundFrequency
+      ),
+      callbacks
+    );
   }
 
-  fromWei(amount: string): string {
-    return this.web3.utils.fromWei(amount, 'ether');
+  async disableAutoReinvestment(callbacks?: TransactionCallbacks): Promise<string> {
+    return this.sendTransaction(this.contracts.autoReinvestment.methods.disableAutoReinvestment(), callbacks);
   }
 
+  // Tokenized mining (NFT position) methods
+  async getTHPrice(): Promise<TokenAmount> {
+    const price = await this.contracts.tokenizedMining.methods.calculatePurchaseCost(1).call();
+    return this.toAmount('usdc', price);
+  }
+
+  async getMiningPricing(): Promise<MiningPricing> {
+    const [hashprice, parameters, updatedAt] = await Promise.all([
+      this.contracts.tokenizedMining.methods.getHashprice().call(),
+      this.contracts.tokenizedMining.methods.pricing().call(),
+      this.contracts.tokenizedMining.methods.pricingUpdatedAt().call()
+    ]);
+    return {
+      btcPrice: await this.toAmount('usdc', hashprice.btcPrice),
+      revenuePerTh: await this.toAmount('usdc', hashprice.revenuePerTh),
+      energyCostPerTh: await this.toAmount('usdc', hashprice.energyCostPerTh),
+      dailyEarningsPerTh: await this.toAmount('usdc', hashprice.dailyEarningsPerTh),
+      thPrice: await this.toAmount('usdc', hashprice.thPrice),
+      networkDifficulty: BigInt(parameters.networkDifficulty),
+      energyPricePerKwh: await this.toAmount('usdc', parameters.energyPricePerKwh),
+      updatedAt: Number(updatedAt)
+    };
+  }
+
+  async getAvailableTH(): Promise<number> {
+    return Number(await this.contracts.tokenizedMining.methods.getAvailableTh().call());
+  }
+
+  async getMachine(machineId: number): Promise<MiningMachine> {
+    const machine = await this.contracts.tokenizedMining.methods.getMachine(machineId).call();
+    const status = MACHINE_STATUSES[Number(machine.status)];
+    return {
+      machineId,
+      serialNumber: machine.serialNumber,
+      hostingSite: machine.hostingSite,
+      commissionedAt: Number(machine.commissionedAt),
+      ratedTh: Number(machine.ratedTh),
+      allocatedTh: Number(machine.allocatedTh),
+      availableTh: status === 'active' ? Number(machine.ratedTh) - Number(machine.allocatedTh) : 0,
+      status
+    };
+  }
+
+  async getMachines(): Promise<MiningMachine[]> {
+    const count = Number(await this.contracts.tokenizedMining.methods.machineCount().call());
+    return Promise.all(Array.from({ length: count }, (_, index) => this.getMachine(index + 1)));
+  }
+
+  // The active machine with the least room that still fits thAmount, so machines fill up one at a time
+  async selectMachineFor(thAmount: number): Promise<MiningMachine> {
+    const candidates = (await this.getMachines())
+      .filter((machine) => machine.availableTh >= thAmount)
+      .sort((a, b) => a.availableTh - b.availableTh);
+    if (candidates.length === 0) {
+      throw new Error(`No machine has ${thAmount} TH available`);
+    }
+    return candidates[0];
+  }
+
+  async purchaseMiningPosition(machineId: number, thAmount: number, callbacks?: TransactionCallbacks): Promise<string> {
+    const account = await this.getAccount();
+    const usdcToken = await this.getToken('usdc');
+    const usdc = new this.web3.eth.Contract(IERC20MetadataAbi, usdcToken.address);
+    const spender = this.contracts.tokenizedMining.options.address!;
+    
+    const pricePerTH = await this.getTHPrice();
+    const totalCost = TokenAmount.fromRaw(usdcToken, pricePerTH.raw * BigInt(thAmount));
+    
+    // Approve USDC spending only when the current allowance does not cover the purchase
+    const allowance = TokenAmount.fromRaw(usdcToken, await usdc.methods.allowance(account, spender).call());
+    if (allowance.cmp(totalCost) < 0) {
+      await this.sendTransaction(usdc.methods.approve(spender, totalCost.raw.toString()));
+    }
+    
+    return this.sendTransaction(this.contracts.tokenizedMining.methods.purchaseMiningPosition(machineId, thAmount), callbacks);
+  }
+
+  async getUserPositions(userAddress?: string): Promise<number[]> {
+    const address = userAddress || await this.getAccount();
+    const tokenIds = await this.contracts.tokenizedMining.methods.getUserPositions(address).call();
+    return tokenIds.map((tokenId) => Number(tokenId));
+  }
+
+  async getPositionDetails(tokenId: number): Promise<MiningPositionDetails> {
+    const details = await this.contracts.tokenizedMining.methods.getPositionDetails(tokenId).call();
+    return {
+      tokenId,
+      thAmount: Number(details.thAmount),
+      purchasePrice: await this.toAmount('usdc', details.purchasePrice),
+      purchaseTime: Number(details.purchaseTime),
+      totalEarned: await this.toAmount('usdc', details.totalEarned),
+      lastClaimTime: Number(details.lastClaimTime),
+      defiEarnings: await this.toAmount('usdc', details.defiEarnings),
+      active: details.active,
+      currentROI: Number(details.currentROI),
+      daysHeld: Number(details.daysHeld),
+      machineId: Number(details.machineId)
+    };
+  }
+
+  async getMachineSettlement(machineId: number): Promise<MachineSettlement> {
+    const settlement = await this.contracts.tokenizedMining.methods.settlements(machineId).call();
+    return {
+      machineId,
+      saleProceeds: await this.toAmount('cbBTC', settlement.saleProceeds),
+      payoutPool: await this.toAmount('cbBTC', settlement.payoutPool),
+      paidOut: await this.toAmount('cbBTC', settlement.paidOut),
+      settledAt: Number(settlement.settledAt)
+    };
+  }
+
+  // cbBTC the position pays out when redeemed; reverts until its machine's sale is recorded
+  async getRedemptionAmount(tokenId: number): Promise<TokenAmount> {
+    return this.toAmount('cbBTC', await this.contracts.tokenizedMining.methods.getRedemptionAmount(tokenId).call());
+  }
+
+  // Burns the position NFT for its share of the machine sale, paying pending USDC earnings if the contract can cover them
+  async redeemPosition(tokenId: number, callbacks?: TransactionCallbacks): Promise<string> {
+    return this.sendTransaction(this.contracts.tokenizedMining.methods.redeemPosition(tokenId), callbacks);
+  }
+
+  async getPendingEarnings(tokenId: number): Promise<PendingEarnings> {
+    const earnings = await this.contracts.tokenizedMining.methods.getPendingEarnings(tokenId).call();
+    const miningEarnings = await this.toAmount('usdc', earnings.miningEarnings);
+    const defiEarnings = await this.toAmount('usdc', earnings.defiEarnings);
+    return {
+      miningEarnings,
+      defiEarnings,
+      total: miningEarnings.add(defiEarnings)
+    };
+  }
+
+  async claimEarnings(tokenId: number, callbacks?: TransactionCallbacks): Promise<string> {
+    return this.sendTransaction(this.contracts.tokenizedMining.methods.claimEarnings(tokenId), callbacks);
+  }
+
+  // Utility methods
   isValidAddress(address: string): boolean {
     return this.web3.utils.isAddress(address);
   }
-}
\ No newline at end of file
+}
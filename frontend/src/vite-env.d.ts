@@ -0,0 +1,10 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Which deployments/<network>.json manifest to load contract addresses from
+  readonly VITE_DEPLOYMENT_NETWORK?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
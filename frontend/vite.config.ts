@@ -6,7 +6,11 @@ export default defineConfig({
   plugins: [react()],
   server: {
     port: 3000,
-    open: true
+    open: true,
+    fs: {
+      // Deployment manifests live in the repo-level deployments/ directory
+      allow: ['..']
+    }
   },
   define: {
     global: 'globalThis',
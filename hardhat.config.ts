@@ -12,6 +12,8 @@ const config: HardhatUserConfig = {
         enabled: true,
         runs: 200,
       },
+      // Some contracts are stack too deep for the legacy code generator
+      viaIR: true,
     },
   },
   networks: {
@@ -1,332 +1,817 @@
 import { ethers } from 'hardhat';
 import { config } from 'dotenv';
 import axios from 'axios';
+import {
+  MiningPoolAdapter,
+  PoolAdapterRegistry,
+  PoolBalance,
+  createDefaultPoolAdapterRegistry
+} from './service/pools';
+import { ExchangeAdapter, createExchangeAdapter } from './service/exchanges';
+import {
+  ConversionStrategy,
+  CustodianClient,
+  createConversionStrategies,
+  createCustodianClient,
+  selectStrategy
+} from './service/conversion';
+import { ConversionLedger, ConversionRecord } from './service/conversionLedger';
+import { ConversionCosts, CostTotals, FundingReceipt, addApprovalGas, calculateConversionCosts, totalCosts } from './service/costs';
+import { MetricsRegistry, createServiceMetrics } from './service/metrics';
+import { HealthReport, ServiceStatusServer } from './service/statusServer';
+import { ControlCommand, LoopControl } from './service/loopControl';
+import { ServiceLock } from './service/serviceLock';
+import { Scheduler, TaskRun } from './service/scheduler';
+import { ServiceConfig, loadServiceConfig } from './service/serviceConfig';
+import { DistributionKeeper } from './service/distributionKeeper';
+import { AddressReserveProof, BitcoinChainSource, buildAddressReserveProof, createBitcoinChainSource } from './service/bitcoin';
+import { AsicTelemetrySource, AsicUnitSample, PerformanceTracker, createAsicTelemetrySource } from './service/performance';
+import { loadManifest } from './deployment/manifestFile';
+import { DeploymentManifest, DeploymentManifestError, requireAddresses } from '../deployments/manifest';
 
 config();
 
-interface PoolBalance {
-  poolId: string;
-  btcBalance: number;
-  pendingBTC: number;
-  lastUpdate: Date;
-}
+// Per-unit gauges, cleared on every read so removed units disappear
+const ASIC_METRICS = [
+  'minerfi_asic_online',
+  'minerfi_asic_hashrate_ths',
+  'minerfi_asic_chip_temperature_celsius',
+  'minerfi_asic_fan_rpm',
+  'minerfi_asic_power_watts',
+  'minerfi_asic_rejected_shares'
+];
+
+// ProofOfReserve hashrates are in H/s, as MiningPool's pool hashRate
+const toHashesPerSecond = (ths: number): bigint => BigInt(Math.round(ths * 1e6)) * 1000000n;
 
 interface CBBTCConversionResult {
+  idempotencyKey: string;
+  strategy: string;
   btcAmount: number;
   cbbtcAmount: number;
+  // USD per BTC for each leg, as quoted and as filled
+  quotedSellRate?: number;
+  realizedSellRate?: number;
+  quotedBuyRate?: number;
+  realizedBuyRate?: number;
   transactionHash: string;
   gasUsed: number;
+  costs: ConversionCosts;
+}
+
+interface ReserveProofReport {
+  poolId: string;
+  address: string;
+  blockHeight: number;
+  blockHash: string;
+  balanceBTC: number;
+  utxoCount: number;
+  utxoSetDigest: string;
+  poolApiBTC: number;
+  // Pool API balance minus the address balance
+  discrepancyBTC: number;
+  // null when ProofOfReserve already had this block
+  transactionHash: string | null;
+  checkedAt: Date;
+}
+
+interface ConversionRun {
+  startedAt: Date;
+  finishedAt: Date;
+  outcome: 'ok' | 'error';
+  error?: string;
+  poolBTC: number;
+  conversions: CBBTCConversionResult[];
+  costs: CostTotals;
 }
 
 export class BTCToCBBTCService {
   private miningPoolContract: any;
   private cbbtcContract: any;
   private proofOfReserveContract: any;
+  private oracleContract: any;
   private provider: ethers.Provider;
   private signer: ethers.Signer;
+  private poolAdapters: MiningPoolAdapter[];
+  private ledger: ConversionLedger;
+  private manifest: DeploymentManifest;
+  private strategies: ConversionStrategy[];
+  private metrics: MetricsRegistry = createServiceMetrics();
+  private startedAt: Date | null = null;
+  private lastConversionRun: ConversionRun | null = null;
+  private lastPoolBalances: PoolBalance[] | null = null;
+  private lastReserveProofs: ReserveProofReport[] = [];
+  private loop = new LoopControl();
+  private config: ServiceConfig;
+  private bitcoinChain: BitcoinChainSource;
+  private asicTelemetry: AsicTelemetrySource | null;
+  private performance = new PerformanceTracker();
+  private lastAsicUnits: AsicUnitSample[] = [];
+  private scheduler: Scheduler;
+  private distributionKeeper!: DistributionKeeper;
   
-  // Mining pool APIs (examples - replace with actual APIs)
-  private readonly LUXOR_API_URL = 'https://api.luxor.tech/v1';
-  private readonly FOUNDRY_API_URL = 'https://api.foundrydigital.com/v1';
-  
-  // Exchange/Bridge APIs for BTC → cbBTC conversion
-  private readonly COINBASE_API_URL = 'https://api.coinbase.com/v2';
-  private readonly UNISWAP_API_URL = 'https://api.uniswap.org/v1';
-  
-  constructor() {
+  constructor(
+    poolRegistry: PoolAdapterRegistry = createDefaultPoolAdapterRegistry(),
+    ledger: ConversionLedger = new ConversionLedger(),
+    manifest: DeploymentManifest = loadManifest(),
+    exchange: ExchangeAdapter = createExchangeAdapter(),
+    custodian: CustodianClient | undefined = createCustodianClient(),
+    config: ServiceConfig = loadServiceConfig(),
+    bitcoinChain: BitcoinChainSource = createBitcoinChainSource(),
+    asicTelemetry: AsicTelemetrySource | null = createAsicTelemetrySource()
+  ) {
     this.provider = ethers.getDefaultProvider(process.env.BASE_RPC_URL);
-    this.signer = new ethers.Wallet(process.env.PRIVATE_KEY!, this.provider);
+    const wallet = new ethers.Wallet(process.env.PRIVATE_KEY!, this.provider);
+    this.signer = wallet;
+    
+    // Pools are discovered from MINING_POOLS (see service/pools/registry.ts)
+    this.poolAdapters = poolRegistry.createEnabledAdapters();
+    this.ledger = ledger;
+    this.manifest = manifest;
+    this.config = config;
+    
+    // Block heights and UTXOs come from BITCOIN_SOURCES, cross-checked (see service/bitcoin/factory.ts)
+    this.bitcoinChain = bitcoinChain;
+    
+    // Hashrate comes from the pool APIs plus ASIC_TELEMETRY when configured (see service/performance)
+    this.asicTelemetry = asicTelemetry;
+    
+    // Strategies are chosen from CONVERSION_STRATEGIES; each conversion uses the cheapest.
+    // wrap needs the custodian named by CUSTODIAN and fails here without one.
+    this.strategies = createConversionStrategies({
+      exchange,
+      custodian,
+      referencePrice: () => this.getOracleBTCPrice(),
+      walletAddress: wallet.address,
+      options: {
+        maxSlippageBps: config.maxSlippageBps,
+        intervalMs: config.orders.pollIntervalMs,
+        timeoutMs: config.orders.timeoutMs
+      }
+    });
+    
+    // Each task runs on its own schedule from config/service.json (see service/serviceConfig.ts)
+    this.scheduler = new Scheduler([
+      { name: 'balancePolling', config: config.tasks.balancePolling, run: async () => { await this.pollPoolBalances(); } },
+      { name: 'proofOfReserve', config: config.tasks.proofOfReserve, run: async () => this.updateProofOfReserve(await this.pollPoolBalances()) },
+      { name: 'performance', config: config.tasks.performance, run: async () => { await this.pollPoolBalances(); await this.updatePerformanceData(); } },
+      { name: 'conversion', config: config.tasks.conversion, run: () => this.runConversionTask() },
+      { name: 'distribution', config: config.tasks.distribution, run: () => this.distributeRewards() }
+    ], this.loop, { onTaskRun: (run) => this.recordTaskRun(run) });
   }
 
   async initialize() {
+    // Addresses come from deployments/<DEPLOYMENT_NETWORK>.json, written by the deploy scripts
+    const addresses = requireAddresses(this.manifest, ['MiningPool', 'ProofOfReserve', 'ChainlinkOracle', 'cbBTC']);
+    
+    const { chainId } = await this.provider.getNetwork();
+    if (Number(chainId) !== this.manifest.chainId) {
+      throw new DeploymentManifestError(
+        `BASE_RPC_URL is on chainId ${chainId}, but the ${this.manifest.network} manifest is for chainId ${this.manifest.chainId}`
+      );
+    }
+    
     // Initialize contract connections
     const MiningPool = await ethers.getContractFactory('MiningPool');
     const ProofOfReserve = await ethers.getContractFactory('ProofOfReserve');
+    const ChainlinkOracle = await ethers.getContractFactory('ChainlinkOracle');
+    
+    this.miningPoolContract = MiningPool.attach(addresses.MiningPool).connect(this.signer);
+    this.proofOfReserveContract = ProofOfReserve.attach(addresses.ProofOfReserve).connect(this.signer);
+    this.oracleContract = ChainlinkOracle.attach(addresses.ChainlinkOracle).connect(this.provider);
     
-    this.miningPoolContract = MiningPool.attach(process.env.MINING_POOL_ADDRESS!).connect(this.signer);
-    this.proofOfReserveContract = ProofOfReserve.attach(process.env.PROOF_OF_RESERVE_ADDRESS!).connect(this.signer);
+    // Distributes when ChainlinkAutomation is not doing it (tasks.distribution in the service config)
+    this.distributionKeeper = new DistributionKeeper({
+      miningPool: this.miningPoolContract,
+      latestTimestamp: async () => (await this.provider.getBlock('latest'))!.timestamp,
+      waitForReceipt: (hash) => this.provider.waitForTransaction(hash, 1, 600000),
+      getTransaction: (hash) => this.provider.getTransaction(hash)
+    });
     
     // cbBTC is an external contract
     this.cbbtcContract = new ethers.Contract(
-      process.env.CBBTC_TOKEN_ADDRESS!,
-      ['function balanceOf(address) view returns (uint256)', 'function transfer(address, uint256) returns (bool)'],
+      addresses.cbBTC,
+      [
+        'function balanceOf(address) view returns (uint256)',
+        'function transfer(address, uint256) returns (bool)',
+        'function allowance(address, address) view returns (uint256)',
+        'function approve(address, uint256) returns (bool)'
+      ],
       this.signer
     );
   }
 
   /**
-   * Monitor mining pool BTC balances from various APIs
+   * Monitor mining pool BTC balances from every enabled pool adapter
    */
   async monitorPoolBalances(): Promise<PoolBalance[]> {
-    const poolBalances: PoolBalance[] = [];
+    const results = await Promise.all(
+      this.poolAdapters.map(async (adapter) => {
+        try {
+          return await adapter.fetchBalance();
+        } catch (error) {
+          console.error(`Error fetching ${adapter.type} balance for ${adapter.poolId}:`, error);
+          return null;
+        }
+      })
+    );
     
-    try {
-      // Example: Luxor API integration
-      const luxorBalance = await this.getLuxorPoolBalance();
-      if (luxorBalance) {
-        poolBalances.push(luxorBalance);
-      }
-      
-      // Example: Foundry API integration
-      const foundryBalance = await this.getFoundryPoolBalance();
-      if (foundryBalance) {
-        poolBalances.push(foundryBalance);
-      }
-      
-      // Add more mining pools as needed
-      
-    } catch (error) {
-      console.error('Error monitoring pool balances:', error);
+    return results.filter((balance): balance is PoolBalance => balance !== null);
+  }
+
+  /**
+   * Poll the pools and keep the balances for status and metrics; fails if no pool answered.
+   * Each poll is also a hashrate and uptime observation, together with the ASIC telemetry.
+   */
+  private async pollPoolBalances(): Promise<PoolBalance[]> {
+    const poolBalances = await this.monitorPoolBalances();
+    if (poolBalances.length === 0 && this.poolAdapters.length > 0) {
+      throw new Error('No mining pool returned a balance');
+    }
+    
+    this.lastPoolBalances = poolBalances;
+    this.metrics.reset('minerfi_pool_btc_balance');
+    for (const balance of poolBalances) {
+      this.metrics.set('minerfi_pool_btc_balance', balance.btcBalance, { pool_id: balance.poolId });
     }
     
+    const units = await this.sampleAsicUnits();
+    this.recordAsicUnits(units);
+    this.performance.record(poolBalances, units);
+    this.metrics.reset('minerfi_pool_hashrate_ths');
+    for (const report of this.performance.reports()) {
+      const labels = { pool_id: report.poolId };
+      if (report.poolTHs !== null) this.metrics.set('minerfi_pool_hashrate_ths', report.poolTHs, { ...labels, source: 'pool' });
+      if (report.asicTHs !== null) this.metrics.set('minerfi_pool_hashrate_ths', report.asicTHs, { ...labels, source: 'asic' });
+      this.metrics.set('minerfi_pool_efficiency_percent', report.efficiency, labels);
+      this.metrics.set('minerfi_pool_uptime_percent', report.uptime, labels);
+    }
     return poolBalances;
   }
 
   /**
-   * Get BTC balance from Luxor mining pool
+   * Keep the latest readings per ASIC for /status and the dashboards
    */
-  private async getLuxorPoolBalance(): Promise<PoolBalance | null> {
-    try {
-      const response = await axios.get(`${this.LUXOR_API_URL}/accounts/balance`, {
-        headers: {
-          'Authorization': `Bearer ${process.env.LUXOR_API_KEY}`,
-          'Content-Type': 'application/json'
-        }
+  private recordAsicUnits(units: AsicUnitSample[]) {
+    this.lastAsicUnits = units;
+    for (const name of ASIC_METRICS) {
+      this.metrics.reset(name);
+    }
+    
+    for (const unit of units) {
+      const labels = { unit: unit.unitId, pool_id: unit.poolId };
+      this.metrics.set('minerfi_asic_online', unit.online ? 1 : 0, labels);
+      this.metrics.set('minerfi_asic_hashrate_ths', unit.hashrateTHs, labels);
+      if (unit.chipTempC !== undefined) this.metrics.set('minerfi_asic_chip_temperature_celsius', unit.chipTempC, labels);
+      if (unit.powerW !== undefined) this.metrics.set('minerfi_asic_power_watts', unit.powerW, labels);
+      if (unit.rejectedShares !== undefined) this.metrics.set('minerfi_asic_rejected_shares', unit.rejectedShares, labels);
+      (unit.fanRpm ?? []).forEach((rpm, index) => {
+        this.metrics.set('minerfi_asic_fan_rpm', rpm, { ...labels, fan: String(index + 1) });
       });
-      
-      const data = response.data;
-      return {
-        poolId: 'luxor_btc_pool',
-        btcBalance: data.confirmed_balance || 0,
-        pendingBTC: data.pending_balance || 0,
-        lastUpdate: new Date()
-      };
+    }
+  }
+
+  /**
+   * Read the ASIC fleet; without telemetry the pool APIs are the only hashrate source
+   */
+  private async sampleAsicUnits(): Promise<AsicUnitSample[]> {
+    if (!this.asicTelemetry) return [];
+    
+    try {
+      return await this.asicTelemetry.sampleUnits();
     } catch (error) {
-      console.error('Error fetching Luxor balance:', error);
-      return null;
+      console.error(`Error reading ${this.asicTelemetry.type} ASIC telemetry:`, (error as Error).message);
+      return [];
     }
   }
 
   /**
-   * Get BTC balance from Foundry mining pool
+   * Convert BTC to cbBTC with the cheapest available strategy, journaling every step
    */
-  private async getFoundryPoolBalance(): Promise<PoolBalance | null> {
+  async convertBTCToCBBTC(btcAmount: number): Promise<CBBTCConversionResult | null> {
+    let selection;
     try {
-      const response = await axios.get(`${this.FOUNDRY_API_URL}/accounts/balance`, {
-        headers: {
-          'Authorization': `Bearer ${process.env.FOUNDRY_API_KEY}`,
-          'Content-Type': 'application/json'
-        }
-      });
-      
-      const data = response.data;
-      return {
-        poolId: 'foundry_btc_pool',
-        btcBalance: data.available_balance || 0,
-        pendingBTC: data.unconfirmed_balance || 0,
-        lastUpdate: new Date()
-      };
+      selection = await selectStrategy(this.strategies, btcAmount);
     } catch (error) {
-      console.error('Error fetching Foundry balance:', error);
+      console.error('Error choosing a conversion strategy:', error);
       return null;
     }
+    
+    for (const estimate of selection.estimates) {
+      console.log(`  ${estimate.strategy}: ${estimate.expectedCbbtcAmount} cbBTC (cost ${estimate.netCostBTC.toFixed(8)} BTC; ${estimate.detail})`);
+    }
+    
+    const record = this.ledger.begin(btcAmount, {
+      strategy: selection.strategy.name,
+      estimatedCbbtcAmount: selection.estimate.expectedCbbtcAmount
+    });
+    console.log(`Started conversion ${record.idempotencyKey} via ${selection.strategy.name}`);
+    return this.runConversion(record);
   }
 
   /**
-   * Convert BTC to cbBTC using Coinbase API
+   * Resume conversions left unfinished by a previous run
    */
-  async convertBTCToCBBTC(btcAmount: number): Promise<CBBTCConversionResult | null> {
+  async resumePendingConversions(): Promise<CBBTCConversionResult[]> {
+    const results: CBBTCConversionResult[] = [];
+    
+    for (const record of this.ledger.pending()) {
+      if (this.loop.stopping) break;
+      console.log(`Resuming conversion ${record.idempotencyKey} from step '${record.step}'...`);
+      const result = await this.runConversion(record);
+      if (result) {
+        results.push(result);
+      }
+    }
+    
+    return results;
+  }
+
+  /**
+   * Drive a conversion forward from its last journaled step
+   */
+  private async runConversion(record: ConversionRecord): Promise<CBBTCConversionResult | null> {
+    const key = record.idempotencyKey;
+    const strategyName = record.strategy || 'exchange';
+    
     try {
-      // Step 1: Sell BTC for USD on Coinbase
-      const usdAmount = await this.sellBTCForUSD(btcAmount);
-      
-      if (!usdAmount) {
-        throw new Error('Failed to sell BTC for USD');
+      // Steps 1–2: Get cbBTC into the service wallet with the strategy the conversion started with
+      const strategy = this.strategies.find((candidate) => candidate.name === strategyName);
+      if (!strategy) {
+        throw new Error(`Conversion uses the ${strategyName} strategy, which is not in CONVERSION_STRATEGIES`);
       }
+      record = await strategy.acquire(record, this.ledger);
       
-      // Step 2: Buy cbBTC with USD
-      const cbbtcAmount = await this.buyCBBTCWithUSD(usdAmount);
-      
-      if (!cbbtcAmount) {
-        throw new Error('Failed to buy cbBTC with USD');
+      // Step 3: Sign the cbBTC transfer to the mining pool contract
+      if (record.step === 'bought') {
+        const signed = await this.signFundingTransaction(record.cbbtcAmount!);
+        // Journal it before broadcasting so a crash or RPC error never leads to a second transfer
+        record = this.ledger.advance(key, 'funding', {
+          transactionHash: signed.hash,
+          signedTransaction: signed.serialized,
+          ...(signed.approval ? addApprovalGas(record, signed.approval) : {})
+        });
       }
       
-      // Step 3: Transfer cbBTC to mining pool contract
-      const txHash = await this.transferCBBTCToPool(cbbtcAmount);
+      // Step 4: Broadcast (again, when resuming) and confirm the funding transaction
+      if (record.step === 'funding') {
+        if (record.signedTransaction && !(await this.broadcastFundingTransaction(record.transactionHash!, record.signedTransaction))) {
+          // Its nonce went to another transaction, so it can never be mined: safe to sign a new one
+          this.ledger.advance(key, 'bought');
+          throw new Error(`Funding transaction ${record.transactionHash} was replaced before it was mined`);
+        }
+        
+        const receipt = await this.confirmFundingTransaction(record.transactionHash!);
+        
+        if (receipt === null) {
+          // Reverted on-chain: the cbBTC never left the wallet, safe to send again
+          this.ledger.advance(key, 'bought');
+          throw new Error(`Funding transaction ${record.transactionHash} reverted`);
+        }
+        
+        const costs = calculateConversionCosts(record, receipt, await this.getCostPrices(record));
+        record = this.ledger.advance(key, 'completed', { costs });
+        
+        this.metrics.inc('minerfi_conversions_total', 1, { strategy: strategyName });
+        this.metrics.inc('minerfi_btc_converted_total', record.btcAmount);
+        this.metrics.inc('minerfi_cbbtc_funded_total', record.cbbtcAmount!);
+        this.metrics.inc('minerfi_conversion_cost_usd_total', costs.totalCostUSD);
+        
+        return {
+          idempotencyKey: key,
+          strategy: strategyName,
+          btcAmount: record.btcAmount,
+          cbbtcAmount: record.cbbtcAmount!,
+          quotedSellRate: record.quotedSellRate,
+          realizedSellRate: record.realizedSellRate,
+          quotedBuyRate: record.quotedBuyRate,
+          realizedBuyRate: record.realizedBuyRate,
+          transactionHash: record.transactionHash!,
+          gasUsed: costs.gasUsed,
+          costs
+        };
+      }
       
-      return {
-        btcAmount,
-        cbbtcAmount,
-        transactionHash: txHash,
-        gasUsed: 0 // Would be calculated from actual transaction
-      };
+      return null;
       
     } catch (error) {
-      console.error('Error converting BTC to cbBTC:', error);
+      console.error(`Error converting BTC to cbBTC (${key}):`, error);
+      
+      const failed = this.ledger.recordAttemptFailure(key, error instanceof Error ? error.message : String(error));
+      this.metrics.inc('minerfi_conversion_failures_total', 1, { step: failed.step });
+      if (failed.attempts >= this.config.maxConversionAttempts) {
+        console.error(`Conversion ${key} gave up after ${failed.attempts} attempts at step '${failed.step}'`);
+        this.ledger.advance(key, 'failed');
+        this.metrics.inc('minerfi_conversions_abandoned_total');
+      }
+      
       return null;
     }
   }
 
   /**
-   * Sell BTC for USD on Coinbase
+   * BTC/USD from the ChainlinkOracle contract (reverts when the feed is stale)
+   */
+  private async getOracleBTCPrice(): Promise<number> {
+    const [price, decimals] = await this.oracleContract.getPriceWithDecimals('BTC/USD');
+    return Number(ethers.formatUnits(price, decimals));
+  }
+
+  /**
+   * Oracle prices used to value a conversion's costs. BTC/USD falls back to the
+   * realized sell rate; gas is left unpriced when ETH/USD cannot be read.
    */
-  private async sellBTCForUSD(btcAmount: number): Promise<number | null> {
+  private async getCostPrices(record: ConversionRecord): Promise<{ btcUsd: number; ethUsd: number | null }> {
+    let btcUsd: number;
     try {
-      const response = await axios.post(`${this.COINBASE_API_URL}/accounts/${process.env.COINBASE_BTC_ACCOUNT_ID}/transactions`, {
-        type: 'sell',
-        amount: btcAmount.toString(),
-        currency: 'BTC',
-        payment_method: process.env.COINBASE_PAYMENT_METHOD_ID
-      }, {
-        headers: {
-          'Authorization': `Bearer ${process.env.COINBASE_API_KEY}`,
-          'Content-Type': 'application/json'
-        }
-      });
-      
-      const transaction = response.data.data;
-      return parseFloat(transaction.native_amount.amount);
-      
+      btcUsd = await this.getOracleBTCPrice();
     } catch (error) {
-      console.error('Error selling BTC for USD:', error);
-      return null;
+      if (!record.realizedSellRate) throw error;
+      btcUsd = record.realizedSellRate;
+    }
+    
+    try {
+      const [price, decimals] = await this.oracleContract.getPriceWithDecimals('ETH/USD');
+      return { btcUsd, ethUsd: Number(ethers.formatUnits(price, decimals)) };
+    } catch (error) {
+      console.warn('ETH/USD unavailable from ChainlinkOracle, gas cost left unpriced:', error instanceof Error ? error.message : error);
+      return { btcUsd, ethUsd: null };
     }
   }
 
   /**
-   * Buy cbBTC with USD
+   * Sign, without sending, the cbBTC funding transaction to the mining pool contract,
+   * first approving the pool when its allowance is short
    */
-  private async buyCBBTCWithUSD(usdAmount: number): Promise<number | null> {
+  private async signFundingTransaction(cbbtcAmount: number): Promise<{ hash: string; serialized: string; approval?: FundingReceipt }> {
     try {
-      const response = await axios.post(`${this.COINBASE_API_URL}/accounts/${process.env.COINBASE_USD_ACCOUNT_ID}/transactions`, {
-        type: 'buy',
-        amount: usdAmount.toString(),
-        currency: 'USD',
-        cryptocurrency: 'cbBTC'
-      }, {
-        headers: {
-          'Authorization': `Bearer ${process.env.COINBASE_API_KEY}`,
-          'Content-Type': 'application/json'
-        }
-      });
+      const amountWei = ethers.parseUnits(cbbtcAmount.toString(), 8); // cbBTC has 8 decimals
       
-      const transaction = response.data.data;
-      return parseFloat(transaction.amount.amount);
+      // fundCbBTCRewardPool pulls the cbBTC with transferFrom
+      const poolAddress = await this.miningPoolContract.getAddress();
+      const signerAddress = await this.signer.getAddress();
+      let approval: FundingReceipt | undefined;
+      if ((await this.cbbtcContract.allowance(signerAddress, poolAddress)) < amountWei) {
+        const approvalTx = await this.cbbtcContract.approve(poolAddress, amountWei);
+        const receipt = await approvalTx.wait();
+        approval = { gasUsed: receipt.gasUsed, gasPrice: receipt.gasPrice };
+      }
       
+      const request = await this.signer.populateTransaction(
+        await this.miningPoolContract.fundCbBTCRewardPool.populateTransaction(amountWei)
+      );
+      const serialized = await this.signer.signTransaction(request);
+      return { hash: ethers.Transaction.from(serialized).hash!, serialized, approval };
     } catch (error) {
-      console.error('Error buying cbBTC with USD:', error);
-      return null;
+      console.error('Error signing the cbBTC transfer to the pool:', error);
+      throw error;
     }
   }
 
   /**
-   * Transfer cbBTC to mining pool contract
+   * Make sure a journaled funding transaction reached the network, broadcasting it
+   * unless a node already knows it. Returns false when its nonce was used by another
+   * transaction, so it can never be mined.
    */
-  private async transferCBBTCToPool(cbbtcAmount: number): Promise<string> {
+  private async broadcastFundingTransaction(txHash: string, signedTransaction: string): Promise<boolean> {
+    if (await this.provider.getTransaction(txHash)) {
+      return true;
+    }
+    
     try {
-      const amountWei = ethers.parseUnits(cbbtcAmount.toString(), 8); // cbBTC has 8 decimals
-      
-      const tx = await this.miningPoolContract.fundCbBTCRewardPool(amountWei);
-      await tx.wait();
-      
-      return tx.hash;
-    } catch (error) {
-      console.error('Error transferring cbBTC to pool:', error);
+      await this.provider.broadcastTransaction(signedTransaction);
+      return true;
+    } catch (error: any) {
+      // A node may have picked it up from an earlier broadcast after the lookup
+      if (await this.provider.getTransaction(txHash)) {
+        return true;
+      }
+      if (error.code === 'NONCE_EXPIRED') {
+        return false;
+      }
       throw error;
     }
   }
 
   /**
-   * Update proof of reserve with latest BTC balances
+   * Wait for a funding transaction, returning its gas figures or null if it reverted
+   */
+  private async confirmFundingTransaction(txHash: string): Promise<FundingReceipt | null> {
+    const receipt = await this.provider.waitForTransaction(txHash, 1, 600000);
+    
+    if (!receipt) {
+      throw new Error(`Funding transaction ${txHash} not yet mined`);
+    }
+    
+    return receipt.status === 1 ? { gasUsed: receipt.gasUsed, gasPrice: receipt.gasPrice } : null;
+  }
+
+  /**
+   * Update proof of reserve from the UTXOs of each pool's registered BTC address,
+   * reporting where the pool API balance disagrees with what the chain shows. A pool
+   * that cannot be proven does not hold up the others; the failures are thrown together.
    */
   async updateProofOfReserve(poolBalances: PoolBalance[]) {
-    try {
-      for (const balance of poolBalances) {
-        // Convert BTC to satoshis
-        const btcBalanceSatoshis = Math.floor(balance.btcBalance * 100000000);
-        
-        // Get current block height (would need BTC node connection)
-        const blockHeight = await this.getCurrentBTCBlockHeight();
-        
-        // Update proof of reserve
-        await this.proofOfReserveContract.updateReserveData(
-          balance.poolId,
-          btcBalanceSatoshis,
-          216000000, // 216 TH/s in H/s (example)
-          blockHeight
-        );
-        
-        console.log(`Updated proof of reserve for ${balance.poolId}: ${balance.btcBalance} BTC`);
+    const reports: ReserveProofReport[] = [];
+    const failures: string[] = [];
+    
+    for (const balance of poolBalances) {
+      try {
+        reports.push(await this.proveReserve(balance));
+      } catch (error) {
+        const failure = `${balance.poolId}: ${error instanceof Error ? error.message : String(error)}`;
+        console.error(`Proof of reserve failed for ${failure}`);
+        failures.push(failure);
       }
-    } catch (error) {
-      console.error('Error updating proof of reserve:', error);
+    }
+    
+    this.lastReserveProofs = reports;
+    
+    if (failures.length > 0) {
+      throw new Error(`Proof of reserve failed for ${failures.length} of ${poolBalances.length} pool(s):\n  - ${failures.join('\n  - ')}`);
     }
   }
 
   /**
-   * Get current Bitcoin block height
+   * Prove one pool's reserve, submitting it unless ProofOfReserve already has this block
    */
-  private async getCurrentBTCBlockHeight(): Promise<number> {
+  private async proveReserve(balance: PoolBalance): Promise<ReserveProofReport> {
+    const reserve = await this.proofOfReserveContract.reserves(balance.poolId);
+    if (!reserve.poolAddress) {
+      throw new Error(`Pool ${balance.poolId} is not registered in ProofOfReserve`);
+    }
+    
+    // ProofOfReserve rejects a zero hashrate, so an idle pool is not proven
+    const performance = this.performance.report(balance.poolId);
+    if (!performance || performance.actualTHs <= 0) {
+      throw new Error(`Refusing to update proof of reserve for ${balance.poolId}: no active hashrate measured`);
+    }
+    
+    // Without an agreed block and UTXO set nothing is written
+    let proof: AddressReserveProof;
     try {
-      const response = await axios.get('https://blockstream.info/api/blocks/tip/height');
-      return response.data;
+      proof = await buildAddressReserveProof(this.bitcoinChain, reserve.poolAddress);
     } catch (error) {
-      console.error('Error fetching BTC block height:', error);
-      return 0;
+      throw new Error(`Refusing to update proof of reserve for ${balance.poolId}: ${(error as Error).message}`);
+    }
+    
+    const discrepancySats = Math.round(balance.btcBalance * 100000000) - proof.balanceSats;
+    this.metrics.set('minerfi_reserve_discrepancy_btc', discrepancySats / 100000000, { pool_id: balance.poolId });
+    if (discrepancySats !== 0) {
+      console.warn(
+        `⚠️ Reserve discrepancy for ${balance.poolId}: pool API reports ${balance.btcBalance} BTC, ` +
+        `${proof.address} holds ${proof.balanceSats / 100000000} BTC at block ${proof.blockHeight}`
+      );
+    }
+    
+    let transactionHash: string | null = null;
+    if (proof.blockHeight <= Number(reserve.blockHeight)) {
+      // ProofOfReserve only accepts increasing heights; wait for the next block
+      console.log(`Proof of reserve for ${balance.poolId} is already at block ${reserve.blockHeight}`);
+    } else {
+      const tx = await this.proofOfReserveContract.updateReserveDataWithProof(
+        balance.poolId,
+        proof.balanceSats,
+        toHashesPerSecond(performance.actualTHs),
+        proof.blockHeight,
+        `0x${proof.blockHash}`,
+        proof.utxoSetDigest,
+        proof.utxoCount
+      );
+      await tx.wait();
+      transactionHash = tx.hash;
+      
+      console.log(
+        `Updated proof of reserve for ${balance.poolId}: ${proof.balanceSats / 100000000} BTC ` +
+        `in ${proof.utxoCount} UTXOs at block ${proof.blockHeight}`
+      );
+    }
+    
+    return {
+      poolId: balance.poolId,
+      address: proof.address,
+      blockHeight: proof.blockHeight,
+      blockHash: proof.blockHash,
+      balanceBTC: proof.balanceSats / 100000000,
+      utxoCount: proof.utxoCount,
+      utxoSetDigest: proof.utxoSetDigest,
+      poolApiBTC: balance.btcBalance,
+      discrepancyBTC: discrepancySats / 100000000,
+      transactionHash,
+      checkedAt: new Date()
+    };
+  }
+
+  /**
+   * Submit each pool's measured hashrate, efficiency against the rated hashrate and uptime
+   * to ProofOfReserve, which needs them to mark the pool's reserves verified
+   */
+  async updatePerformanceData() {
+    for (const report of this.performance.reports()) {
+      const reserve = await this.proofOfReserveContract.reserves(report.poolId);
+      if (!reserve.poolAddress) {
+        console.log(`Skipping performance update for ${report.poolId}: not registered in ProofOfReserve`);
+        continue;
+      }
+      
+      const tx = await this.proofOfReserveContract.updatePerformanceData(
+        report.poolId,
+        toHashesPerSecond(report.ratedTHs),
+        toHashesPerSecond(report.actualTHs),
+        report.efficiency,
+        report.uptime,
+        report.blocksFound24h
+      );
+      await tx.wait();
+      
+      console.log(
+        `Updated performance for ${report.poolId}: ${report.actualTHs.toFixed(1)}/${report.ratedTHs} TH/s, ` +
+        `${report.efficiency}% efficiency, ${report.uptime}% uptime over ${report.samples} samples`
+      );
     }
   }
 
   /**
-   * Main automation loop
+   * Main automation loop: runs the scheduled tasks until a stop command or signal
    */
   async startAutomationLoop() {
     console.log('Starting BTC → cbBTC automation service...');
+    this.startedAt = new Date();
     
-    while (true) {
-      try {
-        console.log('Checking mining pool balances...');
-        
-        // 1. Monitor pool balances
-        const poolBalances = await this.monitorPoolBalances();
-        
-        // 2. Update proof of reserve
-        await this.updateProofOfReserve(poolBalances);
-        
-        // 3. Check if conversion is needed
-        const totalBTC = poolBalances.reduce((sum, pool) => sum + pool.btcBalance, 0);
-        const minimumConversionThreshold = 0.01; // 0.01 BTC
+    for (const task of this.scheduler.status().filter((status) => status.enabled)) {
+      console.log(`  ${task.name}: ${task.schedule} (next ${task.nextRunAt!.toISOString()})`);
+    }
+    
+    await this.scheduler.run(this.config.runOnStart);
+    console.log('Automation loop stopped');
+  }
+
+  /**
+   * Conversion task: finish conversions a previous run left half-done, then convert
+   * the pools' BTC once it reaches minimumConversionBTC
+   */
+  private async runConversionTask() {
+    const startedAt = new Date();
+    const results: CBBTCConversionResult[] = [];
+    let poolBTC = 0;
+    
+    try {
+      results.push(...await this.resumePendingConversions());
+      
+      const poolBalances = await this.pollPoolBalances();
+      poolBTC = poolBalances.reduce((sum, pool) => sum + pool.btcBalance, 0);
+      
+      if (this.loop.stopping) {
+        console.log('Stop requested, not starting a new conversion');
+      } else if (this.ledger.pending().length > 0) {
+        // Failing the task retries the unfinished conversions with backoff
+        throw new Error(`${this.ledger.pending().length} conversion(s) still unfinished, not starting another`);
+      } else if (poolBTC >= this.config.minimumConversionBTC) {
+        console.log(`Converting ${poolBTC} BTC to cbBTC...`);
         
-        if (totalBTC >= minimumConversionThreshold) {
-          console.log(`Converting ${totalBTC} BTC to cbBTC...`);
-          
-          const result = await this.convertBTCToCBBTC(totalBTC);
-          
-          if (result) {
-            console.log(`Successfully converted ${result.btcAmount} BTC to ${result.cbbtcAmount} cbBTC`);
-            console.log(`Transaction hash: ${result.transactionHash}`);
-          } else {
-            console.error('Failed to convert BTC to cbBTC');
-          }
+        const result = await this.convertBTCToCBBTC(poolBTC);
+        if (!result) {
+          throw new Error('Failed to convert BTC to cbBTC');
         }
         
-        // 4. Wait for next cycle (every 1 hour)
-        console.log('Waiting for next cycle (1 hour)...');
-        await new Promise(resolve => setTimeout(resolve, 3600000)); // 1 hour
-        
-      } catch (error) {
-        console.error('Error in automation loop:', error);
-        // Wait 5 minutes before retrying
-        await new Promise(resolve => setTimeout(resolve, 300000));
+        console.log(`Successfully converted ${result.btcAmount} BTC to ${result.cbbtcAmount} cbBTC`);
+        console.log(`Transaction hash: ${result.transactionHash}`);
+        results.push(result);
+      }
+      
+      this.finishConversionRun(startedAt, poolBTC, results);
+      if (results.length > 0) {
+        const { totalCostUSD, costShare, gasCostETH } = this.lastConversionRun!.costs;
+        console.log(`Conversion cost: $${totalCostUSD.toFixed(2)} (${(costShare * 100).toFixed(2)}% of converted value, ${gasCostETH} ETH gas)`);
       }
+    } catch (error) {
+      this.finishConversionRun(startedAt, poolBTC, results, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Distribution task: trigger MiningPool's daily cbBTC distribution once it is due
+   */
+  private async distributeRewards() {
+    const distribution = await this.distributionKeeper.run();
+    
+    if (distribution) {
+      this.metrics.inc('minerfi_distributions_total');
+      this.metrics.inc('minerfi_cbbtc_distributed_total', distribution.totalAmount);
+    }
+  }
+
+  private finishConversionRun(startedAt: Date, poolBTC: number, conversions: CBBTCConversionResult[], error?: unknown) {
+    this.lastConversionRun = {
+      startedAt,
+      finishedAt: new Date(),
+      outcome: error === undefined ? 'ok' : 'error',
+      ...(error === undefined ? {} : { error: error instanceof Error ? error.message : String(error) }),
+      poolBTC,
+      conversions,
+      costs: totalCosts(conversions)
+    };
+  }
+
+  private recordTaskRun(run: TaskRun) {
+    const labels = { task: run.task };
+    
+    this.metrics.inc('minerfi_service_task_runs_total', 1, { ...labels, outcome: run.outcome });
+    if (run.outcome === 'ok') {
+      this.metrics.set('minerfi_service_task_last_success_timestamp_seconds', Math.floor(run.finishedAt.getTime() / 1000), labels);
     }
+    this.metrics.set('minerfi_service_task_circuit_open', run.circuit === 'open' ? 1 : 0, labels);
+  }
+
+  /**
+   * Healthy while every enabled task keeps running on schedule: a task is unhealthy
+   * once it is healthGraceMs past due (stuck, or starved by a stuck task) or its
+   * circuit is open. A paused loop is healthy.
+   */
+  getHealth(): HealthReport {
+    const now = Date.now();
+    const unhealthyTasks = this.scheduler.status()
+      .filter((task) => task.enabled)
+      .filter((task) => task.circuit === 'open' || now - task.nextRunAt!.getTime() > this.config.healthGraceMs)
+      .map((task) => task.name);
+    const healthy = this.startedAt !== null && (this.loop.state === 'paused' || unhealthyTasks.length === 0);
+    
+    return {
+      healthy,
+      state: this.loop.state,
+      network: this.manifest.network,
+      startedAt: this.startedAt,
+      unhealthyTasks,
+      pendingConversions: this.ledger.pending().length
+    };
   }
 
   /**
-   * Emergency stop function
+   * Prometheus metrics for the running service
    */
-  async emergencyStop() {
-    console.log('Emergency stop triggered - halting automation service');
-    process.exit(0);
+  getMetrics(): string {
+    this.metrics.set('minerfi_conversions_pending', this.ledger.pending().length);
+    return this.metrics.render();
+  }
+
+  /**
+   * Apply a pause/resume/run-once/stop command to the running loop
+   */
+  control(command: ControlCommand) {
+    const state = this.loop.apply(command);
+    console.log(`Control command '${command}' received, loop is ${state}`);
+    return state;
+  }
+
+  /**
+   * Run the service while holding this MiningPool's lock: the automation loop with
+   * its status/control API, or a single cycle when `once` is set. SIGTERM/SIGINT stop
+   * it after the current conversion step; a second signal exits immediately and
+   * leaves the journaled conversion to be resumed on the next start.
+   */
+  async run(once: boolean = false) {
+    const lock = serviceLockFor(this.manifest);
+    const { controlToken } = lock.acquire(this.manifest.network, await this.miningPoolContract.getAddress());
+    const releaseLock = () => lock.release();
+    process.on('exit', releaseLock);
+    
+    const onSignal = (signal: NodeJS.Signals) => {
+      if (this.loop.stopping) {
+        console.warn(`${signal} received again, exiting now`);
+        process.exit(1);
+      }
+      console.log(`${signal} received, stopping after the current conversion step...`);
+      this.loop.apply('stop');
+    };
+    process.on('SIGTERM', onSignal);
+    process.on('SIGINT', onSignal);
+    
+    let server: ServiceStatusServer | null = null;
+    try {
+      if (once) {
+        await this.scheduler.runAll();
+        return;
+      }
+      
+      server = new ServiceStatusServer({
+        health: () => this.getHealth(),
+        status: () => this.getServiceStatus(),
+        metrics: () => this.getMetrics(),
+        control: (command) => this.control(command)
+      }, controlToken);
+      const url = await server.start(this.config.http.port, this.config.http.host);
+      lock.update({ controlUrl: url });
+      console.log(`Status API listening on ${url} (/health, /status, /metrics, /control)`);
+      
+      await this.startAutomationLoop();
+    } finally {
+      await server?.stop();
+      process.off('SIGTERM', onSignal);
+      process.off('SIGINT', onSignal);
+      process.off('exit', releaseLock);
+      lock.release();
+    }
   }
 
   /**
@@ -334,13 +819,28 @@ export class BTCToCBBTCService {
    */
   async getServiceStatus() {
     try {
-      const poolBalances = await this.monitorPoolBalances();
-      const cbbtcBalance = await this.cbbtcContract.balanceOf(this.miningPoolContract.address);
+      // The running loop already polls the pools; only a one-off status call fetches them
+      const poolBalances = this.lastPoolBalances ?? await this.monitorPoolBalances();
+      const cbbtcBalance = await this.cbbtcContract.balanceOf(await this.miningPoolContract.getAddress());
       
       return {
         status: 'active',
+        network: this.manifest.network,
+        loop: this.loop.state,
         poolBalances,
+        tasks: this.scheduler.status(),
+        lastConversionRun: this.lastConversionRun,
+        lastDistribution: this.distributionKeeper.last(),
+        reserveProofs: this.lastReserveProofs,
+        performance: this.performance.reports(),
+        asicUnits: this.lastAsicUnits,
+        pendingConversions: this.ledger.pending(),
         cbbtcRewardPoolBalance: ethers.formatUnits(cbbtcBalance, 8),
+        // How much of the converted value the pipeline eats (spreads, fees, gas)
+        costs: {
+          lastRun: this.lastConversionRun?.costs ?? null,
+          cumulative: totalCosts(this.ledger.all().filter((record) => record.step === 'completed'))
+        },
         lastUpdate: new Date()
       };
     } catch (error) {
@@ -356,30 +856,78 @@ export class BTCToCBBTCService {
 // Export for use in other scripts
 export default BTCToCBBTCService;
 
+/**
+ * Lock held by the service running against this manifest's MiningPool
+ */
+function serviceLockFor(manifest: DeploymentManifest): ServiceLock {
+  return ServiceLock.forPool(manifest.network, requireAddresses(manifest, ['MiningPool']).MiningPool);
+}
+
+/**
+ * Send a control command to the service running against this manifest's MiningPool
+ */
+async function sendControlCommand(manifest: DeploymentManifest, command: ControlCommand) {
+  const holder = serviceLockFor(manifest).holder();
+  if (!holder) {
+    throw new Error(`No btc-cbbtc-service is running for the ${manifest.network} MiningPool`);
+  }
+  
+  // SIGTERM works even before the control API is up; the service stops gracefully either way
+  if (command === 'stop') {
+    process.kill(holder.pid, 'SIGTERM');
+    console.log(`Sent SIGTERM to btc-cbbtc-service (pid ${holder.pid}), it stops after the current conversion step`);
+    return;
+  }
+  
+  if (!holder.controlUrl) {
+    throw new Error(`btc-cbbtc-service (pid ${holder.pid}) has not started its control API yet`);
+  }
+  const response = await axios.post(`${holder.controlUrl}/control/${command}`, null, {
+    headers: { Authorization: `Bearer ${holder.controlToken}` }
+  });
+  console.log(`btc-cbbtc-service (pid ${holder.pid}) is ${response.data.state}`);
+}
+
 // CLI runner
 if (require.main === module) {
-  const service = new BTCToCBBTCService();
-  
   async function main() {
-    await service.initialize();
-    
+    // Loaded inside main so a missing deployment manifest is reported like any other error
+    const manifest = loadManifest();
     const command = process.argv[2];
     
     switch (command) {
       case 'start':
-        await service.startAutomationLoop();
-        break;
-      case 'status':
+      case 'run-once': {
+        // run-once asks a running service for an immediate cycle, or runs one here if there is none
+        if (command === 'run-once' && serviceLockFor(manifest).holder()) {
+          await sendControlCommand(manifest, 'run-once');
+          break;
+        }
+        const service = new BTCToCBBTCService(undefined, undefined, manifest);
+        await service.initialize();
+        await service.run(command === 'run-once');
+        // Providers and timers would otherwise keep the process alive
+        process.exit(0);
+      }
+      case 'status': {
+        const service = new BTCToCBBTCService(undefined, undefined, manifest);
+        await service.initialize();
         const status = await service.getServiceStatus();
         console.log(JSON.stringify(status, null, 2));
         break;
+      }
+      case 'pause':
+      case 'resume':
       case 'stop':
-        await service.emergencyStop();
+        await sendControlCommand(manifest, command);
         break;
       default:
-        console.log('Usage: npm run btc-service [start|status|stop]');
+        console.log('Usage: npm run btc-service [start|status|pause|resume|run-once|stop]');
     }
   }
   
-  main().catch(console.error);
-}
\ No newline at end of file
+  main().catch((error) => {
+    console.error(error.message || error);
+    process.exit(1);
+  });
+}
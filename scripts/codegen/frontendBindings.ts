@@ -0,0 +1,97 @@
+import fs from 'fs';
+import path from 'path';
+
+export interface ContractArtifact {
+  contractName: string;
+  sourceName: string;
+  abi: readonly unknown[];
+}
+
+export interface BindingFile {
+  fileName: string;
+  content: string;
+}
+
+// Contracts from dependencies that the frontend talks to directly (cbBTC, USDC)
+export const EXTERNAL_BINDINGS = [
+  '@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol:IERC20Metadata'
+];
+
+export const DEFAULT_BINDINGS_DIR = path.join('frontend', 'src', 'contracts', 'generated');
+
+const HEADER = '// Generated by scripts/generate-frontend-bindings.ts. Do not edit.';
+
+/**
+ * Render one `<Name>.ts` per contract plus an index re-exporting all of them.
+ * ABIs are emitted `as const` so web3's Contract<typeof Abi> is fully typed.
+ */
+export function renderBindings(artifacts: ContractArtifact[]): BindingFile[] {
+  const sorted = [...artifacts].sort((a, b) => (a.contractName < b.contractName ? -1 : 1));
+  const seen = new Set<string>();
+
+  const files = sorted.map((artifact) => {
+    if (seen.has(artifact.contractName)) {
+      throw new Error(`Duplicate contract name ${artifact.contractName} (${artifact.sourceName})`);
+    }
+    seen.add(artifact.contractName);
+
+    const name = `${artifact.contractName}Abi`;
+    return {
+      fileName: `${artifact.contractName}.ts`,
+      content: [
+        HEADER,
+        `// Source: ${artifact.sourceName}`,
+        '',
+        `export const ${name} = ${JSON.stringify(artifact.abi, null, 2)} as const;`,
+        '',
+        `export type ${name} = typeof ${name};`,
+        ''
+      ].join('\n')
+    };
+  });
+
+  const index = [
+    HEADER,
+    '',
+    ...sorted.map((artifact) => `export * from './${artifact.contractName}';`),
+    ''
+  ].join('\n');
+
+  return [...files, { fileName: 'index.ts', content: index }];
+}
+
+/**
+ * Replace the contents of `outDir` with the rendered bindings
+ */
+export function writeBindings(outDir: string, files: BindingFile[]) {
+  fs.rmSync(outDir, { recursive: true, force: true });
+  fs.mkdirSync(outDir, { recursive: true });
+
+  for (const file of files) {
+    fs.writeFileSync(path.join(outDir, file.fileName), file.content);
+  }
+}
+
+/**
+ * List binding files in `outDir` that are missing, stale or no longer generated
+ */
+export function findStaleBindings(outDir: string, files: BindingFile[]): string[] {
+  const expected = new Map(files.map((file) => [file.fileName, file.content]));
+  const existing = fs.existsSync(outDir) ? fs.readdirSync(outDir) : [];
+  const stale: string[] = [];
+
+  for (const [fileName, content] of expected) {
+    const filePath = path.join(outDir, fileName);
+    if (!fs.existsSync(filePath) || fs.readFileSync(filePath, 'utf8') !== content) {
+      stale.push(fileName);
+    }
+  }
+
+  for (const fileName of existing) {
+    if (!expected.has(fileName)) {
+      stale.push(fileName);
+    }
+  }
+
+  return stale.sort();
+}
@@ -1,127 +1,62 @@
-import { ethers } from "hardhat";
-import * as dotenv from "dotenv";
-
-dotenv.config();
-
+import { ethers, network } from 'hardhat';
+import { config } from 'dotenv';
+import { loadOrCreateManifest, manifestPath, saveManifest } from './deployment/manifestFile';
+import { DeploymentOrchestrator } from './deployment/orchestrator';
+import { createHardhatBackend } from './deployment/hardhatBackend';
+import { DeployProfile, createDeploymentPlan, loadDeployConfig } from './deployment/plan';
+
+config();
+
+// Usage: DEPLOY_PROFILE=complete|secure|all npx hardhat run scripts/deploy.ts --network <network>
+// Safe to re-run: deployed contracts are read from deployments/<network>.json and wiring
+// calls are only sent when the on-chain state is not already in place.
 async function main() {
-  const [deployer] = await ethers.getSigners();
-  
-  console.log("Deploying contracts with the account:", deployer.address);
-  console.log("Account balance:", (await deployer.getBalance()).toString());
-
-  // Contract addresses for Base network
-  const BTC_PRICE_FEED = process.env.CHAINLINK_BTC_USD_FEED || "0x56a43EB56Da12C0dc1D972ACb089c06a5dEF8e69";
-  const AAVE_POOL = process.env.AAVE_V3_POOL_ADDRESS || "0xA238Dd80C259a72e81d7e4664a9801593F98d1c5";
-  const CBBTC_TOKEN = process.env.CBBTC_TOKEN_ADDRESS || "0xcbB7C0000aB88B473b1f5aFd9ef808440eed33Bf";
-  
-  console.log("Using BTC Price Feed:", BTC_PRICE_FEED);
-  console.log("Using Aave Pool:", AAVE_POOL);
-  console.log("Using cbBTC Token:", CBBTC_TOKEN);
-
-  // Deploy ChainlinkOracle
-  console.log("\n=== Deploying ChainlinkOracle ===");
-  const ChainlinkOracle = await ethers.getContractFactory("ChainlinkOracle");
-  const oracle = await ChainlinkOracle.deploy(BTC_PRICE_FEED);
-  await oracle.deployed();
-  console.log("ChainlinkOracle deployed to:", oracle.address);
+  const profile = (process.env.DEPLOY_PROFILE || 'complete') as DeployProfile;
+  console.log(`🚀 Deploying MinerFi (${profile}) to ${network.name}...\n`);
 
-  // Deploy cbBTCMiningToken
-  console.log("\n=== Deploying cbBTCMiningToken ===");
-  const cbBTCMiningToken = await ethers.getContractFactory("cbBTCMiningToken");
-  const miningToken = await cbBTCMiningToken.deploy();
-  await miningToken.deployed();
-  console.log("cbBTCMiningToken deployed to:", miningToken.address);
-
-  // Deploy MiningPool
-  console.log("\n=== Deploying MiningPool ===");
-  const MiningPool = await ethers.getContractFactory("MiningPool");
-  const miningPool = await MiningPool.deploy(
-    miningToken.address,
-    oracle.address,
-    CBBTC_TOKEN
-  );
-  await miningPool.deployed();
-  console.log("MiningPool deployed to:", miningPool.address);
-
-  // Deploy AaveIntegration
-  console.log("\n=== Deploying AaveIntegration ===");
-  const AaveIntegration = await ethers.getContractFactory("AaveIntegration");
-  
-  // For Base network, we need to get the aToken address for cbBTC
-  // This is a placeholder - you'd need to get the actual aToken address
-  const aCBBTC_TOKEN = "0x0000000000000000000000000000000000000000"; // Replace with actual aToken
-  
-  const aaveIntegration = await AaveIntegration.deploy(
-    AAVE_POOL,
-    CBBTC_TOKEN,
-    aCBBTC_TOKEN,
-    miningToken.address
-  );
-  await aaveIntegration.deployed();
-  console.log("AaveIntegration deployed to:", aaveIntegration.address);
-
-  // Setup permissions
-  console.log("\n=== Setting up permissions ===");
-  
-  // Add MiningPool as minter for cbBTCMiningToken
-  await miningToken.addMinter(miningPool.address);
-  console.log("Added MiningPool as minter for cbBTCMiningToken");
-
-  // Add AaveIntegration as minter for cbBTCMiningToken
-  await miningToken.addMinter(aaveIntegration.address);
-  console.log("Added AaveIntegration as minter for cbBTCMiningToken");
-
-  // Authorize MiningPool to call AaveIntegration
-  await aaveIntegration.setAuthorizedCaller(miningPool.address, true);
-  console.log("Authorized MiningPool to call AaveIntegration");
-
-  // Create initial mining pool
-  console.log("\n=== Creating initial mining pool ===");
-  await miningPool.createPool(
-    "Bitcoin Mining Pool #1",
-    ethers.utils.parseEther("0.1"), // 0.1 tokens per second reward rate
-    ethers.utils.parseEther("0.01"), // 0.01 cbBTC minimum stake
-    86400 // 1 day lockup period
-  );
-  console.log("Created initial mining pool");
-
-  // Display deployment summary
-  console.log("\n=== Deployment Summary ===");
-  console.log("ChainlinkOracle:", oracle.address);
-  console.log("cbBTCMiningToken:", miningToken.address);
-  console.log("MiningPool:", miningPool.address);
-  console.log("AaveIntegration:", aaveIntegration.address);
-  
-  // Save deployment info to file
-  const deploymentInfo = {
-    network: "base",
-    chainId: 8453,
-    contracts: {
-      ChainlinkOracle: oracle.address,
-      cbBTCMiningToken: miningToken.address,
-      MiningPool: miningPool.address,
-      AaveIntegration: aaveIntegration.address
-    },
-    externalContracts: {
-      BTC_PRICE_FEED,
-      AAVE_POOL,
-      CBBTC_TOKEN,
-      aCBBTC_TOKEN
-    },
-    deployer: deployer.address,
-    timestamp: new Date().toISOString()
-  };
-
-  const fs = require("fs");
-  fs.writeFileSync(
-    "deployment-info.json",
-    JSON.stringify(deploymentInfo, null, 2)
+  const [deployer] = await ethers.getSigners();
+  const { chainId } = await ethers.provider.getNetwork();
+  console.log('Deploying contracts with account:', deployer.address);
+  console.log('Account balance:', ethers.formatEther(await ethers.provider.getBalance(deployer.address)));
+
+  const deployConfig = loadDeployConfig(deployer.address);
+  const manifest = loadOrCreateManifest(network.name, Number(chainId), deployer.address);
+  manifest.external = { ...manifest.external, ...deployConfig.external };
+  manifest.roles = { ...manifest.roles, ...deployConfig.roles };
+  saveManifest(manifest);
+
+  const orchestrator = new DeploymentOrchestrator(
+    createDeploymentPlan(deployConfig, profile),
+    manifest,
+    deployer.address,
+    createHardhatBackend(deployer),
+    saveManifest
   );
-  
-  console.log("\nDeployment info saved to deployment-info.json");
+  const results = await orchestrator.run();
+  saveManifest(manifest);
+
+  const count = (outcome: string) => results.filter((result) => result.outcome === outcome).length;
+
+  console.log('\n📋 DEPLOYMENT SUMMARY');
+  console.log('=====================================');
+  for (const [name, deployment] of Object.entries(manifest.contracts)) {
+    console.log(`${name.padEnd(24)} : ${deployment.address}`);
+  }
+  console.log(`\n${count('deployed')} deployed, ${count('called')} wiring calls sent, ${count('skipped')} steps already done`);
+  console.log(`Manifest: ${manifestPath(network.name)}`);
+
+  console.log('\n🔧 Next Steps');
+  console.log('=====================================');
+  console.log('1. Verify contracts on Basescan');
+  console.log('2. Set up Chainlink Automation subscription');
+  console.log('3. Fund MiningPool with initial cbBTC rewards');
+  console.log(`4. Point the service and frontend at ${network.name} (DEPLOYMENT_NETWORK / VITE_DEPLOYMENT_NETWORK)`);
 }
 
-main().catch((error) => {
-  console.error(error);
-  process.exitCode = 1;
-});
\ No newline at end of file
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('❌ Deployment failed:', error.message || error);
+    console.error('Fix the cause and re-run; completed steps will be skipped.');
+    process.exit(1);
+  });
@@ -0,0 +1,201 @@
+import { ethers } from 'hardhat';
+import { DeploymentManifest } from '../../deployments/manifest';
+import { Invariant, expectAddress, expectAddressSet } from './invariants';
+import { SECURE_ROLES } from './plan';
+
+// Public RPCs cap eth_getLogs ranges, so role history is read in chunks
+const LOG_CHUNK_SIZE = 10000;
+
+/**
+ * Current holders of an AccessControl role, rebuilt from RoleGranted/RoleRevoked
+ * events since the contract was deployed (OpenZeppelin 4 roles are not enumerable)
+ */
+async function roleHolders(contract: any, role: string, fromBlock: number): Promise<string[]> {
+  const latest = await ethers.provider.getBlockNumber();
+  const events: any[] = [];
+
+  for (let start = fromBlock; start <= latest; start += LOG_CHUNK_SIZE) {
+    const end = Math.min(start + LOG_CHUNK_SIZE - 1, latest);
+    events.push(
+      ...await contract.queryFilter(contract.filters.RoleGranted(role), start, end),
+      ...await contract.queryFilter(contract.filters.RoleRevoked(role), start, end)
+    );
+  }
+
+  events.sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+
+  const holders = new Set<string>();
+  for (const event of events) {
+    const account = ethers.getAddress(event.args.account);
+    if (event.fragment.name === 'RoleGranted') holders.add(account);
+    else holders.delete(account);
+  }
+
+  return [...holders];
+}
+
+async function deploymentBlock(manifest: DeploymentManifest, name: string): Promise<number> {
+  const hash = manifest.contracts[name].transactionHash;
+  const receipt = hash ? await ethers.provider.getTransactionReceipt(hash) : null;
+  return receipt ? receipt.blockNumber : 0;
+}
+
+/**
+ * The wiring scripts/deploy.ts sets up, expressed as checks against the addresses
+ * and roles in the manifest
+ */
+export function createDeploymentInvariants(
+  manifest: DeploymentManifest,
+  proofOfReservePools: Record<string, string>
+): Invariant[] {
+  const address = (name: string) =>
+    manifest.contracts[name]?.address ?? manifest.external[name as keyof DeploymentManifest['external']]!;
+  const contract = (name: string) => ethers.getContractAt(manifest.contracts[name].contract, address(name));
+  const oracle = manifest.roles.proofOfReserveOracle || manifest.deployer;
+
+  const references = (name: string, getters: Record<string, string>): Invariant => ({
+    id: `${name}:references`,
+    description: `${name} points at ${Object.values(getters).join(', ')}`,
+    requires: [name, ...Object.values(getters)],
+    check: async () => {
+      const target: any = await contract(name);
+      const drift: string[] = [];
+      for (const [getter, expected] of Object.entries(getters)) {
+        const problem = expectAddress(`${name}.${getter}()`, await target[getter](), address(expected));
+        if (problem) drift.push(problem);
+      }
+      return drift.length > 0 ? drift.join('; ') : null;
+    }
+  });
+
+  const minter = (name: string): Invariant => ({
+    id: `cbBTCMiningToken:minter:${name}`,
+    description: `${name} is a minter on cbBTCMiningToken`,
+    requires: ['cbBTCMiningToken', name],
+    check: async () => (await (await contract('cbBTCMiningToken')).minters(address(name)))
+      ? null
+      : `minters(${address(name)}) is false`
+  });
+
+  // The deployer only keeps the secure contract roles the configuration leaves to it
+  const deployerRoles = (name: keyof typeof SECURE_ROLES): Invariant => ({
+    id: `${name}:deployerRoles`,
+    description: `The deployer holds no ${name} role configured to someone else`,
+    requires: [name],
+    check: async () => {
+      const target: any = await contract(name);
+      const kept: string[] = [];
+      for (const [role, holder] of Object.entries(SECURE_ROLES[name])) {
+        const configured = holder === null ? null : manifest.roles[holder] || manifest.deployer;
+        if (configured !== null && configured.toLowerCase() === manifest.deployer.toLowerCase()) continue;
+        if (await target.hasRole(await target[role](), manifest.deployer)) kept.push(role);
+      }
+      return kept.length > 0 ? `deployer ${manifest.deployer} still holds ${kept.join(', ')}` : null;
+    }
+  });
+
+  return [
+    {
+      id: 'code',
+      description: 'Every contract in the manifest has code on chain',
+      requires: [],
+      check: async () => {
+        const empty: string[] = [];
+        for (const [name, deployment] of Object.entries(manifest.contracts)) {
+          if (await ethers.provider.getCode(deployment.address) === '0x') empty.push(`${name} (${deployment.address})`);
+        }
+        return empty.length > 0 ? `no code at ${empty.join(', ')}` : null;
+      }
+    },
+    minter('MiningPool'),
+    minter('AaveIntegration'),
+    {
+      id: 'AaveIntegration:authorizedCaller:MiningPool',
+      description: 'AaveIntegration authorizes MiningPool',
+      requires: ['AaveIntegration', 'MiningPool'],
+      check: async () => (await (await contract('AaveIntegration')).authorizedCallers(address('MiningPool')))
+        ? null
+        : `authorizedCallers(${address('MiningPool')}) is false`
+    },
+    {
+      id: 'ChainlinkOracle:feed:ETH/USD',
+      description: 'ChainlinkOracle ETH/USD feed is the configured ethUsdFeed',
+      requires: ['ChainlinkOracle', 'ethUsdFeed'],
+      check: async () => expectAddress(
+        "ChainlinkOracle.priceFeeds('ETH/USD')",
+        await (await contract('ChainlinkOracle')).priceFeeds('ETH/USD'),
+        address('ethUsdFeed')
+      )
+    },
+    {
+      id: 'SecurityManager:operators',
+      description: 'SecurityManager OPERATOR_ROLE is held by exactly MiningPool and AaveIntegration',
+      requires: ['SecurityManager', 'MiningPool', 'AaveIntegration'],
+      check: async () => {
+        const securityManager = await contract('SecurityManager');
+        const holders = await roleHolders(
+          securityManager,
+          await securityManager.OPERATOR_ROLE(),
+          await deploymentBlock(manifest, 'SecurityManager')
+        );
+        return expectAddressSet('OPERATOR_ROLE', holders, {
+          MiningPool: address('MiningPool'),
+          AaveIntegration: address('AaveIntegration')
+        });
+      }
+    },
+    {
+      id: 'ProofOfReserve:oracle',
+      description: `ProofOfReserve authorizes oracle ${oracle}`,
+      requires: ['ProofOfReserve'],
+      check: async () => (await (await contract('ProofOfReserve')).authorizedOracles(oracle))
+        ? null
+        : `authorizedOracles(${oracle}) is false`
+    },
+    {
+      id: 'ProofOfReserve:pools',
+      description: `ProofOfReserve tracks ${Object.keys(proofOfReservePools).join(', ')}`,
+      requires: ['ProofOfReserve'],
+      check: async () => {
+        const proofOfReserve = await contract('ProofOfReserve');
+        const poolIds: string[] = await proofOfReserve.getAllPoolIds();
+        const drift: string[] = [];
+
+        for (const [poolId, btcAddress] of Object.entries(proofOfReservePools)) {
+          if (!poolIds.includes(poolId)) {
+            drift.push(`${poolId} is not registered`);
+            continue;
+          }
+          const { poolAddress } = await proofOfReserve.reserves(poolId);
+          if (poolAddress !== btcAddress) drift.push(`${poolId} pays out to ${poolAddress}, expected ${btcAddress}`);
+        }
+
+        return drift.length > 0 ? drift.join('; ') : null;
+      }
+    },
+    references('ChainlinkAutomation', {
+      miningPool: 'MiningPool',
+      proofOfReserve: 'ProofOfReserve',
+      autoReinvestment: 'AutoReinvestment'
+    }),
+    references('MiningPool', {
+      miningToken: 'cbBTCMiningToken',
+      oracle: 'ChainlinkOracle',
+      cbBTC: 'cbBTC',
+      aaveIntegration: 'AaveIntegration'
+    }),
+    references('AutoReinvestment', {
+      miningPool: 'MiningPool',
+      miningToken: 'cbBTCMiningToken',
+      oracle: 'ChainlinkOracle',
+      cbBTC: 'cbBTC'
+    }),
+    references('TokenizedMining', {
+      usdc: 'usdc',
+      oracle: 'ChainlinkOracle',
+      cbBTC: 'cbBTC'
+    }),
+    deployerRoles('SecureTokenizedMining'),
+    deployerRoles('SecureAaveIntegration')
+  ];
+}
@@ -0,0 +1,21 @@
+import { ethers } from 'hardhat';
+import { Signer } from 'ethers';
+import { DeploymentBackend } from './orchestrator';
+
+/**
+ * Deploys through the Hardhat artifacts with `deployer`, against the network Hardhat is connected to
+ */
+export function createHardhatBackend(deployer: Signer): DeploymentBackend {
+  return {
+    deploy: async (contract, args) => {
+      const factory = await ethers.getContractFactory(contract, deployer);
+      const instance = await factory.deploy(...args);
+      await instance.waitForDeployment();
+      return {
+        address: await instance.getAddress(),
+        transactionHash: instance.deploymentTransaction()?.hash
+      };
+    },
+    hasCode: async (address) => (await ethers.provider.getCode(address)) !== '0x'
+  };
+}
@@ -0,0 +1,94 @@
+import { DeploymentManifest } from '../../deployments/manifest';
+
+/**
+ * One expectation about deployed on-chain state. `check` returns a description
+ * of the drift, or null when the chain matches.
+ */
+export interface Invariant {
+  id: string;
+  description: string;
+  // Manifest entries (contracts or external) the check needs
+  requires: string[];
+  check(): Promise<string | null>;
+}
+
+export interface InvariantResult {
+  id: string;
+  description: string;
+  passed: boolean;
+  detail?: string;
+}
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+/**
+ * Drift message for an address that should point at `expected`, or null
+ */
+export function expectAddress(label: string, actual: string, expected: string): string | null {
+  return sameAddress(actual, expected) ? null : `${label} is ${actual}, expected ${expected}`;
+}
+
+/**
+ * Drift message for a set of addresses that should match `expected` exactly, or null
+ */
+export function expectAddressSet(label: string, actual: string[], expected: Record<string, string>): string | null {
+  const missing = Object.entries(expected)
+    .filter(([, address]) => !actual.some((holder) => sameAddress(holder, address)))
+    .map(([name]) => name);
+  const unexpected = actual.filter((holder) => !Object.values(expected).some((address) => sameAddress(holder, address)));
+
+  if (missing.length === 0 && unexpected.length === 0) return null;
+
+  return [
+    missing.length > 0 ? `${label} missing ${missing.join(', ')}` : '',
+    unexpected.length > 0 ? `${label} includes unexpected ${unexpected.join(', ')}` : ''
+  ].filter(Boolean).join('; ');
+}
+
+/**
+ * Run every invariant, turning missing manifest entries and errors into failures
+ * so one broken check never hides the others
+ */
+export async function checkInvariants(invariants: Invariant[], manifest: DeploymentManifest): Promise<InvariantResult[]> {
+  const results: InvariantResult[] = [];
+
+  for (const invariant of invariants) {
+    const missing = invariant.requires.filter(
+      (name) => !manifest.contracts[name] && !manifest.external[name as keyof DeploymentManifest['external']]
+    );
+
+    let detail: string | null;
+    if (missing.length > 0) {
+      detail = `not in the manifest: ${missing.join(', ')}`;
+    } else {
+      try {
+        detail = await invariant.check();
+      } catch (error) {
+        detail = `check failed: ${(error as Error).message}`;
+      }
+    }
+
+    results.push({
+      id: invariant.id,
+      description: invariant.description,
+      passed: detail === null,
+      ...(detail === null ? {} : { detail })
+    });
+  }
+
+  return results;
+}
+
+export function formatReport(results: InvariantResult[]): string {
+  const failed = results.filter((result) => !result.passed).length;
+  const lines = results.map((result) =>
+    result.passed ? `✅ ${result.description}` : `❌ ${result.description}\n   ${result.detail}`
+  );
+
+  lines.push('');
+  lines.push(failed === 0
+    ? `All ${results.length} invariants hold`
+    : `${failed} of ${results.length} invariants failed`);
+
+  return lines.join('\n');
+}
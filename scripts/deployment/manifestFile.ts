@@ -0,0 +1,91 @@
+import fs from 'fs';
+import path from 'path';
+import {
+  ContractDeployment,
+  DeploymentManifest,
+  DeploymentManifestError,
+  createManifest,
+  parseManifest
+} from '../../deployments/manifest';
+
+export const DEPLOYMENTS_DIR = path.resolve(__dirname, '..', '..', 'deployments');
+
+export function manifestPath(network: string, dir: string = DEPLOYMENTS_DIR): string {
+  return path.join(dir, `${network}.json`);
+}
+
+/**
+ * Load and validate the manifest for `network` (DEPLOYMENT_NETWORK, default base)
+ */
+export function loadManifest(
+  network: string = process.env.DEPLOYMENT_NETWORK || 'base',
+  dir: string = DEPLOYMENTS_DIR
+): DeploymentManifest {
+  const filePath = manifestPath(network, dir);
+
+  if (!fs.existsSync(filePath)) {
+    throw new DeploymentManifestError(
+      `No deployment manifest for ${network} at ${path.relative(process.cwd(), filePath)}. ` +
+      `Deploy with \`npx hardhat run scripts/deploy.ts --network ${network}\` first.`
+    );
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    throw new DeploymentManifestError(`${filePath}: not valid JSON (${(error as Error).message})`);
+  }
+
+  return parseManifest(json, filePath);
+}
+
+/**
+ * Load the existing manifest for `network` so a deploy adds to it, or start a new one.
+ * Refuses to mix deployments from two chains under the same network name.
+ */
+export function loadOrCreateManifest(
+  network: string,
+  chainId: number,
+  deployer: string,
+  dir: string = DEPLOYMENTS_DIR
+): DeploymentManifest {
+  if (!fs.existsSync(manifestPath(network, dir))) {
+    return createManifest(network, chainId, deployer);
+  }
+
+  const manifest = loadManifest(network, dir);
+  if (manifest.chainId !== chainId) {
+    throw new DeploymentManifestError(
+      `Manifest for ${network} was written for chainId ${manifest.chainId}, but the provider reports ${chainId}`
+    );
+  }
+
+  manifest.deployer = deployer;
+  return manifest;
+}
+
+export function recordContract(
+  manifest: DeploymentManifest,
+  name: string,
+  deployment: Omit<ContractDeployment, 'deployedAt'>
+) {
+  manifest.contracts[name] = { ...deployment, deployedAt: new Date().toISOString() };
+}
+
+/**
+ * Validate and write the manifest, replacing the previous file atomically
+ */
+export function saveManifest(manifest: DeploymentManifest, dir: string = DEPLOYMENTS_DIR): string {
+  manifest.updatedAt = new Date().toISOString();
+  parseManifest(manifest, manifest.network);
+
+  const filePath = manifestPath(manifest.network, dir);
+  const tmpPath = `${filePath}.tmp`;
+
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(tmpPath, JSON.stringify(manifest, null, 2) + '\n');
+  fs.renameSync(tmpPath, filePath);
+
+  return filePath;
+}
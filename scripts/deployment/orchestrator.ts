@@ -0,0 +1,172 @@
+import { DeploymentManifest, manifestArgs, requireAddresses } from '../../deployments/manifest';
+
+export interface StepContext {
+  manifest: DeploymentManifest;
+  deployer: string;
+  // Address of a deployed contract (deployment name) or external contract; throws if unknown
+  address(name: string): string;
+}
+
+interface BaseStep {
+  id: string;
+  dependsOn?: string[];
+}
+
+/**
+ * Deploys `contract` and records it in the manifest under `id`, with its arguments.
+ * Skipped when the manifest already has `id` with the same arguments and there is
+ * code at its address.
+ */
+export interface DeployStep extends BaseStep {
+  kind: 'deploy';
+  contract: string;
+  args(ctx: StepContext): unknown[] | Promise<unknown[]>;
+}
+
+/**
+ * One wiring transaction. `isDone` reads on-chain state so the step is
+ * skipped when a previous run (or someone else) already applied it.
+ */
+export interface CallStep extends BaseStep {
+  kind: 'call';
+  description: string;
+  isDone(ctx: StepContext): Promise<boolean>;
+  run(ctx: StepContext): Promise<{ hash: string; wait(): Promise<unknown> }>;
+}
+
+export type DeploymentStep = DeployStep | CallStep;
+
+export type StepOutcome = 'deployed' | 'called' | 'skipped';
+
+export interface StepResult {
+  id: string;
+  outcome: StepOutcome;
+  address?: string;
+  transactionHash?: string;
+}
+
+// Chain access for deploy steps, kept behind an interface so the ordering and skip logic can be tested without a node
+export interface DeploymentBackend {
+  deploy(contract: string, args: unknown[]): Promise<{ address: string; transactionHash?: string }>;
+  hasCode(address: string): Promise<boolean>;
+}
+
+/**
+ * Order steps so every step runs after its dependencies, keeping the declared
+ * order otherwise. Throws on unknown dependencies and cycles.
+ */
+export function orderSteps(steps: DeploymentStep[]): DeploymentStep[] {
+  const byId = new Map<string, DeploymentStep>();
+  for (const step of steps) {
+    if (byId.has(step.id)) throw new Error(`Duplicate deployment step ${step.id}`);
+    byId.set(step.id, step);
+  }
+
+  const ordered: DeploymentStep[] = [];
+  const state = new Map<string, 'visiting' | 'done'>();
+
+  const visit = (step: DeploymentStep, path: string[]) => {
+    if (state.get(step.id) === 'done') return;
+    if (state.get(step.id) === 'visiting') {
+      throw new Error(`Deployment steps form a cycle: ${[...path, step.id].join(' → ')}`);
+    }
+
+    state.set(step.id, 'visiting');
+    for (const dependency of step.dependsOn || []) {
+      const dependencyStep = byId.get(dependency);
+      if (!dependencyStep) throw new Error(`Step ${step.id} depends on unknown step ${dependency}`);
+      visit(dependencyStep, [...path, step.id]);
+    }
+    state.set(step.id, 'done');
+    ordered.push(step);
+  };
+
+  for (const step of steps) visit(step, []);
+  return ordered;
+}
+
+/**
+ * Runs a deployment plan against one network. The manifest is persisted after
+ * every deployment, so a failed run can simply be started again.
+ */
+export class DeploymentOrchestrator {
+  private steps: DeploymentStep[];
+  private context: StepContext;
+
+  constructor(
+    steps: DeploymentStep[],
+    private manifest: DeploymentManifest,
+    deployer: string,
+    private backend: DeploymentBackend,
+    private persist: (manifest: DeploymentManifest) => void
+  ) {
+    this.steps = orderSteps(steps);
+    this.context = {
+      manifest,
+      deployer,
+      address: (name) => requireAddresses(manifest, [name])[name]
+    };
+  }
+
+  async run(): Promise<StepResult[]> {
+    const results: StepResult[] = [];
+
+    for (const step of this.steps) {
+      try {
+        results.push(step.kind === 'deploy' ? await this.runDeploy(step) : await this.runCall(step));
+      } catch (error) {
+        throw new Error(`Deployment step ${step.id} failed: ${(error as Error).message}`);
+      }
+    }
+
+    return results;
+  }
+
+  private async runDeploy(step: DeployStep): Promise<StepResult> {
+    const existing = this.manifest.contracts[step.id];
+    const args = await step.args(this.context);
+    const recordedArgs = manifestArgs(args);
+
+    if (existing && existing.contract === step.contract && await this.backend.hasCode(existing.address)) {
+      // Entries from before arguments were recorded cannot be compared, so they are kept
+      if (existing.args === undefined || JSON.stringify(existing.args) === JSON.stringify(recordedArgs)) {
+        console.log(`⏭️  ${step.id} already deployed at ${existing.address}`);
+        return { id: step.id, outcome: 'skipped', address: existing.address };
+      }
+      console.warn(
+        `⚠️ ${step.id} at ${existing.address} was deployed with ${JSON.stringify(existing.args)}, ` +
+        `now ${JSON.stringify(recordedArgs)}, redeploying`
+      );
+    } else if (existing) {
+      console.warn(`⚠️ ${step.id} in the manifest has no code at ${existing.address}, redeploying`);
+    }
+
+    console.log(`🚀 Deploying ${step.id}${step.id === step.contract ? '' : ` (${step.contract})`}...`);
+    const { address, transactionHash } = await this.backend.deploy(step.contract, args);
+
+    this.manifest.contracts[step.id] = {
+      contract: step.contract,
+      address,
+      transactionHash,
+      deployedAt: new Date().toISOString(),
+      args: recordedArgs
+    };
+    this.persist(this.manifest);
+
+    console.log(`✅ ${step.id} deployed to ${address}`);
+    return { id: step.id, outcome: 'deployed', address, transactionHash };
+  }
+
+  private async runCall(step: CallStep): Promise<StepResult> {
+    if (await step.isDone(this.context)) {
+      console.log(`⏭️  ${step.description} (already done)`);
+      return { id: step.id, outcome: 'skipped' };
+    }
+
+    console.log(`- ${step.description}...`);
+    const tx = await step.run(this.context);
+    await tx.wait();
+
+    return { id: step.id, outcome: 'called', transactionHash: tx.hash };
+  }
+}
@@ -0,0 +1,367 @@
+import { ethers } from 'hardhat';
+import { ExternalContract } from '../../deployments/manifest';
+import { CallStep, DeployStep, DeploymentStep, StepContext } from './orchestrator';
+import { PricingParameters } from '../machines/miningPricing';
+
+export type DeployProfile = 'complete' | 'secure' | 'all';
+
+export interface DeployConfig {
+  external: Record<ExternalContract, string>;
+  // Pools registered in ProofOfReserve: pool ID → BTC payout address
+  proofOfReservePools: Record<string, string>;
+  // TokenizedMining hashprice inputs, seeded once; operators keep the network data current
+  pricing: PricingParameters;
+  roles: {
+    admin: string;
+    operator: string;
+    yieldManager: string;
+    emergency: string;
+    proofOfReserveOracle: string;
+  };
+}
+
+const INITIAL_POOL = {
+  name: 'Antminer S21+ Pool',
+  rewardRate: ethers.parseEther('0.001'), // 0.001 tokens per day reward rate
+  minimumStake: ethers.parseEther('0.01'), // 0.01 cbBTC minimum stake
+  lockupPeriod: 7 * 24 * 60 * 60, // 7 days lockup period
+  hashRate: 216000000000000n // 216 TH/s in H/s
+};
+
+// Antminer S21+ economics; the difficulty and fees are mainnet figures at the time of writing
+const INITIAL_PRICING: PricingParameters = {
+  networkDifficulty: 126270000000000n,
+  blockSubsidy: 312500000n, // 3.125 BTC
+  blockFees: 2000000n, // 0.02 BTC
+  energyPricePerKwh: ethers.parseUnits('0.07', 6),
+  machinePowerW: 3510n,
+  machineRatedTh: 216n,
+  equipmentCost: ethers.parseUnits('7170', 6),
+  breakevenDays: 466n, // 15.5 months
+  markupPercent: 5n
+};
+
+const SECURE_LIMITS = {
+  maxContractBalance: ethers.parseUnits('10000000', 6), // 10M USDC
+  maxDailyWithdraw: ethers.parseUnits('50000', 6),
+  maxDailyDeposit: ethers.parseUnits('100000', 6),
+  maxUserBalance: ethers.parseUnits('500000', 6),
+  aaveMaxContractBalance: ethers.parseUnits('5000000', 6)
+};
+
+export function loadProofOfReservePools(): Record<string, string> {
+  return {
+    antminer_s21_pool: process.env.POR_POOL_BTC_ADDRESS || '3FUpjxWpEDAMKLuhrsGgQ6bAf8m3EHHn2Y'
+  };
+}
+
+/**
+ * Read the deploy configuration from the environment, defaulting to the Base mainnet
+ * external contracts and to the deployer for every role.
+ */
+export function loadDeployConfig(deployer: string): DeployConfig {
+  const cbBTC = process.env.CBBTC_TOKEN_ADDRESS || '0xcbB7C0000aB88B473b1f5aFd9ef808440eed33Bf';
+
+  if (!process.env.ACBBTC_TOKEN_ADDRESS) {
+    console.warn('⚠️ ACBBTC_TOKEN_ADDRESS not set, using the cbBTC address as a placeholder aToken');
+  }
+
+  return {
+    external: {
+      cbBTC,
+      usdc: process.env.USDC_TOKEN_ADDRESS || '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+      btcUsdFeed: process.env.CHAINLINK_BTC_USD_FEED || '0x56a43EB56Da12C0dc1D972ACb089c06a5dEF8e69',
+      ethUsdFeed: process.env.CHAINLINK_ETH_USD_FEED || '0x71041dddad3595F9CEd3DcCFBe3D1F4b0a16Bb70',
+      aavePool: process.env.AAVE_V3_POOL_ADDRESS || '0xA238Dd80C259a72e81d7e4664a9801593F98d1c5',
+      aCbBTC: process.env.ACBBTC_TOKEN_ADDRESS || cbBTC
+    },
+    proofOfReservePools: loadProofOfReservePools(),
+    pricing: {
+      ...INITIAL_PRICING,
+      networkDifficulty: BigInt(process.env.PRICING_NETWORK_DIFFICULTY || INITIAL_PRICING.networkDifficulty)
+    },
+    roles: {
+      admin: process.env.SECURE_ADMIN_ADDRESS || deployer,
+      operator: process.env.SECURE_OPERATOR_ADDRESS || deployer,
+      yieldManager: process.env.SECURE_YIELD_MANAGER_ADDRESS || deployer,
+      emergency: process.env.SECURE_EMERGENCY_ADDRESS || deployer,
+      proofOfReserveOracle: process.env.POR_ORACLE_ADDRESS || deployer
+    }
+  };
+}
+
+const deploy = (id: string, args: DeployStep['args'], dependsOn: string[] = [], contract = id): DeployStep => ({
+  kind: 'deploy',
+  id,
+  contract,
+  args,
+  dependsOn
+});
+
+const at = async (ctx: StepContext, id: string) =>
+  ethers.getContractAt(ctx.manifest.contracts[id].contract, ctx.address(id), await ethers.getSigner(ctx.deployer));
+
+const addMinter = (minter: string): CallStep => ({
+  kind: 'call',
+  id: `minter:${minter}`,
+  dependsOn: ['cbBTCMiningToken', minter],
+  description: `Adding ${minter} as cbBTCMiningToken minter`,
+  isDone: async (ctx) => (await at(ctx, 'cbBTCMiningToken')).minters(ctx.address(minter)),
+  run: async (ctx) => (await at(ctx, 'cbBTCMiningToken')).addMinter(ctx.address(minter))
+});
+
+// Role grants are keyed by role name and resolve the role hash from the contract itself
+const grantRole = (id: string, contract: string, role: string, account: (ctx: StepContext) => string, dependsOn: string[] = []): CallStep => ({
+  kind: 'call',
+  id,
+  dependsOn: [contract, ...dependsOn],
+  description: `Granting ${role} on ${contract} to ${id.split(':').pop()}`,
+  isDone: async (ctx) => {
+    const target = await at(ctx, contract);
+    return target.hasRole(await target[role](), account(ctx));
+  },
+  run: async (ctx) => {
+    const target = await at(ctx, contract);
+    return target.grantRole(await target[role](), account(ctx));
+  }
+});
+
+function completeSteps(config: DeployConfig): DeploymentStep[] {
+  const porPools: CallStep[] = Object.entries(config.proofOfReservePools).map(([poolId, btcAddress]) => ({
+    kind: 'call',
+    id: `por:pool:${poolId}`,
+    dependsOn: ['ProofOfReserve'],
+    description: `Adding ${poolId} to Proof of Reserve`,
+    isDone: async (ctx) => (await (await at(ctx, 'ProofOfReserve')).reserves(poolId)).poolAddress !== '',
+    run: async (ctx) => (await at(ctx, 'ProofOfReserve')).addPool(poolId, btcAddress)
+  }));
+
+  return [
+    deploy('SecurityManager', () => []),
+    deploy('cbBTCMiningToken', () => []),
+    deploy('ChainlinkOracle', (ctx) => [ctx.address('btcUsdFeed')]),
+    deploy('AaveIntegration', (ctx) => [
+      ctx.address('aavePool'),
+      ctx.address('cbBTC'),
+      ctx.address('aCbBTC'),
+      ctx.address('cbBTCMiningToken')
+    ], ['cbBTCMiningToken']),
+    deploy('MiningPool', (ctx) => [
+      ctx.address('cbBTCMiningToken'),
+      ctx.address('ChainlinkOracle'),
+      ctx.address('cbBTC'),
+      ctx.address('AaveIntegration')
+    ], ['cbBTCMiningToken', 'ChainlinkOracle', 'AaveIntegration']),
+    deploy('ProofOfReserve', () => []),
+    deploy('AutoReinvestment', (ctx) => [
+      ctx.address('MiningPool'),
+      ctx.address('cbBTCMiningToken'),
+      ctx.address('ChainlinkOracle'),
+      ctx.address('cbBTC')
+    ], ['MiningPool', 'cbBTCMiningToken', 'ChainlinkOracle']),
+    deploy('ChainlinkAutomation', (ctx) => [
+      ctx.address('MiningPool'),
+      ctx.address('ProofOfReserve'),
+      ctx.address('AutoReinvestment')
+    ], ['MiningPool', 'ProofOfReserve', 'AutoReinvestment']),
+    deploy('TokenizedMining', (ctx) => [ctx.address('usdc'), ctx.address('ChainlinkOracle'), ctx.address('cbBTC')], ['ChainlinkOracle']),
+
+    addMinter('MiningPool'),
+    addMinter('AaveIntegration'),
+    {
+      kind: 'call',
+      id: 'oracle:feed:ETH/USD',
+      dependsOn: ['ChainlinkOracle'],
+      description: 'Adding the ETH/USD feed to ChainlinkOracle (prices the service\'s gas)',
+      isDone: async (ctx) => (await (await at(ctx, 'ChainlinkOracle')).priceFeeds('ETH/USD')) === ctx.address('ethUsdFeed'),
+      run: async (ctx) => (await at(ctx, 'ChainlinkOracle')).addPriceFeed('ETH/USD', ctx.address('ethUsdFeed'))
+    },
+    {
+      kind: 'call',
+      id: 'aave:authorize:MiningPool',
+      dependsOn: ['AaveIntegration', 'MiningPool'],
+      description: 'Setting MiningPool as authorized caller on AaveIntegration',
+      isDone: async (ctx) => (await at(ctx, 'AaveIntegration')).authorizedCallers(ctx.address('MiningPool')),
+      run: async (ctx) => (await at(ctx, 'AaveIntegration')).setAuthorizedCaller(ctx.address('MiningPool'), true)
+    },
+    {
+      kind: 'call',
+      id: 'pool:create:0',
+      dependsOn: ['MiningPool'],
+      description: `Creating mining pool "${INITIAL_POOL.name}"`,
+      isDone: async (ctx) => (await (await at(ctx, 'MiningPool')).poolCount()) > 0n,
+      run: async (ctx) => (await at(ctx, 'MiningPool')).createPool(
+        INITIAL_POOL.name,
+        INITIAL_POOL.rewardRate,
+        INITIAL_POOL.minimumStake,
+        INITIAL_POOL.lockupPeriod
+      )
+    },
+    {
+      kind: 'call',
+      id: 'pool:hashrate:0',
+      dependsOn: ['pool:create:0'],
+      description: 'Setting pool 0 hashrate',
+      // Only seeds an unset hashrate; later updates come from the service
+      isDone: async (ctx) => (await (await at(ctx, 'MiningPool')).pools(0)).totalHashRate > 0n,
+      run: async (ctx) => (await at(ctx, 'MiningPool')).updateHashRate(0, INITIAL_POOL.hashRate)
+    },
+    {
+      kind: 'call',
+      id: 'mining:pricing',
+      dependsOn: ['TokenizedMining'],
+      description: 'Setting TokenizedMining pricing parameters',
+      // Only seeds unset pricing; later updates go through npm run machines -- pricing-set
+      isDone: async (ctx) => (await (await at(ctx, 'TokenizedMining')).pricingUpdatedAt()) > 0n,
+      run: async (ctx) => (await at(ctx, 'TokenizedMining')).setPricingParameters(config.pricing)
+    },
+    ...porPools,
+    {
+      kind: 'call',
+      id: 'por:oracle',
+      dependsOn: ['ProofOfReserve'],
+      description: 'Authorizing the Proof of Reserve oracle',
+      isDone: async (ctx) => (await at(ctx, 'ProofOfReserve')).authorizedOracles(config.roles.proofOfReserveOracle),
+      run: async (ctx) => (await at(ctx, 'ProofOfReserve')).setAuthorizedOracle(config.roles.proofOfReserveOracle, true)
+    },
+    grantRole('security:operator:MiningPool', 'SecurityManager', 'OPERATOR_ROLE', (ctx) => ctx.address('MiningPool'), ['MiningPool']),
+    grantRole('security:operator:AaveIntegration', 'SecurityManager', 'OPERATOR_ROLE', (ctx) => ctx.address('AaveIntegration'), ['AaveIntegration'])
+  ];
+}
+
+type SecureContract = 'SecureTokenizedMining' | 'SecureAaveIntegration';
+
+/**
+ * Every role the secure constructors give their `_admin` (the deployer), and the
+ * configured role that should hold it once deployed. Null roles are held by
+ * contracts only, so the deployer always gives them up.
+ */
+export const SECURE_ROLES: Record<SecureContract, Record<string, keyof DeployConfig['roles'] | null>> = {
+  SecureTokenizedMining: {
+    DEFAULT_ADMIN_ROLE: 'admin',
+    ADMIN_ROLE: 'admin',
+    OPERATOR_ROLE: 'operator',
+    YIELD_MANAGER_ROLE: 'yieldManager',
+    EMERGENCY_ROLE: 'emergency'
+  },
+  SecureAaveIntegration: {
+    DEFAULT_ADMIN_ROLE: 'admin',
+    ADMIN_ROLE: 'admin',
+    DEPOSITOR_ROLE: null, // SecureTokenizedMining
+    WITHDRAWER_ROLE: 'admin',
+    YIELD_MANAGER_ROLE: 'yieldManager',
+    EMERGENCY_ROLE: 'emergency'
+  }
+};
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+// Drops a constructor role from the deployer, unless the configuration leaves it to the deployer (the default when unset)
+const renounceRole = (contract: SecureContract, role: string, holder: string | null, dependsOn: string[]): CallStep => ({
+  kind: 'call',
+  id: `${contract}:renounce:${role}`,
+  dependsOn,
+  description: `Renouncing the deployer's ${role} on ${contract}`,
+  isDone: async (ctx) => {
+    if (holder !== null && sameAddress(holder, ctx.deployer)) return true;
+    const target = await at(ctx, contract);
+    return !(await target.hasRole(await target[role](), ctx.deployer));
+  },
+  run: async (ctx) => {
+    const target = await at(ctx, contract);
+    return target.renounceRole(await target[role](), ctx.deployer);
+  }
+});
+
+function secureSteps(config: DeployConfig): DeploymentStep[] {
+  const { roles } = config;
+
+  const wiring: DeploymentStep[] = [
+    deploy('SecureChainlinkOracle', (ctx) => [ctx.address('btcUsdFeed')], [], 'ChainlinkOracle'),
+    // The deployer administers both contracts until the wiring below is done, then renounces its roles
+    deploy('SecureTokenizedMining', (ctx) => [ctx.address('usdc'), ctx.address('btcUsdFeed'), ctx.deployer]),
+    deploy('SecureAaveIntegration', (ctx) => [
+      ctx.address('aavePool'),
+      ctx.address('cbBTC'),
+      ctx.address('aCbBTC'),
+      ctx.deployer
+    ]),
+
+    grantRole('secureMining:defaultAdmin', 'SecureTokenizedMining', 'DEFAULT_ADMIN_ROLE', () => roles.admin),
+    grantRole('secureMining:admin', 'SecureTokenizedMining', 'ADMIN_ROLE', () => roles.admin),
+    grantRole('secureMining:operator', 'SecureTokenizedMining', 'OPERATOR_ROLE', () => roles.operator),
+    grantRole('secureMining:yieldManager', 'SecureTokenizedMining', 'YIELD_MANAGER_ROLE', () => roles.yieldManager),
+    grantRole('secureMining:emergency', 'SecureTokenizedMining', 'EMERGENCY_ROLE', () => roles.emergency),
+    grantRole('secureAave:depositor:SecureTokenizedMining', 'SecureAaveIntegration', 'DEPOSITOR_ROLE', (ctx) => ctx.address('SecureTokenizedMining'), ['SecureTokenizedMining']),
+    grantRole('secureAave:defaultAdmin', 'SecureAaveIntegration', 'DEFAULT_ADMIN_ROLE', () => roles.admin),
+    grantRole('secureAave:admin', 'SecureAaveIntegration', 'ADMIN_ROLE', () => roles.admin),
+    grantRole('secureAave:withdrawer', 'SecureAaveIntegration', 'WITHDRAWER_ROLE', () => roles.admin),
+    grantRole('secureAave:yieldManager', 'SecureAaveIntegration', 'YIELD_MANAGER_ROLE', () => roles.yieldManager),
+    grantRole('secureAave:emergency', 'SecureAaveIntegration', 'EMERGENCY_ROLE', () => roles.emergency),
+    {
+      kind: 'call',
+      id: 'secureMining:limits',
+      dependsOn: ['SecureTokenizedMining'],
+      description: 'Setting SecureTokenizedMining max contract balance',
+      isDone: async (ctx) => (await (await at(ctx, 'SecureTokenizedMining')).maxContractBalance()) === SECURE_LIMITS.maxContractBalance,
+      run: async (ctx) => (await at(ctx, 'SecureTokenizedMining')).setMaxContractBalance(SECURE_LIMITS.maxContractBalance)
+    },
+    {
+      kind: 'call',
+      id: 'secureAave:limits',
+      dependsOn: ['SecureAaveIntegration'],
+      description: 'Setting SecureAaveIntegration security limits',
+      isDone: async (ctx) => {
+        const limits = await (await at(ctx, 'SecureAaveIntegration')).securityLimits();
+        return limits.maxDailyWithdraw === SECURE_LIMITS.maxDailyWithdraw &&
+          limits.maxDailyDeposit === SECURE_LIMITS.maxDailyDeposit &&
+          limits.maxUserBalance === SECURE_LIMITS.maxUserBalance &&
+          limits.maxContractBalance === SECURE_LIMITS.aaveMaxContractBalance;
+      },
+      run: async (ctx) => (await at(ctx, 'SecureAaveIntegration')).updateSecurityLimits(
+        SECURE_LIMITS.maxDailyWithdraw,
+        SECURE_LIMITS.maxDailyDeposit,
+        SECURE_LIMITS.maxUserBalance,
+        SECURE_LIMITS.aaveMaxContractBalance
+      )
+    },
+    {
+      kind: 'call',
+      id: 'secureMining:lastValidPrice',
+      dependsOn: ['SecureTokenizedMining', 'SecureChainlinkOracle'],
+      description: 'Seeding the BTC/USD price used for deviation checks',
+      isDone: async (ctx) => (await (await at(ctx, 'SecureTokenizedMining')).lastValidPrices('BTC/USD')) > 0n,
+      run: async (ctx) => {
+        const [price] = await (await at(ctx, 'SecureChainlinkOracle')).getBTCPrice();
+        return (await at(ctx, 'SecureTokenizedMining')).updateLastValidPrice('BTC/USD', price);
+      }
+    }
+  ];
+
+  // Last, once every grant and limit above no longer needs the deployer
+  const wired = wiring.map((step) => step.id);
+  const renounces = (Object.keys(SECURE_ROLES) as SecureContract[]).flatMap((contract) =>
+    Object.entries(SECURE_ROLES[contract]).map(([role, holder]) =>
+      renounceRole(contract, role, holder === null ? null : roles[holder], wired)
+    )
+  );
+
+  return [...wiring, ...renounces];
+}
+
+/**
+ * Every step for the requested profile. Dependencies are declared per step, so
+ * the orchestrator decides the final order.
+ */
+export function createDeploymentPlan(config: DeployConfig, profile: DeployProfile): DeploymentStep[] {
+  switch (profile) {
+    case 'complete':
+      return completeSteps(config);
+    case 'secure':
+      return secureSteps(config);
+    case 'all':
+      return [...completeSteps(config), ...secureSteps(config)];
+    default:
+      throw new Error(`Unknown deploy profile "${profile}" (expected complete, secure or all)`);
+  }
+}
@@ -0,0 +1,51 @@
+import { artifacts } from 'hardhat';
+import path from 'path';
+import {
+  ContractArtifact,
+  DEFAULT_BINDINGS_DIR,
+  EXTERNAL_BINDINGS,
+  findStaleBindings,
+  renderBindings,
+  writeBindings
+} from './codegen/frontendBindings';
+
+// Usage: npx hardhat run scripts/generate-frontend-bindings.ts
+// Set CODEGEN_CHECK=1 to fail instead of writing when the bindings are out of date.
+async function main() {
+  const outDir = path.resolve(__dirname, '..', DEFAULT_BINDINGS_DIR);
+  const names = (await artifacts.getAllFullyQualifiedNames())
+    .filter((name) => (name.startsWith('contracts/') && !name.startsWith('contracts/mocks/')) || EXTERNAL_BINDINGS.includes(name));
+
+  const contracts: ContractArtifact[] = [];
+  for (const name of names) {
+    const artifact = await artifacts.readArtifact(name);
+    contracts.push({
+      contractName: artifact.contractName,
+      sourceName: artifact.sourceName,
+      abi: artifact.abi
+    });
+  }
+
+  const files = renderBindings(contracts);
+
+  if (process.env.CODEGEN_CHECK) {
+    const stale = findStaleBindings(outDir, files);
+    if (stale.length > 0) {
+      console.error('❌ Frontend bindings are out of date:', stale.join(', '));
+      console.error('Run `npm run codegen` and commit the result.');
+      process.exit(1);
+    }
+    console.log(`✅ ${contracts.length} frontend bindings are up to date`);
+    return;
+  }
+
+  writeBindings(outDir, files);
+  console.log(`✅ Wrote ${contracts.length} contract bindings to ${path.relative(process.cwd(), outDir)}`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,229 @@
+import { ethers } from 'hardhat';
+import { config } from 'dotenv';
+import { loadManifest } from './deployment/manifestFile';
+import { DeploymentManifestError, requireAddresses } from '../deployments/manifest';
+import {
+  MachineRecord,
+  MachineRegistryClient,
+  MachineRegistryContract,
+  parseCommissioningDate,
+  parseMachineStatus
+} from './machines/machineRegistry';
+import { MachineSettlementClient, SettlementContract, SettlementReport } from './machines/machineSettlement';
+import {
+  EarningsCheckpoint,
+  Hashprice,
+  MiningPricingClient,
+  PRICING_KEYS,
+  PricingContract,
+  PricingParameters,
+  parsePricingAssignments
+} from './machines/miningPricing';
+
+config();
+
+const USAGE = `Usage: npm run machines -- <command>
+  list
+  show <serial|id>
+  register <serial> <hosting site> <commissioned YYYY-MM-DD> <rated TH/s>
+  status <serial|id> <active|maintenance|retired>
+  site <serial|id> <hosting site>
+  settle <serial|id> <sale proceeds in cbBTC>     retires the machine if needed, then pays its holders
+  settlement <serial|id>
+  pricing                                         live TH price and daily earnings, with their inputs
+  pricing-set <key=value>...                      ${Object.keys(PRICING_KEYS).join(', ')}
+  pricing-checkpoint                              accrue earnings at the live BTC price from now on`;
+
+const describe = (machine: MachineRecord) => ({
+  id: machine.machineId,
+  serial: machine.serialNumber,
+  site: machine.hostingSite,
+  commissioned: machine.commissionedAt.toISOString().slice(0, 10),
+  ratedTh: machine.ratedTh,
+  allocatedTh: machine.allocatedTh,
+  availableTh: machine.availableTh,
+  status: machine.status
+});
+
+const printSettlement = (report: SettlementReport, decimals: number) => {
+  const cbBTC = (amount: bigint) => `${ethers.formatUnits(amount, decimals)} cbBTC`;
+
+  if (!report.settledAt) {
+    console.log(`Machine #${report.machineId} (${report.serialNumber}) has no recorded sale`);
+  } else {
+    console.log(`Machine #${report.machineId} (${report.serialNumber}) sold for ${cbBTC(report.saleProceeds)} on ${report.settledAt.toISOString()}`);
+    console.log(`Holders' share ${cbBTC(report.payoutPool)}, ${cbBTC(report.paidOut)} paid for ${report.redeemedTh} TH redeemed`);
+  }
+
+  if (report.outstanding.length > 0) {
+    console.table(report.outstanding.map((position) => ({
+      tokenId: position.tokenId,
+      owner: position.owner,
+      thAmount: position.thAmount,
+      payout: report.settledAt ? cbBTC(position.payout) : '-'
+    })));
+  }
+};
+
+const printPricing = (parameters: PricingParameters, updatedAt: Date | null, hashprice: Hashprice, earnings: EarningsCheckpoint) => {
+  const usd = (amount: bigint) => `$${ethers.formatUnits(amount, 6)}`;
+
+  console.table(Object.fromEntries(Object.entries(PRICING_KEYS).map(([key, { field, decimals, unit }]) => [
+    key,
+    { value: ethers.formatUnits(parameters[field], decimals), unit }
+  ])));
+  console.log(`Updated ${updatedAt ? updatedAt.toISOString() : 'never'}`);
+  console.log(`At BTC ${usd(hashprice.btcPrice)}: revenue ${usd(hashprice.revenuePerTh)}, energy ${usd(hashprice.energyCostPerTh)}, ` +
+    `earnings ${usd(hashprice.dailyEarningsPerTh)} per TH per day`);
+  console.log(`TH price ${usd(hashprice.thPrice)}`);
+  console.log(`Positions accrue ${usd(earnings.earningsRatePerTh)} per TH per day, checkpointed ` +
+    `${earnings.checkpointAt ? earnings.checkpointAt.toISOString() : 'never'}`);
+};
+
+/**
+ * TokenizedMining from deployments/<DEPLOYMENT_NETWORK>.json, connected to PRIVATE_KEY (the owner)
+ */
+async function connectTokenizedMining() {
+  const manifest = loadManifest();
+  const { TokenizedMining } = requireAddresses(manifest, ['TokenizedMining']);
+
+  const provider = ethers.getDefaultProvider(process.env.BASE_RPC_URL);
+  const { chainId } = await provider.getNetwork();
+  if (Number(chainId) !== manifest.chainId) {
+    throw new DeploymentManifestError(
+      `BASE_RPC_URL is on chainId ${chainId}, but the ${manifest.network} manifest is for chainId ${manifest.chainId}`
+    );
+  }
+
+  const signer = new ethers.Wallet(process.env.PRIVATE_KEY!, provider);
+  const contract = (await ethers.getContractFactory('TokenizedMining')).attach(TokenizedMining).connect(signer) as any;
+  return { contract, signer };
+}
+
+async function connectRegistry(): Promise<MachineRegistryClient> {
+  const { contract } = await connectTokenizedMining();
+  return new MachineRegistryClient(contract as MachineRegistryContract);
+}
+
+// PRIVATE_KEY may be the owner or a pricing operator, which can only update network data
+async function connectPricing(): Promise<MiningPricingClient> {
+  const { contract } = await connectTokenizedMining();
+  return new MiningPricingClient(contract as PricingContract);
+}
+
+async function connectSettlement() {
+  const { contract, signer } = await connectTokenizedMining();
+  const cbBTC = new ethers.Contract(
+    await contract.cbBTC(),
+    [
+      'function decimals() view returns (uint8)',
+      'function balanceOf(address) view returns (uint256)',
+      'function allowance(address, address) view returns (uint256)',
+      'function approve(address, uint256) returns (bool)'
+    ],
+    signer
+  );
+
+  return {
+    registry: new MachineRegistryClient(contract as MachineRegistryContract),
+    settlement: new MachineSettlementClient(contract as SettlementContract, cbBTC as any, signer.address),
+    decimals: Number(await cbBTC.decimals())
+  };
+}
+
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+  const expectArgs = (count: number) => {
+    if (args.length !== count) {
+      throw new Error(`${command} takes ${count} argument(s)\n\n${USAGE}`);
+    }
+  };
+
+  switch (command) {
+    case 'list': {
+      const machines = await (await connectRegistry()).list();
+      if (machines.length === 0) {
+        console.log('No machines registered');
+      } else {
+        console.table(machines.map(describe));
+      }
+      break;
+    }
+    case 'show':
+      expectArgs(1);
+      console.log(describe(await (await connectRegistry()).get(args[0])));
+      break;
+    case 'register': {
+      expectArgs(4);
+      const machine = await (await connectRegistry()).register({
+        serialNumber: args[0],
+        hostingSite: args[1],
+        commissionedAt: parseCommissioningDate(args[2]),
+        ratedTh: Number(args[3])
+      });
+      console.log(`✅ ${machine.serialNumber} is machine #${machine.machineId} (${machine.ratedTh} TH/s at ${machine.hostingSite})`);
+      break;
+    }
+    case 'status': {
+      expectArgs(2);
+      const machine = await (await connectRegistry()).setStatus(args[0], parseMachineStatus(args[1]));
+      console.log(`✅ Machine #${machine.machineId} (${machine.serialNumber}) is ${machine.status}`);
+      break;
+    }
+    case 'site': {
+      expectArgs(2);
+      const machine = await (await connectRegistry()).setHostingSite(args[0], args[1]);
+      console.log(`✅ Machine #${machine.machineId} (${machine.serialNumber}) is hosted at ${machine.hostingSite}`);
+      break;
+    }
+    case 'settle': {
+      expectArgs(2);
+      const { registry, settlement, decimals } = await connectSettlement();
+      const saleProceeds = ethers.parseUnits(args[1], decimals);
+      let machine = await registry.get(args[0]);
+      await settlement.preflight(machine, saleProceeds);
+      if (machine.status !== 'retired') {
+        machine = await registry.setStatus(args[0], 'retired');
+        console.log(`🔧 Retired machine #${machine.machineId} (${machine.serialNumber})`);
+      }
+      printSettlement(await settlement.settle(machine, saleProceeds), decimals);
+      break;
+    }
+    case 'settlement': {
+      expectArgs(1);
+      const { registry, settlement, decimals } = await connectSettlement();
+      printSettlement(await settlement.report(await registry.get(args[0])), decimals);
+      break;
+    }
+    case 'pricing':
+    case 'pricing-set':
+    case 'pricing-checkpoint': {
+      const pricing = await connectPricing();
+      if (command === 'pricing-set') {
+        if (args.length === 0) {
+          throw new Error(`pricing-set takes at least one key=value\n\n${USAGE}`);
+        }
+        await pricing.update(parsePricingAssignments(args));
+        console.log('✅ Pricing updated');
+      } else if (command === 'pricing-checkpoint') {
+        expectArgs(0);
+        await pricing.checkpoint();
+        console.log('✅ Earnings checkpointed');
+      } else {
+        expectArgs(0);
+      }
+      const { parameters, updatedAt } = await pricing.parameters();
+      printPricing(parameters, updatedAt, await pricing.quote(), await pricing.earnings());
+      break;
+    }
+    default:
+      console.log(USAGE);
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('❌', error.shortMessage || error.message || error);
+    process.exit(1);
+  });
@@ -0,0 +1,168 @@
+import { ContractTransactionResponse } from 'ethers';
+
+// Same order as TokenizedMining.MachineStatus
+export const MACHINE_STATUSES = ['active', 'maintenance', 'retired'] as const;
+export type MachineStatus = typeof MACHINE_STATUSES[number];
+
+/**
+ * A machine as registered in TokenizedMining
+ */
+export interface MachineRecord {
+  machineId: number;
+  serialNumber: string;
+  hostingSite: string;
+  commissionedAt: Date;
+  ratedTh: number;
+  allocatedTh: number;
+  // TH still for sale; 0 unless the machine is active
+  availableTh: number;
+  status: MachineStatus;
+}
+
+export interface NewMachine {
+  serialNumber: string;
+  hostingSite: string;
+  commissionedAt: Date;
+  ratedTh: number;
+}
+
+/**
+ * The TokenizedMining calls the registry makes (an ethers Contract connected to the owner)
+ */
+export interface MachineRegistryContract {
+  machineCount(): Promise<bigint>;
+  machineIdBySerial(serialNumber: string): Promise<bigint>;
+  getMachine(machineId: number): Promise<{
+    serialNumber: string;
+    hostingSite: string;
+    commissionedAt: bigint;
+    ratedTh: bigint;
+    allocatedTh: bigint;
+    status: bigint;
+  }>;
+  registerMachine(serialNumber: string, hostingSite: string, commissionedAt: number, ratedTh: number): Promise<ContractTransactionResponse>;
+  setMachineStatus(machineId: number, status: number): Promise<ContractTransactionResponse>;
+  setMachineHostingSite(machineId: number, hostingSite: string): Promise<ContractTransactionResponse>;
+}
+
+export class MachineRegistryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MachineRegistryError';
+  }
+}
+
+export function parseMachineStatus(value: string): MachineStatus {
+  const status = value.trim().toLowerCase() as MachineStatus;
+  if (!MACHINE_STATUSES.includes(status)) {
+    throw new MachineRegistryError(`Unknown machine status "${value}" (expected ${MACHINE_STATUSES.join(', ')})`);
+  }
+  return status;
+}
+
+/**
+ * Parse a commissioning date given as YYYY-MM-DD (UTC midnight) or a full ISO timestamp
+ */
+export function parseCommissioningDate(value: string): Date {
+  const date = new Date(/^\d{4}-\d{2}-\d{2}$/.test(value) ? `${value}T00:00:00Z` : value);
+  if (isNaN(date.getTime())) {
+    throw new MachineRegistryError(`Invalid commissioning date "${value}" (expected YYYY-MM-DD or an ISO timestamp)`);
+  }
+  return date;
+}
+
+/**
+ * Reads and administers the machine registry in TokenizedMining. Machines are
+ * addressed by serial number or by their numeric machine ID.
+ */
+export class MachineRegistryClient {
+  constructor(private readonly contract: MachineRegistryContract) {}
+
+  async list(): Promise<MachineRecord[]> {
+    const count = Number(await this.contract.machineCount());
+    return Promise.all(Array.from({ length: count }, (_, index) => this.read(index + 1)));
+  }
+
+  async get(machine: string): Promise<MachineRecord> {
+    return this.read(await this.resolve(machine));
+  }
+
+  /**
+   * Register a machine; re-registering an identical machine returns the existing record,
+   * so setup scripts can run more than once
+   */
+  async register(machine: NewMachine): Promise<MachineRecord> {
+    const problems: string[] = [];
+    if (!machine.serialNumber.trim()) problems.push('serial number is required');
+    if (!machine.hostingSite.trim()) problems.push('hosting site is required');
+    if (isNaN(machine.commissionedAt.getTime())) problems.push('commissioning date is invalid');
+    if (!Number.isInteger(machine.ratedTh) || machine.ratedTh <= 0) problems.push(`rated TH/s must be a positive integer, got ${machine.ratedTh}`);
+    if (problems.length > 0) {
+      throw new MachineRegistryError(`Cannot register machine: ${problems.join('; ')}`);
+    }
+
+    const existingId = Number(await this.contract.machineIdBySerial(machine.serialNumber));
+    if (existingId > 0) {
+      const existing = await this.read(existingId);
+      if (
+        existing.hostingSite !== machine.hostingSite ||
+        existing.commissionedAt.getTime() !== toSeconds(machine.commissionedAt) * 1000 ||
+        existing.ratedTh !== machine.ratedTh
+      ) {
+        throw new MachineRegistryError(`Machine ${machine.serialNumber} is already registered as #${existingId} with different details`);
+      }
+      return existing;
+    }
+
+    await (await this.contract.registerMachine(
+      machine.serialNumber,
+      machine.hostingSite,
+      toSeconds(machine.commissionedAt),
+      machine.ratedTh
+    )).wait();
+    return this.get(machine.serialNumber);
+  }
+
+  async setStatus(machine: string, status: MachineStatus): Promise<MachineRecord> {
+    const machineId = await this.resolve(machine);
+    await (await this.contract.setMachineStatus(machineId, MACHINE_STATUSES.indexOf(status))).wait();
+    return this.read(machineId);
+  }
+
+  async setHostingSite(machine: string, hostingSite: string): Promise<MachineRecord> {
+    const machineId = await this.resolve(machine);
+    await (await this.contract.setMachineHostingSite(machineId, hostingSite)).wait();
+    return this.read(machineId);
+  }
+
+  // Serial numbers take precedence, so a numeric serial still finds its machine
+  private async resolve(machine: string): Promise<number> {
+    const bySerial = Number(await this.contract.machineIdBySerial(machine));
+    if (bySerial > 0) return bySerial;
+
+    const machineId = /^#?\d+$/.test(machine) ? parseInt(machine.replace('#', '')) : 0;
+    if (machineId > 0 && machineId <= Number(await this.contract.machineCount())) return machineId;
+
+    throw new MachineRegistryError(`No machine with serial number or ID "${machine}"`);
+  }
+
+  private async read(machineId: number): Promise<MachineRecord> {
+    const machine = await this.contract.getMachine(machineId);
+    const status = MACHINE_STATUSES[Number(machine.status)];
+    const ratedTh = Number(machine.ratedTh);
+    const allocatedTh = Number(machine.allocatedTh);
+
+    return {
+      machineId,
+      serialNumber: machine.serialNumber,
+      hostingSite: machine.hostingSite,
+      commissionedAt: new Date(Number(machine.commissionedAt) * 1000),
+      ratedTh,
+      allocatedTh,
+      availableTh: status === 'active' ? ratedTh - allocatedTh : 0,
+      status
+    };
+  }
+}
+
+const toSeconds = (date: Date) => Math.floor(date.getTime() / 1000);
@@ -0,0 +1,135 @@
+import { ContractTransactionResponse } from 'ethers';
+import { MachineRecord, MachineRegistryError } from './machineRegistry';
+
+/**
+ * The TokenizedMining calls settlement makes (an ethers Contract connected to the owner)
+ */
+export interface SettlementContract {
+  getAddress(): Promise<string>;
+  settlements(machineId: number): Promise<{
+    saleProceeds: bigint;
+    payoutPool: bigint;
+    redeemedTh: bigint;
+    paidOut: bigint;
+    settledAt: bigint;
+  }>;
+  getMachinePositions(machineId: number): Promise<bigint[]>;
+  positions(tokenId: bigint): Promise<{ thAmount: bigint }>;
+  ownerOf(tokenId: bigint): Promise<string>;
+  getRedemptionAmount(tokenId: bigint): Promise<bigint>;
+  recordMachineSale(machineId: number, saleProceeds: bigint): Promise<ContractTransactionResponse>;
+}
+
+/**
+ * The cbBTC calls settlement makes, from the owner's wallet
+ */
+export interface SettlementToken {
+  balanceOf(owner: string): Promise<bigint>;
+  allowance(owner: string, spender: string): Promise<bigint>;
+  approve(spender: string, amount: bigint): Promise<ContractTransactionResponse>;
+}
+
+export interface OutstandingPosition {
+  tokenId: number;
+  owner: string;
+  thAmount: number;
+  // cbBTC (smallest unit) the position receives when redeemed
+  payout: bigint;
+}
+
+export interface SettlementReport {
+  machineId: number;
+  serialNumber: string;
+  settledAt: Date | null;
+  // Amounts in cbBTC's smallest unit
+  saleProceeds: bigint;
+  payoutPool: bigint;
+  paidOut: bigint;
+  redeemedTh: number;
+  outstanding: OutstandingPosition[];
+}
+
+/**
+ * Pays out a retired machine's sale to its position holders. The owner deposits the
+ * holders' share (sale proceeds × sold TH / rated TH) with recordMachineSale; each holder
+ * then burns their NFT with redeemPosition for a share proportional to its TH.
+ */
+export class MachineSettlementClient {
+  constructor(
+    private readonly contract: SettlementContract,
+    private readonly cbBTC: SettlementToken,
+    private readonly owner: string
+  ) {}
+
+  /**
+   * The holders' share of `saleProceeds`, the amount recordMachineSale pulls from the owner
+   */
+  static payoutPool(machine: MachineRecord, saleProceeds: bigint): bigint {
+    return (saleProceeds * BigInt(machine.allocatedTh)) / BigInt(machine.ratedTh);
+  }
+
+  /**
+   * Throw for anything that would stop the sale from being recorded, other than the machine
+   * still running; checked before retiring it, since retirement cannot be undone
+   */
+  async preflight(machine: MachineRecord, saleProceeds: bigint): Promise<void> {
+    const problems: string[] = [];
+    if (machine.allocatedTh === 0) problems.push('no TH was sold on it');
+    if (saleProceeds <= 0n) problems.push('sale proceeds must be positive');
+    if ((await this.contract.settlements(machine.machineId)).settledAt > 0n) problems.push('its sale is already recorded');
+
+    const payoutPool = MachineSettlementClient.payoutPool(machine, saleProceeds);
+    const balance = await this.cbBTC.balanceOf(this.owner);
+    if (balance < payoutPool) problems.push(`the owner holds ${balance} cbBTC units, ${payoutPool} are needed`);
+
+    if (problems.length > 0) {
+      throw new MachineRegistryError(`Cannot settle machine #${machine.machineId} (${machine.serialNumber}): ${problems.join('; ')}`);
+    }
+  }
+
+  async settle(machine: MachineRecord, saleProceeds: bigint): Promise<SettlementReport> {
+    if (machine.status !== 'retired') {
+      throw new MachineRegistryError(`Cannot settle machine #${machine.machineId} (${machine.serialNumber}): it is ${machine.status}, not retired`);
+    }
+    await this.preflight(machine, saleProceeds);
+
+    const payoutPool = MachineSettlementClient.payoutPool(machine, saleProceeds);
+    const spender = await this.contract.getAddress();
+    if (await this.cbBTC.allowance(this.owner, spender) < payoutPool) {
+      await (await this.cbBTC.approve(spender, payoutPool)).wait();
+    }
+    await (await this.contract.recordMachineSale(machine.machineId, saleProceeds)).wait();
+
+    return this.report(machine);
+  }
+
+  async report(machine: MachineRecord): Promise<SettlementReport> {
+    const settlement = await this.contract.settlements(machine.machineId);
+    const settled = settlement.settledAt > 0n;
+    const outstanding: OutstandingPosition[] = [];
+
+    for (const tokenId of await this.contract.getMachinePositions(machine.machineId)) {
+      // Redeemed positions are deleted along with their NFT
+      const { thAmount } = await this.contract.positions(tokenId);
+      if (thAmount === 0n) continue;
+
+      outstanding.push({
+        tokenId: Number(tokenId),
+        owner: await this.contract.ownerOf(tokenId),
+        thAmount: Number(thAmount),
+        payout: settled ? await this.contract.getRedemptionAmount(tokenId) : 0n
+      });
+    }
+
+    return {
+      machineId: machine.machineId,
+      serialNumber: machine.serialNumber,
+      settledAt: settled ? new Date(Number(settlement.settledAt) * 1000) : null,
+      saleProceeds: settlement.saleProceeds,
+      payoutPool: settlement.payoutPool,
+      paidOut: settlement.paidOut,
+      redeemedTh: Number(settlement.redeemedTh),
+      outstanding
+    };
+  }
+}
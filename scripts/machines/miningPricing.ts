@@ -0,0 +1,163 @@
+import { ContractTransactionResponse, parseUnits } from 'ethers';
+
+/**
+ * TokenizedMining's hashprice inputs, in contract units
+ */
+export interface PricingParameters {
+  networkDifficulty: bigint;
+  blockSubsidy: bigint; // satoshis per block
+  blockFees: bigint; // average satoshis of fees per block
+  energyPricePerKwh: bigint; // USDC (6 decimals)
+  machinePowerW: bigint;
+  machineRatedTh: bigint;
+  equipmentCost: bigint; // USDC (6 decimals) per machine
+  breakevenDays: bigint;
+  markupPercent: bigint;
+}
+
+// The inputs pricing operators may update without the owner
+const NETWORK_FIELDS: (keyof PricingParameters)[] = ['networkDifficulty', 'blockSubsidy', 'blockFees'];
+
+// CLI key → parameter, with the decimals its value is given in (BTC, USD or plain integers)
+export const PRICING_KEYS: Record<string, { field: keyof PricingParameters; decimals: number; unit: string }> = {
+  difficulty: { field: 'networkDifficulty', decimals: 0, unit: '' },
+  subsidy: { field: 'blockSubsidy', decimals: 8, unit: 'BTC/block' },
+  fees: { field: 'blockFees', decimals: 8, unit: 'BTC/block' },
+  energy: { field: 'energyPricePerKwh', decimals: 6, unit: 'USD/kWh' },
+  power: { field: 'machinePowerW', decimals: 0, unit: 'W' },
+  ratedTh: { field: 'machineRatedTh', decimals: 0, unit: 'TH/s' },
+  equipmentCost: { field: 'equipmentCost', decimals: 6, unit: 'USD' },
+  breakevenDays: { field: 'breakevenDays', decimals: 0, unit: 'days' },
+  markup: { field: 'markupPercent', decimals: 0, unit: '%' }
+};
+
+/**
+ * Live TokenizedMining.getHashprice(), all in USDC units
+ */
+export interface Hashprice {
+  btcPrice: bigint;
+  revenuePerTh: bigint; // per TH per day
+  energyCostPerTh: bigint; // per TH per day
+  dailyEarningsPerTh: bigint;
+  thPrice: bigint;
+}
+
+/**
+ * The earnings per TH per day positions accrue at, locked in at the last checkpoint
+ */
+export interface EarningsCheckpoint {
+  earningsRatePerTh: bigint;
+  checkpointAt: Date | null;
+}
+
+/**
+ * The TokenizedMining calls pricing makes (an ethers Contract connected to the owner or a pricing operator)
+ */
+export interface PricingContract {
+  pricing(): Promise<PricingParameters>;
+  pricingUpdatedAt(): Promise<bigint>;
+  getHashprice(): Promise<Hashprice>;
+  earningsRatePerTh(): Promise<bigint>;
+  earningsCheckpointAt(): Promise<bigint>;
+  checkpointEarnings(): Promise<ContractTransactionResponse>;
+  setPricingParameters(params: PricingParameters): Promise<ContractTransactionResponse>;
+  updateNetworkData(networkDifficulty: bigint, blockSubsidy: bigint, blockFees: bigint): Promise<ContractTransactionResponse>;
+}
+
+export class PricingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PricingError';
+  }
+}
+
+/**
+ * Parse `key=value` assignments (see PRICING_KEYS) into contract units, reporting every bad one
+ */
+export function parsePricingAssignments(assignments: string[]): Partial<PricingParameters> {
+  const changes: Partial<PricingParameters> = {};
+  const problems: string[] = [];
+
+  for (const assignment of assignments) {
+    const [key, value] = assignment.split('=');
+    const spec = PRICING_KEYS[key];
+    if (!spec || value === undefined) {
+      problems.push(`"${assignment}" is not one of ${Object.keys(PRICING_KEYS).map((name) => `${name}=`).join(', ')}`);
+      continue;
+    }
+    try {
+      // Difficulty is reported with a fractional part the contract does not keep
+      const digits = value.replace(/[,_]/g, '');
+      changes[spec.field] = parseUnits(spec.decimals === 0 ? digits.split('.')[0] : digits, spec.decimals);
+    } catch {
+      problems.push(`${key} must be a number${spec.unit ? ` in ${spec.unit}` : ''}, got "${value}"`);
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new PricingError(`Invalid pricing parameters: ${problems.join('; ')}`);
+  }
+  return changes;
+}
+
+/**
+ * Reads and updates the inputs TokenizedMining prices TH and accrues earnings from.
+ * Network data alone goes through updateNetworkData, so pricing operators can keep
+ * it current; anything else needs the owner. Earnings accrue at the hashprice of the
+ * last checkpoint, so a BTC price move only reaches positions once checkpointed.
+ */
+export class MiningPricingClient {
+  constructor(private readonly contract: PricingContract) {}
+
+  async parameters(): Promise<{ parameters: PricingParameters; updatedAt: Date | null }> {
+    const [current, updatedAt] = await Promise.all([this.contract.pricing(), this.contract.pricingUpdatedAt()]);
+    return {
+      parameters: Object.fromEntries(
+        Object.values(PRICING_KEYS).map(({ field }) => [field, current[field]])
+      ) as unknown as PricingParameters,
+      updatedAt: updatedAt > 0n ? new Date(Number(updatedAt) * 1000) : null
+    };
+  }
+
+  async quote(): Promise<Hashprice> {
+    const { btcPrice, revenuePerTh, energyCostPerTh, dailyEarningsPerTh, thPrice } = await this.contract.getHashprice();
+    return { btcPrice, revenuePerTh, energyCostPerTh, dailyEarningsPerTh, thPrice };
+  }
+
+  async earnings(): Promise<EarningsCheckpoint> {
+    const [earningsRatePerTh, checkpointAt] = await Promise.all([
+      this.contract.earningsRatePerTh(),
+      this.contract.earningsCheckpointAt()
+    ]);
+    return { earningsRatePerTh, checkpointAt: checkpointAt > 0n ? new Date(Number(checkpointAt) * 1000) : null };
+  }
+
+  // Accrue at the old rate and lock in the hashprice at the current BTC price
+  async checkpoint(): Promise<EarningsCheckpoint> {
+    await (await this.contract.checkpointEarnings()).wait();
+    return this.earnings();
+  }
+
+  async update(changes: Partial<PricingParameters>): Promise<PricingParameters> {
+    const { parameters: current, updatedAt } = await this.parameters();
+    const next = { ...current, ...changes };
+
+    const problems = Object.values(PRICING_KEYS)
+      .filter(({ field }) => next[field] < 0n || (next[field] === 0n && !['blockSubsidy', 'blockFees', 'markupPercent'].includes(field)))
+      .map(({ field }) => `${field} must be positive`);
+    if (next.blockSubsidy + next.blockFees === 0n) problems.push('the block reward must be positive');
+    if (problems.length > 0) {
+      throw new PricingError(`Cannot update pricing: ${problems.join('; ')}`);
+    }
+
+    const networkOnly = updatedAt !== null &&
+      Object.values(PRICING_KEYS).every(({ field }) => NETWORK_FIELDS.includes(field) || next[field] === current[field]);
+    if (networkOnly) {
+      await (await this.contract.updateNetworkData(next.networkDifficulty, next.blockSubsidy, next.blockFees)).wait();
+    } else {
+      await (await this.contract.setPricingParameters(next)).wait();
+    }
+
+    return (await this.parameters()).parameters;
+  }
+}
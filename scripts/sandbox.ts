@@ -0,0 +1,196 @@
+import fs from 'fs';
+import path from 'path';
+import { ChildProcess, spawn } from 'child_process';
+import { ethers } from 'ethers';
+import { loadManifest } from './deployment/manifestFile';
+import { requireAddresses } from '../deployments/manifest';
+import { MockPoolServer } from './service/pools/mockPoolServer';
+import { MockExchangeServer } from './service/exchanges/mockExchangeServer';
+import { MockEsploraServer } from './sandbox/stubServers';
+import { SimulatedMinerServer } from './service/performance/simulatedMinerServer';
+import {
+  SANDBOX_BTC_USD_PRICE,
+  SANDBOX_DEPLOYER_KEY,
+  SANDBOX_FEED_PRICES,
+  SANDBOX_NETWORK,
+  SANDBOX_POOL_BTC_ADDRESS,
+  SANDBOX_POOL_ID,
+  SANDBOX_RPC_URL
+} from './sandbox/config';
+
+const ROOT = path.resolve(__dirname, '..');
+const DATA_DIR = path.join(ROOT, 'data', 'sandbox');
+
+// How often the mock feeds are refreshed and the mock pool mines more BTC (one Bitcoin block)
+const TICK_INTERVAL_MS = 5 * 60 * 1000;
+const BTC_MINED_PER_TICK = 0.002;
+
+// Service tasks every minute with short retries; the distribution keeper stands in for
+// ChainlinkAutomation and distributes as soon as sandbox:advance-day makes it due
+const SERVICE_CONFIG = {
+  backoff: { initialDelayMs: 5000, maxDelayMs: 60000 },
+  tasks: {
+    balancePolling: { schedule: '* * * * *' },
+    proofOfReserve: { schedule: '* * * * *' },
+    performance: { schedule: '* * * * *' },
+    conversion: { schedule: '* * * * *' },
+    distribution: { enabled: true, schedule: '* * * * *' }
+  }
+};
+
+const children: ChildProcess[] = [];
+
+function start(name: string, command: string, args: string[], options: { cwd?: string; env?: NodeJS.ProcessEnv; log?: string } = {}) {
+  const child = spawn(command, args, {
+    cwd: options.cwd || ROOT,
+    env: { ...process.env, ...options.env },
+    stdio: options.log ? ['ignore', 'pipe', 'pipe'] : 'inherit',
+    // Own process group, so stopping npx also stops the node process it started
+    detached: true
+  });
+
+  if (options.log) {
+    const log = fs.createWriteStream(options.log);
+    child.stdout!.pipe(log);
+    child.stderr!.pipe(log);
+  }
+
+  child.on('exit', (code) => console.log(`[sandbox] ${name} exited (${code})`));
+  children.push(child);
+  return child;
+}
+
+function stopChildren() {
+  for (const child of children) {
+    if (child.exitCode === null && child.pid) {
+      try {
+        process.kill(-child.pid, 'SIGTERM');
+      } catch {
+        // Already gone
+      }
+    }
+  }
+}
+
+async function run(command: string, args: string[], env: NodeJS.ProcessEnv = {}) {
+  const code = await new Promise<number | null>((resolve) => start(command, command, args, { env }).on('exit', resolve));
+  if (code !== 0) throw new Error(`${command} ${args.join(' ')} exited with ${code}`);
+}
+
+async function waitForRpc(provider: ethers.JsonRpcProvider, timeoutMs: number = 60000) {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    try {
+      return await provider.getBlockNumber();
+    } catch {
+      await new Promise((resolve) => setTimeout(resolve, 500));
+    }
+  }
+  throw new Error(`No JSON-RPC at ${SANDBOX_RPC_URL} after ${timeoutMs / 1000}s`);
+}
+
+// Usage: npm run sandbox [-- --no-frontend]
+// Starts a Hardhat node, deploys mocks + MinerFi, and runs the BTC → cbBTC service and
+// the frontend against local stubs of the mining pool, exchange and Bitcoin APIs.
+async function main() {
+  fs.rmSync(DATA_DIR, { recursive: true, force: true });
+  fs.mkdirSync(DATA_DIR, { recursive: true });
+
+  console.log('[sandbox] Starting Hardhat node (log: data/sandbox/node.log)...');
+  start('hardhat node', 'npx', ['hardhat', 'node'], { log: path.join(DATA_DIR, 'node.log') });
+
+  const provider = new ethers.JsonRpcProvider(SANDBOX_RPC_URL);
+  await waitForRpc(provider);
+
+  // A fresh node has no code at the old addresses, so the orchestrator redeploys everything
+  await run('npx', ['hardhat', 'run', 'scripts/sandbox/deploy.ts', '--network', SANDBOX_NETWORK], {
+    POR_POOL_BTC_ADDRESS: SANDBOX_POOL_BTC_ADDRESS
+  });
+
+  const manifest = loadManifest(SANDBOX_NETWORK);
+  const addresses = requireAddresses(manifest, ['cbBTC', ...Object.keys(SANDBOX_FEED_PRICES)]);
+  const wallet = new ethers.NonceManager(new ethers.Wallet(SANDBOX_DEPLOYER_KEY, provider));
+  const cbBTC = new ethers.Contract(addresses.cbBTC, ['function mint(address, uint256)'], wallet);
+
+  const pool = new MockPoolServer();
+  pool.setPool(SANDBOX_POOL_ID);
+
+  const exchange = new MockExchangeServer({
+    btcUsdPrice: SANDBOX_BTC_USD_PRICE,
+    // Sold BTC leaves the pool; bought cbBTC lands in the service wallet
+    onSell: async () => pool.setPool(SANDBOX_POOL_ID, { balance_btc: 0 }),
+    onBuy: async (cbbtcAmount) => {
+      await (await cbBTC.mint(manifest.deployer, ethers.parseUnits(cbbtcAmount.toFixed(8), 8))).wait();
+    }
+  });
+  // Mined BTC is paid to the pool address as well, so proof of reserve has UTXOs to sum
+  const esplora = new MockEsploraServer();
+  esplora.chain.receive(SANDBOX_POOL_BTC_ADDRESS, Math.round(pool.getPool(SANDBOX_POOL_ID)!.balance_btc * 100000000));
+
+  // The S21+ behind the mock pool, answering the CGMiner API
+  const miner = new SimulatedMinerServer();
+
+  const [poolUrl, exchangeUrl, esploraUrl, minerApi] = await Promise.all([pool.start(), exchange.start(), esplora.start(), miner.start()]);
+  console.log(`[sandbox] Mock pool ${poolUrl}, exchange ${exchangeUrl}, esplora ${esploraUrl}, miner ${minerApi.host}:${minerApi.port}`);
+
+  // ChainlinkOracle rejects prices older than an hour, so keep the mock feeds fresh
+  const tick = setInterval(() => {
+    const state = pool.getPool(SANDBOX_POOL_ID)!;
+    pool.setPool(SANDBOX_POOL_ID, { balance_btc: state.balance_btc + BTC_MINED_PER_TICK });
+    esplora.chain.receive(SANDBOX_POOL_BTC_ADDRESS, Math.round(BTC_MINED_PER_TICK * 100000000));
+    for (const [name, price] of Object.entries(SANDBOX_FEED_PRICES)) {
+      const feed = new ethers.Contract(addresses[name], ['function updateAnswer(int256)'], wallet);
+      feed.updateAnswer(ethers.parseUnits(String(price), 8))
+        .then((tx: ethers.ContractTransactionResponse) => tx.wait())
+        .catch((error: Error) => console.error(`[sandbox] Refreshing ${name} failed:`, error.message));
+    }
+  }, TICK_INTERVAL_MS);
+
+  const serviceConfigPath = path.join(DATA_DIR, 'service.json');
+  fs.writeFileSync(serviceConfigPath, JSON.stringify(SERVICE_CONFIG, null, 2));
+
+  start('btc-service', 'npx', ['ts-node', 'scripts/btc-cbbtc-service.ts', 'start'], {
+    env: {
+      HARDHAT_NETWORK: SANDBOX_NETWORK,
+      BASE_RPC_URL: SANDBOX_RPC_URL,
+      PRIVATE_KEY: SANDBOX_DEPLOYER_KEY,
+      DEPLOYMENT_NETWORK: SANDBOX_NETWORK,
+      MINING_POOLS: 'mock',
+      MOCK_API_URL: poolUrl,
+      MOCK_POOL_ID: SANDBOX_POOL_ID,
+      EXCHANGE: 'mock',
+      MOCK_EXCHANGE_API_URL: exchangeUrl,
+      ESPLORA_API_URL: esploraUrl,
+      ASIC_TELEMETRY: 'cgminer',
+      ASIC_UNITS: `${SANDBOX_POOL_ID}:s21plus-01@${minerApi.host}:${minerApi.port}`,
+      CONVERSION_LEDGER_PATH: path.join(DATA_DIR, 'conversion-ledger.jsonl'),
+      DISTRIBUTION_LOG_PATH: path.join(DATA_DIR, 'distributions.jsonl'),
+      SERVICE_CONFIG_PATH: serviceConfigPath
+    }
+  });
+
+  if (!process.argv.includes('--no-frontend')) {
+    start('frontend', 'npm', ['run', 'dev'], {
+      cwd: path.join(ROOT, 'frontend'),
+      env: { VITE_DEPLOYMENT_NETWORK: SANDBOX_NETWORK }
+    });
+  }
+
+  console.log('[sandbox] Running. Import Hardhat accounts #1–#3 into your wallet (chainId 31337).');
+  console.log('[sandbox] Advance a day with: npm run sandbox:advance-day');
+
+  const shutdown = async () => {
+    clearInterval(tick);
+    stopChildren();
+    await Promise.all([pool.stop(), exchange.stop(), esplora.stop(), miner.stop()]);
+    process.exit(0);
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main().catch((error) => {
+  console.error('❌ Sandbox failed:', error.message || error);
+  stopChildren();
+  process.exit(1);
+});
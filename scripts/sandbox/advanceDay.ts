@@ -0,0 +1,41 @@
+import { ethers, network } from 'hardhat';
+import { loadManifest } from '../deployment/manifestFile';
+import { requireAddresses } from '../../deployments/manifest';
+import { SANDBOX_FEED_PRICES } from './config';
+
+const ONE_DAY = 24 * 60 * 60;
+
+// Usage: npx hardhat run scripts/sandbox/advanceDay.ts --network localhost
+// Moves the local chain forward a day, refreshes the mock price feeds (ChainlinkOracle
+// rejects prices older than an hour) and runs the daily cbBTC distribution.
+async function main() {
+  const manifest = loadManifest(network.name);
+  const addresses = requireAddresses(manifest, ['MiningPool', ...Object.keys(SANDBOX_FEED_PRICES)]);
+
+  await ethers.provider.send('evm_increaseTime', [ONE_DAY]);
+  await ethers.provider.send('evm_mine', []);
+
+  for (const [name, price] of Object.entries(SANDBOX_FEED_PRICES)) {
+    const feed = await ethers.getContractAt('MockChainlinkAggregator', addresses[name]);
+    await (await feed.updateAnswer(ethers.parseUnits(String(price), 8))).wait();
+  }
+
+  const block = await ethers.provider.getBlock('latest');
+  console.log(`⏩ Chain time is now ${new Date(block!.timestamp * 1000).toISOString()}`);
+
+  const miningPool = await ethers.getContractAt('MiningPool', addresses.MiningPool);
+  try {
+    const receipt = await (await miningPool.distributeDailyCbBTCRewards()).wait();
+    console.log(`✅ Distributed daily cbBTC rewards in ${receipt!.hash}`);
+  } catch (error: any) {
+    // Expected until the service has funded the reward pool and someone has staked
+    console.warn(`⚠️ Daily distribution skipped: ${error.shortMessage || error.message}`);
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('❌ Advancing the sandbox failed:', error.message || error);
+    process.exit(1);
+  });
@@ -0,0 +1,41 @@
+/**
+ * Fixed settings shared by the sandbox launcher and the scripts it runs inside Hardhat
+ */
+export const SANDBOX_NETWORK = 'localhost';
+export const SANDBOX_RPC_URL = 'http://127.0.0.1:8545';
+
+// Hardhat node account #0 (well-known test mnemonic): deployer, contract owner and service wallet
+export const SANDBOX_DEPLOYER_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+
+// Matches the pool ProofOfReserve tracks by default (see deployment/plan.ts)
+export const SANDBOX_POOL_ID = 'antminer_s21_pool';
+// Payout address registered for that pool; the mock Esplora chain holds its UTXOs
+export const SANDBOX_POOL_BTC_ADDRESS = '3FUpjxWpEDAMKLuhrsGgQ6bAf8m3EHHn2Y';
+
+export const SANDBOX_BTC_USD_PRICE = 45000;
+export const SANDBOX_ETH_USD_PRICE = 3000;
+
+// Network difficulty TokenizedMining is priced at; low enough that positions earn a
+// mainnet-like ~$0.03/TH/day at the sandbox BTC price
+export const SANDBOX_NETWORK_DIFFICULTY = 50000000000000n;
+
+// Mock Chainlink feeds by manifest name, with the USD price they are kept at
+export const SANDBOX_FEED_PRICES: Record<string, number> = {
+  MockBtcUsdFeed: SANDBOX_BTC_USD_PRICE,
+  MockEthUsdFeed: SANDBOX_ETH_USD_PRICE
+};
+
+// Balances topped up for Hardhat accounts #1–#3
+export const SANDBOX_USER_USDC = '100000';
+export const SANDBOX_USER_CBBTC = '1';
+
+// USDC held by TokenizedMining so positions can claim earnings
+export const SANDBOX_TOKENIZED_MINING_USDC = '1000000';
+
+// The one machine TokenizedMining sells positions on (SimulatedMinerServer plays its ASIC)
+export const SANDBOX_MACHINE = {
+  serialNumber: 'S21PLUS-SANDBOX-01',
+  hostingSite: 'Sandbox rack A1',
+  commissionedAt: new Date('2025-01-01T00:00:00Z'),
+  ratedTh: 216
+};
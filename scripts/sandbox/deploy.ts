@@ -0,0 +1,118 @@
+import { ethers, network } from 'hardhat';
+import { loadOrCreateManifest, manifestPath, saveManifest } from '../deployment/manifestFile';
+import { DeploymentOrchestrator, DeploymentStep } from '../deployment/orchestrator';
+import { createDeploymentPlan, loadDeployConfig } from '../deployment/plan';
+import { createHardhatBackend } from '../deployment/hardhatBackend';
+import { MachineRegistryClient, MachineRegistryContract } from '../machines/machineRegistry';
+import {
+  SANDBOX_FEED_PRICES,
+  SANDBOX_MACHINE,
+  SANDBOX_NETWORK_DIFFICULTY,
+  SANDBOX_TOKENIZED_MINING_USDC,
+  SANDBOX_USER_CBBTC,
+  SANDBOX_USER_USDC
+} from './config';
+
+// Stand-ins for the external contracts, deployed before the system that points at them
+const MOCK_STEPS: DeploymentStep[] = [
+  { kind: 'deploy', id: 'MockUSDC', contract: 'MockERC20', args: () => ['USD Coin (mock)', 'USDC', 6] },
+  { kind: 'deploy', id: 'MockCbBTC', contract: 'MockERC20', args: () => ['Coinbase Wrapped BTC (mock)', 'cbBTC', 8] },
+  { kind: 'deploy', id: 'MockACbBTC', contract: 'MockERC20', args: () => ['Aave Base cbBTC (mock)', 'aBascbBTC', 8] },
+  {
+    kind: 'deploy',
+    id: 'MockBtcUsdFeed',
+    contract: 'MockChainlinkAggregator',
+    args: () => ['BTC / USD (mock)', ethers.parseUnits(String(SANDBOX_FEED_PRICES.MockBtcUsdFeed), 8)]
+  },
+  {
+    kind: 'deploy',
+    id: 'MockEthUsdFeed',
+    contract: 'MockChainlinkAggregator',
+    args: () => ['ETH / USD (mock)', ethers.parseUnits(String(SANDBOX_FEED_PRICES.MockEthUsdFeed), 8)]
+  },
+  {
+    kind: 'deploy',
+    id: 'MockAavePool',
+    contract: 'MockAavePool',
+    dependsOn: ['MockCbBTC', 'MockACbBTC'],
+    args: (ctx) => [ctx.address('MockCbBTC'), ctx.address('MockACbBTC')]
+  }
+];
+
+/**
+ * Mint `target` of a mock token to `holder`, minus what it already holds
+ */
+async function topUp(token: any, holder: string, target: bigint) {
+  const balance: bigint = await token.balanceOf(holder);
+  if (balance < target) {
+    await (await token.mint(holder, target - balance)).wait();
+  }
+}
+
+// Usage: npx hardhat run scripts/sandbox/deploy.ts --network localhost
+// Deploys the mocks and the complete profile into deployments/localhost.json, then seeds users.
+async function main() {
+  if (network.name !== 'localhost' && network.name !== 'hardhat') {
+    throw new Error(`The sandbox deploys mock tokens and only runs against a local node, not ${network.name}`);
+  }
+
+  const signers = await ethers.getSigners();
+  const deployer = signers[0];
+  const { chainId } = await ethers.provider.getNetwork();
+  const manifest = loadOrCreateManifest(network.name, Number(chainId), deployer.address);
+  const backend = createHardhatBackend(deployer);
+
+  console.log(`🧪 Deploying sandbox mocks to ${network.name}...\n`);
+  await new DeploymentOrchestrator(MOCK_STEPS, manifest, deployer.address, backend, saveManifest).run();
+
+  const mock = (name: string) => manifest.contracts[name].address;
+  const deployConfig = loadDeployConfig(deployer.address);
+  deployConfig.external = {
+    cbBTC: mock('MockCbBTC'),
+    usdc: mock('MockUSDC'),
+    btcUsdFeed: mock('MockBtcUsdFeed'),
+    ethUsdFeed: mock('MockEthUsdFeed'),
+    aavePool: mock('MockAavePool'),
+    aCbBTC: mock('MockACbBTC')
+  };
+  deployConfig.pricing.networkDifficulty = SANDBOX_NETWORK_DIFFICULTY;
+  manifest.external = deployConfig.external;
+  manifest.roles = { ...manifest.roles, ...deployConfig.roles };
+  saveManifest(manifest);
+
+  console.log(`\n🚀 Deploying MinerFi (complete) against the mocks...\n`);
+  await new DeploymentOrchestrator(
+    createDeploymentPlan(deployConfig, 'complete'),
+    manifest,
+    deployer.address,
+    backend,
+    saveManifest
+  ).run();
+  saveManifest(manifest);
+
+  const usdc = await ethers.getContractAt('MockERC20', mock('MockUSDC'), deployer);
+  const cbBTC = await ethers.getContractAt('MockERC20', mock('MockCbBTC'), deployer);
+
+  console.log('\n💰 Seeding accounts');
+  for (const user of signers.slice(1, 4)) {
+    await topUp(usdc, user.address, ethers.parseUnits(SANDBOX_USER_USDC, 6));
+    await topUp(cbBTC, user.address, ethers.parseUnits(SANDBOX_USER_CBBTC, 8));
+    console.log(`${user.address} : ${SANDBOX_USER_USDC} USDC, ${SANDBOX_USER_CBBTC} cbBTC`);
+  }
+  await topUp(usdc, manifest.contracts.TokenizedMining.address, ethers.parseUnits(SANDBOX_TOKENIZED_MINING_USDC, 6));
+  // The owner pays machine sale proceeds in cbBTC (npm run machines -- settle)
+  await topUp(cbBTC, deployer.address, ethers.parseUnits(SANDBOX_USER_CBBTC, 8));
+
+  const tokenizedMining = await ethers.getContractAt('TokenizedMining', manifest.contracts.TokenizedMining.address, deployer);
+  const machine = await new MachineRegistryClient(tokenizedMining as unknown as MachineRegistryContract).register(SANDBOX_MACHINE);
+  console.log(`\n🔧 Machine #${machine.machineId}: ${machine.serialNumber}, ${machine.availableTh} of ${machine.ratedTh} TH for sale`);
+
+  console.log(`\nManifest: ${manifestPath(network.name)}`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('❌ Sandbox deployment failed:', error.message || error);
+    process.exit(1);
+  });
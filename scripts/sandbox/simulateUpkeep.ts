@@ -0,0 +1,66 @@
+import fs from 'fs';
+import path from 'path';
+import { ethers, network } from 'hardhat';
+import { loadManifest } from '../deployment/manifestFile';
+import { requireAddresses } from '../../deployments/manifest';
+import { UpkeepSimulator } from './upkeepSimulator';
+
+const REPORT_PATH = path.resolve(__dirname, '..', '..', 'data', 'sandbox', 'upkeep-report.json');
+
+// Usage: npx hardhat run scripts/sandbox/simulateUpkeep.ts --network localhost
+// Plays the Chainlink Automation registry against ChainlinkAutomation: each round moves the
+// chain to the next due task (or UPKEEP_ADVANCE_SECONDS), calls checkUpkeep and performs it.
+// UPKEEP_ROUNDS (default 5) and UPKEEP_PERFORM_GAS_LIMIT (default 5,000,000) tune the run.
+async function main() {
+  if (network.name !== 'localhost' && network.name !== 'hardhat') {
+    throw new Error(`The upkeep simulator moves chain time and only runs against a local node, not ${network.name}`);
+  }
+
+  const manifest = loadManifest(network.name);
+  const { ChainlinkAutomation } = requireAddresses(manifest, ['ChainlinkAutomation']);
+  const automation = await ethers.getContractAt('ChainlinkAutomation', ChainlinkAutomation);
+
+  const simulator = new UpkeepSimulator(automation, ethers.provider, {
+    rounds: parseInt(process.env.UPKEEP_ROUNDS || '5'),
+    advanceSeconds: parseInt(process.env.UPKEEP_ADVANCE_SECONDS || '0'),
+    performGasLimit: parseInt(process.env.UPKEEP_PERFORM_GAS_LIMIT || '5000000')
+  });
+
+  const rounds = await simulator.run();
+  for (const round of rounds) {
+    if (!round.upkeepNeeded) {
+      console.log(`⏸️  Round ${round.round} @ ${round.chainTime}: no upkeep needed`);
+      continue;
+    }
+    if (round.revertReason) {
+      console.error(`❌ Round ${round.round} @ ${round.chainTime}: performUpkeep(${round.tasks.join(', ')}) reverted: ${round.revertReason}`);
+      continue;
+    }
+
+    console.log(`⚙️  Round ${round.round} @ ${round.chainTime}: performUpkeep used ${round.gasUsed} gas (${round.transactionHash})`);
+    for (const execution of round.executions) {
+      const outcome = execution.success ? '✅' : `❌ ${execution.error}`;
+      console.log(`    ${execution.task}: ${outcome} (${execution.gasUsed} gas)`);
+    }
+  }
+
+  const report = await simulator.report(rounds);
+  console.table(report.map(({ task, enabled, totalExecutions, failedExecutions, averageGasUsed, peakGasUsed, maxGasLimit }) => ({
+    task, enabled, totalExecutions, failedExecutions, averageGasUsed, peakGasUsed, maxGasLimit
+  })));
+
+  for (const task of report.filter((entry) => entry.peakGasUsed > entry.maxGasLimit)) {
+    console.warn(`⚠️ ${task.task} used ${task.peakGasUsed} gas, above its maxGasLimit of ${task.maxGasLimit}`);
+  }
+
+  fs.mkdirSync(path.dirname(REPORT_PATH), { recursive: true });
+  fs.writeFileSync(REPORT_PATH, JSON.stringify({ network: network.name, rounds, tasks: report }, null, 2));
+  console.log(`📄 Report written to ${path.relative(process.cwd(), REPORT_PATH)}`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('❌ Upkeep simulation failed:', error.message || error);
+    process.exit(1);
+  });
@@ -0,0 +1,75 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { RegtestStubChainSource, regtestBlockHash } from '../service/bitcoin';
+
+/**
+ * Serves the Esplora endpoints the service reads (tip height, block hashes and address
+ * UTXOs) from an in-process regtest chain; the tip moves when `chain` mines a block
+ */
+export class MockEsploraServer {
+  readonly chain: RegtestStubChainSource;
+  private server: http.Server | null = null;
+
+  constructor(height: number = 850000) {
+    this.chain = new RegtestStubChainSource(height);
+  }
+
+  async start(port: number = 0, host: string = '127.0.0.1'): Promise<string> {
+    this.server = http.createServer((req, res) => {
+      this.handle(req.method, req.url || '')
+        .then((body) => {
+          if (body === null) {
+            res.writeHead(404, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ error: 'not found' }));
+            return;
+          }
+          res.writeHead(200, { 'Content-Type': typeof body === 'string' ? 'text/plain' : 'application/json' });
+          res.end(typeof body === 'string' ? body : JSON.stringify(body));
+        })
+        .catch((error: Error) => {
+          res.writeHead(400, { 'Content-Type': 'text/plain' });
+          res.end(error.message);
+        });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(port, host, () => resolve());
+    });
+
+    const address = this.server.address() as AddressInfo;
+    return `http://${host}:${address.port}`;
+  }
+
+  async stop() {
+    if (!this.server) return;
+    await new Promise<void>((resolve) => this.server!.close(() => resolve()));
+    this.server = null;
+  }
+
+  private async handle(method: string | undefined, url: string): Promise<string | object | null> {
+    if (method !== 'GET') return null;
+
+    if (url === '/blocks/tip/height') {
+      return String(this.chain.height);
+    }
+
+    const blockHeight = url.match(/^\/block-height\/(\d+)$/);
+    if (blockHeight) {
+      return this.chain.getBlockHash(Number(blockHeight[1]));
+    }
+
+    const address = url.match(/^\/address\/([^/]+)\/utxo$/);
+    if (address) {
+      const utxos = await this.chain.getAddressUtxos(decodeURIComponent(address[1]));
+      return utxos.map((utxo) => ({
+        txid: utxo.txid,
+        vout: utxo.vout,
+        value: utxo.valueSats,
+        status: { confirmed: true, block_height: utxo.blockHeight, block_hash: regtestBlockHash(utxo.blockHeight) }
+      }));
+    }
+
+    return null;
+  }
+}
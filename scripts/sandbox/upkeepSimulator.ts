@@ -0,0 +1,208 @@
+import { AbiCoder, Interface, Log } from 'ethers';
+import type { ChainlinkAutomation } from '../../typechain-types';
+
+// ChainlinkAutomation.TaskType, in enum order
+export const AUTOMATION_TASK_TYPES = [
+  'DAILY_DISTRIBUTION',
+  'PROOF_OF_RESERVE_UPDATE',
+  'AUTO_REINVESTMENT',
+  'AAVE_YIELD_HARVEST',
+  'PERFORMANCE_MONITORING'
+] as const;
+export type AutomationTaskType = typeof AUTOMATION_TASK_TYPES[number];
+
+export interface UpkeepSimulatorOptions {
+  rounds: number;
+  // Seconds to move the chain forward before each round; 0 jumps straight to the next due task
+  advanceSeconds: number;
+  // Gas the Automation registry would give performUpkeep
+  performGasLimit: number;
+}
+
+export interface TaskExecution {
+  task: AutomationTaskType;
+  success: boolean;
+  gasUsed: number;
+  error?: string;
+}
+
+export interface UpkeepRound {
+  round: number;
+  chainTime: string;
+  upkeepNeeded: boolean;
+  // Tasks checkUpkeep put in performData
+  tasks: AutomationTaskType[];
+  transactionHash?: string;
+  gasUsed?: number;
+  executions: TaskExecution[];
+  // performUpkeep itself reverted (e.g. out of gas)
+  revertReason?: string;
+}
+
+export interface TaskReport {
+  task: AutomationTaskType;
+  enabled: boolean;
+  intervalSeconds: number;
+  maxGasLimit: number;
+  totalExecutions: number;
+  successfulExecutions: number;
+  failedExecutions: number;
+  totalGasUsed: number;
+  averageGasUsed: number;
+  // Most gas one execution used in this simulation
+  peakGasUsed: number;
+  lastExecutionTime: string | null;
+  lastError: string;
+}
+
+/**
+ * The TaskTypes encoded by checkUpkeep as abi.encode(TaskType[], taskCount): a dynamic
+ * array (uint8[]) with a slot for every task type, of which the first taskCount are due
+ */
+export function decodePerformData(performData: string): AutomationTaskType[] {
+  const [taskTypes, taskCount] = AbiCoder.defaultAbiCoder().decode(['uint8[]', 'uint256'], performData);
+  return Array.from(taskTypes as bigint[])
+    .slice(0, Number(taskCount))
+    .map((taskType) => AUTOMATION_TASK_TYPES[Number(taskType)]);
+}
+
+/**
+ * Task executions reported by AutomationTaskExecuted and AutomationError events
+ */
+export function parseTaskExecutions(automation: { interface: Interface }, logs: readonly Log[]): TaskExecution[] {
+  const executions: TaskExecution[] = [];
+  let pendingError: string | undefined;
+
+  for (const log of logs) {
+    const event = automation.interface.parseLog(log);
+    if (!event) continue;
+
+    // AutomationError is emitted just before the AutomationTaskExecuted it belongs to
+    if (event.name === 'AutomationError') {
+      pendingError = event.args.error;
+    } else if (event.name === 'AutomationTaskExecuted') {
+      executions.push({
+        task: AUTOMATION_TASK_TYPES[Number(event.args.taskType)],
+        success: event.args.success,
+        gasUsed: Number(event.args.gasUsed),
+        ...(event.args.success ? {} : { error: pendingError ?? 'unknown error' })
+      });
+      pendingError = undefined;
+    }
+  }
+
+  return executions;
+}
+
+/**
+ * Plays the Chainlink Automation registry against a local node: poll checkUpkeep,
+ * move time forward, and call performUpkeep with the performData it returned
+ */
+export class UpkeepSimulator {
+  constructor(
+    private automation: ChainlinkAutomation,
+    // JSON-RPC access to the Hardhat node, for evm_increaseTime and evm_mine
+    private rpc: { send(method: string, params: unknown[]): Promise<any> },
+    private options: UpkeepSimulatorOptions
+  ) {}
+
+  async run(): Promise<UpkeepRound[]> {
+    const rounds: UpkeepRound[] = [];
+
+    for (let round = 1; round <= this.options.rounds; round++) {
+      await this.advanceTime();
+      rounds.push(await this.round(round));
+    }
+
+    return rounds;
+  }
+
+  async round(round: number): Promise<UpkeepRound> {
+    const chainTime = new Date((await this.latestTimestamp()) * 1000).toISOString();
+    const [upkeepNeeded, performData]: [boolean, string] = await this.automation.checkUpkeep.staticCall('0x');
+
+    if (!upkeepNeeded) {
+      return { round, chainTime, upkeepNeeded, tasks: [], executions: [] };
+    }
+
+    const tasks = decodePerformData(performData);
+    try {
+      const tx = await this.automation.performUpkeep(performData, { gasLimit: this.options.performGasLimit });
+      const receipt = await tx.wait();
+      if (!receipt) {
+        throw new Error(`performUpkeep ${tx.hash} not yet mined`);
+      }
+
+      return {
+        round,
+        chainTime,
+        upkeepNeeded,
+        tasks,
+        transactionHash: receipt.hash,
+        gasUsed: Number(receipt.gasUsed),
+        executions: parseTaskExecutions(this.automation, receipt.logs)
+      };
+    } catch (error: any) {
+      return { round, chainTime, upkeepNeeded, tasks, executions: [], revertReason: error.shortMessage || error.message };
+    }
+  }
+
+  /**
+   * Per-task configuration and getTaskMetrics counters, with the peak gas seen in `rounds`
+   */
+  async report(rounds: UpkeepRound[]): Promise<TaskReport[]> {
+    return Promise.all(AUTOMATION_TASK_TYPES.map(async (task, index) => {
+      const [, interval, enabled, , maxGasLimit] = await this.automation.getTaskInfo(index);
+      const [totalExecutions, successfulExecutions, failedExecutions, totalGasUsed, lastExecutionTime, lastError] =
+        await this.automation.getTaskMetrics(index);
+      const gas = rounds.flatMap((round) => round.executions).filter((execution) => execution.task === task).map((execution) => execution.gasUsed);
+
+      return {
+        task,
+        enabled,
+        intervalSeconds: Number(interval),
+        maxGasLimit: Number(maxGasLimit),
+        totalExecutions: Number(totalExecutions),
+        successfulExecutions: Number(successfulExecutions),
+        failedExecutions: Number(failedExecutions),
+        totalGasUsed: Number(totalGasUsed),
+        averageGasUsed: totalExecutions > 0n ? Math.round(Number(totalGasUsed) / Number(totalExecutions)) : 0,
+        peakGasUsed: gas.length > 0 ? Math.max(...gas) : 0,
+        lastExecutionTime: lastExecutionTime > 0n ? new Date(Number(lastExecutionTime) * 1000).toISOString() : null,
+        lastError
+      };
+    }));
+  }
+
+  private async advanceTime() {
+    let seconds = this.options.advanceSeconds;
+
+    if (seconds === 0) {
+      const now = await this.latestTimestamp();
+      const nextDue = await this.nextExecution();
+      seconds = nextDue === null ? 0 : Math.max(nextDue - now, 0);
+    }
+
+    if (seconds > 0) {
+      await this.rpc.send('evm_increaseTime', [seconds]);
+    }
+    await this.rpc.send('evm_mine', []);
+  }
+
+  /**
+   * Earliest nextExecution among enabled tasks, or null if every task is disabled
+   */
+  private async nextExecution(): Promise<number | null> {
+    const due: number[] = [];
+    for (let index = 0; index < AUTOMATION_TASK_TYPES.length; index++) {
+      const [, , enabled, , , nextExecution] = await this.automation.getTaskInfo(index);
+      if (enabled) due.push(Number(nextExecution));
+    }
+    return due.length > 0 ? Math.min(...due) : null;
+  }
+
+  private async latestTimestamp(): Promise<number> {
+    const block = await this.rpc.send('eth_getBlockByNumber', ['latest', false]);
+    return Number(block.timestamp);
+  }
+}
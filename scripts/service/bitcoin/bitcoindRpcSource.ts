@@ -0,0 +1,71 @@
+import axios, { AxiosInstance } from 'axios';
+import { AddressUtxo, BitcoinChainSource, BitcoinChainSourceError, assertBlockHash, assertBlockHeight } from './types';
+
+const SATOSHIS_PER_BTC = 100000000;
+
+// scantxoutset walks the whole UTXO set and takes minutes on mainnet
+const SCAN_TIMEOUT_MS = 300000;
+
+export interface BitcoindRpcConfig {
+  rpcUrl: string;
+  username?: string;
+  password?: string;
+}
+
+/**
+ * A bitcoind (or compatible) node over JSON-RPC
+ */
+export class BitcoindRpcChainSource implements BitcoinChainSource {
+  readonly type = 'bitcoind';
+  private readonly http: AxiosInstance;
+  private requestId = 0;
+
+  constructor(config: BitcoindRpcConfig) {
+    this.http = axios.create({
+      baseURL: config.rpcUrl,
+      timeout: 15000,
+      headers: { 'Content-Type': 'application/json' },
+      auth: config.username !== undefined ? { username: config.username, password: config.password || '' } : undefined
+    });
+  }
+
+  async getBlockHeight(): Promise<number> {
+    return assertBlockHeight(this.type, await this.call('getblockcount'));
+  }
+
+  async getBlockHash(height: number): Promise<string> {
+    return assertBlockHash(this.type, await this.call('getblockhash', [height]));
+  }
+
+  /**
+   * Scans the node's UTXO set, so no wallet or address index is needed
+   */
+  async getAddressUtxos(address: string): Promise<AddressUtxo[]> {
+    const scan: any = await this.call('scantxoutset', ['start', [`addr(${address})`]], SCAN_TIMEOUT_MS);
+    if (!scan?.success) {
+      throw new BitcoinChainSourceError(`${this.type}: scantxoutset for ${address} did not complete`);
+    }
+
+    return (scan.unspents as any[]).map((utxo) => ({
+      txid: assertBlockHash(this.type, utxo.txid, 'txid'),
+      vout: utxo.vout,
+      // amount is in BTC; round away float error when converting to satoshis
+      valueSats: Math.round(utxo.amount * SATOSHIS_PER_BTC),
+      blockHeight: assertBlockHeight(this.type, utxo.height)
+    }));
+  }
+
+  private async call(method: string, params: unknown[] = [], timeout?: number): Promise<unknown> {
+    try {
+      const response = await this.http.post('/', { jsonrpc: '1.0', id: ++this.requestId, method, params }, { timeout });
+      return response.data.result;
+    } catch (error: any) {
+      // bitcoind answers RPC errors with HTTP 500 and { error: { code, message } }
+      const rpcError = error.response?.data?.error;
+      if (rpcError) {
+        throw new BitcoinChainSourceError(`${this.type}: ${method} failed: ${rpcError.message} (code ${rpcError.code})`);
+      }
+      throw error;
+    }
+  }
+}
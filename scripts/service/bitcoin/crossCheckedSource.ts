@@ -0,0 +1,99 @@
+import { sortUtxos, utxoSetDigest } from './reserveProof';
+import { AddressUtxo, BitcoinChainSource, BitcoinChainSourceError, assertBlockHeight } from './types';
+
+export interface CrossCheckOptions {
+  // Sources that must answer before a result is trusted
+  minSources: number;
+  // Tips may differ by this many blocks while a new block propagates
+  maxHeightDrift: number;
+}
+
+/**
+ * Asks every source and only returns a result they agree on: tip heights within
+ * maxHeightDrift of each other, the same block hash at the reported height and the same UTXOs
+ */
+export class CrossCheckedChainSource implements BitcoinChainSource {
+  readonly type: string;
+
+  constructor(private sources: BitcoinChainSource[], private options: CrossCheckOptions) {
+    if (sources.length === 0) {
+      throw new BitcoinChainSourceError('CrossCheckedChainSource: no Bitcoin chain sources configured');
+    }
+    if (options.minSources < 1 || options.minSources > sources.length) {
+      throw new BitcoinChainSourceError(
+        `CrossCheckedChainSource: minSources must be between 1 and ${sources.length}, got ${options.minSources}`
+      );
+    }
+    this.type = sources.map((source) => source.type).join('+');
+  }
+
+  /**
+   * The lowest tip among the sources, so every source already has the block
+   */
+  async getBlockHeight(): Promise<number> {
+    const heights = await this.ask(async (source) => assertBlockHeight(source.type, await source.getBlockHeight()));
+    const lowest = Math.min(...heights.map(([, height]) => height));
+    const highest = Math.max(...heights.map(([, height]) => height));
+
+    if (highest - lowest > this.options.maxHeightDrift) {
+      throw new BitcoinChainSourceError(
+        `Bitcoin sources disagree on the tip height: ${heights.map(([type, height]) => `${type}=${height}`).join(', ')}`
+      );
+    }
+
+    // Sources on different chains (e.g. testnet vs mainnet) can still report close heights
+    if (heights.length > 1) {
+      await this.getBlockHash(lowest);
+    }
+
+    return lowest;
+  }
+
+  async getBlockHash(height: number): Promise<string> {
+    const hashes = await this.ask((source) => source.getBlockHash(height));
+
+    if (new Set(hashes.map(([, hash]) => hash)).size > 1) {
+      throw new BitcoinChainSourceError(
+        `Bitcoin sources disagree on block ${height}: ${hashes.map(([type, hash]) => `${type}=${hash}`).join(', ')}`
+      );
+    }
+
+    return hashes[0][1];
+  }
+
+  async getAddressUtxos(address: string): Promise<AddressUtxo[]> {
+    const answers = await this.ask((source) => source.getAddressUtxos(address));
+    const digests = answers.map(([type, utxos]) => [type, utxoSetDigest(utxos), utxos.length] as const);
+
+    if (new Set(digests.map(([, digest]) => digest)).size > 1) {
+      throw new BitcoinChainSourceError(
+        `Bitcoin sources disagree on the UTXOs of ${address}: ${digests.map(([type, , count]) => `${type}=${count} outputs`).join(', ')}`
+      );
+    }
+
+    return sortUtxos(answers[0][1]);
+  }
+
+  private async ask<T>(query: (source: BitcoinChainSource) => Promise<T>): Promise<[string, T][]> {
+    const results = await Promise.allSettled(this.sources.map(query));
+    const answers: [string, T][] = [];
+    const failures: string[] = [];
+
+    results.forEach((result, index) => {
+      const type = this.sources[index].type;
+      if (result.status === 'fulfilled') {
+        answers.push([type, result.value]);
+      } else {
+        failures.push(`${type}: ${result.reason?.message || result.reason}`);
+      }
+    });
+
+    if (answers.length < this.options.minSources) {
+      throw new BitcoinChainSourceError(
+        `Only ${answers.length} of ${this.options.minSources} required Bitcoin sources answered (${failures.join('; ')})`
+      );
+    }
+
+    return answers;
+  }
+}
@@ -0,0 +1,40 @@
+import axios, { AxiosInstance } from 'axios';
+import { AddressUtxo, BitcoinChainSource, assertBlockHash, assertBlockHeight } from './types';
+
+export const ESPLORA_API_URL = 'https://blockstream.info/api';
+
+/**
+ * Esplora REST API (blockstream.info, mempool.space or a self-hosted instance)
+ */
+export class EsploraChainSource implements BitcoinChainSource {
+  readonly type = 'esplora';
+  private readonly http: AxiosInstance;
+
+  constructor(apiUrl: string = ESPLORA_API_URL) {
+    this.http = axios.create({ baseURL: apiUrl, timeout: 15000, responseType: 'text' });
+  }
+
+  async getBlockHeight(): Promise<number> {
+    const response = await this.http.get('/blocks/tip/height');
+    return assertBlockHeight(this.type, response.data);
+  }
+
+  async getBlockHash(height: number): Promise<string> {
+    const response = await this.http.get(`/block-height/${height}`);
+    return assertBlockHash(this.type, response.data);
+  }
+
+  async getAddressUtxos(address: string): Promise<AddressUtxo[]> {
+    const response = await this.http.get(`/address/${encodeURIComponent(address)}/utxo`, { responseType: 'json' });
+
+    // Unconfirmed outputs have no block height and are not part of a proof
+    return (response.data as any[])
+      .filter((utxo) => utxo.status?.confirmed)
+      .map((utxo) => ({
+        txid: assertBlockHash(this.type, utxo.txid, 'txid'),
+        vout: utxo.vout,
+        valueSats: utxo.value,
+        blockHeight: assertBlockHeight(this.type, utxo.status.block_height)
+      }));
+  }
+}
@@ -0,0 +1,43 @@
+import { BitcoindRpcChainSource } from './bitcoindRpcSource';
+import { CrossCheckedChainSource } from './crossCheckedSource';
+import { ESPLORA_API_URL, EsploraChainSource } from './esploraSource';
+import { RegtestStubChainSource } from './regtestStubSource';
+import { BitcoinChainSource, BitcoinChainSourceError } from './types';
+
+/**
+ * Create the sources named by BITCOIN_SOURCES (comma separated: esplora, bitcoind, regtest;
+ * default esplora). Several sources are cross-checked, by default all of them must answer.
+ */
+export function createBitcoinChainSource(env: NodeJS.ProcessEnv = process.env): BitcoinChainSource {
+  const types = (env.BITCOIN_SOURCES || 'esplora')
+    .split(',')
+    .map((type) => type.trim().toLowerCase())
+    .filter((type) => type.length > 0);
+
+  const sources = types.map((type): BitcoinChainSource => {
+    switch (type) {
+      case 'esplora':
+        return new EsploraChainSource(env.ESPLORA_API_URL || ESPLORA_API_URL);
+      case 'bitcoind':
+        if (!env.BITCOIND_RPC_URL) {
+          throw new BitcoinChainSourceError('createBitcoinChainSource: BITCOIND_RPC_URL is required for the bitcoind source');
+        }
+        return new BitcoindRpcChainSource({
+          rpcUrl: env.BITCOIND_RPC_URL,
+          username: env.BITCOIND_RPC_USER,
+          password: env.BITCOIND_RPC_PASSWORD
+        });
+      case 'regtest':
+        return new RegtestStubChainSource(parseInt(env.BITCOIN_REGTEST_HEIGHT || '101'));
+      default:
+        throw new BitcoinChainSourceError(
+          `createBitcoinChainSource: unknown Bitcoin source "${type}" (expected esplora, bitcoind or regtest)`
+        );
+    }
+  });
+
+  return new CrossCheckedChainSource(sources, {
+    minSources: parseInt(env.BITCOIN_MIN_SOURCES || String(sources.length)),
+    maxHeightDrift: parseInt(env.BITCOIN_MAX_HEIGHT_DRIFT || '1')
+  });
+}
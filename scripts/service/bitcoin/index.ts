@@ -0,0 +1,10 @@
+export * from './types';
+export { EsploraChainSource, ESPLORA_API_URL } from './esploraSource';
+export { BitcoindRpcChainSource } from './bitcoindRpcSource';
+export type { BitcoindRpcConfig } from './bitcoindRpcSource';
+export { RegtestStubChainSource, regtestBlockHash } from './regtestStubSource';
+export { CrossCheckedChainSource } from './crossCheckedSource';
+export type { CrossCheckOptions } from './crossCheckedSource';
+export { buildAddressReserveProof, sortUtxos, utxoSetDigest } from './reserveProof';
+export type { AddressReserveProof } from './reserveProof';
+export { createBitcoinChainSource } from './factory';
@@ -0,0 +1,52 @@
+import { createHash } from 'crypto';
+import { AddressUtxo, BitcoinChainSource, BitcoinChainSourceError } from './types';
+
+const sha256 = (data: string) => createHash('sha256').update(data).digest('hex');
+
+/**
+ * Deterministic stand-in for the hash of block `height`
+ */
+export function regtestBlockHash(height: number): string {
+  return sha256(`regtest:${height}`);
+}
+
+/**
+ * In-process regtest chain for local runs without a node: the tip only moves when mine() is called
+ */
+export class RegtestStubChainSource implements BitcoinChainSource {
+  readonly type = 'regtest';
+  private utxos = new Map<string, AddressUtxo[]>();
+
+  // 101 blocks is the usual regtest start, enough for the first coinbase to mature
+  constructor(public height: number = 101) {}
+
+  mine(blocks: number = 1): number {
+    this.height += blocks;
+    return this.height;
+  }
+
+  /**
+   * Mine a block paying `valueSats` to `address`
+   */
+  receive(address: string, valueSats: number): AddressUtxo {
+    const blockHeight = this.mine();
+    const utxo = { txid: sha256(`regtest-coinbase:${blockHeight}`), vout: 0, valueSats, blockHeight };
+    this.utxos.set(address, [...(this.utxos.get(address) || []), utxo]);
+    return utxo;
+  }
+
+  async getBlockHeight(): Promise<number> {
+    return this.height;
+  }
+
+  async getBlockHash(height: number): Promise<string> {
+    if (height < 0 || height > this.height) {
+      throw new BitcoinChainSourceError(`${this.type}: block height ${height} out of range (tip ${this.height})`);
+    }
+    return regtestBlockHash(height);
+  }
+
+  async getAddressUtxos(address: string): Promise<AddressUtxo[]> {
+    return [...(this.utxos.get(address) || [])];
+  }
+}
@@ -0,0 +1,59 @@
+import { AbiCoder, keccak256 } from 'ethers';
+import { AddressUtxo, BitcoinChainSource, BitcoinChainSourceError } from './types';
+
+/**
+ * Confirmed balance of a BTC address at one block, with the UTXOs it was summed from
+ */
+export interface AddressReserveProof {
+  address: string;
+  blockHeight: number;
+  blockHash: string;
+  balanceSats: number;
+  utxoCount: number;
+  // ProofOfReserve.computeUtxoSetDigest of `utxos`
+  utxoSetDigest: string;
+  utxos: AddressUtxo[];
+}
+
+/**
+ * UTXOs in the order ProofOfReserve expects: by txid, then output index
+ */
+export function sortUtxos(utxos: AddressUtxo[]): AddressUtxo[] {
+  return [...utxos].sort((a, b) => (a.txid === b.txid ? a.vout - b.vout : a.txid < b.txid ? -1 : 1));
+}
+
+/**
+ * Same digest as ProofOfReserve.computeUtxoSetDigest, so the on-chain proof can be rechecked
+ */
+export function utxoSetDigest(utxos: AddressUtxo[]): string {
+  const sorted = sortUtxos(utxos);
+  return keccak256(AbiCoder.defaultAbiCoder().encode(
+    ['bytes32[]', 'uint32[]', 'uint64[]'],
+    [sorted.map((utxo) => `0x${utxo.txid}`), sorted.map((utxo) => utxo.vout), sorted.map((utxo) => utxo.valueSats)]
+  ));
+}
+
+/**
+ * Read the confirmed UTXOs of `address` at the current tip. Refuses when the tip moves
+ * during the read, since an output spent in the new block would be missing from the set.
+ */
+export async function buildAddressReserveProof(chain: BitcoinChainSource, address: string): Promise<AddressReserveProof> {
+  const blockHeight = await chain.getBlockHeight();
+  const blockHash = await chain.getBlockHash(blockHeight);
+  const utxos = sortUtxos((await chain.getAddressUtxos(address)).filter((utxo) => utxo.blockHeight <= blockHeight));
+
+  const tip = await chain.getBlockHeight();
+  if (tip !== blockHeight || (await chain.getBlockHash(blockHeight)) !== blockHash) {
+    throw new BitcoinChainSourceError(`Bitcoin tip moved from block ${blockHeight} to ${tip} while reading UTXOs of ${address}`);
+  }
+
+  return {
+    address,
+    blockHeight,
+    blockHash,
+    balanceSats: utxos.reduce((total, utxo) => total + utxo.valueSats, 0),
+    utxoCount: utxos.length,
+    utxoSetDigest: utxoSetDigest(utxos),
+    utxos
+  };
+}
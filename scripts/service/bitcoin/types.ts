@@ -0,0 +1,60 @@
+/**
+ * A confirmed unspent output paying to an address
+ */
+export interface AddressUtxo {
+  txid: string;
+  vout: number;
+  valueSats: number;
+  // Block the output was confirmed in
+  blockHeight: number;
+}
+
+/**
+ * Read access to the Bitcoin chain, used to anchor proof-of-reserve updates to a block
+ */
+export interface BitcoinChainSource {
+  readonly type: string;
+
+  /**
+   * Height of the current chain tip
+   */
+  getBlockHeight(): Promise<number>;
+
+  /**
+   * Hash of the block at `height` on this source's best chain
+   */
+  getBlockHash(height: number): Promise<string>;
+
+  /**
+   * Confirmed outputs to `address` that are unspent at this source's tip
+   */
+  getAddressUtxos(address: string): Promise<AddressUtxo[]>;
+}
+
+export class BitcoinChainSourceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BitcoinChainSourceError';
+  }
+}
+
+/**
+ * Reject anything that is not a usable block height instead of passing it on
+ */
+export function assertBlockHeight(source: string, value: unknown): number {
+  const height = typeof value === 'string' ? Number(value.trim()) : value;
+  if (typeof height !== 'number' || !Number.isInteger(height) || height <= 0) {
+    throw new BitcoinChainSourceError(`${source}: invalid block height ${JSON.stringify(value)}`);
+  }
+  return height;
+}
+
+/**
+ * Block hashes and txids, as 64 hex characters in the byte order explorers display
+ */
+export function assertBlockHash(source: string, value: unknown, what: string = 'block hash'): string {
+  if (typeof value !== 'string' || !/^[0-9a-f]{64}$/.test(value.trim())) {
+    throw new BitcoinChainSourceError(`${source}: invalid ${what} ${JSON.stringify(value)}`);
+  }
+  return value.trim();
+}
@@ -0,0 +1,42 @@
+/**
+ * What the custodian would charge to mint cbBTC against deposited BTC and send it to Base
+ */
+export interface WrapQuote {
+  btcAmount: number;
+  wrapFeeBTC: number;
+  withdrawalFeeCbBTC: number;
+  // Delivered to the destination address after both fees
+  cbbtcAmount: number;
+}
+
+export type CustodianOperationStatus = 'pending' | 'completed' | 'failed';
+
+/**
+ * A wrap (BTC → cbBTC held at the custodian) or a withdrawal (cbBTC sent on-chain)
+ */
+export interface CustodianOperation {
+  id: string;
+  kind: 'wrap' | 'withdraw';
+  status: CustodianOperationStatus;
+  // cbBTC credited by a wrap, or delivered by a withdrawal
+  amount: number;
+  // Charged by the custodian for this operation, in BTC (cbBTC for withdrawals)
+  fee?: number;
+  transactionHash?: string;
+}
+
+/**
+ * Custodian that holds the BTC the pools pay out and mints cbBTC against it.
+ * Wraps and withdrawals are idempotent: repeating a key returns the original operation.
+ */
+export interface CustodianClient {
+  readonly type: string;
+
+  quoteWrap(btcAmount: number): Promise<WrapQuote>;
+
+  wrap(btcAmount: number, idempotencyKey: string): Promise<CustodianOperation>;
+
+  withdraw(cbbtcAmount: number, toAddress: string, idempotencyKey: string): Promise<CustodianOperation>;
+
+  getOperation(id: string): Promise<CustodianOperation>;
+}
@@ -0,0 +1,92 @@
+import { ConversionLedger, ConversionRecord } from '../conversionLedger';
+import { ExchangeAdapter, ExchangeOrder, ExchangeQuote, ExchangeSide, assertWithinSlippage } from '../exchanges';
+import { waitUntilSettled } from './polling';
+import { ConversionEstimate, ConversionStrategy, PollOptions } from './types';
+
+export interface ExchangeStrategyOptions extends PollOptions {
+  maxSlippageBps: number;
+}
+
+/**
+ * Sell BTC for USD, then buy cbBTC with the proceeds. Pays two spreads and two sets of fees.
+ */
+export class ExchangeConversionStrategy implements ConversionStrategy {
+  readonly name = 'exchange';
+
+  constructor(
+    private exchange: ExchangeAdapter,
+    // BTC/USD every quote is checked against
+    private referencePrice: () => Promise<number>,
+    private options: ExchangeStrategyOptions
+  ) {}
+
+  async estimate(btcAmount: number): Promise<ConversionEstimate> {
+    const sell = await this.exchange.quote('sell', btcAmount);
+    const buy = await this.exchange.quote('buy', sell.outputAmount);
+
+    return {
+      strategy: this.name,
+      btcAmount,
+      expectedCbbtcAmount: buy.outputAmount,
+      netCostBTC: btcAmount - buy.outputAmount,
+      detail: `${this.exchange.type}: sell at ${sell.price}, buy at ${buy.price} USD/BTC`
+    };
+  }
+
+  async acquire(record: ConversionRecord, ledger: ConversionLedger): Promise<ConversionRecord> {
+    const key = record.idempotencyKey;
+
+    // Step 1: Sell BTC for USD
+    if (record.step === 'started') {
+      const { quote, order } = await this.trade('sell', record.btcAmount, `${key}:sell`);
+
+      record = ledger.advance(key, 'sold', {
+        usdAmount: order.outputAmount,
+        quotedSellRate: quote.price,
+        realizedSellRate: order.price,
+        sellFeeUSD: order.feeUSD
+      });
+    }
+
+    // Step 2: Buy cbBTC with USD
+    if (record.step === 'sold') {
+      const { quote, order } = await this.trade('buy', record.usdAmount!, `${key}:buy`);
+
+      record = ledger.advance(key, 'bought', {
+        cbbtcAmount: order.outputAmount,
+        quotedBuyRate: quote.price,
+        realizedBuyRate: order.price,
+        buyFeeUSD: order.feeUSD
+      });
+    }
+
+    return record;
+  }
+
+  /**
+   * Quote a trade, refuse it if the quote is too far from the reference price,
+   * then place it and wait for the fill
+   */
+  private async trade(side: ExchangeSide, amount: number, idempotencyKey: string): Promise<{ quote: ExchangeQuote; order: ExchangeOrder }> {
+    const quote = await this.exchange.quote(side, amount);
+    const referencePrice = await this.referencePrice();
+
+    assertWithinSlippage(quote, referencePrice, this.options.maxSlippageBps);
+
+    const placed = await this.exchange.execute(quote, idempotencyKey);
+    const order = await waitUntilSettled(
+      placed,
+      (current) => current.status === 'pending',
+      () => this.exchange.getOrder(side, placed.orderId),
+      this.options,
+      `${this.exchange.type} ${side} order ${placed.orderId}`
+    );
+
+    if (order.status === 'failed' || !order.outputAmount) {
+      throw new Error(`${this.exchange.type} ${side} order ${order.orderId} did not fill`);
+    }
+
+    console.log(`${side} ${amount} filled at ${order.price} USD/BTC (quoted ${quote.price}, oracle ${referencePrice})`);
+    return { quote, order };
+  }
+}
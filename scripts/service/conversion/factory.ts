@@ -0,0 +1,63 @@
+import { ExchangeAdapter } from '../exchanges';
+import { CustodianClient } from './custodian';
+import { SimulatedCustodian } from './simulatedCustodian';
+import { ExchangeConversionStrategy, ExchangeStrategyOptions } from './exchangeStrategy';
+import { WrapConversionStrategy } from './wrapStrategy';
+import { ConversionStrategy } from './types';
+
+export interface ConversionStrategyDependencies {
+  exchange: ExchangeAdapter;
+  custodian?: CustodianClient;
+  referencePrice: () => Promise<number>;
+  walletAddress: string;
+  options: ExchangeStrategyOptions;
+}
+
+/**
+ * Create the custodian named by CUSTODIAN (none or simulated, default none).
+ * The wrap strategy needs one.
+ */
+export function createCustodianClient(env: NodeJS.ProcessEnv = process.env): CustodianClient | undefined {
+  const type = (env.CUSTODIAN || 'none').trim().toLowerCase();
+
+  switch (type) {
+    case 'none':
+      return undefined;
+    case 'simulated': {
+      const btcBalance = Number(env.SIMULATED_CUSTODIAN_BTC_BALANCE || 0);
+      if (!Number.isFinite(btcBalance) || btcBalance < 0) {
+        throw new Error(`createCustodianClient: SIMULATED_CUSTODIAN_BTC_BALANCE must be a non-negative number, got "${env.SIMULATED_CUSTODIAN_BTC_BALANCE}"`);
+      }
+      return new SimulatedCustodian({ btcBalance });
+    }
+    default:
+      throw new Error(`createCustodianClient: unknown custodian "${type}" (expected none or simulated)`);
+  }
+}
+
+/**
+ * Create the strategies listed in CONVERSION_STRATEGIES (exchange, wrap; default exchange)
+ */
+export function createConversionStrategies(
+  dependencies: ConversionStrategyDependencies,
+  env: NodeJS.ProcessEnv = process.env
+): ConversionStrategy[] {
+  const names = (env.CONVERSION_STRATEGIES || 'exchange')
+    .split(',')
+    .map((name) => name.trim().toLowerCase())
+    .filter((name) => name.length > 0);
+
+  return names.map((name) => {
+    switch (name) {
+      case 'exchange':
+        return new ExchangeConversionStrategy(dependencies.exchange, dependencies.referencePrice, dependencies.options);
+      case 'wrap':
+        if (!dependencies.custodian) {
+          throw new Error('createConversionStrategies: CONVERSION_STRATEGIES lists wrap but no custodian client is configured (set CUSTODIAN)');
+        }
+        return new WrapConversionStrategy(dependencies.custodian, dependencies.walletAddress, dependencies.options);
+      default:
+        throw new Error(`createConversionStrategies: unknown conversion strategy "${name}" (expected exchange or wrap)`);
+    }
+  });
+}
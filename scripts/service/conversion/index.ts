@@ -0,0 +1,12 @@
+export * from './types';
+export * from './custodian';
+export { ExchangeConversionStrategy } from './exchangeStrategy';
+export type { ExchangeStrategyOptions } from './exchangeStrategy';
+export { WrapConversionStrategy } from './wrapStrategy';
+export { SimulatedCustodian } from './simulatedCustodian';
+export type { SimulatedCustodianOptions } from './simulatedCustodian';
+export { selectStrategy } from './selection';
+export type { StrategySelection } from './selection';
+export { createConversionStrategies, createCustodianClient } from './factory';
+export type { ConversionStrategyDependencies } from './factory';
+export { waitUntilSettled } from './polling';
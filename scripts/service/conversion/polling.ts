@@ -0,0 +1,24 @@
+import { PollOptions } from './types';
+
+/**
+ * Re-read `current` with `poll` until it is no longer pending, or fail after `timeoutMs`
+ */
+export async function waitUntilSettled<T>(
+  current: T,
+  isPending: (value: T) => boolean,
+  poll: () => Promise<T>,
+  options: PollOptions,
+  label: string
+): Promise<T> {
+  const deadline = Date.now() + options.timeoutMs;
+
+  while (isPending(current)) {
+    if (Date.now() > deadline) {
+      throw new Error(`${label} still pending after ${options.timeoutMs / 1000}s`);
+    }
+    await new Promise(resolve => setTimeout(resolve, options.intervalMs));
+    current = await poll();
+  }
+
+  return current;
+}
@@ -0,0 +1,38 @@
+import { ConversionEstimate, ConversionStrategy } from './types';
+
+export interface StrategySelection {
+  strategy: ConversionStrategy;
+  estimate: ConversionEstimate;
+  // Every estimate that could be obtained, best first
+  estimates: ConversionEstimate[];
+}
+
+/**
+ * Estimate every strategy and pick the one that delivers the most cbBTC.
+ * A strategy whose estimate fails is left out; it is an error only if all fail.
+ */
+export async function selectStrategy(strategies: ConversionStrategy[], btcAmount: number): Promise<StrategySelection> {
+  const failures: string[] = [];
+  const estimates: ConversionEstimate[] = [];
+
+  for (const strategy of strategies) {
+    try {
+      estimates.push(await strategy.estimate(btcAmount));
+    } catch (error) {
+      failures.push(`${strategy.name}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  if (estimates.length === 0) {
+    throw new Error(`No conversion strategy could quote ${btcAmount} BTC (${failures.join('; ')})`);
+  }
+
+  // Stable sort keeps configuration order on ties
+  estimates.sort((a, b) => a.netCostBTC - b.netCostBTC);
+
+  return {
+    strategy: strategies.find((strategy) => strategy.name === estimates[0].strategy)!,
+    estimate: estimates[0],
+    estimates
+  };
+}
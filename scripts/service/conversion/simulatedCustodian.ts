@@ -0,0 +1,111 @@
+import { CustodianClient, CustodianOperation, WrapQuote } from './custodian';
+
+export interface SimulatedCustodianOptions {
+  // BTC already deposited by the pools
+  btcBalance?: number;
+  wrapFeeBps?: number;
+  withdrawalFeeCbBTC?: number;
+  // Status polls an operation stays pending for before it completes
+  pendingPolls?: number;
+  // Called once per new withdrawal; may return the on-chain transaction hash
+  onWithdraw?: (cbbtcAmount: number, toAddress: string) => Promise<string | void>;
+}
+
+const roundSats = (amount: number) => Math.floor(amount * 1e8) / 1e8;
+
+/**
+ * In-memory custodian for tests and local runs. Tracks deposited BTC and wrapped cbBTC
+ * balances and rejects operations the balances cannot cover.
+ */
+export class SimulatedCustodian implements CustodianClient {
+  readonly type = 'simulated';
+  btcBalance: number;
+  cbbtcBalance = 0;
+  readonly operations: CustodianOperation[] = [];
+  private byKey = new Map<string, CustodianOperation>();
+  private polls = new Map<string, number>();
+
+  constructor(private options: SimulatedCustodianOptions = {}) {
+    this.btcBalance = options.btcBalance || 0;
+  }
+
+  deposit(btcAmount: number) {
+    this.btcBalance += btcAmount;
+  }
+
+  async quoteWrap(btcAmount: number): Promise<WrapQuote> {
+    const wrapFeeBTC = roundSats(btcAmount * (this.options.wrapFeeBps || 0) / 10000);
+    const withdrawalFeeCbBTC = this.options.withdrawalFeeCbBTC || 0;
+
+    return {
+      btcAmount,
+      wrapFeeBTC,
+      withdrawalFeeCbBTC,
+      cbbtcAmount: roundSats(Math.max(0, btcAmount - wrapFeeBTC - withdrawalFeeCbBTC))
+    };
+  }
+
+  async wrap(btcAmount: number, idempotencyKey: string): Promise<CustodianOperation> {
+    return this.once(idempotencyKey, async () => {
+      if (btcAmount > this.btcBalance) {
+        throw new Error(`simulated custodian: wrap of ${btcAmount} BTC exceeds deposited ${this.btcBalance} BTC`);
+      }
+
+      const { wrapFeeBTC } = await this.quoteWrap(btcAmount);
+      const minted = roundSats(btcAmount - wrapFeeBTC);
+      this.btcBalance -= btcAmount;
+      this.cbbtcBalance += minted;
+
+      return { kind: 'wrap', amount: minted, fee: wrapFeeBTC };
+    });
+  }
+
+  async withdraw(cbbtcAmount: number, toAddress: string, idempotencyKey: string): Promise<CustodianOperation> {
+    return this.once(idempotencyKey, async () => {
+      if (cbbtcAmount > this.cbbtcBalance) {
+        throw new Error(`simulated custodian: withdrawal of ${cbbtcAmount} cbBTC exceeds held ${this.cbbtcBalance} cbBTC`);
+      }
+
+      const fee = this.options.withdrawalFeeCbBTC || 0;
+      const delivered = roundSats(cbbtcAmount - fee);
+      this.cbbtcBalance -= cbbtcAmount;
+      const transactionHash = this.options.onWithdraw ? await this.options.onWithdraw(delivered, toAddress) : undefined;
+
+      return { kind: 'withdraw', amount: delivered, fee, ...(transactionHash ? { transactionHash } : {}) };
+    });
+  }
+
+  async getOperation(id: string): Promise<CustodianOperation> {
+    const operation = this.operations.find((candidate) => candidate.id === id);
+    if (!operation) {
+      throw new Error(`simulated custodian: unknown operation ${id}`);
+    }
+
+    const polls = (this.polls.get(id) || 0) + 1;
+    this.polls.set(id, polls);
+    if (polls >= (this.options.pendingPolls || 0)) {
+      operation.status = 'completed';
+    }
+
+    return { ...operation };
+  }
+
+  private async once(
+    idempotencyKey: string,
+    perform: () => Promise<Pick<CustodianOperation, 'kind' | 'amount' | 'fee' | 'transactionHash'>>
+  ): Promise<CustodianOperation> {
+    let operation = this.byKey.get(idempotencyKey);
+
+    if (!operation) {
+      operation = {
+        id: `op-${this.operations.length + 1}`,
+        status: this.options.pendingPolls ? 'pending' : 'completed',
+        ...await perform()
+      };
+      this.byKey.set(idempotencyKey, operation);
+      this.operations.push(operation);
+    }
+
+    return { ...operation };
+  }
+}
@@ -0,0 +1,34 @@
+import { ConversionLedger, ConversionRecord } from '../conversionLedger';
+
+/**
+ * What a strategy expects to deliver for a given amount of BTC
+ */
+export interface ConversionEstimate {
+  strategy: string;
+  btcAmount: number;
+  // cbBTC that would land in the service wallet, after every spread and fee
+  expectedCbbtcAmount: number;
+  // btcAmount - expectedCbbtcAmount (cbBTC is 1:1 with BTC)
+  netCostBTC: number;
+  detail: string;
+}
+
+/**
+ * One way of turning pool BTC into cbBTC in the service wallet
+ */
+export interface ConversionStrategy {
+  readonly name: string;
+
+  estimate(btcAmount: number): Promise<ConversionEstimate>;
+
+  /**
+   * Drive a conversion from its journaled step up to `bought` (cbBTC in the wallet),
+   * journaling every intermediate step so a restart resumes where it stopped
+   */
+  acquire(record: ConversionRecord, ledger: ConversionLedger): Promise<ConversionRecord>;
+}
+
+export interface PollOptions {
+  intervalMs: number;
+  timeoutMs: number;
+}
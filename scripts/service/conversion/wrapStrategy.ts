@@ -0,0 +1,71 @@
+import { ConversionLedger, ConversionRecord } from '../conversionLedger';
+import { CustodianClient, CustodianOperation } from './custodian';
+import { waitUntilSettled } from './polling';
+import { ConversionEstimate, ConversionStrategy, PollOptions } from './types';
+
+/**
+ * Have the custodian mint cbBTC against the deposited BTC and withdraw it to the
+ * service wallet: no USD leg, so no spreads and no sale.
+ */
+export class WrapConversionStrategy implements ConversionStrategy {
+  readonly name = 'wrap';
+
+  constructor(
+    private custodian: CustodianClient,
+    // Service wallet on Base the cbBTC is withdrawn to
+    private walletAddress: string,
+    private options: PollOptions
+  ) {}
+
+  async estimate(btcAmount: number): Promise<ConversionEstimate> {
+    const quote = await this.custodian.quoteWrap(btcAmount);
+
+    return {
+      strategy: this.name,
+      btcAmount,
+      expectedCbbtcAmount: quote.cbbtcAmount,
+      netCostBTC: btcAmount - quote.cbbtcAmount,
+      detail: `${this.custodian.type}: wrap fee ${quote.wrapFeeBTC} BTC, withdrawal fee ${quote.withdrawalFeeCbBTC} cbBTC`
+    };
+  }
+
+  async acquire(record: ConversionRecord, ledger: ConversionLedger): Promise<ConversionRecord> {
+    const key = record.idempotencyKey;
+
+    // Step 1: Mint cbBTC at the custodian against the deposited BTC
+    if (record.step === 'started') {
+      const wrapped = await this.settle(await this.custodian.wrap(record.btcAmount, `${key}:wrap`));
+      record = ledger.advance(key, 'wrapped', { cbbtcAmount: wrapped.amount, custodianFeeBTC: wrapped.fee || 0 });
+    }
+
+    // Step 2: Withdraw the cbBTC to the service wallet on Base
+    if (record.step === 'wrapped') {
+      const withdrawn = await this.settle(
+        await this.custodian.withdraw(record.cbbtcAmount!, this.walletAddress, `${key}:withdraw`)
+      );
+      record = ledger.advance(key, 'bought', {
+        cbbtcAmount: withdrawn.amount,
+        custodianFeeBTC: (record.custodianFeeBTC || 0) + (withdrawn.fee || 0),
+        withdrawalTransactionHash: withdrawn.transactionHash
+      });
+    }
+
+    return record;
+  }
+
+  private async settle(operation: CustodianOperation): Promise<CustodianOperation> {
+    const settled = await waitUntilSettled(
+      operation,
+      (current) => current.status === 'pending',
+      () => this.custodian.getOperation(operation.id),
+      this.options,
+      `${this.custodian.type} ${operation.kind} ${operation.id}`
+    );
+
+    if (settled.status === 'failed') {
+      throw new Error(`${this.custodian.type} ${operation.kind} ${operation.id} failed`);
+    }
+
+    return settled;
+  }
+}
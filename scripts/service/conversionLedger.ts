@@ -0,0 +1,204 @@
+import fs from 'fs';
+import path from 'path';
+import { randomBytes } from 'crypto';
+import type { ConversionCosts } from './costs';
+
+/**
+ * Steps of a BTC → cbBTC conversion, in the order they happen.
+ * `sold` (exchange strategy) and `wrapped` (wrap strategy) are intermediate steps;
+ * `bought` means the cbBTC is in the service wallet, whichever strategy got it there.
+ * `funding` is recorded with the signed funding transaction before it is broadcast,
+ * so a restart re-broadcasts or looks up that same transaction instead of sending a second one.
+ */
+export type ConversionStep = 'started' | 'sold' | 'wrapped' | 'bought' | 'funding' | 'completed' | 'failed';
+
+export interface ConversionRecord {
+  idempotencyKey: string;
+  step: ConversionStep;
+  // Conversion strategy chosen when the conversion started (records without one used the exchange)
+  strategy?: string;
+  estimatedCbbtcAmount?: number;
+  btcAmount: number;
+  usdAmount?: number;
+  cbbtcAmount?: number;
+  // USD per BTC: what the exchange quoted and what the fill actually got
+  quotedSellRate?: number;
+  realizedSellRate?: number;
+  quotedBuyRate?: number;
+  realizedBuyRate?: number;
+  // Fees reported by the exchange (per leg) or the custodian (wrap + withdrawal)
+  sellFeeUSD?: number;
+  buyFeeUSD?: number;
+  custodianFeeBTC?: number;
+  withdrawalTransactionHash?: string;
+  // Gas of the cbBTC approvals the funding transaction needed, counted in its costs
+  approvalGasUsed?: number;
+  approvalGasCostETH?: number;
+  transactionHash?: string;
+  // Raw signed funding transaction, kept so a restart can re-broadcast it
+  signedTransaction?: string;
+  // Written when the conversion completes
+  costs?: ConversionCosts;
+  attempts: number;
+  lastError?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface LedgerEntry {
+  key: string;
+  step: ConversionStep | 'attempt';
+  at: string;
+  data: Partial<ConversionRecord>;
+}
+
+const TERMINAL_STEPS: ConversionStep[] = ['completed', 'failed'];
+
+/**
+ * Durable, append-only journal of conversion steps (one JSON entry per line).
+ * The current state of each conversion is rebuilt by replaying the journal,
+ * so a crash can never lose a step that was already written.
+ */
+export class ConversionLedger {
+  readonly filePath: string;
+  private records = new Map<string, ConversionRecord>();
+
+  constructor(filePath: string = process.env.CONVERSION_LEDGER_PATH || 'data/conversion-ledger.jsonl') {
+    this.filePath = path.resolve(filePath);
+    this.replay();
+  }
+
+  /**
+   * Record a new conversion and return it
+   */
+  begin(btcAmount: number, data: Partial<ConversionRecord> = {}): ConversionRecord {
+    const idempotencyKey = `conv-${Date.now()}-${randomBytes(4).toString('hex')}`;
+    const now = new Date().toISOString();
+
+    this.append({
+      key: idempotencyKey,
+      step: 'started',
+      at: now,
+      data: { ...data, btcAmount, attempts: 0, createdAt: now }
+    });
+
+    return this.get(idempotencyKey)!;
+  }
+
+  /**
+   * Move a conversion to the next step, persisting the step data first
+   */
+  advance(idempotencyKey: string, step: ConversionStep, data: Partial<ConversionRecord> = {}): ConversionRecord {
+    this.requireRecord(idempotencyKey);
+    this.append({ key: idempotencyKey, step, at: new Date().toISOString(), data });
+    return this.get(idempotencyKey)!;
+  }
+
+  /**
+   * Count a failed attempt without changing the step
+   */
+  recordAttemptFailure(idempotencyKey: string, error: string): ConversionRecord {
+    const record = this.requireRecord(idempotencyKey);
+    this.append({
+      key: idempotencyKey,
+      step: 'attempt',
+      at: new Date().toISOString(),
+      data: { attempts: record.attempts + 1, lastError: error }
+    });
+    return this.get(idempotencyKey)!;
+  }
+
+  get(idempotencyKey: string): ConversionRecord | undefined {
+    const record = this.records.get(idempotencyKey);
+    return record ? { ...record } : undefined;
+  }
+
+  /**
+   * Conversions that were started but never completed or failed
+   */
+  pending(): ConversionRecord[] {
+    return this.all().filter((record) => !TERMINAL_STEPS.includes(record.step));
+  }
+
+  all(): ConversionRecord[] {
+    return Array.from(this.records.values())
+      .map((record) => ({ ...record }))
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  private requireRecord(idempotencyKey: string): ConversionRecord {
+    const record = this.records.get(idempotencyKey);
+    if (!record) {
+      throw new Error(`ConversionLedger: unknown conversion ${idempotencyKey}`);
+    }
+    return record;
+  }
+
+  private append(entry: LedgerEntry) {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+
+    const fd = fs.openSync(this.filePath, 'a');
+    try {
+      fs.writeSync(fd, JSON.stringify(entry) + '\n');
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+
+    this.apply(entry);
+  }
+
+  private apply(entry: LedgerEntry) {
+    const existing = this.records.get(entry.key);
+
+    if (!existing) {
+      if (entry.step !== 'started') {
+        throw new Error(`ConversionLedger: ${entry.key} has ${entry.step} entry before started`);
+      }
+      this.records.set(entry.key, {
+        idempotencyKey: entry.key,
+        step: 'started',
+        btcAmount: 0,
+        attempts: 0,
+        createdAt: entry.at,
+        ...entry.data,
+        updatedAt: entry.at
+      });
+      return;
+    }
+
+    Object.assign(existing, entry.data, { updatedAt: entry.at });
+    if (entry.step !== 'attempt') {
+      existing.step = entry.step;
+    }
+  }
+
+  private replay() {
+    if (!fs.existsSync(this.filePath)) {
+      return;
+    }
+
+    const lines = fs.readFileSync(this.filePath, 'utf8').split('\n');
+
+    lines.forEach((line, index) => {
+      if (line.trim().length === 0) {
+        return;
+      }
+
+      try {
+        this.apply(JSON.parse(line));
+      } catch (error) {
+        // A torn final line means we crashed mid-write; that step never happened
+        if (index >= lines.length - 2) {
+          console.warn(`ConversionLedger: dropping incomplete last entry in ${this.filePath}`);
+          // Truncate it so the next append starts on a clean line
+          fs.writeFileSync(this.filePath, lines.slice(0, index).map((valid) => valid + '\n').join(''));
+          return;
+        }
+        throw error;
+      }
+    });
+  }
+}
+
+export default ConversionLedger;
@@ -0,0 +1,134 @@
+/**
+ * What one conversion cost, from BTC leaving the pool to cbBTC landing in MiningPool
+ */
+export interface ConversionCosts {
+  exchangeFeesUSD: number;
+  custodianFeesBTC: number;
+  // BTC in minus cbBTC out: every spread and fee above, in BTC terms
+  conversionLossBTC: number;
+  // fundCbBTCRewardPool receipt plus any cbBTC approve sent for it
+  gasUsed: number;
+  // fundCbBTCRewardPool's gas price
+  effectiveGasPriceGwei: number;
+  gasCostETH: number;
+  // Oracle prices at completion; ETH/USD is null when the feed could not be read
+  btcUsdPrice: number;
+  ethUsdPrice: number | null;
+  gasCostUSD: number | null;
+  // Conversion loss plus gas, in USD (fees are already inside the conversion loss)
+  totalCostUSD: number;
+}
+
+export interface CostTotals {
+  conversions: number;
+  btcConverted: number;
+  cbbtcReceived: number;
+  exchangeFeesUSD: number;
+  custodianFeesBTC: number;
+  conversionLossBTC: number;
+  gasUsed: number;
+  gasCostETH: number;
+  gasCostUSD: number;
+  // Conversions whose gas could not be priced in USD
+  unpricedGasConversions: number;
+  totalCostUSD: number;
+  // Share of the converted BTC's USD value eaten by the pipeline
+  costShare: number;
+}
+
+export interface FundingReceipt {
+  gasUsed: bigint;
+  gasPrice: bigint;
+}
+
+export interface CostedConversion {
+  btcAmount: number;
+  cbbtcAmount?: number;
+  sellFeeUSD?: number;
+  buyFeeUSD?: number;
+  custodianFeeBTC?: number;
+  // cbBTC approvals sent before signing the funding transaction
+  approvalGasUsed?: number;
+  approvalGasCostETH?: number;
+  costs?: ConversionCosts;
+}
+
+const WEI_PER_ETH = 1e18;
+const WEI_PER_GWEI = 1e9;
+
+/**
+ * The conversion's approval gas with one more approve receipt added
+ */
+export function addApprovalGas(
+  conversion: CostedConversion,
+  approval: FundingReceipt
+): Required<Pick<CostedConversion, 'approvalGasUsed' | 'approvalGasCostETH'>> {
+  return {
+    approvalGasUsed: (conversion.approvalGasUsed || 0) + Number(approval.gasUsed),
+    approvalGasCostETH: (conversion.approvalGasCostETH || 0) + Number(approval.gasUsed * approval.gasPrice) / WEI_PER_ETH
+  };
+}
+
+export function calculateConversionCosts(
+  conversion: CostedConversion,
+  receipt: FundingReceipt,
+  prices: { btcUsd: number; ethUsd: number | null }
+): ConversionCosts {
+  const gasCostETH = Number(receipt.gasUsed * receipt.gasPrice) / WEI_PER_ETH + (conversion.approvalGasCostETH || 0);
+  const gasCostUSD = prices.ethUsd === null ? null : gasCostETH * prices.ethUsd;
+  const conversionLossBTC = conversion.btcAmount - (conversion.cbbtcAmount || 0);
+
+  return {
+    exchangeFeesUSD: (conversion.sellFeeUSD || 0) + (conversion.buyFeeUSD || 0),
+    custodianFeesBTC: conversion.custodianFeeBTC || 0,
+    conversionLossBTC,
+    gasUsed: Number(receipt.gasUsed) + (conversion.approvalGasUsed || 0),
+    effectiveGasPriceGwei: Number(receipt.gasPrice) / WEI_PER_GWEI,
+    gasCostETH,
+    btcUsdPrice: prices.btcUsd,
+    ethUsdPrice: prices.ethUsd,
+    gasCostUSD,
+    totalCostUSD: conversionLossBTC * prices.btcUsd + (gasCostUSD || 0)
+  };
+}
+
+/**
+ * Sum the costs of every conversion that has them
+ */
+export function totalCosts(conversions: CostedConversion[]): CostTotals {
+  const totals: CostTotals = {
+    conversions: 0,
+    btcConverted: 0,
+    cbbtcReceived: 0,
+    exchangeFeesUSD: 0,
+    custodianFeesBTC: 0,
+    conversionLossBTC: 0,
+    gasUsed: 0,
+    gasCostETH: 0,
+    gasCostUSD: 0,
+    unpricedGasConversions: 0,
+    totalCostUSD: 0,
+    costShare: 0
+  };
+  let convertedUSD = 0;
+
+  for (const { btcAmount, cbbtcAmount, costs } of conversions) {
+    if (!costs) continue;
+
+    totals.conversions++;
+    totals.btcConverted += btcAmount;
+    totals.cbbtcReceived += cbbtcAmount || 0;
+    totals.exchangeFeesUSD += costs.exchangeFeesUSD;
+    totals.custodianFeesBTC += costs.custodianFeesBTC;
+    totals.conversionLossBTC += costs.conversionLossBTC;
+    totals.gasUsed += costs.gasUsed;
+    totals.gasCostETH += costs.gasCostETH;
+    if (costs.gasCostUSD === null) totals.unpricedGasConversions++;
+    else totals.gasCostUSD += costs.gasCostUSD;
+    totals.totalCostUSD += costs.totalCostUSD;
+    convertedUSD += btcAmount * costs.btcUsdPrice;
+  }
+
+  totals.costShare = convertedUSD > 0 ? totals.totalCostUSD / convertedUSD : 0;
+  return totals;
+}
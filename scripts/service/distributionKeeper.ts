@@ -0,0 +1,224 @@
+import fs from 'fs';
+import path from 'path';
+import { Interface, TransactionReceipt, TransactionResponse, formatUnits } from 'ethers';
+
+const DISTRIBUTION_INTERVAL_SECONDS = 24 * 60 * 60;
+const CBBTC_DECIMALS = 8;
+
+const DISTRIBUTION_EVENTS = new Interface(['event CbBTCRewardsDistributed(uint256 totalAmount, uint256 timestamp)']);
+
+/**
+ * The MiningPool calls the keeper makes (an ethers Contract connected to the owner)
+ */
+export interface DistributionContract {
+  lastDistributionTime(): Promise<bigint>;
+  cbBTCRewardPool(): Promise<bigint>;
+  totalHashrateStaked(): Promise<bigint>;
+  distributeDailyCbBTCRewards: {
+    (): Promise<{ hash: string }>;
+    staticCall(): Promise<unknown>;
+  };
+}
+
+export interface DistributionKeeperDependencies {
+  miningPool: DistributionContract;
+  // Chain time of the latest block, in seconds
+  latestTimestamp: () => Promise<number>;
+  // May resolve null or throw when the transaction is not mined in time
+  waitForReceipt: (hash: string) => Promise<TransactionReceipt | null>;
+  // Null once no node knows the transaction (dropped from the mempool)
+  getTransaction: (hash: string) => Promise<TransactionResponse | null>;
+}
+
+export type DistributionCheck =
+  | { due: true }
+  | { due: false; reason: string; nextAt?: Date };
+
+/**
+ * A CbBTCRewardsDistributed event emitted by a keeper transaction
+ */
+export interface DistributionRecord {
+  transactionHash: string;
+  blockNumber: number;
+  // cbBTC moved out of the reward pool
+  totalAmount: number;
+  distributedAt: string;
+  gasUsed: number;
+}
+
+interface DistributionEntry {
+  step: 'submitted' | 'distributed' | 'reverted' | 'dropped';
+  transactionHash: string;
+  at: string;
+  // MiningPool.lastDistributionTime when submitted, to tell a dropped transaction from a mined one
+  lastDistributionTime?: string;
+  record?: DistributionRecord;
+}
+
+/**
+ * Off-chain alternative to ChainlinkAutomation for MiningPool.distributeDailyCbBTCRewards.
+ * Each run checks lastDistributionTime, simulates the call with staticCall, submits it and
+ * records the emitted events. Submitted transactions are journaled before waiting, so a
+ * restart looks up the receipt instead of sending a second distribution. One that no node
+ * knows any more, while lastDistributionTime has not moved, is journaled as dropped and
+ * replaced by a fresh distribution.
+ */
+export class DistributionKeeper {
+  readonly filePath: string;
+  private entries: DistributionEntry[] = [];
+
+  constructor(
+    private deps: DistributionKeeperDependencies,
+    filePath: string = process.env.DISTRIBUTION_LOG_PATH || 'data/distributions.jsonl'
+  ) {
+    this.filePath = path.resolve(filePath);
+    if (fs.existsSync(this.filePath)) {
+      this.entries = fs.readFileSync(this.filePath, 'utf8')
+        .split('\n')
+        .filter((line) => line.trim().length > 0)
+        .map((line) => JSON.parse(line));
+    }
+  }
+
+  /**
+   * Whether MiningPool would accept a distribution now; the reasons mirror its requires
+   */
+  async check(): Promise<DistributionCheck> {
+    const { miningPool } = this.deps;
+    const [lastDistribution, rewardPool, hashrate, now] = await Promise.all([
+      miningPool.lastDistributionTime(),
+      miningPool.cbBTCRewardPool(),
+      miningPool.totalHashrateStaked(),
+      this.deps.latestTimestamp()
+    ]);
+
+    const dueAt = Number(lastDistribution) + DISTRIBUTION_INTERVAL_SECONDS;
+    if (now < dueAt) {
+      return { due: false, reason: 'last distribution was less than a day ago', nextAt: new Date(dueAt * 1000) };
+    }
+    if (rewardPool === 0n) {
+      return { due: false, reason: 'cbBTC reward pool is empty' };
+    }
+    if (hashrate === 0n) {
+      return { due: false, reason: 'no hashrate staked' };
+    }
+    return { due: true };
+  }
+
+  /**
+   * Distribute if due. Returns the recorded distribution, or null when there was nothing to do.
+   */
+  async run(): Promise<DistributionRecord | null> {
+    const unconfirmed = this.unconfirmed();
+    if (unconfirmed) {
+      console.log(`Waiting for distribution ${unconfirmed.transactionHash} sent by a previous run...`);
+      const record = await this.confirm(unconfirmed);
+      if (record) return record;
+    }
+
+    const check = await this.check();
+    if (!check.due) {
+      const next = check.nextAt ? ` (next at ${check.nextAt.toISOString()})` : '';
+      console.log(`Skipping cbBTC distribution: ${check.reason}${next}`);
+      return null;
+    }
+
+    // A revert here costs nothing; sending it would burn gas on the same revert
+    try {
+      await this.deps.miningPool.distributeDailyCbBTCRewards.staticCall();
+    } catch (error: any) {
+      throw new Error(`distributeDailyCbBTCRewards would revert: ${error.shortMessage || error.message}`);
+    }
+
+    const lastDistributionTime = (await this.deps.miningPool.lastDistributionTime()).toString();
+    const tx = await this.deps.miningPool.distributeDailyCbBTCRewards();
+    const submitted: DistributionEntry = { step: 'submitted', transactionHash: tx.hash, at: new Date().toISOString(), lastDistributionTime };
+    this.append(submitted);
+
+    const record = await this.confirm(submitted);
+    if (!record) {
+      throw new Error(`Distribution ${tx.hash} was dropped before it was mined`);
+    }
+    return record;
+  }
+
+  /**
+   * The most recent confirmed distribution
+   */
+  last(): DistributionRecord | null {
+    return this.all().pop() ?? null;
+  }
+
+  all(): DistributionRecord[] {
+    return this.entries.filter((entry) => entry.step === 'distributed').map((entry) => entry.record!);
+  }
+
+  /**
+   * Wait for a submitted distribution and record its outcome. Returns null when it was
+   * dropped, so a new one can be sent.
+   */
+  private async confirm(submitted: DistributionEntry): Promise<DistributionRecord | null> {
+    const { transactionHash } = submitted;
+    let receipt: TransactionReceipt | null = null;
+    let waitError: unknown = null;
+    try {
+      receipt = await this.deps.waitForReceipt(transactionHash);
+    } catch (error) {
+      waitError = error;
+    }
+
+    if (!receipt) {
+      if (await this.dropped(submitted)) {
+        console.warn(`Distribution ${transactionHash} was dropped from the mempool, journaling it as dropped`);
+        this.append({ step: 'dropped', transactionHash, at: new Date().toISOString() });
+        return null;
+      }
+      throw waitError ?? new Error(`Distribution ${transactionHash} is still pending`);
+    }
+    if (receipt.status !== 1) {
+      this.append({ step: 'reverted', transactionHash, at: new Date().toISOString() });
+      throw new Error(`Distribution ${transactionHash} reverted`);
+    }
+
+    const event = receipt.logs
+      .map((log) => DISTRIBUTION_EVENTS.parseLog(log))
+      .find((parsed) => parsed?.name === 'CbBTCRewardsDistributed');
+    if (!event) {
+      throw new Error(`Distribution ${transactionHash} emitted no CbBTCRewardsDistributed event`);
+    }
+
+    const record: DistributionRecord = {
+      transactionHash,
+      blockNumber: receipt.blockNumber,
+      totalAmount: Number(formatUnits(event.args.totalAmount, CBBTC_DECIMALS)),
+      distributedAt: new Date(Number(event.args.timestamp) * 1000).toISOString(),
+      gasUsed: Number(receipt.gasUsed)
+    };
+    this.append({ step: 'distributed', transactionHash, at: new Date().toISOString(), record });
+
+    console.log(`Distributed ${record.totalAmount} cbBTC in ${transactionHash}`);
+    return record;
+  }
+
+  /**
+   * A submitted transaction with no recorded outcome
+   */
+  private unconfirmed(): DistributionEntry | null {
+    const last = this.entries[this.entries.length - 1];
+    return last?.step === 'submitted' ? last : null;
+  }
+
+  // Unknown to the node and no distribution since it was sent; entries from before
+  // lastDistributionTime was journaled are never assumed dropped
+  private async dropped(submitted: DistributionEntry): Promise<boolean> {
+    if (submitted.lastDistributionTime === undefined) return false;
+    if (await this.deps.getTransaction(submitted.transactionHash)) return false;
+    return (await this.deps.miningPool.lastDistributionTime()).toString() === submitted.lastDistributionTime;
+  }
+
+  private append(entry: DistributionEntry) {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.appendFileSync(this.filePath, JSON.stringify(entry) + '\n');
+    this.entries.push(entry);
+  }
+}
@@ -0,0 +1,85 @@
+import { HttpExchangeAdapter } from './httpExchangeAdapter';
+import { ExchangeAdapterConfig, ExchangeOrder, ExchangeOrderStatus, ExchangeQuote, ExchangeSide } from './types';
+
+export const COINBASE_API_URL = 'https://api.coinbase.com/v2';
+
+const ORDER_STATUS: { [status: string]: ExchangeOrderStatus } = {
+  created: 'pending',
+  pending: 'pending',
+  completed: 'filled',
+  canceled: 'failed',
+  failed: 'failed'
+};
+
+/**
+ * Coinbase v2 sells (BTC → USD) and buys (USD → cbBTC). A quote is an uncommitted
+ * order; prices come from `subtotal` and Coinbase's fee is reported separately.
+ */
+export class CoinbaseExchangeAdapter extends HttpExchangeAdapter {
+  readonly type = 'coinbase';
+
+  constructor(config: ExchangeAdapterConfig) {
+    super(config, { 'Authorization': `Bearer ${config.apiKey}` });
+  }
+
+  async quote(side: ExchangeSide, amount: number): Promise<ExchangeQuote> {
+    const response = await this.http.post(this.ordersPath(side), { ...this.orderBody(side, amount), commit: false, quote: true });
+    const order = this.toOrder(side, response.data.data);
+
+    return {
+      side,
+      inputAmount: amount,
+      outputAmount: order.outputAmount!,
+      price: order.price!,
+      quoteId: order.orderId,
+      expiresAt: response.data.data.expires_at ? new Date(response.data.data.expires_at) : undefined
+    };
+  }
+
+  async execute(quote: ExchangeQuote, idempotencyKey: string): Promise<ExchangeOrder> {
+    const response = await this.http.post(this.ordersPath(quote.side), {
+      ...this.orderBody(quote.side, quote.inputAmount),
+      commit: true,
+      idem: idempotencyKey // Coinbase returns the original order on retry
+    });
+    return this.toOrder(quote.side, response.data.data);
+  }
+
+  async getOrder(side: ExchangeSide, orderId: string): Promise<ExchangeOrder> {
+    const response = await this.http.get(`${this.ordersPath(side)}/${encodeURIComponent(orderId)}`);
+    return this.toOrder(side, response.data.data);
+  }
+
+  private ordersPath(side: ExchangeSide): string {
+    return side === 'sell'
+      ? `/accounts/${this.config.btcAccountId}/sells`
+      : `/accounts/${this.config.usdAccountId}/buys`;
+  }
+
+  private orderBody(side: ExchangeSide, amount: number) {
+    return side === 'sell'
+      ? { amount: amount.toString(), currency: 'BTC', payment_method: this.config.paymentMethodId }
+      : { total: amount.toString(), currency: 'USD', cryptocurrency: 'cbBTC', payment_method: this.config.paymentMethodId };
+  }
+
+  private toOrder(side: ExchangeSide, data: any): ExchangeOrder {
+    const crypto = this.toNumber(data.amount?.amount);
+    const usd = this.toNumber(data.total?.amount);
+    const subtotal = this.toNumber(data.subtotal?.amount);
+    const status = ORDER_STATUS[data.status];
+
+    if (!status) {
+      throw new Error(`coinbase: unknown order status "${data.status}"`);
+    }
+
+    return {
+      orderId: data.id,
+      side,
+      status,
+      inputAmount: side === 'sell' ? crypto : usd,
+      outputAmount: side === 'sell' ? usd : crypto,
+      price: crypto > 0 ? subtotal / crypto : undefined,
+      feeUSD: this.toNumber(data.fee?.amount)
+    };
+  }
+}
@@ -0,0 +1,26 @@
+import { CoinbaseExchangeAdapter, COINBASE_API_URL } from './coinbaseAdapter';
+import { MockExchangeAdapter, MOCK_EXCHANGE_API_URL } from './mockExchangeAdapter';
+import { ExchangeAdapter } from './types';
+
+/**
+ * Create the adapter named by EXCHANGE (coinbase or mock, default coinbase)
+ */
+export function createExchangeAdapter(env: NodeJS.ProcessEnv = process.env): ExchangeAdapter {
+  const type = (env.EXCHANGE || 'coinbase').trim().toLowerCase();
+
+  switch (type) {
+    case 'coinbase':
+      return new CoinbaseExchangeAdapter({
+        type,
+        apiUrl: env.COINBASE_API_URL || COINBASE_API_URL,
+        apiKey: env.COINBASE_API_KEY,
+        btcAccountId: env.COINBASE_BTC_ACCOUNT_ID,
+        usdAccountId: env.COINBASE_USD_ACCOUNT_ID,
+        paymentMethodId: env.COINBASE_PAYMENT_METHOD_ID
+      });
+    case 'mock':
+      return new MockExchangeAdapter({ type, apiUrl: env.MOCK_EXCHANGE_API_URL || MOCK_EXCHANGE_API_URL });
+    default:
+      throw new Error(`createExchangeAdapter: unknown exchange "${type}" (expected coinbase or mock)`);
+  }
+}
@@ -0,0 +1,35 @@
+import axios, { AxiosInstance } from 'axios';
+import { ExchangeAdapter, ExchangeAdapterConfig, ExchangeOrder, ExchangeQuote, ExchangeSide } from './types';
+
+/**
+ * Shared plumbing for adapters that talk to an exchange's REST API
+ */
+export abstract class HttpExchangeAdapter implements ExchangeAdapter {
+  abstract readonly type: string;
+  protected readonly config: ExchangeAdapterConfig;
+  protected readonly http: AxiosInstance;
+
+  constructor(config: ExchangeAdapterConfig, headers: { [name: string]: string } = {}) {
+    this.config = config;
+    this.http = axios.create({
+      baseURL: config.apiUrl,
+      timeout: 15000,
+      headers: {
+        'Content-Type': 'application/json',
+        ...headers
+      }
+    });
+  }
+
+  abstract quote(side: ExchangeSide, amount: number): Promise<ExchangeQuote>;
+  abstract execute(quote: ExchangeQuote, idempotencyKey: string): Promise<ExchangeOrder>;
+  abstract getOrder(side: ExchangeSide, orderId: string): Promise<ExchangeOrder>;
+
+  protected toNumber(value: number | string | undefined | null): number {
+    if (value === undefined || value === null || value === '') {
+      return 0;
+    }
+    const parsed = typeof value === 'number' ? value : parseFloat(value);
+    return Number.isFinite(parsed) ? parsed : 0;
+  }
+}
@@ -0,0 +1,8 @@
+export * from './types';
+export { HttpExchangeAdapter } from './httpExchangeAdapter';
+export { CoinbaseExchangeAdapter, COINBASE_API_URL } from './coinbaseAdapter';
+export { MockExchangeAdapter, MOCK_EXCHANGE_API_URL } from './mockExchangeAdapter';
+export { MockExchangeServer } from './mockExchangeServer';
+export type { MockExchangeOptions, MockExchangeOrder } from './mockExchangeServer';
+export { SlippageExceededError, adverseSlippageBps, assertWithinSlippage } from './slippage';
+export { createExchangeAdapter } from './factory';
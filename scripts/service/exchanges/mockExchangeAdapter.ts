@@ -0,0 +1,51 @@
+import { HttpExchangeAdapter } from './httpExchangeAdapter';
+import { ExchangeAdapterConfig, ExchangeOrder, ExchangeQuote, ExchangeSide } from './types';
+
+export const MOCK_EXCHANGE_API_URL = 'http://127.0.0.1:8788';
+
+/**
+ * Adapter for the local mock exchange HTTP stub (see mockExchangeServer.ts)
+ */
+export class MockExchangeAdapter extends HttpExchangeAdapter {
+  readonly type = 'mock';
+
+  constructor(config: ExchangeAdapterConfig) {
+    super(config);
+  }
+
+  async quote(side: ExchangeSide, amount: number): Promise<ExchangeQuote> {
+    const response = await this.http.post('/quotes', { side, amount });
+    const data = response.data;
+
+    return {
+      side,
+      inputAmount: amount,
+      outputAmount: this.toNumber(data.output_amount),
+      price: this.toNumber(data.price),
+      quoteId: data.quote_id,
+      expiresAt: new Date(data.expires_at)
+    };
+  }
+
+  async execute(quote: ExchangeQuote, idempotencyKey: string): Promise<ExchangeOrder> {
+    const response = await this.http.post('/orders', { side: quote.side, amount: quote.inputAmount, idem: idempotencyKey });
+    return this.toOrder(response.data);
+  }
+
+  async getOrder(side: ExchangeSide, orderId: string): Promise<ExchangeOrder> {
+    const response = await this.http.get(`/orders/${encodeURIComponent(orderId)}`);
+    return this.toOrder(response.data);
+  }
+
+  private toOrder(data: any): ExchangeOrder {
+    return {
+      orderId: data.id,
+      side: data.side,
+      status: data.status,
+      inputAmount: this.toNumber(data.input_amount),
+      outputAmount: this.toNumber(data.output_amount),
+      price: this.toNumber(data.price),
+      feeUSD: this.toNumber(data.fee_usd)
+    };
+  }
+}
@@ -0,0 +1,187 @@
+import http from 'http';
+import { randomBytes } from 'crypto';
+import { AddressInfo } from 'net';
+import { ExchangeSide } from './types';
+
+export interface MockExchangeOrder {
+  id: string;
+  side: ExchangeSide;
+  status: 'pending' | 'filled';
+  input_amount: number;
+  output_amount: number;
+  price: number;
+  fee_usd: number;
+}
+
+export interface MockExchangeOptions {
+  btcUsdPrice: number;
+  // How much worse than btcUsdPrice every fill is, in basis points
+  spreadBps?: number;
+  // Fee charged on the USD side of every trade, in basis points
+  feeBps?: number;
+  // Status polls an order stays pending for before it fills
+  pendingPolls?: number;
+  // Called once per new order, e.g. to drain the mock pool or mint cbBTC to the service wallet
+  onSell?: (btcAmount: number) => Promise<void>;
+  onBuy?: (cbbtcAmount: number) => Promise<void>;
+}
+
+/**
+ * Local HTTP stub of an exchange for tests and the sandbox:
+ *   POST /quotes {side, amount}        → price without placing an order
+ *   POST /orders {side, amount, idem}  → place an order (repeating an idem returns the original)
+ *   GET  /orders/:id                   → order status
+ */
+export class MockExchangeServer {
+  readonly orders: MockExchangeOrder[] = [];
+  private server: http.Server | null = null;
+  private byIdem = new Map<string, MockExchangeOrder>();
+  private polls = new Map<string, number>();
+
+  constructor(private options: MockExchangeOptions) {}
+
+  setPrice(btcUsdPrice: number, spreadBps: number = this.options.spreadBps || 0) {
+    this.options.btcUsdPrice = btcUsdPrice;
+    this.options.spreadBps = spreadBps;
+  }
+
+  async start(port: number = 0, host: string = '127.0.0.1'): Promise<string> {
+    this.server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => { body += chunk; });
+      req.on('end', () => {
+        this.handle(req, body)
+          .then(([status, payload]) => this.send(res, status, payload))
+          .catch((error) => this.send(res, 500, { error: (error as Error).message }));
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(port, host, () => resolve());
+    });
+
+    const address = this.server.address() as AddressInfo;
+    return `http://${host}:${address.port}`;
+  }
+
+  async stop() {
+    if (!this.server) return;
+    await new Promise<void>((resolve) => this.server!.close(() => resolve()));
+    this.server = null;
+  }
+
+  private async handle(req: http.IncomingMessage, body: string): Promise<[number, unknown]> {
+    const orderMatch = req.method === 'GET' && req.url?.match(/^\/orders\/([^/]+)$/);
+    if (orderMatch) {
+      const order = this.orders.find((candidate) => candidate.id === decodeURIComponent(orderMatch[1]));
+      return order ? [200, this.poll(order)] : [404, { error: 'order not found' }];
+    }
+
+    if (req.method !== 'POST' || (req.url !== '/quotes' && req.url !== '/orders')) {
+      return [404, { error: 'not found' }];
+    }
+
+    let request: any;
+    try {
+      request = JSON.parse(body);
+    } catch {
+      return [400, { error: 'invalid JSON' }];
+    }
+
+    const amount = parseFloat(request.amount);
+    if ((request.side !== 'sell' && request.side !== 'buy') || !(amount > 0)) {
+      return [400, { error: 'expected side sell|buy and a positive amount' }];
+    }
+
+    if (req.url === '/quotes') {
+      const { price, output, fee } = this.fill(request.side, amount);
+      return [200, {
+        quote_id: `quote-${randomBytes(4).toString('hex')}`,
+        side: request.side,
+        input_amount: amount,
+        output_amount: output,
+        price,
+        fee_usd: fee,
+        expires_at: new Date(Date.now() + 60000).toISOString()
+      }];
+    }
+
+    if (!request.idem) {
+      return [400, { error: 'orders need an idem key' }];
+    }
+
+    let order = this.byIdem.get(request.idem);
+    if (!order) {
+      const { price, output, fee } = this.fill(request.side, amount);
+
+      if (request.side === 'sell' && this.options.onSell) {
+        await this.options.onSell(amount);
+      }
+      if (request.side === 'buy' && this.options.onBuy) {
+        await this.options.onBuy(output);
+      }
+
+      order = {
+        id: `order-${this.orders.length + 1}`,
+        side: request.side,
+        status: this.options.pendingPolls ? 'pending' : 'filled',
+        input_amount: amount,
+        output_amount: output,
+        price,
+        fee_usd: fee
+      };
+      this.byIdem.set(request.idem, order);
+      this.orders.push(order);
+    }
+
+    return [200, order];
+  }
+
+  /**
+   * Price, fee and net output for a trade, with the spread applied against the trader
+   */
+  private fill(side: ExchangeSide, amount: number) {
+    const spread = (this.options.spreadBps || 0) / 10000;
+    const feeRate = (this.options.feeBps || 0) / 10000;
+    const price = side === 'sell'
+      ? this.options.btcUsdPrice * (1 - spread)
+      : this.options.btcUsdPrice * (1 + spread);
+
+    if (side === 'sell') {
+      const gross = amount * price;
+      const fee = Math.round(gross * feeRate * 100) / 100;
+      return { price, fee, output: Math.floor((gross - fee) * 100) / 100 };
+    }
+
+    const fee = Math.round(amount * feeRate * 100) / 100;
+    return { price, fee, output: Math.floor(((amount - fee) / price) * 1e8) / 1e8 };
+  }
+
+  private poll(order: MockExchangeOrder): MockExchangeOrder {
+    const polls = (this.polls.get(order.id) || 0) + 1;
+    this.polls.set(order.id, polls);
+    if (polls >= (this.options.pendingPolls || 0)) {
+      order.status = 'filled';
+    }
+    return order;
+  }
+
+  private send(res: http.ServerResponse, status: number, payload: unknown) {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(payload));
+  }
+}
+
+// CLI runner: serve the mock exchange for local development
+if (require.main === module) {
+  const server = new MockExchangeServer({
+    btcUsdPrice: parseFloat(process.env.MOCK_EXCHANGE_BTC_USD_PRICE || '45000'),
+    spreadBps: parseFloat(process.env.MOCK_EXCHANGE_SPREAD_BPS || '0')
+  });
+  const port = parseInt(process.env.MOCK_EXCHANGE_PORT || '8788');
+
+  server.start(port).then((url) => {
+    console.log(`Mock exchange API listening on ${url}`);
+  }).catch(console.error);
+}
@@ -0,0 +1,37 @@
+import { ExchangeQuote } from './types';
+
+export class SlippageExceededError extends Error {
+  constructor(readonly quote: ExchangeQuote, readonly referencePrice: number, readonly slippageBps: number, readonly maxSlippageBps: number) {
+    super(
+      `${quote.side} quote at ${quote.price} USD/BTC is ${slippageBps.toFixed(1)} bps worse than the oracle price ` +
+      `${referencePrice} (limit ${maxSlippageBps} bps)`
+    );
+    this.name = 'SlippageExceededError';
+  }
+}
+
+/**
+ * How much worse than `referencePrice` a quote is, in basis points.
+ * Selling below or buying above the reference counts; better prices return 0.
+ */
+export function adverseSlippageBps(quote: ExchangeQuote, referencePrice: number): number {
+  if (!(referencePrice > 0)) {
+    throw new Error(`Invalid reference price ${referencePrice}`);
+  }
+
+  const deviation = quote.side === 'sell'
+    ? (referencePrice - quote.price) / referencePrice
+    : (quote.price - referencePrice) / referencePrice;
+
+  return Math.max(0, deviation * 10000);
+}
+
+/**
+ * Throw SlippageExceededError when the quote is more than `maxSlippageBps` worse than the reference
+ */
+export function assertWithinSlippage(quote: ExchangeQuote, referencePrice: number, maxSlippageBps: number) {
+  const slippageBps = adverseSlippageBps(quote, referencePrice);
+  if (slippageBps > maxSlippageBps) {
+    throw new SlippageExceededError(quote, referencePrice, slippageBps, maxSlippageBps);
+  }
+}
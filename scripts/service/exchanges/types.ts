@@ -0,0 +1,64 @@
+/**
+ * `sell`: BTC in, USD out. `buy`: USD in, cbBTC out.
+ */
+export type ExchangeSide = 'sell' | 'buy';
+
+/**
+ * Price the exchange offers for a trade before it is placed.
+ * `price` is always USD per BTC (cbBTC is priced 1:1 with BTC).
+ */
+export interface ExchangeQuote {
+  side: ExchangeSide;
+  inputAmount: number;
+  outputAmount: number;
+  price: number;
+  quoteId?: string;
+  expiresAt?: Date;
+}
+
+export type ExchangeOrderStatus = 'pending' | 'filled' | 'failed';
+
+/**
+ * A placed order. Output, price and fee are only final once `status` is `filled`.
+ * `outputAmount` is net of the fee; `price` is before it.
+ */
+export interface ExchangeOrder {
+  orderId: string;
+  side: ExchangeSide;
+  status: ExchangeOrderStatus;
+  inputAmount: number;
+  outputAmount?: number;
+  price?: number;
+  feeUSD?: number;
+}
+
+/**
+ * Exchange settings resolved from the service configuration
+ */
+export interface ExchangeAdapterConfig {
+  type: string;
+  apiUrl: string;
+  apiKey?: string;
+  btcAccountId?: string;
+  usdAccountId?: string;
+  paymentMethodId?: string;
+}
+
+export interface ExchangeAdapter {
+  readonly type: string;
+
+  /**
+   * Ask for the current price of a trade without placing it
+   */
+  quote(side: ExchangeSide, amount: number): Promise<ExchangeQuote>;
+
+  /**
+   * Place the quoted trade. Retrying with the same idempotency key returns the original order.
+   */
+  execute(quote: ExchangeQuote, idempotencyKey: string): Promise<ExchangeOrder>;
+
+  /**
+   * Current state of a placed order
+   */
+  getOrder(side: ExchangeSide, orderId: string): Promise<ExchangeOrder>;
+}
@@ -0,0 +1,82 @@
+export type ControlCommand = 'pause' | 'resume' | 'run-once' | 'stop';
+export type LoopState = 'running' | 'paused' | 'stopping';
+// Why a wait ended: the delay ran out, an operator asked for a run now, or the loop is stopping
+export type LoopWake = 'due' | 'run-once' | 'stop';
+
+export const CONTROL_COMMANDS: ControlCommand[] = ['pause', 'resume', 'run-once', 'stop'];
+
+// Re-check the state at least this often (also keeps long delays within setTimeout's range)
+const RECHECK_MS = 60000;
+
+/**
+ * Run state of the automation loop, changed by control commands and signals.
+ * Commands take effect between task runs: a task already running finishes its
+ * current conversion step (each step is journaled) before the loop reacts.
+ */
+export class LoopControl {
+  private paused = false;
+  private stopRequested = false;
+  private runOnceRequested = false;
+  private wake: (() => void) | null = null;
+
+  get state(): LoopState {
+    if (this.stopRequested) return 'stopping';
+    return this.paused ? 'paused' : 'running';
+  }
+
+  get stopping(): boolean {
+    return this.stopRequested;
+  }
+
+  apply(command: ControlCommand): LoopState {
+    switch (command) {
+      case 'pause':
+        this.paused = true;
+        break;
+      case 'resume':
+        this.paused = false;
+        break;
+      case 'run-once':
+        // Runs one cycle now, even while paused
+        this.runOnceRequested = true;
+        break;
+      case 'stop':
+        this.stopRequested = true;
+        break;
+      default:
+        throw new Error(`Unknown control command: ${command}`);
+    }
+
+    this.wake?.();
+    return this.state;
+  }
+
+  /**
+   * Wait `delayMs`, or longer while paused, unless a run-once or stop comes first
+   */
+  async wait(delayMs: number): Promise<LoopWake> {
+    const deadline = Date.now() + delayMs;
+
+    while (!this.stopRequested) {
+      if (this.runOnceRequested) {
+        this.runOnceRequested = false;
+        return 'run-once';
+      }
+      if (!this.paused && Date.now() >= deadline) {
+        return 'due';
+      }
+
+      const waitMs = this.paused ? RECHECK_MS : Math.min(deadline - Date.now(), RECHECK_MS);
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, waitMs);
+        this.wake = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+      });
+      this.wake = null;
+    }
+
+    return 'stop';
+  }
+}
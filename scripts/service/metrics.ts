@@ -0,0 +1,126 @@
+export type MetricType = 'counter' | 'gauge';
+export type MetricLabels = Record<string, string>;
+
+interface Metric {
+  type: MetricType;
+  help: string;
+  // Serialized label set → value
+  values: Map<string, number>;
+}
+
+const escapeLabel = (value: string) => value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+
+const labelKey = (labels: MetricLabels) =>
+  Object.keys(labels)
+    .sort()
+    .map((name) => `${name}="${escapeLabel(labels[name])}"`)
+    .join(',');
+
+/**
+ * Minimal in-process counters and gauges, rendered in the Prometheus text exposition format
+ */
+export class MetricsRegistry {
+  private metrics = new Map<string, Metric>();
+
+  counter(name: string, help: string): this {
+    return this.define(name, 'counter', help);
+  }
+
+  gauge(name: string, help: string): this {
+    return this.define(name, 'gauge', help);
+  }
+
+  inc(name: string, value: number = 1, labels: MetricLabels = {}) {
+    const metric = this.require(name);
+    if (metric.type === 'counter' && value < 0) {
+      throw new Error(`MetricsRegistry: counter ${name} cannot decrease`);
+    }
+    const key = labelKey(labels);
+    metric.values.set(key, (metric.values.get(key) || 0) + value);
+  }
+
+  set(name: string, value: number, labels: MetricLabels = {}) {
+    const metric = this.require(name);
+    if (metric.type !== 'gauge') {
+      throw new Error(`MetricsRegistry: ${name} is a counter, use inc`);
+    }
+    metric.values.set(labelKey(labels), value);
+  }
+
+  /**
+   * Drop every labelled value of a gauge, e.g. before re-setting per-pool balances
+   */
+  reset(name: string) {
+    this.require(name).values.clear();
+  }
+
+  get(name: string, labels: MetricLabels = {}): number | undefined {
+    return this.require(name).values.get(labelKey(labels));
+  }
+
+  render(): string {
+    const lines: string[] = [];
+
+    for (const [name, metric] of this.metrics) {
+      lines.push(`# HELP ${name} ${metric.help}`);
+      lines.push(`# TYPE ${name} ${metric.type}`);
+      // Unlabelled counters start at 0 so rate() works from the first scrape
+      if (metric.values.size === 0 && metric.type === 'counter') {
+        lines.push(`${name} 0`);
+      }
+      for (const [key, value] of metric.values) {
+        lines.push(`${name}${key ? `{${key}}` : ''} ${value}`);
+      }
+    }
+
+    return lines.join('\n') + '\n';
+  }
+
+  private define(name: string, type: MetricType, help: string): this {
+    if (!/^[a-zA-Z_:][a-zA-Z0-9_:]*$/.test(name)) {
+      throw new Error(`MetricsRegistry: invalid metric name "${name}"`);
+    }
+    if (!this.metrics.has(name)) {
+      this.metrics.set(name, { type, help, values: new Map() });
+    }
+    return this;
+  }
+
+  private require(name: string): Metric {
+    const metric = this.metrics.get(name);
+    if (!metric) {
+      throw new Error(`MetricsRegistry: unknown metric ${name}`);
+    }
+    return metric;
+  }
+}
+
+/**
+ * Metrics exported by the BTC → cbBTC automation service
+ */
+export function createServiceMetrics(): MetricsRegistry {
+  return new MetricsRegistry()
+    .counter('minerfi_service_task_runs_total', 'Scheduled task runs, by task and outcome')
+    .gauge('minerfi_service_task_last_success_timestamp_seconds', 'Unix time each task last succeeded')
+    .gauge('minerfi_service_task_circuit_open', '1 while a task is blocked by its circuit breaker')
+    .counter('minerfi_conversions_total', 'BTC to cbBTC conversions completed, by strategy')
+    .counter('minerfi_conversion_failures_total', 'Failed conversion attempts, by step')
+    .counter('minerfi_conversions_abandoned_total', 'Conversions marked failed after running out of attempts')
+    .counter('minerfi_btc_converted_total', 'BTC converted by completed conversions')
+    .counter('minerfi_cbbtc_funded_total', 'cbBTC sent to the MiningPool reward pool')
+    .counter('minerfi_conversion_cost_usd_total', 'USD cost of completed conversions (spreads, fees and gas)')
+    .counter('minerfi_distributions_total', 'Daily cbBTC distributions sent by the distribution keeper')
+    .counter('minerfi_cbbtc_distributed_total', 'cbBTC distributed to stakers by the distribution keeper')
+    .gauge('minerfi_conversions_pending', 'Conversions started but not yet completed or failed')
+    .gauge('minerfi_pool_btc_balance', 'BTC balance reported by each mining pool in the last cycle')
+    .gauge('minerfi_pool_hashrate_ths', 'Latest hashrate per pool, by source (pool API or ASIC telemetry)')
+    .gauge('minerfi_pool_efficiency_percent', 'Measured hashrate as a share of the rated hashrate')
+    .gauge('minerfi_pool_uptime_percent', 'Share of units hashing over the last 24h')
+    .gauge('minerfi_asic_online', '1 while an ASIC answers and hashes on a live pool')
+    .gauge('minerfi_asic_hashrate_ths', 'Hashrate each ASIC reports (5s average)')
+    .gauge('minerfi_asic_chip_temperature_celsius', 'Hottest chip temperature per ASIC')
+    .gauge('minerfi_asic_fan_rpm', 'Fan speed per ASIC and fan')
+    .gauge('minerfi_asic_power_watts', 'Power draw per ASIC, where the firmware reports it')
+    .gauge('minerfi_asic_rejected_shares', 'Rejected shares since the ASIC last restarted')
+    .gauge('minerfi_reserve_discrepancy_btc', 'Pool API balance minus the confirmed balance of the pool BTC address');
+}
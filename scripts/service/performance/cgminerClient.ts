@@ -0,0 +1,55 @@
+import net from 'net';
+
+export const CGMINER_API_PORT = 4028;
+
+export class CgminerApiError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CgminerApiError';
+  }
+}
+
+/**
+ * Minimal client for the CGMiner JSON API (TCP 4028) served by bmminer on Antminer
+ * firmware: one connection per command, the reply is JSON followed by a NUL byte
+ */
+export class CgminerClient {
+  constructor(
+    readonly host: string,
+    readonly port: number = CGMINER_API_PORT,
+    private timeoutMs: number = 5000
+  ) {}
+
+  async command(command: string): Promise<any> {
+    const raw = await this.send(JSON.stringify({ command }));
+
+    let reply: any;
+    try {
+      // bmminer leaves out the comma between the objects of the STATS array
+      reply = JSON.parse(raw.replace(/\0+$/, '').replace(/}\s*{/g, '},{'));
+    } catch {
+      throw new CgminerApiError(`${this.host}:${this.port} ${command}: reply is not JSON`);
+    }
+
+    const status = reply.STATUS?.[0];
+    if (status?.STATUS === 'E' || status?.STATUS === 'F') {
+      throw new CgminerApiError(`${this.host}:${this.port} ${command}: ${status.Msg}`);
+    }
+    return reply;
+  }
+
+  private send(request: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      const socket = net.connect({ host: this.host, port: this.port });
+
+      socket.setTimeout(this.timeoutMs, () => {
+        socket.destroy(new CgminerApiError(`${this.host}:${this.port}: no reply within ${this.timeoutMs}ms`));
+      });
+      socket.on('connect', () => socket.end(request));
+      socket.on('data', (chunk) => chunks.push(chunk));
+      socket.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+      socket.on('error', reject);
+    });
+  }
+}
@@ -0,0 +1,110 @@
+import { CGMINER_API_PORT, CgminerClient } from './cgminerClient';
+import { AsicTelemetrySource, AsicUnitSample } from './types';
+
+export interface CgminerUnitConfig {
+  unitId: string;
+  poolId: string;
+  host: string;
+  port: number;
+}
+
+/**
+ * Parse ASIC_UNITS: comma-separated `poolId:unitId@host[:port]`
+ */
+export function parseCgminerUnits(spec: string): CgminerUnitConfig[] {
+  return spec
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0)
+    .map((entry) => {
+      const match = entry.match(/^([^:@]+):([^:@]+)@([^:@]+)(?::(\d+))?$/);
+      if (!match) {
+        throw new Error(`ASIC_UNITS: expected poolId:unitId@host[:port], got "${entry}"`);
+      }
+      return { poolId: match[1], unitId: match[2], host: match[3], port: match[4] ? parseInt(match[4]) : CGMINER_API_PORT };
+    });
+}
+
+const toNumber = (value: unknown): number | undefined => {
+  const parsed = typeof value === 'number' ? value : parseFloat(String(value));
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+/**
+ * Hashrate in TH/s from bmminer's `GHS` fields or cgminer's `MHS` fields
+ */
+function hashrateTHs(entry: any, window: '5s' | 'av'): number | undefined {
+  const ghs = toNumber(entry[`GHS ${window}`]);
+  if (ghs !== undefined) return ghs / 1e3;
+  const mhs = toNumber(entry[`MHS ${window}`]);
+  return mhs !== undefined ? mhs / 1e6 : undefined;
+}
+
+/**
+ * Normalize the `summary`, `stats` and `pools` replies of one miner
+ */
+export function normalizeCgminerReplies(unit: CgminerUnitConfig, summary: any, stats: any, pools: any): AsicUnitSample {
+  const totals = summary.SUMMARY?.[0] ?? {};
+  // STATS holds a version entry and one entry per device; fields do not overlap
+  const device = Object.assign({}, ...(stats.STATS ?? []));
+  const activePool = (pools.POOLS ?? []).find((pool: any) => pool['Stratum Active'] === true)
+    ?? (pools.POOLS ?? []).find((pool: any) => pool.Status === 'Alive');
+
+  const fanCount = toNumber(device.fan_num);
+  const fanRpm = Object.keys(device)
+    .filter((key) => /^fan\d+$/.test(key))
+    .sort((a, b) => parseInt(a.slice(3)) - parseInt(b.slice(3)))
+    .map((key) => toNumber(device[key]) ?? 0)
+    .filter((rpm, index) => (fanCount !== undefined ? index < fanCount : rpm > 0));
+
+  // temp_chipN is "in-in-out-out" per board on bmminer; temp2_N is the chip reading on older firmware
+  const chipTemps = Object.keys(device)
+    .filter((key) => /^temp_chip\d+$/.test(key) || /^temp2_\d+$/.test(key))
+    .flatMap((key) => String(device[key]).split('-').map(toNumber))
+    .filter((temp): temp is number => temp !== undefined && temp > 0);
+
+  const hashrate = hashrateTHs(totals, '5s') ?? 0;
+  return {
+    unitId: unit.unitId,
+    poolId: unit.poolId,
+    // Hashing is not enough: shares only count while a pool is taking them
+    online: hashrate > 0 && activePool !== undefined,
+    hashrateTHs: hashrate,
+    model: stats.STATS?.find((entry: any) => entry.Type)?.Type,
+    averageHashrateTHs: hashrateTHs(totals, 'av'),
+    chipTempC: chipTemps.length > 0 ? Math.max(...chipTemps) : undefined,
+    fanRpm,
+    // Only some firmware reports power draw
+    powerW: toNumber(device.Power ?? device.chain_power),
+    acceptedShares: toNumber(totals.Accepted),
+    rejectedShares: toNumber(totals.Rejected),
+    hardwareErrors: toNumber(totals['Hardware Errors']),
+    stratumUrl: activePool?.URL
+  };
+}
+
+/**
+ * Polls each Antminer over the CGMiner API; a unit that cannot be read counts as offline
+ */
+export class CgminerTelemetrySource implements AsicTelemetrySource {
+  readonly type = 'cgminer';
+
+  constructor(private units: CgminerUnitConfig[], private timeoutMs: number = 5000) {}
+
+  async sampleUnits(): Promise<AsicUnitSample[]> {
+    return Promise.all(this.units.map((unit) => this.sampleUnit(unit)));
+  }
+
+  private async sampleUnit(unit: CgminerUnitConfig): Promise<AsicUnitSample> {
+    const client = new CgminerClient(unit.host, unit.port, this.timeoutMs);
+    try {
+      // One command at a time: the miners' controllers handle concurrent API connections poorly
+      const summary = await client.command('summary');
+      const stats = await client.command('stats');
+      const pools = await client.command('pools');
+      return normalizeCgminerReplies(unit, summary, stats, pools);
+    } catch (error) {
+      return { unitId: unit.unitId, poolId: unit.poolId, online: false, hashrateTHs: 0, error: (error as Error).message };
+    }
+  }
+}
@@ -0,0 +1,21 @@
+import { CgminerTelemetrySource, parseCgminerUnits } from './cgminerTelemetrySource';
+import { StubAsicTelemetrySource, parseStubUnits } from './stubTelemetrySource';
+import { AsicTelemetrySource } from './types';
+
+/**
+ * Create the telemetry source named by ASIC_TELEMETRY (cgminer or stub), or null to rely on the pool APIs alone
+ */
+export function createAsicTelemetrySource(env: NodeJS.ProcessEnv = process.env): AsicTelemetrySource | null {
+  const type = (env.ASIC_TELEMETRY || 'none').trim().toLowerCase();
+
+  switch (type) {
+    case 'none':
+      return null;
+    case 'cgminer':
+      return new CgminerTelemetrySource(parseCgminerUnits(env.ASIC_UNITS || ''), parseInt(env.ASIC_API_TIMEOUT_MS || '5000'));
+    case 'stub':
+      return new StubAsicTelemetrySource(parseStubUnits(env.ASIC_STUB_UNITS || ''));
+    default:
+      throw new Error(`createAsicTelemetrySource: unknown ASIC telemetry "${type}" (expected none, cgminer or stub)`);
+  }
+}
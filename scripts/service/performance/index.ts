@@ -0,0 +1,10 @@
+export * from './types';
+export { PerformanceTracker, RATED_THS_PER_UNIT } from './tracker';
+export type { PerformanceTrackerOptions } from './tracker';
+export { StubAsicTelemetrySource, parseStubUnits } from './stubTelemetrySource';
+export { CgminerClient, CgminerApiError, CGMINER_API_PORT } from './cgminerClient';
+export { CgminerTelemetrySource, normalizeCgminerReplies, parseCgminerUnits } from './cgminerTelemetrySource';
+export type { CgminerUnitConfig } from './cgminerTelemetrySource';
+export { SimulatedMinerServer, defaultSimulatedMinerState } from './simulatedMinerServer';
+export type { SimulatedMinerState } from './simulatedMinerServer';
+export { createAsicTelemetrySource } from './factory';
@@ -0,0 +1,130 @@
+import net from 'net';
+import { AddressInfo } from 'net';
+
+export interface SimulatedMinerState {
+  model: string;
+  // Hashrate as bmminer reports it, in GH/s
+  ghs5s: number;
+  ghsAverage: number;
+  elapsedSeconds: number;
+  accepted: number;
+  rejected: number;
+  hardwareErrors: number;
+  // Chip temperatures per hash board (in-in-out-out, as in temp_chipN)
+  chipTemps: number[][];
+  fanRpm: number[];
+  powerW: number;
+  poolUrl: string;
+  poolUser: string;
+  poolAlive: boolean;
+}
+
+/**
+ * Default state: an Antminer S21+ at its rated 216 TH/s and 3,510 W
+ */
+export function defaultSimulatedMinerState(): SimulatedMinerState {
+  return {
+    model: 'Antminer S21+',
+    ghs5s: 216000,
+    ghsAverage: 215400,
+    elapsedSeconds: 86400,
+    accepted: 120000,
+    rejected: 60,
+    hardwareErrors: 12,
+    chipTemps: [[58, 58, 72, 73], [57, 58, 71, 72], [58, 59, 73, 74]],
+    fanRpm: [5400, 5460, 5400, 5340],
+    powerW: 3510,
+    poolUrl: 'stratum+tcp://stratum.example.com:3333',
+    poolUser: 'minerfi.s21plus-01',
+    poolAlive: true
+  };
+}
+
+/**
+ * Local stand-in for an Antminer's CGMiner API (TCP 4028) answering summary, stats and
+ * pools the way bmminer does, including the missing comma inside the STATS array
+ */
+export class SimulatedMinerServer {
+  state: SimulatedMinerState;
+  private server: net.Server | null = null;
+
+  constructor(state: Partial<SimulatedMinerState> = {}) {
+    this.state = { ...defaultSimulatedMinerState(), ...state };
+  }
+
+  async start(port: number = 0, host: string = '127.0.0.1'): Promise<{ host: string; port: number }> {
+    this.server = net.createServer((socket) => {
+      let request = '';
+      socket.on('data', (chunk) => {
+        request += chunk.toString('utf8');
+        try {
+          const { command } = JSON.parse(request);
+          socket.end(this.reply(command) + '\0');
+        } catch {
+          // Wait for the rest of the request
+        }
+      });
+      socket.on('error', () => socket.destroy());
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(port, host, () => resolve());
+    });
+
+    return { host, port: (this.server.address() as AddressInfo).port };
+  }
+
+  async stop() {
+    if (!this.server) return;
+    await new Promise<void>((resolve) => this.server!.close(() => resolve()));
+    this.server = null;
+  }
+
+  private reply(command: string): string {
+    const state = this.state;
+    const status = (message: string) => [{ STATUS: 'S', When: Math.floor(Date.now() / 1000), Code: 11, Msg: message }];
+
+    switch (command) {
+      case 'summary':
+        return JSON.stringify({
+          STATUS: status('Summary'),
+          SUMMARY: [{
+            Elapsed: state.elapsedSeconds,
+            'GHS 5s': state.ghs5s.toFixed(2),
+            'GHS av': state.ghsAverage,
+            Accepted: state.accepted,
+            Rejected: state.rejected,
+            'Hardware Errors': state.hardwareErrors
+          }],
+          id: 1
+        });
+      case 'stats': {
+        const device: Record<string, unknown> = { STATS: 0, ID: 'BC50', Elapsed: state.elapsedSeconds, 'GHS 5s': state.ghs5s.toFixed(2) };
+        device.fan_num = state.fanRpm.length;
+        state.fanRpm.forEach((rpm, index) => (device[`fan${index + 1}`] = rpm));
+        state.chipTemps.forEach((temps, index) => (device[`temp_chip${index + 1}`] = temps.join('-')));
+        device.Power = state.powerW;
+
+        const version = JSON.stringify({ BMMiner: '1.0.0', Miner: 'uart_trans.1.3', Type: state.model });
+        return `{"STATUS":${JSON.stringify(status('CGMiner stats'))},"STATS":[${version}${JSON.stringify(device)}],"id":1}`;
+      }
+      case 'pools':
+        return JSON.stringify({
+          STATUS: status('3 Pool(s)'),
+          POOLS: [{
+            POOL: 0,
+            URL: state.poolUrl,
+            User: state.poolUser,
+            Status: state.poolAlive ? 'Alive' : 'Dead',
+            'Stratum Active': state.poolAlive,
+            Accepted: state.accepted,
+            Rejected: state.rejected
+          }],
+          id: 1
+        });
+      default:
+        return JSON.stringify({ STATUS: [{ STATUS: 'E', When: Math.floor(Date.now() / 1000), Code: 14, Msg: 'Invalid command' }], id: 1 });
+    }
+  }
+}
@@ -0,0 +1,45 @@
+import { AsicTelemetrySource, AsicUnitSample } from './types';
+import { RATED_THS_PER_UNIT } from './tracker';
+
+/**
+ * In-process stand-in for fleet telemetry: reports the units it was given, which tests
+ * and the sandbox change with setUnit
+ */
+export class StubAsicTelemetrySource implements AsicTelemetrySource {
+  readonly type = 'stub';
+  private units: AsicUnitSample[];
+
+  constructor(units: AsicUnitSample[]) {
+    this.units = units.map((unit) => ({ ...unit }));
+  }
+
+  setUnit(unitId: string, changes: Partial<Omit<AsicUnitSample, 'unitId'>>) {
+    const unit = this.units.find((candidate) => candidate.unitId === unitId);
+    if (!unit) {
+      throw new Error(`StubAsicTelemetrySource: unknown unit ${unitId}`);
+    }
+    Object.assign(unit, changes);
+  }
+
+  async sampleUnits(): Promise<AsicUnitSample[]> {
+    return this.units.map((unit) => ({ ...unit }));
+  }
+}
+
+/**
+ * Parse ASIC_STUB_UNITS: comma-separated `poolId:unitId[:THs]`, each online at THs (default rated)
+ */
+export function parseStubUnits(spec: string): AsicUnitSample[] {
+  return spec
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0)
+    .map((entry) => {
+      const [poolId, unitId, ths] = entry.split(':');
+      const hashrateTHs = ths === undefined ? RATED_THS_PER_UNIT : Number(ths);
+      if (!poolId || !unitId || !Number.isFinite(hashrateTHs) || hashrateTHs < 0) {
+        throw new Error(`ASIC_STUB_UNITS: expected poolId:unitId[:THs], got "${entry}"`);
+      }
+      return { unitId, poolId, online: true, hashrateTHs };
+    });
+}
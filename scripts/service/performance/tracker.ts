@@ -0,0 +1,104 @@
+import { PoolBalance } from '../pools';
+import { AsicUnitSample, PoolPerformanceReport } from './types';
+
+// Antminer S21+ nameplate hashrate
+export const RATED_THS_PER_UNIT = 216;
+
+export interface PerformanceTrackerOptions {
+  ratedTHsPerUnit: number;
+  // Uptime is averaged over observations this recent
+  windowMs: number;
+}
+
+interface PoolObservation {
+  poolTHs: number | null;
+  asicTHs: number | null;
+  units: number;
+  blocksFound24h: number;
+}
+
+interface UptimeSample {
+  at: number;
+  // Share of units (or pool workers) hashing at the time
+  onlineRatio: number;
+}
+
+/**
+ * Combines pool-reported and ASIC-measured hashrate into per-pool efficiency and uptime.
+ * Samples live in memory, so uptime after a restart covers only the time since.
+ */
+export class PerformanceTracker {
+  private latest = new Map<string, PoolObservation>();
+  private samples = new Map<string, UptimeSample[]>();
+
+  constructor(
+    private options: PerformanceTrackerOptions = { ratedTHsPerUnit: RATED_THS_PER_UNIT, windowMs: 24 * 60 * 60 * 1000 },
+    private now: () => number = Date.now
+  ) {}
+
+  /**
+   * Record one observation per pool from the pool APIs and the ASIC telemetry read together
+   */
+  record(balances: PoolBalance[], units: AsicUnitSample[] = []) {
+    const at = this.now();
+    const poolIds = new Set([...balances.map((balance) => balance.poolId), ...units.map((unit) => unit.poolId)]);
+
+    for (const poolId of poolIds) {
+      const balance = balances.find((candidate) => candidate.poolId === poolId);
+      const poolUnits = units.filter((unit) => unit.poolId === poolId);
+      const online = poolUnits.filter((unit) => unit.online);
+      const workers = balance?.workers ?? [];
+
+      let onlineRatio: number;
+      if (poolUnits.length > 0) {
+        onlineRatio = online.length / poolUnits.length;
+      } else if (workers.length > 0) {
+        onlineRatio = workers.filter((worker) => worker.online).length / workers.length;
+      } else {
+        onlineRatio = (balance?.hashrate.currentTHs ?? 0) > 0 ? 1 : 0;
+      }
+
+      this.latest.set(poolId, {
+        poolTHs: balance ? balance.hashrate.currentTHs : null,
+        asicTHs: poolUnits.length > 0 ? online.reduce((total, unit) => total + unit.hashrateTHs, 0) : null,
+        units: poolUnits.length || workers.length || 1,
+        blocksFound24h: balance?.hashrate.blocksFound24h ?? 0
+      });
+
+      const window = (this.samples.get(poolId) ?? []).filter((sample) => at - sample.at <= this.options.windowMs);
+      window.push({ at, onlineRatio });
+      this.samples.set(poolId, window);
+    }
+  }
+
+  report(poolId: string): PoolPerformanceReport | null {
+    const latest = this.latest.get(poolId);
+    if (!latest) return null;
+
+    const at = this.now();
+    const window = (this.samples.get(poolId) ?? []).filter((sample) => at - sample.at <= this.options.windowMs);
+    const ratedTHs = latest.units * this.options.ratedTHsPerUnit;
+
+    // Trust the lower figure: the pool only credits accepted shares, the ASIC only sees itself
+    const measured = [latest.poolTHs, latest.asicTHs].filter((ths): ths is number => ths !== null);
+    const actualTHs = Math.min(...measured, ratedTHs);
+
+    return {
+      poolId,
+      ratedTHs,
+      poolTHs: latest.poolTHs,
+      asicTHs: latest.asicTHs,
+      actualTHs,
+      efficiency: Math.round((actualTHs / ratedTHs) * 100),
+      uptime: window.length > 0
+        ? Math.round((window.reduce((total, sample) => total + sample.onlineRatio, 0) / window.length) * 100)
+        : 0,
+      blocksFound24h: latest.blocksFound24h,
+      samples: window.length
+    };
+  }
+
+  reports(): PoolPerformanceReport[] {
+    return [...this.latest.keys()].map((poolId) => this.report(poolId)!);
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * One ASIC as reported by fleet telemetry
+ */
+export interface AsicUnitSample {
+  unitId: string;
+  // ProofOfReserve pool the unit hashes for
+  poolId: string;
+  online: boolean;
+  hashrateTHs: number;
+  // Device readings, left out by sources that cannot read the machine itself
+  model?: string;
+  averageHashrateTHs?: number;
+  // Hottest chip across the hash boards
+  chipTempC?: number;
+  fanRpm?: number[];
+  powerW?: number;
+  acceptedShares?: number;
+  rejectedShares?: number;
+  hardwareErrors?: number;
+  // Stratum pool the unit is hashing on
+  stratumUrl?: string;
+  // Why an offline unit could not be read
+  error?: string;
+}
+
+export interface AsicTelemetrySource {
+  readonly type: string;
+
+  /**
+   * Read every unit once; units that do not answer are reported offline
+   */
+  sampleUnits(): Promise<AsicUnitSample[]>;
+}
+
+/**
+ * A pool's performance over the tracking window, ready for ProofOfReserve.updatePerformanceData
+ */
+export interface PoolPerformanceReport {
+  poolId: string;
+  // Rated hashrate of the units behind the pool
+  ratedTHs: number;
+  // Latest hashrate credited by the pool and measured on the ASICs (null without that source)
+  poolTHs: number | null;
+  asicTHs: number | null;
+  // Lower of the two sources, capped at the rated hashrate
+  actualTHs: number;
+  // Percentages (0-100)
+  efficiency: number;
+  uptime: number;
+  blocksFound24h: number;
+  // Observations behind `uptime`
+  samples: number;
+}
@@ -0,0 +1,49 @@
+import { HttpPoolAdapter } from './httpPoolAdapter';
+import { PoolAdapterConfig, PoolBalance } from './types';
+
+export const BRAIINS_API_URL = 'https://pool.braiins.com';
+
+/**
+ * Braiins Pool (formerly Slush Pool) account API
+ */
+export class BraiinsPoolAdapter extends HttpPoolAdapter {
+  readonly type = 'braiins';
+
+  constructor(config: PoolAdapterConfig) {
+    super(config, { 'Pool-Auth-Token': config.apiKey || '' });
+  }
+
+  async fetchBalance(): Promise<PoolBalance> {
+    const [profile, payouts, workers] = await Promise.all([
+      this.http.get('/accounts/profile/json/btc/'),
+      this.http.get('/accounts/payouts/json/btc/'),
+      this.http.get('/accounts/workers/json/btc/')
+    ]);
+
+    const account = profile.data.btc;
+    const workerMap: { [name: string]: any } = workers.data.btc?.workers || {};
+
+    return {
+      poolId: this.poolId,
+      btcBalance: this.toNumber(account.current_balance),
+      pendingBTC: this.toNumber(account.today_reward),
+      payouts: (payouts.data.btc?.payouts || []).map((payout: any) => ({
+        txid: payout.tx_id,
+        amountBTC: this.toNumber(payout.amount),
+        address: payout.address,
+        paidAt: this.toDate(payout.requested_at) as Date
+      })),
+      hashrate: {
+        currentTHs: this.toTHs(account.hash_rate_5m, account.hash_rate_unit),
+        average24hTHs: this.toTHs(account.hash_rate_24h, account.hash_rate_unit)
+      },
+      workers: Object.entries(workerMap).map(([name, worker]) => ({
+        name,
+        online: worker.state === 'ok',
+        hashrateTHs: this.toTHs(worker.hash_rate_5m, worker.hash_rate_unit),
+        lastShareAt: this.toDate(worker.last_share)
+      })),
+      lastUpdate: new Date()
+    };
+  }
+}
@@ -0,0 +1,58 @@
+import { HttpPoolAdapter } from './httpPoolAdapter';
+import { PoolAdapterConfig, PoolBalance } from './types';
+
+export const F2POOL_API_URL = 'https://api.f2pool.com/v2';
+
+/**
+ * F2Pool v2 API (all endpoints are POST with the account in the body)
+ */
+export class F2PoolAdapter extends HttpPoolAdapter {
+  readonly type = 'f2pool';
+
+  constructor(config: PoolAdapterConfig) {
+    super(config, { 'F2P-API-SECRET': config.apiKey || '' });
+    if (!config.account) {
+      throw new Error('F2PoolAdapter: F2POOL_ACCOUNT is required');
+    }
+  }
+
+  async fetchBalance(): Promise<PoolBalance> {
+    const body = { currency: 'bitcoin', user_name: this.config.account };
+    const now = Math.floor(Date.now() / 1000);
+
+    const [balance, payouts, hashrate, workers] = await Promise.all([
+      this.http.post('/assets/balance', body),
+      this.http.post('/assets/transactions/list', {
+        ...body,
+        type: 'payout',
+        start_time: now - 30 * 86400,
+        end_time: now
+      }),
+      this.http.post('/hash_rate/info', body),
+      this.http.post('/hash_rate/worker/list', body)
+    ]);
+
+    return {
+      poolId: this.poolId,
+      btcBalance: this.toNumber(balance.data.balance_info?.balance),
+      pendingBTC: this.toNumber(balance.data.balance_info?.immature_balance),
+      payouts: (payouts.data.transactions || []).map((tx: any) => ({
+        txid: tx.payout_extra?.tx_id,
+        amountBTC: this.toNumber(tx.payout_extra?.value),
+        address: tx.payout_extra?.address,
+        paidAt: this.toDate(tx.created_at) as Date
+      })),
+      hashrate: {
+        currentTHs: this.toTHs(hashrate.data.info?.hash_rate),
+        average24hTHs: this.toTHs(hashrate.data.info?.h24_hash_rate)
+      },
+      workers: (workers.data.workers || []).map((worker: any) => ({
+        name: worker.hash_rate_info?.name,
+        online: worker.status === 0,
+        hashrateTHs: this.toTHs(worker.hash_rate_info?.hash_rate),
+        lastShareAt: this.toDate(worker.last_share_at)
+      })),
+      lastUpdate: new Date()
+    };
+  }
+}
@@ -0,0 +1,47 @@
+import { HttpPoolAdapter } from './httpPoolAdapter';
+import { PoolAdapterConfig, PoolBalance } from './types';
+
+export const FOUNDRY_API_URL = 'https://api.foundrydigital.com/v1';
+
+/**
+ * Foundry USA mining pool REST API
+ */
+export class FoundryPoolAdapter extends HttpPoolAdapter {
+  readonly type = 'foundry';
+
+  constructor(config: PoolAdapterConfig) {
+    super(config, { 'Authorization': `Bearer ${config.apiKey}` });
+  }
+
+  async fetchBalance(): Promise<PoolBalance> {
+    const [balance, payouts, hashrate, workers] = await Promise.all([
+      this.http.get('/accounts/balance'),
+      this.http.get('/accounts/payments'),
+      this.http.get('/accounts/hashrate'),
+      this.http.get('/accounts/workers')
+    ]);
+
+    return {
+      poolId: this.poolId,
+      btcBalance: this.toNumber(balance.data.available_balance),
+      pendingBTC: this.toNumber(balance.data.unconfirmed_balance),
+      payouts: (payouts.data.payments || []).map((payment: any) => ({
+        txid: payment.txid,
+        amountBTC: this.toNumber(payment.amount_btc),
+        address: payment.address,
+        paidAt: new Date(payment.created_at)
+      })),
+      hashrate: {
+        currentTHs: this.toTHs(hashrate.data.current, hashrate.data.unit || 'th/s'),
+        average24hTHs: this.toTHs(hashrate.data.average_24h, hashrate.data.unit || 'th/s')
+      },
+      workers: (workers.data.workers || []).map((worker: any) => ({
+        name: worker.worker_name,
+        online: worker.online === true,
+        hashrateTHs: this.toTHs(worker.hashrate, workers.data.unit || 'th/s'),
+        lastShareAt: this.toDate(worker.last_share)
+      })),
+      lastUpdate: new Date()
+    };
+  }
+}
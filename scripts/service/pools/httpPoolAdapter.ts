@@ -0,0 +1,70 @@
+import axios, { AxiosInstance } from 'axios';
+import { MiningPoolAdapter, PoolAdapterConfig, PoolBalance } from './types';
+
+const SATOSHIS_PER_BTC = 100000000;
+
+const HASHRATE_UNITS: { [unit: string]: number } = {
+  'h/s': 1e-12,
+  'kh/s': 1e-9,
+  'mh/s': 1e-6,
+  'gh/s': 1e-3,
+  'th/s': 1,
+  'ph/s': 1e3,
+  'eh/s': 1e6
+};
+
+/**
+ * Shared plumbing for adapters that talk to a pool's REST API
+ */
+export abstract class HttpPoolAdapter implements MiningPoolAdapter {
+  abstract readonly type: string;
+  readonly poolId: string;
+  protected readonly config: PoolAdapterConfig;
+  protected readonly http: AxiosInstance;
+
+  constructor(config: PoolAdapterConfig, headers: { [name: string]: string } = {}) {
+    this.config = config;
+    this.poolId = config.poolId;
+    this.http = axios.create({
+      baseURL: config.apiUrl,
+      timeout: 15000,
+      headers: {
+        'Content-Type': 'application/json',
+        ...headers
+      }
+    });
+  }
+
+  abstract fetchBalance(): Promise<PoolBalance>;
+
+  protected satoshisToBTC(satoshis: number | string | undefined): number {
+    return this.toNumber(satoshis) / SATOSHIS_PER_BTC;
+  }
+
+  protected toNumber(value: number | string | undefined | null): number {
+    if (value === undefined || value === null || value === '') {
+      return 0;
+    }
+    const parsed = typeof value === 'number' ? value : parseFloat(value);
+    return Number.isFinite(parsed) ? parsed : 0;
+  }
+
+  /**
+   * Convert a hashrate reported in `unit` (e.g. "Gh/s") to TH/s
+   */
+  protected toTHs(value: number | string | undefined, unit: string = 'h/s'): number {
+    const multiplier = HASHRATE_UNITS[unit.toLowerCase()];
+    if (multiplier === undefined) {
+      throw new Error(`${this.type}: unknown hashrate unit "${unit}"`);
+    }
+    return this.toNumber(value) * multiplier;
+  }
+
+  protected toDate(value: number | string | undefined): Date | undefined {
+    if (value === undefined || value === null || value === '') {
+      return undefined;
+    }
+    // Pools report either unix seconds or ISO strings
+    return typeof value === 'number' ? new Date(value * 1000) : new Date(value);
+  }
+}
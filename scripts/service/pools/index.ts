@@ -0,0 +1,10 @@
+export * from './types';
+export { HttpPoolAdapter } from './httpPoolAdapter';
+export { LuxorPoolAdapter } from './luxorAdapter';
+export { FoundryPoolAdapter } from './foundryAdapter';
+export { F2PoolAdapter } from './f2poolAdapter';
+export { BraiinsPoolAdapter } from './braiinsAdapter';
+export { MockPoolAdapter } from './mockPoolAdapter';
+export { MockPoolServer, defaultMockPoolState } from './mockPoolServer';
+export type { MockPoolState } from './mockPoolServer';
+export { PoolAdapterRegistry, createDefaultPoolAdapterRegistry } from './registry';
@@ -0,0 +1,47 @@
+import { HttpPoolAdapter } from './httpPoolAdapter';
+import { PoolAdapterConfig, PoolBalance } from './types';
+
+export const LUXOR_API_URL = 'https://api.luxor.tech/v1';
+
+/**
+ * Luxor mining pool REST API
+ */
+export class LuxorPoolAdapter extends HttpPoolAdapter {
+  readonly type = 'luxor';
+
+  constructor(config: PoolAdapterConfig) {
+    super(config, { 'Authorization': `Bearer ${config.apiKey}` });
+  }
+
+  async fetchBalance(): Promise<PoolBalance> {
+    const [balance, payouts, hashrate, workers] = await Promise.all([
+      this.http.get('/accounts/balance'),
+      this.http.get('/accounts/payouts', { params: { limit: 10 } }),
+      this.http.get('/accounts/hashrate'),
+      this.http.get('/accounts/workers')
+    ]);
+
+    return {
+      poolId: this.poolId,
+      btcBalance: this.toNumber(balance.data.confirmed_balance),
+      pendingBTC: this.toNumber(balance.data.pending_balance),
+      payouts: (payouts.data.payouts || []).map((payout: any) => ({
+        txid: payout.tx_hash,
+        amountBTC: this.toNumber(payout.amount),
+        address: payout.address,
+        paidAt: new Date(payout.paid_at)
+      })),
+      hashrate: {
+        currentTHs: this.toTHs(hashrate.data.hashrate),
+        average24hTHs: this.toTHs(hashrate.data.hashrate_24h)
+      },
+      workers: (workers.data.workers || []).map((worker: any) => ({
+        name: worker.name,
+        online: worker.status === 'active',
+        hashrateTHs: this.toTHs(worker.hashrate),
+        lastShareAt: this.toDate(worker.last_share_time)
+      })),
+      lastUpdate: new Date()
+    };
+  }
+}
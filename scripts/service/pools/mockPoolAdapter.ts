@@ -0,0 +1,44 @@
+import { HttpPoolAdapter } from './httpPoolAdapter';
+import { PoolAdapterConfig, PoolBalance } from './types';
+
+export const MOCK_POOL_API_URL = 'http://127.0.0.1:8787';
+
+/**
+ * Adapter for the local mock pool HTTP stub (see mockPoolServer.ts)
+ */
+export class MockPoolAdapter extends HttpPoolAdapter {
+  readonly type = 'mock';
+
+  constructor(config: PoolAdapterConfig) {
+    super(config);
+  }
+
+  async fetchBalance(): Promise<PoolBalance> {
+    const response = await this.http.get(`/pools/${encodeURIComponent(this.poolId)}/summary`);
+    const data = response.data;
+
+    return {
+      poolId: this.poolId,
+      btcBalance: this.toNumber(data.balance_btc),
+      pendingBTC: this.toNumber(data.pending_btc),
+      payouts: (data.payouts || []).map((payout: any) => ({
+        txid: payout.txid,
+        amountBTC: this.toNumber(payout.amount_btc),
+        address: payout.address,
+        paidAt: new Date(payout.paid_at)
+      })),
+      hashrate: {
+        currentTHs: this.toNumber(data.hashrate_ths),
+        average24hTHs: this.toNumber(data.hashrate_24h_ths),
+        blocksFound24h: this.toNumber(data.blocks_found_24h)
+      },
+      workers: (data.workers || []).map((worker: any) => ({
+        name: worker.name,
+        online: worker.online === true,
+        hashrateTHs: this.toNumber(worker.hashrate_ths),
+        lastShareAt: this.toDate(worker.last_share_at)
+      })),
+      lastUpdate: new Date()
+    };
+  }
+}
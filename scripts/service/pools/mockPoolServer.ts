@@ -0,0 +1,90 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+
+export interface MockPoolState {
+  balance_btc: number;
+  pending_btc: number;
+  payouts: { txid: string; amount_btc: number; address?: string; paid_at: string }[];
+  hashrate_ths: number;
+  hashrate_24h_ths: number;
+  blocks_found_24h: number;
+  workers: { name: string; online: boolean; hashrate_ths: number; last_share_at?: string }[];
+}
+
+/**
+ * Default state: one Antminer S21+ running at its rated 216 TH/s
+ */
+export function defaultMockPoolState(): MockPoolState {
+  return {
+    balance_btc: 0.015,
+    pending_btc: 0.0004,
+    payouts: [],
+    hashrate_ths: 216,
+    hashrate_24h_ths: 214.5,
+    blocks_found_24h: 1,
+    workers: [
+      { name: 's21plus-01', online: true, hashrate_ths: 216, last_share_at: new Date().toISOString() }
+    ]
+  };
+}
+
+/**
+ * Local HTTP stub that mimics a mining pool API for tests and local runs.
+ * Serves GET /pools/:poolId/summary for every pool registered with setPool.
+ */
+export class MockPoolServer {
+  private server: http.Server | null = null;
+  private pools = new Map<string, MockPoolState>();
+
+  setPool(poolId: string, state: Partial<MockPoolState> = {}) {
+    this.pools.set(poolId, { ...defaultMockPoolState(), ...this.pools.get(poolId), ...state });
+  }
+
+  getPool(poolId: string): MockPoolState | undefined {
+    return this.pools.get(poolId);
+  }
+
+  async start(port: number = 0, host: string = '127.0.0.1'): Promise<string> {
+    this.server = http.createServer((req, res) => this.handle(req, res));
+
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(port, host, () => resolve());
+    });
+
+    const address = this.server.address() as AddressInfo;
+    return `http://${host}:${address.port}`;
+  }
+
+  async stop() {
+    if (!this.server) return;
+    await new Promise<void>((resolve) => this.server!.close(() => resolve()));
+    this.server = null;
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse) {
+    const match = req.method === 'GET' && req.url?.match(/^\/pools\/([^/]+)\/summary$/);
+    const state = match ? this.pools.get(decodeURIComponent(match[1])) : undefined;
+
+    if (!state) {
+      res.writeHead(404, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'pool not found' }));
+      return;
+    }
+
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(state));
+  }
+}
+
+// CLI runner: serve a single mock pool for local development
+if (require.main === module) {
+  const server = new MockPoolServer();
+  const poolId = process.env.MOCK_POOL_ID || 'mock_btc_pool';
+  const port = parseInt(process.env.MOCK_POOL_PORT || '8787');
+
+  server.setPool(poolId);
+  server.start(port).then((url) => {
+    console.log(`Mock pool API for ${poolId} listening on ${url}`);
+  }).catch(console.error);
+}
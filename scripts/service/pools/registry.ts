@@ -0,0 +1,84 @@
+import { LuxorPoolAdapter, LUXOR_API_URL } from './luxorAdapter';
+import { FoundryPoolAdapter, FOUNDRY_API_URL } from './foundryAdapter';
+import { F2PoolAdapter, F2POOL_API_URL } from './f2poolAdapter';
+import { BraiinsPoolAdapter, BRAIINS_API_URL } from './braiinsAdapter';
+import { MockPoolAdapter, MOCK_POOL_API_URL } from './mockPoolAdapter';
+import { MiningPoolAdapter, PoolAdapterConfig, PoolAdapterFactory } from './types';
+
+interface PoolAdapterRegistration {
+  factory: PoolAdapterFactory;
+  defaultApiUrl: string;
+  defaultPoolId: string;
+}
+
+/**
+ * Maps pool types (e.g. "luxor") to adapter factories.
+ * New pools are added by registering a factory, not by editing the service.
+ */
+export class PoolAdapterRegistry {
+  private registrations = new Map<string, PoolAdapterRegistration>();
+
+  register(type: string, factory: PoolAdapterFactory, defaultApiUrl: string, defaultPoolId: string = `${type}_btc_pool`) {
+    this.registrations.set(type.toLowerCase(), { factory, defaultApiUrl, defaultPoolId });
+  }
+
+  has(type: string): boolean {
+    return this.registrations.has(type.toLowerCase());
+  }
+
+  types(): string[] {
+    return Array.from(this.registrations.keys());
+  }
+
+  create(config: PoolAdapterConfig): MiningPoolAdapter {
+    const registration = this.registrations.get(config.type.toLowerCase());
+    if (!registration) {
+      throw new Error(`PoolAdapterRegistry: unknown pool type "${config.type}" (known: ${this.types().join(', ')})`);
+    }
+    return registration.factory(config);
+  }
+
+  /**
+   * Resolve the config for every pool listed in MINING_POOLS.
+   * Each pool reads <TYPE>_API_URL, <TYPE>_API_KEY, <TYPE>_ACCOUNT and <TYPE>_POOL_ID.
+   */
+  loadConfigs(env: NodeJS.ProcessEnv = process.env): PoolAdapterConfig[] {
+    const enabled = (env.MINING_POOLS || 'luxor,foundry')
+      .split(',')
+      .map((type) => type.trim().toLowerCase())
+      .filter((type) => type.length > 0);
+
+    return enabled.map((type) => {
+      const registration = this.registrations.get(type);
+      if (!registration) {
+        throw new Error(`PoolAdapterRegistry: MINING_POOLS lists unknown pool type "${type}"`);
+      }
+
+      const prefix = type.toUpperCase();
+      return {
+        type,
+        poolId: env[`${prefix}_POOL_ID`] || registration.defaultPoolId,
+        apiUrl: env[`${prefix}_API_URL`] || registration.defaultApiUrl,
+        apiKey: env[`${prefix}_API_KEY`],
+        account: env[`${prefix}_ACCOUNT`]
+      };
+    });
+  }
+
+  /**
+   * Create adapters for every pool enabled in the environment
+   */
+  createEnabledAdapters(env: NodeJS.ProcessEnv = process.env): MiningPoolAdapter[] {
+    return this.loadConfigs(env).map((config) => this.create(config));
+  }
+}
+
+export function createDefaultPoolAdapterRegistry(): PoolAdapterRegistry {
+  const registry = new PoolAdapterRegistry();
+  registry.register('luxor', (config) => new LuxorPoolAdapter(config), LUXOR_API_URL);
+  registry.register('foundry', (config) => new FoundryPoolAdapter(config), FOUNDRY_API_URL);
+  registry.register('f2pool', (config) => new F2PoolAdapter(config), F2POOL_API_URL);
+  registry.register('braiins', (config) => new BraiinsPoolAdapter(config), BRAIINS_API_URL);
+  registry.register('mock', (config) => new MockPoolAdapter(config), MOCK_POOL_API_URL);
+  return registry;
+}
@@ -0,0 +1,65 @@
+/**
+ * A single payout the pool has sent to our BTC address
+ */
+export interface PoolPayout {
+  txid: string;
+  amountBTC: number;
+  address?: string;
+  paidAt: Date;
+}
+
+/**
+ * Hashrate as reported by the pool, normalized to TH/s
+ */
+export interface PoolHashrate {
+  currentTHs: number;
+  average24hTHs: number;
+  // Blocks the pool itself found in the last 24h, for pools that report it
+  blocksFound24h?: number;
+}
+
+/**
+ * Status of a single worker (ASIC) connected to the pool
+ */
+export interface WorkerStatus {
+  name: string;
+  online: boolean;
+  hashrateTHs: number;
+  lastShareAt?: Date;
+}
+
+/**
+ * Normalized pool balance returned by every adapter
+ */
+export interface PoolBalance {
+  poolId: string;
+  btcBalance: number;
+  pendingBTC: number;
+  payouts: PoolPayout[];
+  hashrate: PoolHashrate;
+  workers: WorkerStatus[];
+  lastUpdate: Date;
+}
+
+/**
+ * Per-pool settings resolved from the service configuration
+ */
+export interface PoolAdapterConfig {
+  type: string;
+  poolId: string;
+  apiUrl: string;
+  apiKey?: string;
+  account?: string;
+}
+
+export interface MiningPoolAdapter {
+  readonly type: string;
+  readonly poolId: string;
+
+  /**
+   * Fetch balance, payouts, hashrate and worker status from the pool
+   */
+  fetchBalance(): Promise<PoolBalance>;
+}
+
+export type PoolAdapterFactory = (config: PoolAdapterConfig) => MiningPoolAdapter;
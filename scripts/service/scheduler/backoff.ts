@@ -0,0 +1,17 @@
+export interface BackoffConfig {
+  initialDelayMs: number;
+  maxDelayMs: number;
+  multiplier: number;
+  // Fraction of the delay that is randomized (0 = none, 1 = anywhere from 0 to the full delay)
+  jitter: number;
+}
+
+/**
+ * Delay before retrying after `failures` consecutive failures (1 for the first)
+ */
+export function backoffDelay(failures: number, config: BackoffConfig, random: () => number = Math.random): number {
+  const exponential = config.initialDelayMs * Math.pow(config.multiplier, Math.max(failures - 1, 0));
+  const delay = Math.min(exponential, config.maxDelayMs);
+  // Jitter only shortens the delay, so maxDelayMs stays an upper bound
+  return Math.round(delay * (1 - config.jitter * random()));
+}
@@ -0,0 +1,49 @@
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerConfig {
+  // Consecutive failures that open the circuit
+  failureThreshold: number;
+  // How long an open circuit blocks the task before one trial run
+  cooldownMs: number;
+}
+
+/**
+ * Stops a task that keeps failing from running on every schedule tick.
+ * After `failureThreshold` consecutive failures the circuit opens for `cooldownMs`;
+ * then a single trial run either closes it again or re-opens it.
+ */
+export class CircuitBreaker {
+  private failures = 0;
+  private openedAt: number | null = null;
+
+  constructor(private config: CircuitBreakerConfig) {}
+
+  state(now: number = Date.now()): CircuitState {
+    if (this.openedAt === null) return 'closed';
+    return now >= this.openUntil()! ? 'half-open' : 'open';
+  }
+
+  /**
+   * When an open circuit allows its next trial run, or null when closed
+   */
+  openUntil(): number | null {
+    return this.openedAt === null ? null : this.openedAt + this.config.cooldownMs;
+  }
+
+  allowsRun(now: number = Date.now()): boolean {
+    return this.state(now) !== 'open';
+  }
+
+  recordSuccess() {
+    this.failures = 0;
+    this.openedAt = null;
+  }
+
+  recordFailure(now: number = Date.now()) {
+    this.failures++;
+    // A failed trial run re-opens straight away
+    if (this.openedAt !== null || this.failures >= this.config.failureThreshold) {
+      this.openedAt = now;
+    }
+  }
+}
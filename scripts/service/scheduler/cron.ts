@@ -0,0 +1,126 @@
+export class CronParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CronParseError';
+  }
+}
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  // 0 and 7 are both Sunday
+  { name: 'day of week', min: 0, max: 7 }
+];
+
+const MACROS: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *'
+};
+
+// Give up on expressions that never match, e.g. "0 0 30 2 *"
+const MAX_SEARCH_MINUTES = 5 * 366 * 24 * 60;
+
+function parseField(field: string, spec: FieldSpec): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+    if (!match) {
+      throw new CronParseError(`invalid ${spec.name} field "${field}"`);
+    }
+
+    const [, range, start, end, step] = match;
+    const from = range === '*' ? spec.min : parseInt(start);
+    // "5/15" means every 15 starting at 5, like "5-59/15"
+    const to = range === '*' || (end === undefined && step !== undefined) ? spec.max : parseInt(end ?? start);
+    const increment = step === undefined ? 1 : parseInt(step);
+
+    if (from < spec.min || to > spec.max || from > to || increment < 1) {
+      throw new CronParseError(`${spec.name} field "${field}" is out of range ${spec.min}-${spec.max}`);
+    }
+    for (let value = from; value <= to; value += increment) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Standard five-field cron expression ("minute hour day-of-month month day-of-week"),
+ * evaluated in UTC. Supports `*`, lists, ranges, steps and the @hourly/@daily/@weekly/@monthly macros.
+ */
+export class CronExpression {
+  private constructor(
+    readonly source: string,
+    private minutes: Set<number>,
+    private hours: Set<number>,
+    private daysOfMonth: Set<number>,
+    private months: Set<number>,
+    private daysOfWeek: Set<number>,
+    // Cron matches either day field when both are restricted
+    private dayOfMonthAny: boolean,
+    private dayOfWeekAny: boolean
+  ) {}
+
+  static parse(expression: string): CronExpression {
+    const source = expression.trim();
+    const fields = (MACROS[source] ?? source).split(/\s+/);
+    if (fields.length !== FIELDS.length) {
+      throw new CronParseError(`"${expression}" must have 5 fields (minute hour day-of-month month day-of-week)`);
+    }
+
+    const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) => parseField(field, FIELDS[index]));
+    if (daysOfWeek.has(7)) {
+      daysOfWeek.add(0);
+    }
+
+    return new CronExpression(source, minutes, hours, daysOfMonth, months, daysOfWeek, fields[2] === '*', fields[4] === '*');
+  }
+
+  /**
+   * The first matching minute strictly after `after`
+   */
+  next(after: Date): Date {
+    const candidate = new Date(after.getTime());
+    candidate.setUTCSeconds(0, 0);
+    candidate.setUTCMinutes(candidate.getUTCMinutes() + 1);
+
+    for (let step = 0; step < MAX_SEARCH_MINUTES; step++) {
+      if (!this.months.has(candidate.getUTCMonth() + 1)) {
+        candidate.setUTCMonth(candidate.getUTCMonth() + 1, 1);
+        candidate.setUTCHours(0, 0);
+      } else if (!this.matchesDay(candidate)) {
+        candidate.setUTCDate(candidate.getUTCDate() + 1);
+        candidate.setUTCHours(0, 0);
+      } else if (!this.hours.has(candidate.getUTCHours())) {
+        candidate.setUTCHours(candidate.getUTCHours() + 1, 0);
+      } else if (!this.minutes.has(candidate.getUTCMinutes())) {
+        candidate.setUTCMinutes(candidate.getUTCMinutes() + 1);
+      } else {
+        return candidate;
+      }
+    }
+
+    throw new CronParseError(`"${this.source}" never matches`);
+  }
+
+  private matchesDay(date: Date): boolean {
+    const dayOfMonth = this.daysOfMonth.has(date.getUTCDate());
+    const dayOfWeek = this.daysOfWeek.has(date.getUTCDay());
+
+    if (this.dayOfMonthAny) return dayOfWeek;
+    if (this.dayOfWeekAny) return dayOfMonth;
+    return dayOfMonth || dayOfWeek;
+  }
+}
@@ -0,0 +1,7 @@
+export { backoffDelay } from './backoff';
+export type { BackoffConfig } from './backoff';
+export { CircuitBreaker } from './circuitBreaker';
+export type { CircuitBreakerConfig, CircuitState } from './circuitBreaker';
+export { CronExpression, CronParseError } from './cron';
+export { Scheduler } from './scheduler';
+export type { ScheduledTask, SchedulerOptions, TaskRun, TaskSchedule, TaskStatus } from './scheduler';
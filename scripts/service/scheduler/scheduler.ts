@@ -0,0 +1,193 @@
+import { LoopControl } from '../loopControl';
+import { BackoffConfig, backoffDelay } from './backoff';
+import { CircuitBreaker, CircuitBreakerConfig, CircuitState } from './circuitBreaker';
+import { CronExpression } from './cron';
+
+export interface TaskSchedule {
+  enabled: boolean;
+  // Five-field cron expression, UTC
+  schedule: string;
+  backoff: BackoffConfig;
+  circuitBreaker: CircuitBreakerConfig;
+}
+
+export interface ScheduledTask {
+  name: string;
+  config: TaskSchedule;
+  run: () => Promise<void>;
+}
+
+export interface TaskRun {
+  task: string;
+  outcome: 'ok' | 'error';
+  startedAt: Date;
+  finishedAt: Date;
+  error?: string;
+  // Circuit state after the run
+  circuit: CircuitState;
+}
+
+export interface TaskStatus {
+  name: string;
+  enabled: boolean;
+  schedule: string;
+  nextRunAt: Date | null;
+  running: boolean;
+  consecutiveFailures: number;
+  circuit: CircuitState;
+  lastRun: TaskRun | null;
+}
+
+export interface SchedulerOptions {
+  onTaskRun?: (run: TaskRun) => void;
+  now?: () => number;
+  random?: () => number;
+}
+
+interface TaskState {
+  task: ScheduledTask;
+  cron: CronExpression;
+  breaker: CircuitBreaker;
+  nextRunAt: number;
+  failures: number;
+  running: boolean;
+  lastRun: TaskRun | null;
+}
+
+/**
+ * Runs each enabled task on its own cron schedule, one task at a time so on-chain
+ * transactions from the service wallet never race each other. A failed task is
+ * retried with jittered exponential backoff instead of waiting for its next slot,
+ * and its circuit breaker stops the retries once failures keep piling up.
+ */
+export class Scheduler {
+  private states: TaskState[];
+  private now: () => number;
+  private random: () => number;
+
+  constructor(tasks: ScheduledTask[], private loop: LoopControl, private options: SchedulerOptions = {}) {
+    this.now = options.now ?? Date.now;
+    this.random = options.random ?? Math.random;
+
+    this.states = tasks.map((task) => {
+      const cron = CronExpression.parse(task.config.schedule);
+      return {
+        task,
+        cron,
+        breaker: new CircuitBreaker(task.config.circuitBreaker),
+        nextRunAt: cron.next(new Date(this.now())).getTime(),
+        failures: 0,
+        running: false,
+        lastRun: null
+      };
+    });
+  }
+
+  /**
+   * Run tasks as they come due until the loop stops. With `runOnStart` every enabled
+   * task runs once straight away instead of waiting for its first slot.
+   */
+  async run(runOnStart: boolean = false) {
+    if (runOnStart) {
+      await this.runAll();
+    }
+
+    while (!this.loop.stopping) {
+      const dueAt = this.nextDueAt();
+      // No enabled task: idle until a control command arrives
+      const wake = await this.loop.wait(dueAt === null ? Infinity : Math.max(dueAt - this.now(), 0));
+
+      if (wake === 'stop') break;
+      if (wake === 'run-once') await this.runAll();
+      else await this.runDue();
+    }
+  }
+
+  /**
+   * Run every enabled task whose time has come, in task order
+   */
+  async runDue() {
+    for (const state of this.enabled()) {
+      if (this.loop.stopping) return;
+      if (this.dueAt(state) <= this.now()) {
+        await this.runTask(state);
+      }
+    }
+  }
+
+  /**
+   * Run every enabled task now, ignoring schedules and open circuits (operator run-once)
+   */
+  async runAll() {
+    for (const state of this.enabled()) {
+      if (this.loop.stopping) return;
+      await this.runTask(state);
+    }
+  }
+
+  /**
+   * When the next enabled task is due, or null if none is enabled
+   */
+  nextDueAt(): number | null {
+    const due = this.enabled().map((state) => this.dueAt(state));
+    return due.length > 0 ? Math.min(...due) : null;
+  }
+
+  status(): TaskStatus[] {
+    return this.states.map((state) => ({
+      name: state.task.name,
+      enabled: state.task.config.enabled,
+      schedule: state.task.config.schedule,
+      nextRunAt: state.task.config.enabled ? new Date(this.dueAt(state)) : null,
+      running: state.running,
+      consecutiveFailures: state.failures,
+      circuit: state.breaker.state(this.now()),
+      lastRun: state.lastRun
+    }));
+  }
+
+  private enabled(): TaskState[] {
+    return this.states.filter((state) => state.task.config.enabled);
+  }
+
+  private dueAt(state: TaskState): number {
+    return Math.max(state.nextRunAt, state.breaker.openUntil() ?? 0);
+  }
+
+  private async runTask(state: TaskState) {
+    const { task } = state;
+    const startedAt = new Date(this.now());
+    let error: string | undefined;
+
+    state.running = true;
+    try {
+      await task.run();
+      state.failures = 0;
+      state.breaker.recordSuccess();
+      state.nextRunAt = state.cron.next(new Date(this.now())).getTime();
+    } catch (caught) {
+      error = caught instanceof Error ? caught.message : String(caught);
+      state.failures++;
+      state.breaker.recordFailure(this.now());
+      state.nextRunAt = this.now() + backoffDelay(state.failures, task.config.backoff, this.random);
+      console.error(`Task ${task.name} failed (${state.failures} in a row): ${error}`);
+    } finally {
+      state.running = false;
+    }
+
+    const circuit = state.breaker.state(this.now());
+    if (circuit === 'open') {
+      console.error(`Task ${task.name} circuit open until ${new Date(state.breaker.openUntil()!).toISOString()}`);
+    }
+
+    state.lastRun = {
+      task: task.name,
+      outcome: error === undefined ? 'ok' : 'error',
+      startedAt,
+      finishedAt: new Date(this.now()),
+      ...(error === undefined ? {} : { error }),
+      circuit
+    };
+    this.options.onTaskRun?.(state.lastRun);
+  }
+}
@@ -0,0 +1,218 @@
+import fs from 'fs';
+import path from 'path';
+import { BackoffConfig, CircuitBreakerConfig, CronExpression, TaskSchedule } from './scheduler';
+
+export const SERVICE_TASKS = ['balancePolling', 'proofOfReserve', 'performance', 'conversion', 'distribution'] as const;
+export type ServiceTaskName = typeof SERVICE_TASKS[number];
+
+export interface ServiceConfig {
+  // Run every enabled task once at startup instead of waiting for its first slot
+  runOnStart: boolean;
+  // Pool BTC below this is left for a later conversion
+  minimumConversionBTC: number;
+  // /health fails once an enabled task is this far past its due time
+  healthGraceMs: number;
+  // Attempts before a stuck conversion is marked failed for manual review
+  maxConversionAttempts: number;
+  // Largest tolerated gap between an exchange quote and the Chainlink BTC/USD price
+  maxSlippageBps: number;
+  // How long to wait for a placed exchange order or custodian operation to settle
+  orders: { pollIntervalMs: number; timeoutMs: number };
+  // Health/status/metrics HTTP API served while the loop runs
+  http: { port: number; host: string };
+  tasks: Record<ServiceTaskName, TaskSchedule>;
+}
+
+export class ServiceConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ServiceConfigError';
+  }
+}
+
+export const SERVICE_CONFIG_PATH = path.resolve(__dirname, '..', '..', 'config', 'service.json');
+
+const DEFAULT_BACKOFF: BackoffConfig = { initialDelayMs: 30000, maxDelayMs: 1800000, multiplier: 2, jitter: 0.2 };
+const DEFAULT_CIRCUIT_BREAKER: CircuitBreakerConfig = { failureThreshold: 5, cooldownMs: 3600000 };
+
+const DEFAULT_SCHEDULES: Record<ServiceTaskName, { enabled: boolean; schedule: string }> = {
+  balancePolling: { enabled: true, schedule: '*/15 * * * *' },
+  proofOfReserve: { enabled: true, schedule: '0 * * * *' },
+  performance: { enabled: true, schedule: '30 * * * *' },
+  conversion: { enabled: true, schedule: '0 * * * *' },
+  // Off by default: ChainlinkAutomation distributes when its upkeep is registered.
+  // Runs are cheap reads until a day has passed since the last distribution.
+  distribution: { enabled: false, schedule: '*/15 * * * *' }
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Validate untrusted JSON against the service config schema, filling in defaults for
+ * omitted fields and reporting every problem at once
+ */
+export function parseServiceConfig(json: unknown, source: string): ServiceConfig {
+  if (!isRecord(json)) {
+    throw new ServiceConfigError(`${source}: service config must be a JSON object`);
+  }
+
+  const problems: string[] = [];
+
+  const unknownKeys = (value: Record<string, unknown>, allowed: readonly string[], prefix: string) => {
+    for (const key of Object.keys(value)) {
+      if (!allowed.includes(key)) problems.push(`${prefix}${key} is not a known setting`);
+    }
+  };
+
+  const number = (value: unknown, name: string, fallback: number, check: (n: number) => boolean, rule: string): number => {
+    if (value === undefined) return fallback;
+    if (typeof value !== 'number' || !Number.isFinite(value) || !check(value)) {
+      problems.push(`${name} must be ${rule}`);
+      return fallback;
+    }
+    return value;
+  };
+
+  const boolean = (value: unknown, name: string, fallback: boolean): boolean => {
+    if (value === undefined) return fallback;
+    if (typeof value !== 'boolean') {
+      problems.push(`${name} must be true or false`);
+      return fallback;
+    }
+    return value;
+  };
+
+  const string = (value: unknown, name: string, fallback: string): string => {
+    if (value === undefined) return fallback;
+    if (typeof value !== 'string' || value === '') {
+      problems.push(`${name} must be a non-empty string`);
+      return fallback;
+    }
+    return value;
+  };
+
+  const section = (value: unknown, name: string): Record<string, unknown> => {
+    if (value === undefined) return {};
+    if (!isRecord(value)) {
+      problems.push(`${name} must be an object`);
+      return {};
+    }
+    return value;
+  };
+
+  const backoff = (value: unknown, name: string, fallback: BackoffConfig): BackoffConfig => {
+    const json = section(value, name);
+    unknownKeys(json, ['initialDelayMs', 'maxDelayMs', 'multiplier', 'jitter'], `${name}.`);
+    const parsed = {
+      initialDelayMs: number(json.initialDelayMs, `${name}.initialDelayMs`, fallback.initialDelayMs, (n) => n > 0, 'a positive number'),
+      maxDelayMs: number(json.maxDelayMs, `${name}.maxDelayMs`, fallback.maxDelayMs, (n) => n > 0, 'a positive number'),
+      multiplier: number(json.multiplier, `${name}.multiplier`, fallback.multiplier, (n) => n >= 1, 'at least 1'),
+      jitter: number(json.jitter, `${name}.jitter`, fallback.jitter, (n) => n >= 0 && n <= 1, 'between 0 and 1')
+    };
+    if (parsed.maxDelayMs < parsed.initialDelayMs) problems.push(`${name}.maxDelayMs must be at least initialDelayMs`);
+    return parsed;
+  };
+
+  const circuitBreaker = (value: unknown, name: string, fallback: CircuitBreakerConfig): CircuitBreakerConfig => {
+    const json = section(value, name);
+    unknownKeys(json, ['failureThreshold', 'cooldownMs'], `${name}.`);
+    return {
+      failureThreshold: number(
+        json.failureThreshold, `${name}.failureThreshold`, fallback.failureThreshold,
+        (n) => Number.isInteger(n) && n >= 1, 'a positive integer'
+      ),
+      cooldownMs: number(json.cooldownMs, `${name}.cooldownMs`, fallback.cooldownMs, (n) => n > 0, 'a positive number')
+    };
+  };
+
+  unknownKeys(json, [
+    'runOnStart', 'minimumConversionBTC', 'healthGraceMs', 'maxConversionAttempts', 'maxSlippageBps',
+    'orders', 'http', 'backoff', 'circuitBreaker', 'tasks'
+  ], '');
+
+  // Top-level backoff and circuitBreaker apply to every task that does not set its own
+  const sharedBackoff = backoff(json.backoff, 'backoff', DEFAULT_BACKOFF);
+  const sharedBreaker = circuitBreaker(json.circuitBreaker, 'circuitBreaker', DEFAULT_CIRCUIT_BREAKER);
+
+  const tasksJson = section(json.tasks, 'tasks');
+  unknownKeys(tasksJson, SERVICE_TASKS, 'tasks.');
+
+  const tasks = {} as Record<ServiceTaskName, TaskSchedule>;
+  for (const name of SERVICE_TASKS) {
+    const prefix = `tasks.${name}`;
+    const task = section(tasksJson[name], prefix);
+    unknownKeys(task, ['enabled', 'schedule', 'backoff', 'circuitBreaker'], `${prefix}.`);
+
+    let schedule = DEFAULT_SCHEDULES[name].schedule;
+    if (task.schedule !== undefined) {
+      try {
+        if (typeof task.schedule !== 'string') throw new Error('must be a cron expression');
+        // Parsing alone accepts dates that never occur, e.g. 31 February
+        CronExpression.parse(task.schedule).next(new Date());
+        schedule = task.schedule;
+      } catch (error) {
+        problems.push(`${prefix}.schedule ${(error as Error).message}`);
+      }
+    }
+
+    tasks[name] = {
+      enabled: boolean(task.enabled, `${prefix}.enabled`, DEFAULT_SCHEDULES[name].enabled),
+      schedule,
+      backoff: backoff(task.backoff, `${prefix}.backoff`, sharedBackoff),
+      circuitBreaker: circuitBreaker(task.circuitBreaker, `${prefix}.circuitBreaker`, sharedBreaker)
+    };
+  }
+
+  const ordersJson = section(json.orders, 'orders');
+  unknownKeys(ordersJson, ['pollIntervalMs', 'timeoutMs'], 'orders.');
+  const orders = {
+    pollIntervalMs: number(ordersJson.pollIntervalMs, 'orders.pollIntervalMs', 2000, (n) => n > 0, 'a positive number'),
+    timeoutMs: number(ordersJson.timeoutMs, 'orders.timeoutMs', 120000, (n) => n > 0, 'a positive number')
+  };
+  if (orders.timeoutMs < orders.pollIntervalMs) problems.push('orders.timeoutMs must be at least pollIntervalMs');
+
+  const httpJson = section(json.http, 'http');
+  unknownKeys(httpJson, ['port', 'host'], 'http.');
+
+  const config: ServiceConfig = {
+    runOnStart: boolean(json.runOnStart, 'runOnStart', true),
+    minimumConversionBTC: number(json.minimumConversionBTC, 'minimumConversionBTC', 0.01, (n) => n > 0, 'a positive number'),
+    healthGraceMs: number(json.healthGraceMs, 'healthGraceMs', 900000, (n) => n >= 0, 'zero or more'),
+    maxConversionAttempts: number(
+      json.maxConversionAttempts, 'maxConversionAttempts', 5,
+      (n) => Number.isInteger(n) && n >= 1, 'a positive integer'
+    ),
+    maxSlippageBps: number(json.maxSlippageBps, 'maxSlippageBps', 100, (n) => n >= 0 && n <= 10000, 'between 0 and 10000'),
+    orders,
+    http: {
+      port: number(httpJson.port, 'http.port', 9470, (n) => Number.isInteger(n) && n >= 1 && n <= 65535, 'an integer between 1 and 65535'),
+      host: string(httpJson.host, 'http.host', '127.0.0.1')
+    },
+    tasks
+  };
+
+  if (problems.length > 0) {
+    throw new ServiceConfigError(`${source}: invalid service config:\n  - ${problems.join('\n  - ')}`);
+  }
+
+  return config;
+}
+
+/**
+ * Load and validate the service config (SERVICE_CONFIG_PATH, default config/service.json)
+ */
+export function loadServiceConfig(filePath: string = process.env.SERVICE_CONFIG_PATH || SERVICE_CONFIG_PATH): ServiceConfig {
+  if (!fs.existsSync(filePath)) {
+    throw new ServiceConfigError(`No service config at ${path.relative(process.cwd(), filePath)}`);
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    throw new ServiceConfigError(`${filePath}: not valid JSON (${(error as Error).message})`);
+  }
+
+  return parseServiceConfig(json, filePath);
+}
@@ -0,0 +1,128 @@
+import fs from 'fs';
+import path from 'path';
+import { randomBytes } from 'crypto';
+
+/**
+ * Contents of the lock file held by a running service
+ */
+export interface ServiceLockInfo {
+  pid: number;
+  network: string;
+  miningPool: string;
+  startedAt: string;
+  // Where the service accepts control commands, and the token they must carry
+  controlUrl?: string;
+  controlToken: string;
+}
+
+export class ServiceLockError extends Error {
+  constructor(message: string, readonly holder?: ServiceLockInfo) {
+    super(message);
+    this.name = 'ServiceLockError';
+  }
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM: the process exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+/**
+ * One lock file per MiningPool contract, so two services never fund the same pool.
+ * A lock whose process is gone (crash, SIGKILL) is stale and taken over.
+ */
+export class ServiceLock {
+  readonly filePath: string;
+  private info: ServiceLockInfo | null = null;
+
+  constructor(filePath: string) {
+    this.filePath = path.resolve(filePath);
+  }
+
+  static forPool(network: string, miningPool: string, dir: string = process.env.SERVICE_LOCK_DIR || 'data'): ServiceLock {
+    return new ServiceLock(path.join(dir, `btc-service-${network}-${miningPool.toLowerCase()}.lock`));
+  }
+
+  /**
+   * Take the lock for this process, or throw if a live process holds it
+   */
+  acquire(network: string, miningPool: string): ServiceLockInfo {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+
+    const info: ServiceLockInfo = {
+      pid: process.pid,
+      network,
+      miningPool,
+      startedAt: new Date().toISOString(),
+      controlToken: randomBytes(16).toString('hex')
+    };
+
+    for (let attempt = 0; attempt < 2; attempt++) {
+      try {
+        // 'wx' fails if the file exists, so only one process can create it
+        fs.writeFileSync(this.filePath, JSON.stringify(info, null, 2), { flag: 'wx', mode: 0o600 });
+        this.info = info;
+        return info;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+      }
+
+      const holder = this.holder();
+      if (holder) {
+        throw new ServiceLockError(
+          `btc-cbbtc-service is already running for MiningPool ${holder.miningPool} on ${holder.network} (pid ${holder.pid})`,
+          holder
+        );
+      }
+
+      console.warn(`ServiceLock: removing stale lock ${this.filePath}`);
+      fs.rmSync(this.filePath, { force: true });
+    }
+
+    throw new ServiceLockError(`Could not acquire ${this.filePath}`);
+  }
+
+  /**
+   * Record details that are only known after startup (e.g. the control URL)
+   */
+  update(data: Partial<ServiceLockInfo>) {
+    if (!this.info) {
+      throw new ServiceLockError('ServiceLock: update called before acquire');
+    }
+    this.info = { ...this.info, ...data, pid: this.info.pid };
+    fs.writeFileSync(this.filePath, JSON.stringify(this.info, null, 2), { mode: 0o600 });
+  }
+
+  /**
+   * Remove the lock file if this process still holds it
+   */
+  release() {
+    if (!this.info) return;
+    if (this.read()?.pid === this.info.pid) {
+      fs.rmSync(this.filePath, { force: true });
+    }
+    this.info = null;
+  }
+
+  /**
+   * The live process holding the lock, if any
+   */
+  holder(): ServiceLockInfo | null {
+    const info = this.read();
+    return info && isProcessAlive(info.pid) ? info : null;
+  }
+
+  private read(): ServiceLockInfo | null {
+    try {
+      return JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+    } catch {
+      // Missing, or torn by a crash mid-write: either way nobody holds it
+      return null;
+    }
+  }
+}
@@ -0,0 +1,97 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { CONTROL_COMMANDS, ControlCommand, LoopState } from './loopControl';
+
+export interface HealthReport {
+  healthy: boolean;
+  [detail: string]: unknown;
+}
+
+/**
+ * What the status server reads from the running service
+ */
+export interface StatusSource {
+  health(): HealthReport;
+  status(): Promise<unknown>;
+  metrics(): string;
+  control(command: ControlCommand): LoopState;
+}
+
+/**
+ * Small HTTP API for the long-running service:
+ *   GET /health   200 when healthy, 503 otherwise
+ *   GET /status   service status as JSON
+ *   GET /metrics  Prometheus text format
+ *   POST /control/{pause,resume,run-once,stop}  with `Authorization: Bearer <controlToken>`
+ */
+export class ServiceStatusServer {
+  private server: http.Server | null = null;
+
+  constructor(private source: StatusSource, private controlToken: string) {}
+
+  async start(port: number = 0, host: string = '127.0.0.1'): Promise<string> {
+    this.server = http.createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        this.send(res, 500, 'application/json', JSON.stringify({ error: (error as Error).message }));
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(port, host, () => resolve());
+    });
+
+    const address = this.server.address() as AddressInfo;
+    return `http://${host}:${address.port}`;
+  }
+
+  async stop() {
+    if (!this.server) return;
+    await new Promise<void>((resolve) => this.server!.close(() => resolve()));
+    this.server = null;
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse) {
+    const route = req.url?.split('?')[0] || '';
+
+    if (req.method === 'POST' && route.startsWith('/control/')) {
+      this.handleControl(req, res, route.slice('/control/'.length));
+      return;
+    }
+
+    switch (req.method === 'GET' ? route : undefined) {
+      case '/health': {
+        const report = this.source.health();
+        this.send(res, report.healthy ? 200 : 503, 'application/json', JSON.stringify(report));
+        return;
+      }
+      case '/status':
+        this.send(res, 200, 'application/json', JSON.stringify(await this.source.status(), null, 2));
+        return;
+      case '/metrics':
+        this.send(res, 200, 'text/plain; version=0.0.4', this.source.metrics());
+        return;
+      default:
+        this.send(res, 404, 'application/json', JSON.stringify({ error: 'not found' }));
+    }
+  }
+
+  private handleControl(req: http.IncomingMessage, res: http.ServerResponse, command: string) {
+    if (req.headers.authorization !== `Bearer ${this.controlToken}`) {
+      this.send(res, 401, 'application/json', JSON.stringify({ error: 'invalid control token' }));
+      return;
+    }
+    if (!CONTROL_COMMANDS.includes(command as ControlCommand)) {
+      this.send(res, 400, 'application/json', JSON.stringify({ error: `unknown command ${command}` }));
+      return;
+    }
+
+    const state = this.source.control(command as ControlCommand);
+    this.send(res, 200, 'application/json', JSON.stringify({ command, state }));
+  }
+
+  private send(res: http.ServerResponse, status: number, contentType: string, body: string) {
+    res.writeHead(status, { 'Content-Type': contentType });
+    res.end(body);
+  }
+}
@@ -0,0 +1,33 @@
+import { ethers, network } from 'hardhat';
+import { config } from 'dotenv';
+import { loadManifest } from './deployment/manifestFile';
+import { checkInvariants, formatReport } from './deployment/invariants';
+import { createDeploymentInvariants } from './deployment/deploymentInvariants';
+import { loadProofOfReservePools } from './deployment/plan';
+
+config();
+
+// Usage: npx hardhat run scripts/verify-deployment.ts --network <network>
+// Exits non-zero when the on-chain wiring has drifted from deployments/<network>.json.
+async function main() {
+  const manifest = loadManifest(network.name);
+  const { chainId } = await ethers.provider.getNetwork();
+
+  if (Number(chainId) !== manifest.chainId) {
+    throw new Error(`Connected to chainId ${chainId}, but the ${network.name} manifest is for chainId ${manifest.chainId}`);
+  }
+
+  console.log(`🔍 Verifying ${network.name} deployment (manifest updated ${manifest.updatedAt})\n`);
+
+  const results = await checkInvariants(createDeploymentInvariants(manifest, loadProofOfReservePools()), manifest);
+  console.log(formatReport(results));
+
+  return results.every((result) => result.passed);
+}
+
+main()
+  .then((passed) => process.exit(passed ? 0 : 1))
+  .catch((error) => {
+    console.error('❌ Verification failed:', error.message || error);
+    process.exit(1);
+  });
@@ -0,0 +1,79 @@
+import { expect } from "chai";
+import {
+  CgminerClient,
+  CgminerTelemetrySource,
+  SimulatedMinerServer,
+  createAsicTelemetrySource,
+  parseCgminerUnits
+} from "../scripts/service/performance";
+
+describe("🌡️ ASIC Telemetry Tests", function () {
+  let miner: SimulatedMinerServer;
+  let port: number;
+
+  beforeEach(async function () {
+    miner = new SimulatedMinerServer();
+    ({ port } = await miner.start());
+  });
+
+  afterEach(async function () {
+    await miner.stop();
+  });
+
+  it("Should read bmminer's STATS reply despite the missing comma", async function () {
+    const stats = await new CgminerClient("127.0.0.1", port).command("stats");
+
+    expect(stats.STATS).to.have.length(2);
+    expect(stats.STATS[0].Type).to.equal("Antminer S21+");
+    expect(stats.STATS[1].fan_num).to.equal(4);
+  });
+
+  it("Should normalize hashrate, temperature, fans, power and shares per unit", async function () {
+    const source = new CgminerTelemetrySource(parseCgminerUnits(`antminer_s21_pool:s21plus-01@127.0.0.1:${port}`));
+
+    expect(await source.sampleUnits()).to.deep.equal([{
+      unitId: "s21plus-01",
+      poolId: "antminer_s21_pool",
+      online: true,
+      hashrateTHs: 216,
+      model: "Antminer S21+",
+      averageHashrateTHs: 215.4,
+      chipTempC: 74,
+      fanRpm: [5400, 5460, 5400, 5340],
+      powerW: 3510,
+      acceptedShares: 120000,
+      rejectedShares: 60,
+      hardwareErrors: 12,
+      stratumUrl: "stratum+tcp://stratum.example.com:3333"
+    }]);
+  });
+
+  it("Should report a unit offline when its pool is dead or it does not answer", async function () {
+    miner.state.poolAlive = false;
+    const units = parseCgminerUnits(`antminer_s21_pool:s21plus-01@127.0.0.1:${port}, antminer_s21_pool:s21plus-02@127.0.0.1:1`);
+
+    const [dead, unreachable] = await new CgminerTelemetrySource(units, 1000).sampleUnits();
+
+    expect(dead).to.deep.include({ online: false, hashrateTHs: 216 });
+    expect(unreachable).to.deep.include({ unitId: "s21plus-02", online: false, hashrateTHs: 0 });
+    expect(unreachable.error).to.contain("ECONNREFUSED");
+  });
+
+  it("Should surface CGMiner error replies", async function () {
+    try {
+      await new CgminerClient("127.0.0.1", port).command("restart");
+      expect.fail("Should have thrown");
+    } catch (error) {
+      expect((error as Error).name).to.equal("CgminerApiError");
+      expect((error as Error).message).to.contain("restart: Invalid command");
+    }
+  });
+
+  it("Should build the cgminer source from ASIC_TELEMETRY and ASIC_UNITS", function () {
+    const source = createAsicTelemetrySource({ ASIC_TELEMETRY: "cgminer", ASIC_UNITS: "antminer_s21_pool:s21plus-01@10.0.0.21" });
+    expect(source!.type).to.equal("cgminer");
+
+    expect(parseCgminerUnits("antminer_s21_pool:s21plus-01@10.0.0.21")[0].port).to.equal(4028);
+    expect(() => parseCgminerUnits("s21plus-01@10.0.0.21")).to.throw("expected poolId:unitId@host[:port]");
+  });
+});
@@ -0,0 +1,200 @@
+import { expect } from "chai";
+import http from "http";
+import { AddressInfo } from "net";
+import { MockEsploraServer } from "../scripts/sandbox/stubServers";
+import {
+  AddressUtxo,
+  BitcoinChainSource,
+  BitcoindRpcChainSource,
+  CrossCheckedChainSource,
+  EsploraChainSource,
+  RegtestStubChainSource,
+  buildAddressReserveProof,
+  createBitcoinChainSource,
+  regtestBlockHash,
+  utxoSetDigest
+} from "../scripts/service/bitcoin";
+
+const POOL_ADDRESS = "3FUpjxWpEDAMKLuhrsGgQ6bAf8m3EHHn2Y";
+const txid = (byte: string) => byte.repeat(32);
+
+const fixed = (type: string, height: number, hash = regtestBlockHash, utxos: AddressUtxo[] = []): BitcoinChainSource => ({
+  type,
+  getBlockHeight: async () => height,
+  getBlockHash: async (at: number) => hash(at),
+  getAddressUtxos: async () => utxos
+});
+
+const down = (type: string): BitcoinChainSource => ({
+  type,
+  getBlockHeight: async () => { throw new Error("connect ECONNREFUSED"); },
+  getBlockHash: async () => { throw new Error("connect ECONNREFUSED"); },
+  getAddressUtxos: async () => { throw new Error("connect ECONNREFUSED"); }
+});
+
+const expectRejection = async (promise: Promise<unknown>, message: string) => {
+  try {
+    await promise;
+    expect.fail("Should have thrown");
+  } catch (error) {
+    expect((error as Error).name).to.equal("BitcoinChainSourceError");
+    expect((error as Error).message).to.contain(message);
+  }
+};
+
+describe("⛓️ Bitcoin Chain Source Tests", function () {
+  describe("Sources", function () {
+    let esplora: MockEsploraServer;
+    let esploraUrl: string;
+    let bitcoind: http.Server;
+    let bitcoindUrl: string;
+    let authorization: string | undefined;
+
+    before(async function () {
+      esplora = new MockEsploraServer(850000);
+      esploraUrl = await esplora.start();
+
+      // Answers like bitcoind 25: RPC errors come back as HTTP 500 with an error object
+      bitcoind = http.createServer((req, res) => {
+        authorization = req.headers.authorization;
+        let body = "";
+        req.on("data", (chunk) => (body += chunk));
+        req.on("end", () => {
+          const { id, method, params } = JSON.parse(body);
+          if (method === "getblockcount" || method === "scantxoutset") {
+            const result = method === "getblockcount" ? 850000 : {
+              success: true,
+              height: 850000,
+              unspents: [{ txid: txid("ab"), vout: 1, amount: 0.29, height: 849990 }],
+              total_amount: 0.29
+            };
+            res.writeHead(200, { "Content-Type": "application/json" });
+            res.end(JSON.stringify({ result, error: null, id }));
+          } else {
+            res.writeHead(500, { "Content-Type": "application/json" });
+            res.end(JSON.stringify({ result: null, error: { code: -8, message: `Block height ${params[0]} out of range` }, id }));
+          }
+        });
+      });
+      await new Promise<void>((resolve) => bitcoind.listen(0, "127.0.0.1", () => resolve()));
+      bitcoindUrl = `http://127.0.0.1:${(bitcoind.address() as AddressInfo).port}`;
+    });
+
+    after(async function () {
+      await esplora.stop();
+      await new Promise<void>((resolve) => bitcoind.close(() => resolve()));
+    });
+
+    it("Should read the tip height, block hashes and address UTXOs from Esplora", async function () {
+      const source = new EsploraChainSource(esploraUrl);
+      const utxo = esplora.chain.receive(POOL_ADDRESS, 1500000);
+
+      expect(await source.getBlockHeight()).to.equal(850001);
+      expect(await source.getBlockHash(850000)).to.equal(regtestBlockHash(850000));
+      expect(await source.getAddressUtxos(POOL_ADDRESS)).to.deep.equal([utxo]);
+    });
+
+    it("Should call bitcoind with basic auth and surface RPC errors", async function () {
+      const source = new BitcoindRpcChainSource({ rpcUrl: bitcoindUrl, username: "miner", password: "secret" });
+
+      expect(await source.getBlockHeight()).to.equal(850000);
+      expect(authorization).to.equal(`Basic ${Buffer.from("miner:secret").toString("base64")}`);
+      expect(await source.getAddressUtxos(POOL_ADDRESS)).to.deep.equal([
+        { txid: txid("ab"), vout: 1, valueSats: 29000000, blockHeight: 849990 }
+      ]);
+      await expectRejection(source.getBlockHash(900000), "getblockhash failed: Block height 900000 out of range (code -8)");
+    });
+
+    it("Should only advance the regtest stub when blocks are mined", async function () {
+      const source = new RegtestStubChainSource();
+
+      expect(await source.getBlockHeight()).to.equal(101);
+      source.mine(6);
+      expect(await source.getBlockHeight()).to.equal(107);
+      await expectRejection(source.getBlockHash(108), "out of range");
+    });
+  });
+
+  describe("Cross-checking", function () {
+    it("Should return the lowest tip when sources are within the allowed drift", async function () {
+      const source = new CrossCheckedChainSource([fixed("esplora", 850001), fixed("bitcoind", 850000)], { minSources: 2, maxHeightDrift: 1 });
+
+      expect(await source.getBlockHeight()).to.equal(850000);
+    });
+
+    it("Should refuse a height when the sources disagree", async function () {
+      const lagging = new CrossCheckedChainSource([fixed("esplora", 850005), fixed("bitcoind", 850000)], { minSources: 2, maxHeightDrift: 1 });
+      await expectRejection(lagging.getBlockHeight(), "disagree on the tip height: esplora=850005, bitcoind=850000");
+
+      // Same height, different chain
+      const forked = new CrossCheckedChainSource(
+        [fixed("esplora", 850000), fixed("bitcoind", 850000, () => "00".repeat(32))],
+        { minSources: 2, maxHeightDrift: 1 }
+      );
+      await expectRejection(forked.getBlockHeight(), "disagree on block 850000");
+    });
+
+    it("Should refuse a height when too few sources answer instead of returning zero", async function () {
+      const source = new CrossCheckedChainSource([fixed("esplora", 850000), down("bitcoind")], { minSources: 2, maxHeightDrift: 1 });
+      await expectRejection(source.getBlockHeight(), "Only 1 of 2 required Bitcoin sources answered (bitcoind: connect ECONNREFUSED)");
+
+      const zero = new CrossCheckedChainSource([fixed("esplora", 0)], { minSources: 1, maxHeightDrift: 1 });
+      await expectRejection(zero.getBlockHeight(), "esplora: invalid block height 0");
+    });
+
+    it("Should refuse UTXOs the sources disagree on", async function () {
+      const utxo = { txid: txid("01"), vout: 0, valueSats: 5000, blockHeight: 849000 };
+      const source = new CrossCheckedChainSource(
+        [fixed("esplora", 850000, regtestBlockHash, [utxo]), fixed("bitcoind", 850000, regtestBlockHash, [])],
+        { minSources: 2, maxHeightDrift: 1 }
+      );
+
+      await expectRejection(source.getAddressUtxos(POOL_ADDRESS), "disagree on the UTXOs of 3FUpjx");
+    });
+  });
+
+  describe("Address reserve proofs", function () {
+    it("Should sum the confirmed UTXOs at the tip and commit to them in order", async function () {
+      const chain = new RegtestStubChainSource(850000);
+      const first = chain.receive(POOL_ADDRESS, 20000000);
+      const second = chain.receive(POOL_ADDRESS, 5000000);
+
+      const proof = await buildAddressReserveProof(chain, POOL_ADDRESS);
+
+      expect(proof).to.deep.include({ blockHeight: 850002, blockHash: regtestBlockHash(850002), balanceSats: 25000000, utxoCount: 2 });
+      // The digest does not depend on the order a source listed the outputs in
+      expect(proof.utxoSetDigest).to.equal(utxoSetDigest([second, first]));
+      expect(proof.utxoSetDigest).to.not.equal(utxoSetDigest([first]));
+    });
+
+    it("Should leave out outputs confirmed above the proven block", async function () {
+      const late = { txid: txid("02"), vout: 0, valueSats: 7000, blockHeight: 850001 };
+      const proof = await buildAddressReserveProof(fixed("esplora", 850000, regtestBlockHash, [late]), POOL_ADDRESS);
+
+      expect(proof).to.deep.include({ balanceSats: 0, utxoCount: 0 });
+    });
+
+    it("Should refuse a proof when a block is mined while the UTXOs are read", async function () {
+      const chain = new RegtestStubChainSource(850000);
+      const read = chain.getAddressUtxos.bind(chain);
+      chain.getAddressUtxos = async (address) => {
+        chain.mine();
+        return read(address);
+      };
+
+      await expectRejection(buildAddressReserveProof(chain, POOL_ADDRESS), "tip moved from block 850000 to 850001");
+    });
+  });
+
+  it("Should build the sources named in BITCOIN_SOURCES", async function () {
+    const source = createBitcoinChainSource({ BITCOIN_SOURCES: "esplora, regtest", BITCOIN_MIN_SOURCES: "1" });
+    expect(source.type).to.equal("esplora+regtest");
+
+    try {
+      createBitcoinChainSource({ BITCOIN_SOURCES: "bitcoind" });
+      expect.fail("Should have thrown");
+    } catch (error) {
+      expect((error as Error).message).to.contain("BITCOIND_RPC_URL is required");
+    }
+  });
+});
@@ -0,0 +1,57 @@
+import { expect } from "chai";
+import { addApprovalGas, calculateConversionCosts, totalCosts } from "../scripts/service/costs";
+
+describe("🧾 Conversion Cost Tests", function () {
+  // 60,000 gas at 2 gwei = 0.00012 ETH
+  const receipt = { gasUsed: 60000n, gasPrice: 2000000000n };
+
+  it("Should break a conversion down into fees, conversion loss and gas", async function () {
+    const costs = calculateConversionCosts(
+      { btcAmount: 0.1, cbbtcAmount: 0.099, sellFeeUSD: 30, buyFeeUSD: 14.7 },
+      receipt,
+      { btcUsd: 50000, ethUsd: 2500 }
+    );
+
+    expect(costs.exchangeFeesUSD).to.be.closeTo(44.7, 1e-9);
+    expect(costs.conversionLossBTC).to.be.closeTo(0.001, 1e-12);
+    expect(costs.effectiveGasPriceGwei).to.equal(2);
+    expect(costs.gasCostETH).to.be.closeTo(0.00012, 1e-15);
+    expect(costs.gasCostUSD).to.be.closeTo(0.3, 1e-9);
+    expect(costs.totalCostUSD).to.be.closeTo(50.3, 1e-9);
+  });
+
+  it("Should add the gas of each approve sent for the funding transaction", async function () {
+    // 46,000 gas at 1 gwei = 0.000046 ETH, approved twice (the first funding transaction reverted)
+    const approval = { gasUsed: 46000n, gasPrice: 1000000000n };
+    const conversion = { btcAmount: 0.1, cbbtcAmount: 0.099 };
+    const approvedOnce = { ...conversion, ...addApprovalGas(conversion, approval) };
+    const approved = { ...approvedOnce, ...addApprovalGas(approvedOnce, approval) };
+
+    const costs = calculateConversionCosts(approved, receipt, { btcUsd: 50000, ethUsd: 2500 });
+
+    expect(approved.approvalGasUsed).to.equal(92000);
+    expect(costs.gasUsed).to.equal(152000);
+    expect(costs.effectiveGasPriceGwei).to.equal(2);
+    expect(costs.gasCostETH).to.be.closeTo(0.000212, 1e-15);
+    expect(costs.gasCostUSD).to.be.closeTo(0.53, 1e-9);
+    expect(costs.totalCostUSD).to.be.closeTo(50.53, 1e-9);
+  });
+
+  it("Should total costed conversions and track unpriced gas", async function () {
+    const priced = calculateConversionCosts({ btcAmount: 0.1, cbbtcAmount: 0.099 }, receipt, { btcUsd: 50000, ethUsd: 2500 });
+    const unpriced = calculateConversionCosts({ btcAmount: 0.1, cbbtcAmount: 0.1, custodianFeeBTC: 0 }, receipt, { btcUsd: 50000, ethUsd: null });
+
+    const totals = totalCosts([
+      { btcAmount: 0.1, cbbtcAmount: 0.099, costs: priced },
+      { btcAmount: 0.1, cbbtcAmount: 0.1, costs: unpriced },
+      { btcAmount: 0.5 } // not completed yet
+    ]);
+
+    expect(totals.conversions).to.equal(2);
+    expect(totals.btcConverted).to.be.closeTo(0.2, 1e-12);
+    expect(totals.gasCostETH).to.be.closeTo(0.00024, 1e-15);
+    expect(totals.gasCostUSD).to.be.closeTo(0.3, 1e-9);
+    expect(totals.unpricedGasConversions).to.equal(1);
+    expect(totals.costShare).to.be.closeTo(50.3 / 10000, 1e-12);
+  });
+});
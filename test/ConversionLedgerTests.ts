@@ -0,0 +1,75 @@
+import { expect } from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { ConversionLedger } from "../scripts/service/conversionLedger";
+
+describe("📒 Conversion Ledger Tests", function () {
+  let dir: string;
+  let ledgerPath: string;
+
+  beforeEach(function () {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "conversion-ledger-"));
+    ledgerPath = path.join(dir, "ledger.jsonl");
+  });
+
+  afterEach(function () {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("Should resume a half-finished conversion after a restart", async function () {
+    const ledger = new ConversionLedger(ledgerPath);
+    const record = ledger.begin(0.05);
+    ledger.advance(record.idempotencyKey, "sold", { usdAmount: 3000 });
+    ledger.advance(record.idempotencyKey, "bought", { cbbtcAmount: 0.0499 });
+
+    const restarted = new ConversionLedger(ledgerPath);
+    const pending = restarted.pending();
+
+    expect(pending).to.have.length(1);
+    expect(pending[0].idempotencyKey).to.equal(record.idempotencyKey);
+    expect(pending[0].step).to.equal("bought");
+    expect(pending[0].usdAmount).to.equal(3000);
+    expect(pending[0].cbbtcAmount).to.equal(0.0499);
+  });
+
+  it("Should keep the signed funding transaction so the pool is not funded twice", async function () {
+    const ledger = new ConversionLedger(ledgerPath);
+    const record = ledger.begin(0.05);
+    ledger.advance(record.idempotencyKey, "funding", { transactionHash: "0xabc", signedTransaction: "0x02f8" });
+
+    const restarted = new ConversionLedger(ledgerPath);
+
+    expect(restarted.get(record.idempotencyKey)!.step).to.equal("funding");
+    expect(restarted.get(record.idempotencyKey)!.transactionHash).to.equal("0xabc");
+    expect(restarted.get(record.idempotencyKey)!.signedTransaction).to.equal("0x02f8");
+  });
+
+  it("Should not report completed or failed conversions as pending", async function () {
+    const ledger = new ConversionLedger(ledgerPath);
+    const done = ledger.begin(0.01);
+    const stuck = ledger.begin(0.02);
+    ledger.advance(done.idempotencyKey, "completed");
+    ledger.recordAttemptFailure(stuck.idempotencyKey, "exchange down");
+    ledger.advance(stuck.idempotencyKey, "failed");
+
+    const restarted = new ConversionLedger(ledgerPath);
+
+    expect(restarted.pending()).to.have.length(0);
+    expect(restarted.get(stuck.idempotencyKey)!.attempts).to.equal(1);
+    expect(restarted.get(stuck.idempotencyKey)!.lastError).to.equal("exchange down");
+  });
+
+  it("Should ignore a torn last entry left by a crash mid-write", async function () {
+    const ledger = new ConversionLedger(ledgerPath);
+    const record = ledger.begin(0.05);
+    fs.appendFileSync(ledgerPath, '{"key":"' + record.idempotencyKey + '","step":"so');
+
+    const restarted = new ConversionLedger(ledgerPath);
+
+    expect(restarted.get(record.idempotencyKey)!.step).to.equal("started");
+
+    restarted.advance(record.idempotencyKey, "sold", { usdAmount: 3000 });
+    expect(new ConversionLedger(ledgerPath).get(record.idempotencyKey)!.step).to.equal("sold");
+  });
+});
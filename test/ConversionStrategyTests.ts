@@ -0,0 +1,123 @@
+import { expect } from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { ConversionLedger } from "../scripts/service/conversionLedger";
+import {
+  ConversionEstimate,
+  ConversionStrategy,
+  CustodianClient,
+  SimulatedCustodian,
+  WrapConversionStrategy,
+  createConversionStrategies,
+  createCustodianClient,
+  selectStrategy
+} from "../scripts/service/conversion";
+import { MOCK_EXCHANGE_API_URL, MockExchangeAdapter } from "../scripts/service/exchanges";
+
+const WALLET = "0x1111111111111111111111111111111111111111";
+const POLL = { intervalMs: 1, timeoutMs: 1000 };
+
+// Strategy with a fixed estimate, for selection tests
+const fixed = (name: string, expectedCbbtcAmount: number | Error): ConversionStrategy => ({
+  name,
+  estimate: async (btcAmount): Promise<ConversionEstimate> => {
+    if (expectedCbbtcAmount instanceof Error) throw expectedCbbtcAmount;
+    return { strategy: name, btcAmount, expectedCbbtcAmount, netCostBTC: btcAmount - expectedCbbtcAmount, detail: "" };
+  },
+  acquire: async (record) => record
+});
+
+describe("🔀 Conversion Strategy Tests", function () {
+  let dir: string;
+  let ledger: ConversionLedger;
+
+  beforeEach(function () {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "conversion-strategy-"));
+    ledger = new ConversionLedger(path.join(dir, "ledger.jsonl"));
+  });
+
+  afterEach(function () {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("Should choose the strategy that delivers the most cbBTC", async function () {
+    const selection = await selectStrategy([fixed("exchange", 0.0995), fixed("wrap", 0.09998)], 0.1);
+
+    expect(selection.strategy.name).to.equal("wrap");
+    expect(selection.estimates.map((estimate) => estimate.strategy)).to.deep.equal(["wrap", "exchange"]);
+  });
+
+  it("Should skip strategies that cannot quote and fail only when none can", async function () {
+    const selection = await selectStrategy([fixed("wrap", new Error("custodian offline")), fixed("exchange", 0.0995)], 0.1);
+    expect(selection.strategy.name).to.equal("exchange");
+
+    try {
+      await selectStrategy([fixed("wrap", new Error("custodian offline"))], 0.1);
+      expect.fail("expected selection to fail");
+    } catch (error) {
+      expect((error as Error).message).to.contain("wrap: custodian offline");
+    }
+  });
+
+  it("Should build the wrap strategy only with the custodian named by CUSTODIAN", async function () {
+    const env = { CONVERSION_STRATEGIES: "exchange,wrap", CUSTODIAN: "simulated", SIMULATED_CUSTODIAN_BTC_BALANCE: "0.5" };
+    const dependencies = (custodian: CustodianClient | undefined) => ({
+      exchange: new MockExchangeAdapter({ type: "mock", apiUrl: MOCK_EXCHANGE_API_URL }),
+      custodian,
+      referencePrice: async () => 60000,
+      walletAddress: WALLET,
+      options: { ...POLL, maxSlippageBps: 100 }
+    });
+
+    const custodian = createCustodianClient(env) as SimulatedCustodian;
+    expect(custodian).to.be.instanceOf(SimulatedCustodian);
+    expect(custodian.btcBalance).to.equal(0.5);
+    expect(createConversionStrategies(dependencies(custodian), env).map((strategy) => strategy.name)).to.deep.equal(["exchange", "wrap"]);
+
+    expect(createCustodianClient({})).to.equal(undefined);
+    expect(() => createConversionStrategies(dependencies(createCustodianClient({})), env))
+      .to.throw("CONVERSION_STRATEGIES lists wrap but no custodian client is configured (set CUSTODIAN)");
+    expect(() => createCustodianClient({ CUSTODIAN: "fireblocks" })).to.throw('unknown custodian "fireblocks"');
+  });
+
+  it("Should wrap and withdraw through the custodian, journaling each step", async function () {
+    const delivered: string[] = [];
+    const custodian = new SimulatedCustodian({
+      btcBalance: 0.1,
+      wrapFeeBps: 10,
+      withdrawalFeeCbBTC: 0.00001,
+      pendingPolls: 1,
+      onWithdraw: async (amount, to) => { delivered.push(`${amount}->${to}`); return "0xwithdraw"; }
+    });
+    const strategy = new WrapConversionStrategy(custodian, WALLET, POLL);
+
+    const estimate = await strategy.estimate(0.1);
+    expect(estimate.expectedCbbtcAmount).to.equal(0.09989);
+
+    const record = await strategy.acquire(ledger.begin(0.1, { strategy: "wrap" }), ledger);
+
+    expect(record.step).to.equal("bought");
+    expect(record.strategy).to.equal("wrap");
+    expect(record.cbbtcAmount).to.equal(estimate.expectedCbbtcAmount);
+    expect(record.withdrawalTransactionHash).to.equal("0xwithdraw");
+    expect(delivered).to.deep.equal([`0.09989->${WALLET}`]);
+  });
+
+  it("Should resume from the wrapped step without wrapping twice", async function () {
+    const custodian = new SimulatedCustodian({ btcBalance: 0.1 });
+    const strategy = new WrapConversionStrategy(custodian, WALLET, POLL);
+    const started = ledger.begin(0.1, { strategy: "wrap" });
+
+    // Crash after the wrap was journaled but before the withdrawal
+    await custodian.wrap(0.1, `${started.idempotencyKey}:wrap`);
+    ledger.advance(started.idempotencyKey, "wrapped", { cbbtcAmount: 0.1 });
+
+    const resumed = new ConversionLedger(ledger.filePath);
+    const record = await strategy.acquire(resumed.get(started.idempotencyKey)!, resumed);
+
+    expect(record.step).to.equal("bought");
+    expect(custodian.operations.map((operation) => operation.kind)).to.deep.equal(["wrap", "withdraw"]);
+    expect(custodian.btcBalance).to.equal(0);
+  });
+});
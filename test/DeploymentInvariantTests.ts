@@ -0,0 +1,39 @@
+import { expect } from "chai";
+import { createManifest } from "../deployments/manifest";
+import { checkInvariants, expectAddressSet, formatReport, Invariant } from "../scripts/deployment/invariants";
+
+const DEPLOYER = "0x1111111111111111111111111111111111111111";
+const MINING_POOL = "0x2222222222222222222222222222222222222222";
+const AAVE = "0x3333333333333333333333333333333333333333";
+const STRANGER = "0x4444444444444444444444444444444444444444";
+
+describe("🔍 Deployment Invariant Tests", function () {
+  const manifest = createManifest("localhost", 31337, DEPLOYER);
+  manifest.contracts.MiningPool = { contract: "MiningPool", address: MINING_POOL, deployedAt: "2025-01-01T00:00:00.000Z" };
+
+  const invariant = (id: string, requires: string[], check: Invariant["check"]): Invariant =>
+    ({ id, description: id, requires, check });
+
+  it("Should report drift, missing contracts and failing reads without stopping", async function () {
+    const results = await checkInvariants([
+      invariant("holds", ["MiningPool"], async () => null),
+      invariant("drifted", ["MiningPool"], async () => "minters(0x22..) is false"),
+      invariant("undeployed", ["MiningPool", "ProofOfReserve"], async () => null),
+      invariant("unreachable", [], async () => { throw new Error("execution reverted"); })
+    ], manifest);
+
+    expect(results.map((result) => result.passed)).to.deep.equal([true, false, false, false]);
+    expect(results[1].detail).to.equal("minters(0x22..) is false");
+    expect(results[2].detail).to.equal("not in the manifest: ProofOfReserve");
+    expect(results[3].detail).to.equal("check failed: execution reverted");
+    expect(formatReport(results)).to.contain("3 of 4 invariants failed");
+  });
+
+  it("Should compare role holders as exact, case-insensitive sets", async function () {
+    const expected = { MiningPool: MINING_POOL, AaveIntegration: AAVE };
+
+    expect(expectAddressSet("OPERATOR_ROLE", [AAVE, MINING_POOL.toUpperCase().replace("0X", "0x")], expected)).to.equal(null);
+    expect(expectAddressSet("OPERATOR_ROLE", [MINING_POOL, STRANGER], expected))
+      .to.equal(`OPERATOR_ROLE missing AaveIntegration; OPERATOR_ROLE includes unexpected ${STRANGER}`);
+  });
+});
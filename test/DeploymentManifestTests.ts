@@ -0,0 +1,65 @@
+import { expect } from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { createManifest, parseManifest, requireAddresses } from "../deployments/manifest";
+import { loadManifest, loadOrCreateManifest, recordContract, saveManifest } from "../scripts/deployment/manifestFile";
+
+const DEPLOYER = "0x1111111111111111111111111111111111111111";
+const MINING_POOL = "0x2222222222222222222222222222222222222222";
+const CBBTC = "0xcbB7C0000aB88B473b1f5aFd9ef808440eed33Bf";
+
+describe("🗂️ Deployment Manifest Tests", function () {
+  let dir: string;
+
+  beforeEach(function () {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "deployments-"));
+  });
+
+  afterEach(function () {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("Should round-trip a manifest and add to it on the next deploy", async function () {
+    const manifest = loadOrCreateManifest("localhost", 31337, DEPLOYER, dir);
+    recordContract(manifest, "MiningPool", { contract: "MiningPool", address: MINING_POOL });
+    manifest.external.cbBTC = CBBTC;
+    saveManifest(manifest, dir);
+
+    const next = loadOrCreateManifest("localhost", 31337, DEPLOYER, dir);
+    recordContract(next, "SecureChainlinkOracle", { contract: "ChainlinkOracle", address: DEPLOYER });
+    saveManifest(next, dir);
+
+    const loaded = loadManifest("localhost", dir);
+    expect(loaded.contracts.MiningPool.address).to.equal(MINING_POOL);
+    expect(loaded.contracts.SecureChainlinkOracle.contract).to.equal("ChainlinkOracle");
+    expect(requireAddresses(loaded, ["MiningPool", "cbBTC"])).to.deep.equal({ MiningPool: MINING_POOL, cbBTC: CBBTC });
+  });
+
+  it("Should name every missing address in one error", async function () {
+    const manifest = createManifest("base", 8453, DEPLOYER);
+    manifest.contracts.MiningPool = { contract: "MiningPool", address: MINING_POOL, deployedAt: new Date().toISOString() };
+
+    expect(() => requireAddresses(manifest, ["MiningPool", "ProofOfReserve", "cbBTC"]))
+      .to.throw("Deployment manifest for base (chainId 8453) is missing addresses for: ProofOfReserve, cbBTC");
+  });
+
+  it("Should reject manifests that do not match the schema", async function () {
+    expect(() => parseManifest({ schemaVersion: 2 }, "base.json")).to.throw("unsupported schemaVersion 2, expected 1");
+
+    const manifest: any = createManifest("base", 8453, DEPLOYER);
+    manifest.contracts.MiningPool = { contract: "MiningPool", address: "0x1234", deployedAt: "now", args: CBBTC };
+    manifest.external.weth = CBBTC;
+
+    expect(() => parseManifest(manifest, "base.json"))
+      .to.throw(/contracts\.MiningPool\.address must be an address[\s\S]*contracts\.MiningPool\.args must be an array[\s\S]*external\.weth is not a known external contract/);
+  });
+
+  it("Should explain how to fix a missing manifest or a chain mismatch", async function () {
+    expect(() => loadManifest("base_sepolia", dir)).to.throw("No deployment manifest for base_sepolia");
+
+    saveManifest(createManifest("base", 8453, DEPLOYER), dir);
+    expect(() => loadOrCreateManifest("base", 84532, DEPLOYER, dir))
+      .to.throw("Manifest for base was written for chainId 8453, but the provider reports 84532");
+  });
+});
@@ -0,0 +1,125 @@
+import { expect } from "chai";
+import { createManifest, DeploymentManifest } from "../deployments/manifest";
+import { CallStep, DeploymentBackend, DeploymentOrchestrator, DeploymentStep, orderSteps } from "../scripts/deployment/orchestrator";
+
+const DEPLOYER = "0x1111111111111111111111111111111111111111";
+
+// In-memory chain: deployed code and the minter flags a wiring step reads and writes
+class FakeChain implements DeploymentBackend {
+  deployed: string[] = [];
+  code = new Set<string>();
+  minters = new Set<string>();
+  failOn?: string;
+
+  async deploy(contract: string, args: unknown[]) {
+    if (contract === this.failOn) throw new Error("out of gas");
+    const address = "0x" + (this.deployed.length + 1).toString(16).padStart(40, "0");
+    this.deployed.push(`${contract}(${args.join(",")})`);
+    this.code.add(address);
+    return { address, transactionHash: "0xdeploy" + this.deployed.length };
+  }
+
+  async hasCode(address: string) {
+    return this.code.has(address);
+  }
+}
+
+const plan = (chain: FakeChain): DeploymentStep[] => {
+  const addMinter: CallStep = {
+    kind: "call",
+    id: "minter:MiningPool",
+    dependsOn: ["MiningPool", "cbBTCMiningToken"],
+    description: "Adding MiningPool as minter",
+    isDone: async (ctx) => chain.minters.has(ctx.address("MiningPool")),
+    run: async (ctx) => {
+      chain.minters.add(ctx.address("MiningPool"));
+      return { hash: "0xminter", wait: async () => undefined };
+    }
+  };
+
+  return [
+    addMinter,
+    { kind: "deploy", id: "MiningPool", contract: "MiningPool", dependsOn: ["cbBTCMiningToken"], args: (ctx) => [ctx.address("cbBTCMiningToken")] },
+    { kind: "deploy", id: "cbBTCMiningToken", contract: "cbBTCMiningToken", args: () => [] }
+  ];
+};
+
+describe("🏗️ Deployment Orchestrator Tests", function () {
+  let chain: FakeChain;
+  let manifest: DeploymentManifest;
+  let saves: number;
+
+  const orchestrator = () => new DeploymentOrchestrator(plan(chain), manifest, DEPLOYER, chain, () => saves++);
+
+  beforeEach(function () {
+    chain = new FakeChain();
+    manifest = createManifest("localhost", 31337, DEPLOYER);
+    saves = 0;
+  });
+
+  it("Should deploy dependencies first and persist after each deployment", async function () {
+    const results = await orchestrator().run();
+
+    expect(results.map((result) => `${result.id}:${result.outcome}`)).to.deep.equal([
+      "cbBTCMiningToken:deployed",
+      "MiningPool:deployed",
+      "minter:MiningPool:called"
+    ]);
+    expect(chain.deployed[1]).to.equal(`MiningPool(${manifest.contracts.cbBTCMiningToken.address})`);
+    expect(saves).to.equal(2);
+  });
+
+  it("Should skip finished steps and only redo what is missing on a second run", async function () {
+    chain.failOn = "MiningPool";
+    try {
+      await orchestrator().run();
+      expect.fail("expected the deployment to fail");
+    } catch (error) {
+      expect((error as Error).message).to.equal("Deployment step MiningPool failed: out of gas");
+    }
+    expect(Object.keys(manifest.contracts)).to.deep.equal(["cbBTCMiningToken"]);
+
+    chain.failOn = undefined;
+    const results = await orchestrator().run();
+
+    expect(results.map((result) => result.outcome)).to.deep.equal(["skipped", "deployed", "called"]);
+    expect(chain.deployed).to.have.length(2);
+
+    const rerun = await orchestrator().run();
+    expect(rerun.every((result) => result.outcome === "skipped")).to.equal(true);
+  });
+
+  it("Should redeploy a manifest entry that has no code on chain", async function () {
+    await orchestrator().run();
+    chain.code.clear();
+    chain.minters.clear();
+
+    const results = await orchestrator().run();
+
+    expect(results.map((result) => result.outcome)).to.deep.equal(["deployed", "deployed", "called"]);
+  });
+
+  it("Should redeploy a contract whose constructor arguments changed", async function () {
+    await orchestrator().run();
+    expect(manifest.contracts.MiningPool.args).to.deep.equal([manifest.contracts.cbBTCMiningToken.address]);
+
+    manifest.contracts.MiningPool.args = [DEPLOYER];
+    const results = await orchestrator().run();
+
+    expect(results.map((result) => result.outcome)).to.deep.equal(["skipped", "deployed", "called"]);
+    expect(chain.deployed).to.have.length(3);
+
+    // Entries recorded before arguments were kept cannot be compared and are left alone
+    delete manifest.contracts.MiningPool.args;
+    const legacy = await orchestrator().run();
+    expect(legacy.every((result) => result.outcome === "skipped")).to.equal(true);
+  });
+
+  it("Should reject unknown dependencies and cycles", async function () {
+    const step = (id: string, dependsOn: string[]): DeploymentStep =>
+      ({ kind: "deploy", id, contract: id, dependsOn, args: () => [] });
+
+    expect(() => orderSteps([step("A", ["B"])])).to.throw("Step A depends on unknown step B");
+    expect(() => orderSteps([step("A", ["B"]), step("B", ["A"])])).to.throw("Deployment steps form a cycle: A → B → A");
+  });
+});
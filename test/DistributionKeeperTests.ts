@@ -0,0 +1,152 @@
+import { expect } from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { Interface, TransactionReceipt, TransactionResponse } from "ethers";
+import { DistributionContract, DistributionKeeper } from "../scripts/service/distributionKeeper";
+
+const ONE_DAY = 24 * 60 * 60;
+const EVENTS = new Interface(["event CbBTCRewardsDistributed(uint256 totalAmount, uint256 timestamp)"]);
+
+// Stand-in for MiningPool that follows distributeDailyCbBTCRewards' requires
+class FakeMiningPool {
+  lastDistribution = 1_700_000_000n;
+  rewardPool = 50_000_000n;
+  hashrate = 100n;
+  now = Number(this.lastDistribution) + ONE_DAY;
+  sent: string[] = [];
+  receipts = new Map<string, TransactionReceipt>();
+
+  contract(): DistributionContract {
+    const distribute = Object.assign(
+      async () => {
+        const hash = `0x${(this.sent.length + 1).toString(16).padStart(64, "0")}`;
+        this.sent.push(hash);
+        this.receipts.set(hash, this.receipt(hash));
+        return { hash };
+      },
+      { staticCall: async () => this.assertCanDistribute() }
+    );
+
+    return {
+      lastDistributionTime: async () => this.lastDistribution,
+      cbBTCRewardPool: async () => this.rewardPool,
+      totalHashrateStaked: async () => this.hashrate,
+      distributeDailyCbBTCRewards: distribute
+    };
+  }
+
+  private assertCanDistribute() {
+    if (this.hashrate === 0n) throw Object.assign(new Error("reverted"), { shortMessage: "MiningPool: no hashrate staked" });
+  }
+
+  receipt(hash: string): TransactionReceipt {
+    const { data, topics } = EVENTS.encodeEventLog("CbBTCRewardsDistributed", [25_000_000n, BigInt(this.now)]);
+    return { hash, status: 1, blockNumber: 42, gasUsed: 90_000n, logs: [{ data, topics }] } as unknown as TransactionReceipt;
+  }
+}
+
+describe("📅 Distribution Keeper Tests", function () {
+  let dir: string;
+  let pool: FakeMiningPool;
+
+  const createKeeper = () =>
+    new DistributionKeeper(
+      {
+        miningPool: pool.contract(),
+        latestTimestamp: async () => pool.now,
+        waitForReceipt: async (hash) => pool.receipts.get(hash) ?? null,
+        getTransaction: async (hash) => (pool.receipts.has(hash) ? ({ hash } as unknown as TransactionResponse) : null)
+      },
+      path.join(dir, "distributions.jsonl")
+    );
+
+  beforeEach(function () {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "distribution-keeper-"));
+    pool = new FakeMiningPool();
+  });
+
+  afterEach(function () {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("Should distribute once a day has passed and record the emitted event", async function () {
+    const record = await createKeeper().run();
+
+    expect(pool.sent).to.have.length(1);
+    expect(record).to.deep.equal({
+      transactionHash: pool.sent[0],
+      blockNumber: 42,
+      totalAmount: 0.25,
+      distributedAt: new Date(pool.now * 1000).toISOString(),
+      gasUsed: 90000
+    });
+    // Recorded events survive a restart
+    expect(createKeeper().last()).to.deep.equal(record);
+  });
+
+  it("Should skip without sending when not due or there is nothing to distribute", async function () {
+    pool.now -= 60;
+    const early = await createKeeper().check();
+    expect(early).to.deep.include({ due: false, reason: "last distribution was less than a day ago" });
+
+    pool.now += 60;
+    pool.rewardPool = 0n;
+    expect(await createKeeper().run()).to.equal(null);
+    expect(pool.sent).to.deep.equal([]);
+  });
+
+  it("Should not send a transaction the simulation shows would revert", async function () {
+    const keeper = createKeeper();
+    // Stakers leave after check() but before the call
+    keeper.check = async () => ({ due: true });
+    pool.hashrate = 0n;
+
+    try {
+      await keeper.run();
+      expect.fail("Should have thrown");
+    } catch (error) {
+      expect((error as Error).message).to.contain("MiningPool: no hashrate staked");
+    }
+    expect(pool.sent).to.deep.equal([]);
+  });
+
+  it("Should confirm a transaction sent before a restart instead of sending another", async function () {
+    const hash = `0x${"ab".repeat(32)}`;
+    fs.writeFileSync(path.join(dir, "distributions.jsonl"), JSON.stringify({ step: "submitted", transactionHash: hash, at: new Date().toISOString() }) + "\n");
+    pool.receipts.set(hash, pool.receipt(hash));
+
+    const record = await createKeeper().run();
+
+    expect(record!.transactionHash).to.equal(hash);
+    expect(pool.sent).to.deep.equal([]);
+  });
+
+  it("Should replace a transaction dropped from the mempool with a fresh distribution", async function () {
+    const hash = `0x${"cd".repeat(32)}`;
+    const submitted = { step: "submitted", transactionHash: hash, at: new Date().toISOString() };
+    fs.writeFileSync(
+      path.join(dir, "distributions.jsonl"),
+      JSON.stringify({ ...submitted, lastDistributionTime: (pool.lastDistribution - 1n).toString() }) + "\n"
+    );
+
+    // Something distributed since, so the missing transaction may have been mined: leave it to an operator
+    try {
+      await createKeeper().run();
+      expect.fail("Should have thrown");
+    } catch (error) {
+      expect((error as Error).message).to.equal(`Distribution ${hash} is still pending`);
+    }
+
+    fs.writeFileSync(
+      path.join(dir, "distributions.jsonl"),
+      JSON.stringify({ ...submitted, lastDistributionTime: pool.lastDistribution.toString() }) + "\n"
+    );
+    const record = await createKeeper().run();
+
+    expect(pool.sent).to.have.length(1);
+    expect(record!.transactionHash).to.equal(pool.sent[0]);
+    const steps = fs.readFileSync(path.join(dir, "distributions.jsonl"), "utf8").trim().split("\n").map((line) => JSON.parse(line).step);
+    expect(steps).to.deep.equal(["submitted", "dropped", "submitted", "distributed"]);
+  });
+});
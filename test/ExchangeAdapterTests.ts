@@ -0,0 +1,88 @@
+import { expect } from "chai";
+import {
+  ExchangeQuote,
+  MockExchangeAdapter,
+  MockExchangeServer,
+  SlippageExceededError,
+  adverseSlippageBps,
+  assertWithinSlippage,
+  createExchangeAdapter
+} from "../scripts/service/exchanges";
+
+describe("💱 Exchange Adapter Tests", function () {
+  let server: MockExchangeServer;
+  let adapter: MockExchangeAdapter;
+  const minted: number[] = [];
+
+  before(async function () {
+    server = new MockExchangeServer({
+      btcUsdPrice: 50000,
+      pendingPolls: 2,
+      onBuy: async (amount) => { minted.push(amount); }
+    });
+    adapter = new MockExchangeAdapter({ type: "mock", apiUrl: await server.start() });
+  });
+
+  after(async function () {
+    await server.stop();
+  });
+
+  it("Should select the adapter named by EXCHANGE", async function () {
+    expect(createExchangeAdapter({}).type).to.equal("coinbase");
+    expect(createExchangeAdapter({ EXCHANGE: "mock" }).type).to.equal("mock");
+    expect(() => createExchangeAdapter({ EXCHANGE: "kraken" })).to.throw("unknown exchange \"kraken\"");
+  });
+
+  it("Should quote, place and poll an order until it fills", async function () {
+    const quote = await adapter.quote("sell", 0.02);
+    expect(quote.price).to.equal(50000);
+    expect(quote.outputAmount).to.equal(1000);
+
+    const order = await adapter.execute(quote, "conv-1:sell");
+    expect(order.status).to.equal("pending");
+
+    expect((await adapter.getOrder("sell", order.orderId)).status).to.equal("pending");
+    const filled = await adapter.getOrder("sell", order.orderId);
+    expect(filled.status).to.equal("filled");
+    expect(filled.outputAmount).to.equal(1000);
+  });
+
+  it("Should return the original order when an idempotency key repeats", async function () {
+    const quote = await adapter.quote("buy", 1000);
+    const first = await adapter.execute(quote, "conv-1:buy");
+
+    server.setPrice(60000);
+    const retry = await adapter.execute(await adapter.quote("buy", 1000), "conv-1:buy");
+
+    expect(retry.orderId).to.equal(first.orderId);
+    expect(retry.outputAmount).to.equal(0.02);
+    expect(minted).to.deep.equal([0.02]);
+  });
+
+  it("Should report the fee separately from the pre-fee price", async function () {
+    const feeServer = new MockExchangeServer({ btcUsdPrice: 50000, feeBps: 50 });
+    const feeAdapter = new MockExchangeAdapter({ type: "mock", apiUrl: await feeServer.start() });
+
+    try {
+      const order = await feeAdapter.execute(await feeAdapter.quote("sell", 0.1), "conv-2:sell");
+
+      expect(order.price).to.equal(50000);
+      expect(order.feeUSD).to.equal(25);
+      expect(order.outputAmount).to.equal(4975);
+    } finally {
+      await feeServer.stop();
+    }
+  });
+
+  it("Should only count prices worse than the oracle as slippage", async function () {
+    const quote = (side: "sell" | "buy", price: number): ExchangeQuote =>
+      ({ side, inputAmount: 1, outputAmount: price, price });
+
+    expect(adverseSlippageBps(quote("sell", 49500), 50000)).to.be.closeTo(100, 1e-9);
+    expect(adverseSlippageBps(quote("sell", 50500), 50000)).to.equal(0);
+    expect(adverseSlippageBps(quote("buy", 50250), 50000)).to.be.closeTo(50, 1e-9);
+
+    expect(() => assertWithinSlippage(quote("buy", 50250), 50000, 50)).to.not.throw();
+    expect(() => assertWithinSlippage(quote("sell", 49000), 50000, 100)).to.throw(SlippageExceededError, "200.0 bps worse");
+  });
+});
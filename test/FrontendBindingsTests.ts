@@ -0,0 +1,52 @@
+import { expect } from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { ContractArtifact, findStaleBindings, renderBindings, writeBindings } from "../scripts/codegen/frontendBindings";
+
+const artifact = (contractName: string, abi: unknown[] = []): ContractArtifact => ({
+  contractName,
+  sourceName: `contracts/${contractName}.sol`,
+  abi
+});
+
+describe("🧬 Frontend Bindings Tests", function () {
+  let dir: string;
+
+  beforeEach(function () {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "frontend-bindings-"));
+  });
+
+  afterEach(function () {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("Should emit a const ABI per contract and an index", async function () {
+    const abi = [{ type: "function", name: "poolCount", inputs: [], outputs: [], stateMutability: "view" }];
+    const files = renderBindings([artifact("MiningPool", abi), artifact("ChainlinkOracle")]);
+
+    expect(files.map((file) => file.fileName)).to.deep.equal(["ChainlinkOracle.ts", "MiningPool.ts", "index.ts"]);
+    expect(files[1].content).to.contain("export const MiningPoolAbi = [");
+    expect(files[1].content).to.contain("] as const;");
+    expect(files[1].content).to.contain('"name": "poolCount"');
+    expect(files[2].content).to.contain("export * from './MiningPool';");
+  });
+
+  it("Should reject two contracts with the same name", async function () {
+    expect(() => renderBindings([artifact("MiningPool"), artifact("MiningPool")])).to.throw("Duplicate contract name");
+  });
+
+  it("Should report changed, missing and leftover binding files", async function () {
+    writeBindings(dir, renderBindings([artifact("MiningPool"), artifact("ProofOfReserve")]));
+    expect(findStaleBindings(dir, renderBindings([artifact("MiningPool"), artifact("ProofOfReserve")]))).to.deep.equal([]);
+
+    const updated = renderBindings([artifact("MiningPool", [{ type: "fallback" }]), artifact("TokenizedMining")]);
+
+    expect(findStaleBindings(dir, updated)).to.deep.equal([
+      "MiningPool.ts",
+      "ProofOfReserve.ts",
+      "TokenizedMining.ts",
+      "index.ts"
+    ]);
+  });
+});
@@ -0,0 +1,109 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import {
+  MachineRegistryClient,
+  MachineRegistryContract,
+  parseCommissioningDate,
+  parseMachineStatus
+} from "../scripts/machines/machineRegistry";
+import { MiningPricingClient, PricingContract, PricingParameters } from "../scripts/machines/miningPricing";
+
+const COMMISSIONED = parseCommissioningDate("2025-03-01");
+const S21_PLUS = { serialNumber: "JYZZB4BBBJJBD0123", hostingSite: "Paraguay DC-1 rack 4", commissionedAt: COMMISSIONED, ratedTh: 216 };
+const S21 = { serialNumber: "JYZZB4BBBJJBD0456", hostingSite: "Paraguay DC-1 rack 5", commissionedAt: COMMISSIONED, ratedTh: 200 };
+// Prices TH at $7,170 / 216 TH + 5%
+const S21_PLUS_PRICING: PricingParameters = {
+  networkDifficulty: 50000000000000n,
+  blockSubsidy: 312500000n,
+  blockFees: 2500000n,
+  energyPricePerKwh: 70000n,
+  machinePowerW: 3510n,
+  machineRatedTh: 216n,
+  equipmentCost: 7170000000n,
+  breakevenDays: 466n,
+  markupPercent: 5n
+};
+
+describe("🔧 Machine Registry Tests", function () {
+  async function deployTokenizedMiningFixture() {
+    const [owner, buyer] = await ethers.getSigners();
+    const usdc = await ethers.deployContract("MockERC20", ["USD Coin (mock)", "USDC", 6]);
+    const feed = await ethers.deployContract("MockChainlinkAggregator", ["BTC / USD (mock)", ethers.parseUnits("45000", 8)]);
+    const oracle = await ethers.deployContract("ChainlinkOracle", [await feed.getAddress()]);
+    const cbBTC = await ethers.deployContract("MockERC20", ["Coinbase Wrapped BTC (mock)", "cbBTC", 8]);
+    const tokenizedMining = await ethers.deployContract("TokenizedMining", [
+      await usdc.getAddress(),
+      await oracle.getAddress(),
+      await cbBTC.getAddress()
+    ]);
+    await new MiningPricingClient(tokenizedMining as unknown as PricingContract).update(S21_PLUS_PRICING);
+
+    await usdc.mint(buyer.address, ethers.parseUnits("100000", 6));
+    await usdc.connect(buyer).approve(await tokenizedMining.getAddress(), ethers.MaxUint256);
+
+    const registry = new MachineRegistryClient(tokenizedMining as unknown as MachineRegistryContract);
+    await registry.register(S21_PLUS);
+    await registry.register(S21);
+
+    return { tokenizedMining, usdc, cbBTC, registry, owner, buyer };
+  }
+
+  it("Should allocate TH against the chosen machine's remaining capacity", async function () {
+    const { tokenizedMining, buyer } = await loadFixture(deployTokenizedMiningFixture);
+    const mining = tokenizedMining.connect(buyer);
+
+    await expect(mining.purchaseMiningPosition(2, 50))
+      .to.emit(tokenizedMining, "PositionCreated")
+      .withArgs(1, buyer.address, 2, 50, 50n * 34854166n);
+    await mining.purchaseMiningPosition(2, 150);
+
+    await expect(mining.purchaseMiningPosition(2, 18)).to.be.revertedWith("Exceeds machine capacity");
+    await mining.purchaseMiningPosition(1, 18);
+
+    expect((await tokenizedMining.getPositionDetails(1)).machineId).to.equal(2n);
+    expect((await tokenizedMining.getPositionDetails(3)).machineId).to.equal(1n);
+    expect(await tokenizedMining.getAvailableTh()).to.equal(198n);
+    expect((await tokenizedMining.getEquipmentSpecs()).hashrate).to.equal(416n);
+  });
+
+  it("Should only sell TH on active machines and drop retired ones from the total hashrate", async function () {
+    const { tokenizedMining, registry, buyer } = await loadFixture(deployTokenizedMiningFixture);
+    const mining = tokenizedMining.connect(buyer);
+
+    await registry.setStatus(S21.serialNumber, "maintenance");
+    await expect(mining.purchaseMiningPosition(2, 18)).to.be.revertedWith("Machine not active");
+    expect(await tokenizedMining.getAvailableTh()).to.equal(216n);
+
+    expect(await registry.setStatus("2", "retired")).to.deep.include({ status: "retired", availableTh: 0 });
+    expect(await tokenizedMining.totalHashrate()).to.equal(216n);
+    await expect(tokenizedMining.setMachineStatus(2, 0)).to.be.revertedWith("Machine retired");
+    await expect(mining.purchaseMiningPosition(3, 18)).to.be.revertedWith("Machine does not exist");
+  });
+
+  it("Should restrict the registry to the owner and refuse duplicate serial numbers", async function () {
+    const { tokenizedMining, buyer } = await loadFixture(deployTokenizedMiningFixture);
+
+    await expect(tokenizedMining.connect(buyer).registerMachine("S21-X", "Home", 1, 216))
+      .to.be.revertedWith("Ownable: caller is not the owner");
+    await expect(tokenizedMining.registerMachine(S21_PLUS.serialNumber, "Elsewhere", 1, 216))
+      .to.be.revertedWith("Machine already registered");
+  });
+
+  it("Should resolve machines by serial or ID and keep registration idempotent", async function () {
+    const { registry } = await loadFixture(deployTokenizedMiningFixture);
+
+    expect(await registry.register(S21_PLUS)).to.deep.include({ machineId: 1, ratedTh: 216, allocatedTh: 0, status: "active" });
+    expect((await registry.setHostingSite("#1", "Paraguay DC-2 rack 1")).hostingSite).to.equal("Paraguay DC-2 rack 1");
+    expect((await registry.list()).map((machine) => machine.serialNumber)).to.deep.equal([S21_PLUS.serialNumber, S21.serialNumber]);
+
+    try {
+      await registry.register({ ...S21_PLUS, ratedTh: 230 });
+      expect.fail("Should have thrown");
+    } catch (error) {
+      expect((error as Error).name).to.equal("MachineRegistryError");
+      expect((error as Error).message).to.contain("already registered as #1 with different details");
+    }
+    expect(() => parseMachineStatus("broken")).to.throw("expected active, maintenance, retired");
+  });
+});
@@ -0,0 +1,162 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { MachineRegistryClient, MachineRegistryContract, parseCommissioningDate } from "../scripts/machines/machineRegistry";
+import { MachineSettlementClient, SettlementContract, SettlementToken } from "../scripts/machines/machineSettlement";
+import { MiningPricingClient, PricingContract, PricingParameters } from "../scripts/machines/miningPricing";
+
+const S21_PLUS = {
+  serialNumber: "JYZZB4BBBJJBD0123",
+  hostingSite: "Paraguay DC-1 rack 4",
+  commissionedAt: parseCommissioningDate("2025-03-01"),
+  ratedTh: 216
+};
+const SALE_PROCEEDS = 5000000n; // 0.05 cbBTC
+const DAY = 24 * 60 * 60;
+// Positions earn $0.02973/TH/day at $45,000
+const S21_PLUS_PRICING: PricingParameters = {
+  networkDifficulty: 50000000000000n,
+  blockSubsidy: 312500000n,
+  blockFees: 2500000n,
+  energyPricePerKwh: 70000n,
+  machinePowerW: 3510n,
+  machineRatedTh: 216n,
+  equipmentCost: 7170000000n,
+  breakevenDays: 466n,
+  markupPercent: 5n
+};
+
+describe("♻️ Machine Settlement Tests", function () {
+  async function deploySettlementFixture() {
+    const [owner, alice, bob] = await ethers.getSigners();
+    const usdc = await ethers.deployContract("MockERC20", ["USD Coin (mock)", "USDC", 6]);
+    const feed = await ethers.deployContract("MockChainlinkAggregator", ["BTC / USD (mock)", ethers.parseUnits("45000", 8)]);
+    const oracle = await ethers.deployContract("ChainlinkOracle", [await feed.getAddress()]);
+    const cbBTC = await ethers.deployContract("MockERC20", ["Coinbase Wrapped BTC (mock)", "cbBTC", 8]);
+    const tokenizedMining = await ethers.deployContract("TokenizedMining", [
+      await usdc.getAddress(),
+      await oracle.getAddress(),
+      await cbBTC.getAddress()
+    ]);
+    await new MiningPricingClient(tokenizedMining as unknown as PricingContract).update(S21_PLUS_PRICING);
+
+    const registry = new MachineRegistryClient(tokenizedMining as unknown as MachineRegistryContract);
+    await registry.register(S21_PLUS);
+
+    // Alice holds 18 TH and Bob 30 TH of the 216 TH machine
+    for (const [buyer, thAmount] of [[alice, 18], [bob, 30]] as const) {
+      await usdc.mint(buyer.address, ethers.parseUnits("10000", 6));
+      await usdc.connect(buyer).approve(await tokenizedMining.getAddress(), ethers.MaxUint256);
+      await tokenizedMining.connect(buyer).purchaseMiningPosition(1, thAmount);
+    }
+    await usdc.mint(await tokenizedMining.getAddress(), ethers.parseUnits("10000", 6));
+    await cbBTC.mint(owner.address, 100000000n);
+
+    const settlement = new MachineSettlementClient(
+      tokenizedMining as unknown as SettlementContract,
+      cbBTC as unknown as SettlementToken,
+      owner.address
+    );
+
+    return { tokenizedMining, usdc, cbBTC, registry, settlement, alice, bob };
+  }
+
+  it("Should only record the sale of a retired machine, funded with the holders' share", async function () {
+    const { tokenizedMining, cbBTC, registry, settlement, alice } = await loadFixture(deploySettlementFixture);
+
+    await expect(tokenizedMining.recordMachineSale(1, SALE_PROCEEDS)).to.be.revertedWith("Machine not retired");
+    const machine = await registry.setStatus(S21_PLUS.serialNumber, "retired");
+    await expect(tokenizedMining.connect(alice).recordMachineSale(1, SALE_PROCEEDS))
+      .to.be.revertedWith("Ownable: caller is not the owner");
+
+    const report = await settlement.settle(machine, SALE_PROCEEDS);
+
+    // 48 of 216 TH were sold, so holders get 48/216 of the proceeds
+    expect(report).to.deep.include({ saleProceeds: SALE_PROCEEDS, payoutPool: 1111111n, paidOut: 0n, redeemedTh: 0 });
+    expect(report.outstanding.map((position) => [position.tokenId, position.thAmount, position.payout])).to.deep.equal([
+      [1, 18, 416666n],
+      [2, 30, 694444n]
+    ]);
+    expect(await cbBTC.balanceOf(await tokenizedMining.getAddress())).to.equal(1111111n);
+
+    try {
+      await settlement.settle(machine, SALE_PROCEEDS);
+      expect.fail("Should have thrown");
+    } catch (error) {
+      expect((error as Error).name).to.equal("MachineRegistryError");
+      expect((error as Error).message).to.contain("its sale is already recorded");
+    }
+  });
+
+  it("Should burn redeemed positions and pay the last holder the rounding remainder", async function () {
+    const { tokenizedMining, cbBTC, registry, settlement, alice, bob } = await loadFixture(deploySettlementFixture);
+    const machine = await registry.setStatus(S21_PLUS.serialNumber, "retired");
+    await settlement.settle(machine, SALE_PROCEEDS);
+
+    await expect(tokenizedMining.connect(alice).redeemPosition(1))
+      .to.emit(tokenizedMining, "PositionRedeemed")
+      .withArgs(1, alice.address, 1, 18, 416666n);
+    await expect(tokenizedMining.connect(bob).redeemPosition(1)).to.be.revertedWith("ERC721: invalid token ID");
+    await tokenizedMining.connect(bob).redeemPosition(2);
+
+    expect(await cbBTC.balanceOf(alice.address)).to.equal(416666n);
+    expect(await cbBTC.balanceOf(bob.address)).to.equal(694445n);
+    expect(await tokenizedMining.getUserPositions(alice.address)).to.have.length(0);
+    expect(await cbBTC.balanceOf(await tokenizedMining.getAddress())).to.equal(0n);
+    expect(await settlement.report(machine)).to.deep.include({ paidOut: 1111111n, redeemedTh: 48, outstanding: [] });
+  });
+
+  it("Should list a transferred position under its new owner until they redeem it", async function () {
+    const { tokenizedMining, registry, settlement, alice, bob } = await loadFixture(deploySettlementFixture);
+    const machine = await registry.setStatus(S21_PLUS.serialNumber, "retired");
+    await settlement.settle(machine, SALE_PROCEEDS);
+
+    await tokenizedMining.connect(alice).transferFrom(alice.address, bob.address, 1);
+    expect(await tokenizedMining.getUserPositions(alice.address)).to.deep.equal([]);
+    expect(await tokenizedMining.getUserPositions(bob.address)).to.deep.equal([2n, 1n]);
+
+    await tokenizedMining.connect(bob).redeemPosition(1);
+    expect(await tokenizedMining.getUserPositions(alice.address)).to.deep.equal([]);
+    expect(await tokenizedMining.getUserPositions(bob.address)).to.deep.equal([2n]);
+  });
+
+  it("Should stop accruing at retirement and pay unclaimed earnings on redemption", async function () {
+    const { tokenizedMining, registry, settlement, alice } = await loadFixture(deploySettlementFixture);
+    const mining = tokenizedMining.connect(alice);
+
+    await expect(mining.redeemPosition(1)).to.be.revertedWith("Machine not settled");
+
+    const { purchaseTime } = await tokenizedMining.positions(1);
+    await time.setNextBlockTimestamp(purchaseTime + BigInt(DAY));
+    const machine = await registry.setStatus(S21_PLUS.serialNumber, "retired");
+
+    // Days after retirement earn nothing
+    await time.increase(3 * DAY);
+    expect((await tokenizedMining.getPendingEarnings(1)).miningEarnings).to.equal(18n * 29730n);
+
+    await settlement.settle(machine, SALE_PROCEEDS);
+    await expect(mining.redeemPosition(1))
+      .to.emit(tokenizedMining, "EarningsClaimed")
+      .withArgs(1, alice.address, 18n * 29730n, 0n)
+      .and.to.emit(tokenizedMining, "PositionRedeemed");
+  });
+
+  it("Should forfeit unclaimed earnings rather than hold back the cbBTC when no USDC is funded", async function () {
+    const { tokenizedMining, usdc, cbBTC, registry, settlement, bob } = await loadFixture(deploySettlementFixture);
+
+    const { purchaseTime } = await tokenizedMining.positions(2);
+    await time.setNextBlockTimestamp(purchaseTime + BigInt(2 * DAY));
+    const machine = await registry.setStatus(S21_PLUS.serialNumber, "retired");
+    await settlement.settle(machine, SALE_PROCEEDS);
+    await tokenizedMining.emergencyWithdraw(await usdc.balanceOf(await tokenizedMining.getAddress()));
+
+    const mining = tokenizedMining.connect(bob);
+    await expect(mining.claimEarnings(2)).to.be.revertedWith("Insufficient contract balance");
+    await expect(mining.redeemPosition(2))
+      .to.emit(tokenizedMining, "EarningsForfeited")
+      .withArgs(2, bob.address, 30n * 29730n * 2n)
+      .and.to.emit(tokenizedMining, "PositionRedeemed")
+      .withArgs(2, bob.address, 1, 30, 694444n);
+    expect(await cbBTC.balanceOf(bob.address)).to.equal(694444n);
+  });
+});
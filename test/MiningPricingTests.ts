@@ -0,0 +1,126 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { MachineRegistryClient, MachineRegistryContract, parseCommissioningDate } from "../scripts/machines/machineRegistry";
+import { MiningPricingClient, PricingContract, PricingParameters, parsePricingAssignments } from "../scripts/machines/miningPricing";
+
+const BTC_PRICE = ethers.parseUnits("45000", 8);
+const DAY = 24 * 60 * 60;
+const S21_PLUS_PRICING: PricingParameters = {
+  networkDifficulty: 50000000000000n,
+  blockSubsidy: 312500000n,
+  blockFees: 2500000n,
+  energyPricePerKwh: 70000n, // $0.07
+  machinePowerW: 3510n,
+  machineRatedTh: 216n,
+  equipmentCost: 7170000000n, // $7,170
+  breakevenDays: 466n,
+  markupPercent: 5n
+};
+
+describe("💲 Mining Pricing Tests", function () {
+  async function deployPricingFixture() {
+    const [owner, buyer, operator] = await ethers.getSigners();
+    const usdc = await ethers.deployContract("MockERC20", ["USD Coin (mock)", "USDC", 6]);
+    const feed = await ethers.deployContract("MockChainlinkAggregator", ["BTC / USD (mock)", BTC_PRICE]);
+    const oracle = await ethers.deployContract("ChainlinkOracle", [await feed.getAddress()]);
+    const cbBTC = await ethers.deployContract("MockERC20", ["Coinbase Wrapped BTC (mock)", "cbBTC", 8]);
+    const tokenizedMining = await ethers.deployContract("TokenizedMining", [
+      await usdc.getAddress(),
+      await oracle.getAddress(),
+      await cbBTC.getAddress()
+    ]);
+
+    await new MachineRegistryClient(tokenizedMining as unknown as MachineRegistryContract).register({
+      serialNumber: "JYZZB4BBBJJBD0123",
+      hostingSite: "Paraguay DC-1 rack 4",
+      commissionedAt: parseCommissioningDate("2025-03-01"),
+      ratedTh: 216
+    });
+    await usdc.mint(buyer.address, ethers.parseUnits("10000", 6));
+    await usdc.connect(buyer).approve(await tokenizedMining.getAddress(), ethers.MaxUint256);
+
+    const pricing = new MiningPricingClient(tokenizedMining as unknown as PricingContract);
+    return { tokenizedMining, feed, pricing, buyer, operator };
+  }
+
+  it("Should derive the TH price from the hashprice, floored at the equipment cost per TH", async function () {
+    const { tokenizedMining, pricing, buyer } = await loadFixture(deployPricingFixture);
+
+    await expect(tokenizedMining.connect(buyer).purchaseMiningPosition(1, 18)).to.be.revertedWith("Pricing not set");
+    await pricing.update(S21_PLUS_PRICING);
+
+    // 3.15 BTC a block at 50T difficulty and $45,000 earns $0.05703/TH/day, less $0.0273 of energy
+    expect(await pricing.quote()).to.deep.equal({
+      btcPrice: 45000000000n,
+      revenuePerTh: 57030n,
+      energyCostPerTh: 27300n,
+      dailyEarningsPerTh: 29730n,
+      thPrice: 34854166n // $7,170 / 216 TH + 5%
+    });
+    await expect(tokenizedMining.connect(buyer).purchaseMiningPosition(1, 18))
+      .to.emit(tokenizedMining, "PositionCreated")
+      .withArgs(1, buyer.address, 1, 18, 18n * 34854166n);
+
+    // At 20T the earnings of 466 days are worth more than the equipment
+    await pricing.update({ networkDifficulty: 20000000000000n });
+    expect((await pricing.quote()).thPrice).to.equal(56404546n);
+    expect(await tokenizedMining.calculatePurchaseCost(18)).to.equal(18n * 56404546n);
+  });
+
+  it("Should accrue each period at the hashprice it was mined at, not the one of the claim", async function () {
+    const { tokenizedMining, feed, pricing, buyer, operator } = await loadFixture(deployPricingFixture);
+    await pricing.update(S21_PLUS_PRICING);
+    await tokenizedMining.setPricingOperator(operator.address, true);
+    const mining = tokenizedMining.connect(buyer);
+    await mining.purchaseMiningPosition(1, 18);
+    const purchasedAt = await time.latest();
+
+    // A day at $45,000, then BTC doubles and an operator locks the new price in
+    await time.setNextBlockTimestamp(purchasedAt + DAY - 1);
+    await feed.updateAnswer(ethers.parseUnits("90000", 8));
+    await time.setNextBlockTimestamp(purchasedAt + DAY);
+    const operatorPricing = new MiningPricingClient(tokenizedMining.connect(operator) as unknown as PricingContract);
+    expect((await operatorPricing.checkpoint()).earningsRatePerTh).to.equal(86760n);
+    expect((await tokenizedMining.getPendingEarnings(1)).miningEarnings).to.equal(18n * 29730n);
+
+    // BTC falls back before the next day is checkpointed, which at 200T earns nothing
+    await time.setNextBlockTimestamp(purchasedAt + 2 * DAY - 1);
+    await feed.updateAnswer(BTC_PRICE);
+    await time.setNextBlockTimestamp(purchasedAt + 2 * DAY);
+    await pricing.update({ networkDifficulty: 200000000000000n });
+    expect((await pricing.earnings()).earningsRatePerTh).to.equal(0n);
+
+    // Accrued earnings need no fresh price to read or claim
+    await time.increase(3 * DAY);
+    expect((await tokenizedMining.getPendingEarnings(1)).miningEarnings).to.equal(18n * (29730n + 86760n));
+    await expect(mining.claimEarnings(1))
+      .to.emit(tokenizedMining, "EarningsClaimed")
+      .withArgs(1, buyer.address, 18n * (29730n + 86760n), 0n);
+
+    await feed.updateAnswer(BTC_PRICE);
+    expect(await tokenizedMining.calculateBreakevenDays(18, false)).to.equal(ethers.MaxUint256);
+  });
+
+  it("Should let pricing operators update network data but not the economics", async function () {
+    const { tokenizedMining, pricing, operator } = await loadFixture(deployPricingFixture);
+    await pricing.update(S21_PLUS_PRICING);
+    const operatorPricing = new MiningPricingClient(tokenizedMining.connect(operator) as unknown as PricingContract);
+
+    await expect(operatorPricing.update({ networkDifficulty: 60000000000000n })).to.be.revertedWith("Not pricing operator");
+    await tokenizedMining.setPricingOperator(operator.address, true);
+
+    const changes = parsePricingAssignments(["difficulty=60,000,000,000,000.75", "fees=0.031"]);
+    expect(await operatorPricing.update(changes)).to.deep.include({ networkDifficulty: 60000000000000n, blockFees: 3100000n });
+    await expect(operatorPricing.update({ markupPercent: 10n })).to.be.revertedWith("Ownable: caller is not the owner");
+
+    try {
+      parsePricingAssignments(["energy=cheap", "hashrate=216"]);
+      expect.fail("Should have thrown");
+    } catch (error) {
+      expect((error as Error).name).to.equal("PricingError");
+      expect((error as Error).message).to.contain('energy must be a number in USD/kWh, got "cheap"');
+      expect((error as Error).message).to.contain('"hashrate=216" is not one of difficulty=');
+    }
+  });
+});
@@ -0,0 +1,90 @@
+import { expect } from "chai";
+import { PoolBalance } from "../scripts/service/pools";
+import {
+  PerformanceTracker,
+  StubAsicTelemetrySource,
+  createAsicTelemetrySource,
+  parseStubUnits
+} from "../scripts/service/performance";
+
+const HOUR = 60 * 60 * 1000;
+
+const poolBalance = (currentTHs: number, workersOnline: boolean[] = [true], blocksFound24h?: number): PoolBalance => ({
+  poolId: "antminer_s21_pool",
+  btcBalance: 0.015,
+  pendingBTC: 0,
+  payouts: [],
+  hashrate: { currentTHs, average24hTHs: currentTHs, blocksFound24h },
+  workers: workersOnline.map((online, index) => ({ name: `s21plus-0${index + 1}`, online, hashrateTHs: online ? currentTHs : 0 })),
+  lastUpdate: new Date()
+});
+
+describe("📈 Performance Tracker Tests", function () {
+  let now: number;
+  let tracker: PerformanceTracker;
+
+  beforeEach(function () {
+    now = 1_700_000_000_000;
+    tracker = new PerformanceTracker({ ratedTHsPerUnit: 216, windowMs: 24 * HOUR }, () => now);
+  });
+
+  it("Should take the lower of pool and ASIC hashrate and rate it against 216 TH/s per unit", async function () {
+    const telemetry = new StubAsicTelemetrySource(parseStubUnits("antminer_s21_pool:s21plus-01:210"));
+    tracker.record([poolBalance(194.4, [true], 2)], await telemetry.sampleUnits());
+
+    expect(tracker.report("antminer_s21_pool")).to.deep.equal({
+      poolId: "antminer_s21_pool",
+      ratedTHs: 216,
+      poolTHs: 194.4,
+      asicTHs: 210,
+      actualTHs: 194.4,
+      efficiency: 90,
+      uptime: 100,
+      blocksFound24h: 2,
+      samples: 1
+    });
+  });
+
+  it("Should cap an overclocked unit at its rated hashrate", async function () {
+    tracker.record([poolBalance(230)]);
+
+    expect(tracker.report("antminer_s21_pool")).to.deep.include({ actualTHs: 216, efficiency: 100, blocksFound24h: 0 });
+  });
+
+  it("Should average uptime over the last 24h of observations", async function () {
+    const telemetry = new StubAsicTelemetrySource(parseStubUnits("antminer_s21_pool:s21plus-01, antminer_s21_pool:s21plus-02"));
+
+    // Both units up, then one down for three observations
+    tracker.record([poolBalance(432, [true, true])], await telemetry.sampleUnits());
+    telemetry.setUnit("s21plus-02", { online: false, hashrateTHs: 0 });
+    for (let hour = 1; hour <= 3; hour++) {
+      now += HOUR;
+      tracker.record([poolBalance(216, [true, false])], await telemetry.sampleUnits());
+    }
+
+    expect(tracker.report("antminer_s21_pool")).to.deep.include({ ratedTHs: 432, asicTHs: 216, efficiency: 50, uptime: 63, samples: 4 });
+
+    // The all-up observation falls out of the window
+    now += 22 * HOUR;
+    tracker.record([poolBalance(216, [true, false])], await telemetry.sampleUnits());
+    expect(tracker.report("antminer_s21_pool")).to.deep.include({ uptime: 50, samples: 4 });
+  });
+
+  it("Should fall back to pool workers for uptime without ASIC telemetry", async function () {
+    tracker.record([poolBalance(216, [true, false, true, true])]);
+
+    expect(tracker.report("antminer_s21_pool")).to.deep.include({ ratedTHs: 864, asicTHs: null, uptime: 75 });
+    expect(tracker.report("unknown_pool")).to.equal(null);
+  });
+
+  it("Should build telemetry from ASIC_TELEMETRY and reject malformed stub units", async function () {
+    expect(createAsicTelemetrySource({})).to.equal(null);
+
+    const stub = createAsicTelemetrySource({ ASIC_TELEMETRY: "stub", ASIC_STUB_UNITS: "antminer_s21_pool:s21plus-01" });
+    expect(await stub!.sampleUnits()).to.deep.equal([
+      { unitId: "s21plus-01", poolId: "antminer_s21_pool", online: true, hashrateTHs: 216 }
+    ]);
+
+    expect(() => parseStubUnits("antminer_s21_pool")).to.throw("expected poolId:unitId[:THs]");
+  });
+});
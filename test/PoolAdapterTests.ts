@@ -0,0 +1,84 @@
+import { expect } from "chai";
+import {
+  MockPoolAdapter,
+  MockPoolServer,
+  createDefaultPoolAdapterRegistry
+} from "../scripts/service/pools";
+
+describe("⛏️ Mining Pool Adapter Tests", function () {
+  let server: MockPoolServer;
+  let url: string;
+
+  before(async function () {
+    server = new MockPoolServer();
+    server.setPool("mock_btc_pool", { balance_btc: 0.25, pending_btc: 0.01 });
+    url = await server.start();
+  });
+
+  after(async function () {
+    await server.stop();
+  });
+
+  describe("🔌 Registry", function () {
+
+    it("Should create adapters for every pool listed in MINING_POOLS", async function () {
+      const registry = createDefaultPoolAdapterRegistry();
+      const adapters = registry.createEnabledAdapters({
+        MINING_POOLS: "luxor, braiins,mock",
+        MOCK_API_URL: url
+      });
+
+      expect(adapters.map((adapter) => adapter.type)).to.deep.equal(["luxor", "braiins", "mock"]);
+      expect(adapters[0].poolId).to.equal("luxor_btc_pool");
+    });
+
+    it("Should reject unknown pool types", async function () {
+      const registry = createDefaultPoolAdapterRegistry();
+
+      expect(() => registry.loadConfigs({ MINING_POOLS: "luxor,unknownpool" })).to.throw("unknownpool");
+    });
+
+    it("Should let callers register new pools without touching the service", async function () {
+      const registry = createDefaultPoolAdapterRegistry();
+      registry.register("custom", (config) => new MockPoolAdapter(config), url, "mock_btc_pool");
+
+      const [adapter] = registry.createEnabledAdapters({ MINING_POOLS: "custom" });
+      const balance = await adapter.fetchBalance();
+
+      expect(balance.poolId).to.equal("mock_btc_pool");
+      expect(balance.btcBalance).to.equal(0.25);
+    });
+  });
+
+  describe("📊 Normalized balances", function () {
+
+    it("Should return payouts, hashrate and workers from the mock stub", async function () {
+      server.setPool("mock_btc_pool", {
+        payouts: [{ txid: "ab".repeat(32), amount_btc: 0.005, paid_at: "2025-01-01T00:00:00Z" }]
+      });
+
+      const adapter = new MockPoolAdapter({ type: "mock", poolId: "mock_btc_pool", apiUrl: url });
+      const balance = await adapter.fetchBalance();
+
+      expect(balance.btcBalance).to.equal(0.25);
+      expect(balance.pendingBTC).to.equal(0.01);
+      expect(balance.hashrate.currentTHs).to.equal(216);
+      expect(balance.workers).to.have.length(1);
+      expect(balance.workers[0].online).to.equal(true);
+      expect(balance.payouts[0].amountBTC).to.equal(0.005);
+      expect(balance.payouts[0].paidAt.toISOString()).to.equal("2025-01-01T00:00:00.000Z");
+    });
+
+    it("Should fail for pools the stub does not know", async function () {
+      const adapter = new MockPoolAdapter({ type: "mock", poolId: "missing_pool", apiUrl: url });
+
+      let failed = false;
+      try {
+        await adapter.fetchBalance();
+      } catch (error) {
+        failed = true;
+      }
+      expect(failed).to.equal(true);
+    });
+  });
+});
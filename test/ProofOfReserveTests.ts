@@ -0,0 +1,64 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { RegtestStubChainSource, buildAddressReserveProof } from "../scripts/service/bitcoin";
+
+const POOL_ID = "antminer_s21_pool";
+const POOL_ADDRESS = "3FUpjxWpEDAMKLuhrsGgQ6bAf8m3EHHn2Y";
+
+describe("🧾 Proof of Reserve Tests", function () {
+  async function deployProofOfReserveFixture() {
+    const [owner, stranger] = await ethers.getSigners();
+    const proofOfReserve = await ethers.deployContract("ProofOfReserve");
+    await proofOfReserve.addPool(POOL_ID, POOL_ADDRESS);
+
+    const chain = new RegtestStubChainSource(850000);
+    chain.receive(POOL_ADDRESS, 20000000);
+    chain.receive(POOL_ADDRESS, 5000000);
+    const proof = await buildAddressReserveProof(chain, POOL_ADDRESS);
+
+    const utxoArgs = (utxos = proof.utxos) =>
+      [utxos.map((utxo) => `0x${utxo.txid}`), utxos.map((utxo) => utxo.vout), utxos.map((utxo) => utxo.valueSats)] as const;
+
+    return { proofOfReserve, owner, stranger, proof, utxoArgs };
+  }
+
+  it("Should compute the same UTXO set digest as the service", async function () {
+    const { proofOfReserve, proof, utxoArgs } = await loadFixture(deployProofOfReserveFixture);
+
+    const [digest, totalValue] = await proofOfReserve.computeUtxoSetDigest(...utxoArgs());
+
+    expect(digest).to.equal(proof.utxoSetDigest);
+    expect(totalValue).to.equal(25000000n);
+    await expect(proofOfReserve.computeUtxoSetDigest(...utxoArgs([...proof.utxos].reverse())))
+      .to.be.revertedWith("ProofOfReserve: UTXOs not sorted");
+  });
+
+  it("Should store a proof that only the submitted UTXO list verifies against", async function () {
+    const { proofOfReserve, proof, utxoArgs } = await loadFixture(deployProofOfReserveFixture);
+
+    await expect(proofOfReserve.updateReserveDataWithProof(
+      POOL_ID, proof.balanceSats, 216000000, proof.blockHeight, `0x${proof.blockHash}`, proof.utxoSetDigest, proof.utxoCount
+    )).to.emit(proofOfReserve, "ReserveProofSubmitted")
+      .withArgs(POOL_ID, proof.blockHeight, `0x${proof.blockHash}`, proof.utxoSetDigest, proof.utxoCount);
+
+    expect((await proofOfReserve.getReserveData(POOL_ID)).btcBalance).to.equal(25000000n);
+    expect(await proofOfReserve.verifyReserveProof(POOL_ID, ...utxoArgs())).to.equal(true);
+    expect(await proofOfReserve.verifyReserveProof(POOL_ID, ...utxoArgs(proof.utxos.slice(1)))).to.equal(false);
+
+    // A later update without a proof drops the old one
+    await proofOfReserve.updateReserveData(POOL_ID, 25000000, 216000000, proof.blockHeight + 1);
+    expect(await proofOfReserve.verifyReserveProof(POOL_ID, ...utxoArgs())).to.equal(false);
+  });
+
+  it("Should reject proofs from unauthorized callers or without a block hash", async function () {
+    const { proofOfReserve, stranger, proof } = await loadFixture(deployProofOfReserveFixture);
+
+    await expect(proofOfReserve.connect(stranger).updateReserveDataWithProof(
+      POOL_ID, proof.balanceSats, 216000000, proof.blockHeight, `0x${proof.blockHash}`, proof.utxoSetDigest, proof.utxoCount
+    )).to.be.revertedWith("ProofOfReserve: not authorized oracle");
+    await expect(proofOfReserve.updateReserveDataWithProof(
+      POOL_ID, proof.balanceSats, 216000000, proof.blockHeight, ethers.ZeroHash, proof.utxoSetDigest, proof.utxoCount
+    )).to.be.revertedWith("ProofOfReserve: invalid block hash");
+  });
+});
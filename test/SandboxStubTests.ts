@@ -0,0 +1,36 @@
+import { expect } from "chai";
+import axios from "axios";
+import { MockEsploraServer } from "../scripts/sandbox/stubServers";
+
+describe("🧪 Sandbox Stub Tests", function () {
+  let esplora: MockEsploraServer;
+  let esploraUrl: string;
+
+  before(async function () {
+    esplora = new MockEsploraServer(100);
+    esploraUrl = await esplora.start();
+  });
+
+  after(async function () {
+    await esplora.stop();
+  });
+
+  it("Should serve a Bitcoin tip height that advances as blocks are mined", async function () {
+    const first = await axios.get(`${esploraUrl}/blocks/tip/height`);
+    const repeated = await axios.get(`${esploraUrl}/blocks/tip/height`);
+    esplora.chain.mine();
+    const mined = await axios.get(`${esploraUrl}/blocks/tip/height`);
+
+    expect([first.data, repeated.data, mined.data]).to.deep.equal([100, 100, 101]);
+  });
+
+  it("Should serve address UTXOs in Esplora's format", async function () {
+    const utxo = esplora.chain.receive("bc1qpool", 1500000);
+    const response = await axios.get(`${esploraUrl}/address/bc1qpool/utxo`);
+
+    expect(response.data).to.deep.equal([
+      { txid: utxo.txid, vout: 0, value: 1500000, status: { confirmed: true, block_height: 102, block_hash: response.data[0].status.block_hash } }
+    ]);
+    expect((await axios.get(`${esploraUrl}/block-height/102`)).data).to.equal(response.data[0].status.block_hash);
+  });
+});
@@ -0,0 +1,166 @@
+import { expect } from "chai";
+import fs from "fs";
+import { LoopControl } from "../scripts/service/loopControl";
+import {
+  CircuitBreaker,
+  CronExpression,
+  CronParseError,
+  Scheduler,
+  TaskRun,
+  TaskSchedule,
+  backoffDelay
+} from "../scripts/service/scheduler";
+import { SERVICE_CONFIG_PATH, ServiceConfigError, parseServiceConfig } from "../scripts/service/serviceConfig";
+
+const at = (iso: string) => new Date(iso).getTime();
+
+describe("⏰ Scheduler Tests", function () {
+  describe("CronExpression", function () {
+    it("Should find the next matching minute in UTC", function () {
+      const quarterHourly = CronExpression.parse("*/15 * * * *");
+      expect(quarterHourly.next(new Date("2025-01-01T10:07:30Z")).toISOString()).to.equal("2025-01-01T10:15:00.000Z");
+      // Strictly after: a time that matches moves on to the next slot
+      expect(quarterHourly.next(new Date("2025-01-01T10:15:00Z")).toISOString()).to.equal("2025-01-01T10:30:00.000Z");
+
+      const weekdaysAtNine = CronExpression.parse("0 9 * * 1-5");
+      // 2025-01-04 is a Saturday
+      expect(weekdaysAtNine.next(new Date("2025-01-04T12:00:00Z")).toISOString()).to.equal("2025-01-06T09:00:00.000Z");
+
+      expect(CronExpression.parse("@daily").next(new Date("2025-12-31T23:59:00Z")).toISOString()).to.equal("2026-01-01T00:00:00.000Z");
+    });
+
+    it("Should reject malformed and out-of-range expressions", function () {
+      expect(() => CronExpression.parse("* * * *")).to.throw(CronParseError, "5 fields");
+      expect(() => CronExpression.parse("60 * * * *")).to.throw(CronParseError, "minute");
+      expect(() => CronExpression.parse("*/0 * * * *")).to.throw(CronParseError);
+      expect(() => CronExpression.parse("0 0 30 2 *").next(new Date())).to.throw(CronParseError, "never matches");
+    });
+  });
+
+  describe("Backoff and circuit breaker", function () {
+    it("Should grow the retry delay exponentially up to the cap, with jitter shortening it", function () {
+      const config = { initialDelayMs: 1000, maxDelayMs: 5000, multiplier: 2, jitter: 0.5 };
+
+      expect([1, 2, 3, 4].map((failures) => backoffDelay(failures, config, () => 0))).to.deep.equal([1000, 2000, 4000, 5000]);
+      expect(backoffDelay(2, config, () => 1)).to.equal(1000);
+    });
+
+    it("Should open after the threshold and allow one trial run after the cooldown", function () {
+      const breaker = new CircuitBreaker({ failureThreshold: 2, cooldownMs: 1000 });
+
+      breaker.recordFailure(0);
+      expect(breaker.state(0)).to.equal("closed");
+      breaker.recordFailure(10);
+      expect(breaker.state(500)).to.equal("open");
+      expect(breaker.state(1010)).to.equal("half-open");
+
+      // The trial run fails: open again straight away
+      breaker.recordFailure(1010);
+      expect(breaker.allowsRun(1500)).to.equal(false);
+
+      breaker.recordSuccess();
+      expect(breaker.state(1500)).to.equal("closed");
+    });
+  });
+
+  describe("Scheduler", function () {
+    const schedule = (overrides: Partial<TaskSchedule> = {}): TaskSchedule => ({
+      enabled: true,
+      schedule: "0 * * * *",
+      backoff: { initialDelayMs: 60000, maxDelayMs: 600000, multiplier: 2, jitter: 0 },
+      circuitBreaker: { failureThreshold: 2, cooldownMs: 3600000 },
+      ...overrides
+    });
+
+    it("Should run only due, enabled tasks and reschedule them from their cron", async function () {
+      let now = at("2025-01-01T10:30:00Z");
+      const ran: string[] = [];
+      const scheduler = new Scheduler([
+        { name: "hourly", config: schedule(), run: async () => { ran.push("hourly"); } },
+        { name: "daily", config: schedule({ schedule: "0 0 * * *" }), run: async () => { ran.push("daily"); } },
+        { name: "disabled", config: schedule({ enabled: false, schedule: "* * * * *" }), run: async () => { ran.push("disabled"); } }
+      ], new LoopControl(), { now: () => now });
+
+      expect(new Date(scheduler.nextDueAt()!).toISOString()).to.equal("2025-01-01T11:00:00.000Z");
+
+      now = at("2025-01-01T11:00:00Z");
+      await scheduler.runDue();
+      expect(ran).to.deep.equal(["hourly"]);
+
+      const [hourly, , disabled] = scheduler.status();
+      expect(hourly.nextRunAt!.toISOString()).to.equal("2025-01-01T12:00:00.000Z");
+      expect(hourly.lastRun!.outcome).to.equal("ok");
+      expect(disabled.nextRunAt).to.equal(null);
+    });
+
+    it("Should retry failures with backoff and stop at an open circuit", async function () {
+      let now = at("2025-01-01T11:00:00Z");
+      const runs: TaskRun[] = [];
+      const scheduler = new Scheduler([
+        { name: "flaky", config: schedule(), run: async () => { throw new Error("pool API down"); } }
+      ], new LoopControl(), { now: () => now, onTaskRun: (run) => runs.push(run) });
+
+      await scheduler.runAll();
+      // Retried after the backoff, not at the next hourly slot
+      expect(scheduler.status()[0].nextRunAt!.toISOString()).to.equal("2025-01-01T11:01:00.000Z");
+
+      now = at("2025-01-01T11:01:00Z");
+      await scheduler.runDue();
+      const [status] = scheduler.status();
+      expect(status.consecutiveFailures).to.equal(2);
+      expect(status.circuit).to.equal("open");
+      // Held for the cooldown even though the backoff would retry sooner
+      expect(status.nextRunAt!.toISOString()).to.equal("2025-01-01T12:01:00.000Z");
+
+      now = at("2025-01-01T11:30:00Z");
+      await scheduler.runDue();
+      expect(runs.map((run) => run.outcome)).to.deep.equal(["error", "error"]);
+      expect(runs[1]).to.include({ error: "pool API down", circuit: "open" });
+    });
+  });
+
+  describe("Service config", function () {
+    it("Should load the committed config/service.json", function () {
+      const config = parseServiceConfig(JSON.parse(fs.readFileSync(SERVICE_CONFIG_PATH, "utf8")), SERVICE_CONFIG_PATH);
+
+      expect(config.tasks.conversion.schedule).to.equal("0 * * * *");
+      expect(config.tasks.distribution.enabled).to.equal(false);
+    });
+
+    it("Should apply shared backoff to tasks unless they override it", function () {
+      const config = parseServiceConfig({
+        backoff: { initialDelayMs: 1000, maxDelayMs: 8000 },
+        tasks: { conversion: { backoff: { jitter: 0 } } }
+      }, "test");
+
+      expect(config.tasks.balancePolling.backoff).to.deep.equal({ initialDelayMs: 1000, maxDelayMs: 8000, multiplier: 2, jitter: 0.2 });
+      expect(config.tasks.conversion.backoff.jitter).to.equal(0);
+      expect(config.minimumConversionBTC).to.equal(0.01);
+      expect(config.http).to.deep.equal({ port: 9470, host: "127.0.0.1" });
+    });
+
+    it("Should report every problem at once", function () {
+      try {
+        parseServiceConfig({
+          minimumConversionBTC: -1,
+          maxSlippageBps: 20000,
+          orders: { pollIntervalMs: 5000, timeoutMs: 1000 },
+          http: { port: 70000 },
+          circuitBreaker: { failureThreshold: 1.5 },
+          tasks: { conversion: { schedule: "every hour" }, payouts: {} }
+        }, "service.json");
+        expect.fail("Should have thrown");
+      } catch (error) {
+        expect(error).to.be.instanceOf(ServiceConfigError);
+        const message = (error as Error).message;
+        expect(message).to.contain("minimumConversionBTC must be a positive number");
+        expect(message).to.contain("maxSlippageBps must be between 0 and 10000");
+        expect(message).to.contain("orders.timeoutMs must be at least pollIntervalMs");
+        expect(message).to.contain("http.port must be an integer between 1 and 65535");
+        expect(message).to.contain("circuitBreaker.failureThreshold must be a positive integer");
+        expect(message).to.contain("tasks.conversion.schedule");
+        expect(message).to.contain("tasks.payouts is not a known setting");
+      }
+    });
+  });
+});
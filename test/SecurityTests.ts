@@ -1,7 +1,10 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
 import { Contract, Signer } from "ethers";
-import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+
+// OpenZeppelin AccessControl's revert reason
+const missingRole = (account: string, role: string) => `AccessControl: account ${account.toLowerCase()} is missing role ${role}`;
 
 describe("🔒 Security Tests for Mining Contracts", function () {
   
@@ -16,25 +19,25 @@ describe("🔒 Security Tests for Mining Contracts", function () {
     
     // Deploy mock Chainlink aggregator
     const MockAggregator = await ethers.getContractFactory("MockChainlinkAggregator");
-    const btcPriceFeed = await MockAggregator.deploy(4500000000000); // $45,000 with 8 decimals
+    const btcPriceFeed = await MockAggregator.deploy("BTC / USD (mock)", 4500000000000); // $45,000 with 8 decimals
     
     // Deploy mock Aave pool
     const MockAavePool = await ethers.getContractFactory("MockAavePool");
-    const aavePool = await MockAavePool.deploy(cbBTC.address, aToken.address);
+    const aavePool = await MockAavePool.deploy(await cbBTC.getAddress(), await aToken.getAddress());
     
     // Deploy secure contracts
     const SecureTokenizedMining = await ethers.getContractFactory("SecureTokenizedMining");
     const secureMining = await SecureTokenizedMining.deploy(
-      usdc.address,
-      btcPriceFeed.address,
+      await usdc.getAddress(),
+      await btcPriceFeed.getAddress(),
       admin.address
     );
     
     const SecureAaveIntegration = await ethers.getContractFactory("SecureAaveIntegration");
     const secureAave = await SecureAaveIntegration.deploy(
-      aavePool.address,
-      cbBTC.address,
-      aToken.address,
+      await aavePool.getAddress(),
+      await cbBTC.getAddress(),
+      await aToken.getAddress(),
       admin.address
     );
     
@@ -49,12 +52,12 @@ describe("🔒 Security Tests for Mining Contracts", function () {
     await secureMining.connect(admin).grantRole(EMERGENCY_ROLE, emergency.address);
     
     // Mint test tokens
-    await usdc.mint(user1.address, ethers.utils.parseUnits("100000", 6));
-    await usdc.mint(user2.address, ethers.utils.parseUnits("100000", 6));
-    await usdc.mint(attacker.address, ethers.utils.parseUnits("100000", 6));
+    await usdc.mint(user1.address, ethers.parseUnits("100000", 6));
+    await usdc.mint(user2.address, ethers.parseUnits("100000", 6));
+    await usdc.mint(attacker.address, ethers.parseUnits("100000", 6));
     
-    await cbBTC.mint(user1.address, ethers.utils.parseUnits("10", 8));
-    await cbBTC.mint(user2.address, ethers.utils.parseUnits("10", 8));
+    await cbBTC.mint(user1.address, ethers.parseUnits("10", 8));
+    await cbBTC.mint(user2.address, ethers.parseUnits("10", 8));
     
     return {
       secureMining,
@@ -81,10 +84,11 @@ describe("🔒 Security Tests for Mining Contracts", function () {
       const { secureMining, user1, attacker } = await loadFixture(deploySecureContractsFixture);
       
       const ADMIN_ROLE = await secureMining.ADMIN_ROLE();
+      const DEFAULT_ADMIN_ROLE = await secureMining.DEFAULT_ADMIN_ROLE();
       
       await expect(
         secureMining.connect(attacker).grantRole(ADMIN_ROLE, attacker.address)
-      ).to.be.revertedWith("AccessControl:");
+      ).to.be.revertedWith(missingRole(attacker.address, DEFAULT_ADMIN_ROLE));
     });
     
     it("Should prevent non-yield-manager from distributing rewards", async function () {
@@ -92,7 +96,7 @@ describe("🔒 Security Tests for Mining Contracts", function () {
       
       await expect(
         secureMining.connect(attacker).distributeDefiEarnings(1, 1000)
-      ).to.be.revertedWith("AccessControl:");
+      ).to.be.revertedWith(missingRole(attacker.address, await secureMining.YIELD_MANAGER_ROLE()));
     });
     
     it("Should prevent non-emergency role from triggering emergency stop", async function () {
@@ -100,29 +104,23 @@ describe("🔒 Security Tests for Mining Contracts", function () {
       
       await expect(
         secureMining.connect(attacker).triggerEmergencyStop()
-      ).to.be.revertedWith("AccessControl:");
+      ).to.be.revertedWith(missingRole(attacker.address, await secureMining.EMERGENCY_ROLE()));
     });
   });
   
   describe("🔄 Reentrancy Protection Tests", function () {
     
     it("Should prevent reentrancy attacks on claimEarnings", async function () {
-      const { secureMining, usdc, user1 } = await loadFixture(deploySecureContractsFixture);
-      
-      // Purchase position
-      await usdc.connect(user1).approve(secureMining.address, ethers.utils.parseUnits("700", 6));
-      await secureMining.connect(user1).purchaseMiningPosition(20);
+      const { secureMining, usdc } = await loadFixture(deploySecureContractsFixture);
       
-      // Deploy malicious contract that attempts reentrancy
+      // Deploy malicious contract that re-enters claimEarnings when its position is minted
       const MaliciousReceiver = await ethers.getContractFactory("MaliciousReceiver");
-      const maliciousReceiver = await MaliciousReceiver.deploy(secureMining.address);
-      
-      // Transfer token to malicious contract
-      await secureMining.connect(user1).transferFrom(user1.address, maliciousReceiver.address, 1);
+      const maliciousReceiver = await MaliciousReceiver.deploy(await secureMining.getAddress(), await usdc.getAddress());
+      await usdc.mint(await maliciousReceiver.getAddress(), ethers.parseUnits("700", 6));
       
       // Attempt reentrancy attack
       await expect(
-        maliciousReceiver.attackClaimEarnings(1)
+        maliciousReceiver.attackClaimEarnings(20)
       ).to.be.revertedWith("ReentrancyGuard: reentrant call");
     });
   });
@@ -133,7 +131,7 @@ describe("🔒 Security Tests for Mining Contracts", function () {
       const { secureMining, user1 } = await loadFixture(deploySecureContractsFixture);
       
       // Attempt to purchase with maximum uint256 value
-      const maxUint = ethers.constants.MaxUint256;
+      const maxUint = ethers.MaxUint256;
       
       await expect(
         secureMining.connect(user1).purchaseMiningPosition(maxUint)
@@ -144,9 +142,9 @@ describe("🔒 Security Tests for Mining Contracts", function () {
       const { secureMining, usdc, user1 } = await loadFixture(deploySecureContractsFixture);
       
       const validTHAmount = 50; // Maximum allowed
-      const expectedCost = ethers.utils.parseUnits("1750", 6); // 50 * 35 USDC
+      const expectedCost = ethers.parseUnits("1750", 6); // 50 * 35 USDC
       
-      await usdc.connect(user1).approve(secureMining.address, expectedCost);
+      await usdc.connect(user1).approve(await secureMining.getAddress(), expectedCost);
       await expect(
         secureMining.connect(user1).purchaseMiningPosition(validTHAmount)
       ).to.not.be.reverted;
@@ -155,11 +153,17 @@ describe("🔒 Security Tests for Mining Contracts", function () {
   
   describe("⏱️ Rate Limiting Tests", function () {
     
+    // Rate limits count per hour-long window, so start each test at the top of one
+    async function startRateLimitWindow() {
+      await time.increaseTo(Math.ceil((await time.latest()) / 3600) * 3600 + 1);
+    }
+    
     it("Should enforce rate limits on rapid purchases", async function () {
       const { secureMining, usdc, user1 } = await loadFixture(deploySecureContractsFixture);
       
-      const purchaseAmount = ethers.utils.parseUnits("3500", 6); // 5 * 700 USDC
-      await usdc.connect(user1).approve(secureMining.address, purchaseAmount);
+      const purchaseAmount = ethers.parseUnits("7000", 6); // 10 * 700 USDC
+      await usdc.connect(user1).approve(await secureMining.getAddress(), purchaseAmount);
+      await startRateLimitWindow();
       
       // Make multiple rapid purchases
       for (let i = 0; i < 10; i++) {
@@ -175,11 +179,12 @@ describe("🔒 Security Tests for Mining Contracts", function () {
     it("Should reset rate limits after time window", async function () {
       const { secureMining, usdc, user1 } = await loadFixture(deploySecureContractsFixture);
       
-      await usdc.connect(user1).approve(secureMining.address, ethers.utils.parseUnits("14000", 6));
+      await usdc.connect(user1).approve(await secureMining.getAddress(), ethers.parseUnits("14000", 6));
+      await startRateLimitWindow();
       
-      // Make maximum purchases
+      // Make maximum purchases, leaving TH for one more within the 216 TH total
       for (let i = 0; i < 10; i++) {
-        await secureMining.connect(user1).purchaseMiningPosition(20);
+        await secureMining.connect(user1).purchaseMiningPosition(18);
       }
       
       // Fast-forward time by 1 hour + 1 second
@@ -188,7 +193,7 @@ describe("🔒 Security Tests for Mining Contracts", function () {
       
       // Should be able to purchase again
       await expect(
-        secureMining.connect(user1).purchaseMiningPosition(20)
+        secureMining.connect(user1).purchaseMiningPosition(18)
       ).to.not.be.reverted;
     });
   });
@@ -199,7 +204,7 @@ describe("🔒 Security Tests for Mining Contracts", function () {
       const { secureMining, btcPriceFeed } = await loadFixture(deploySecureContractsFixture);
       
       // Set old timestamp (more than 1 hour ago)
-      const staleTimestamp = Math.floor(Date.now() / 1000) - 7200; // 2 hours ago
+      const staleTimestamp = await time.latest() - 7200; // 2 hours ago
       await btcPriceFeed.setLatestRoundData(1, 4500000000000, staleTimestamp, staleTimestamp, 1);
       
       await expect(
@@ -210,7 +215,7 @@ describe("🔒 Security Tests for Mining Contracts", function () {
     it("Should reject prices outside bounds", async function () {
       const { secureMining, btcPriceFeed } = await loadFixture(deploySecureContractsFixture);
       
-      const currentTime = Math.floor(Date.now() / 1000);
+      const currentTime = await time.latest();
       
       // Test price below minimum ($10,000)
       await btcPriceFeed.setLatestRoundData(1, 500000000000, currentTime, currentTime, 1); // $5,000
@@ -228,7 +233,7 @@ describe("🔒 Security Tests for Mining Contracts", function () {
     it("Should reject prices with high deviation", async function () {
       const { secureMining, btcPriceFeed, operator } = await loadFixture(deploySecureContractsFixture);
       
-      const currentTime = Math.floor(Date.now() / 1000);
+      const currentTime = await time.latest();
       
       // Set initial valid price
       await secureMining.connect(operator).updateLastValidPrice("BTC/USD", 4500000000000); // $45,000
@@ -250,11 +255,12 @@ describe("🔒 Security Tests for Mining Contracts", function () {
       // Trigger emergency stop
       await secureMining.connect(emergency).triggerEmergencyStop();
       
-      // Attempt purchase during emergency
-      await usdc.connect(user1).approve(secureMining.address, ethers.utils.parseUnits("700", 6));
+      // Attempt purchase during emergency, which also pauses the contract
+      await usdc.connect(user1).approve(await secureMining.getAddress(), ethers.parseUnits("700", 6));
+      expect(await secureMining.emergencyStop()).to.be.true;
       await expect(
         secureMining.connect(user1).purchaseMiningPosition(20)
-      ).to.be.revertedWithCustomError(secureMining, "EmergencyModeActive");
+      ).to.be.revertedWith("Pausable: paused");
     });
     
     it("Should require 24-hour delay to remove emergency stop", async function () {
@@ -285,18 +291,17 @@ describe("🔒 Security Tests for Mining Contracts", function () {
       const { secureMining, usdc, user1, yieldManager } = await loadFixture(deploySecureContractsFixture);
       
       // Purchase position
-      await usdc.connect(user1).approve(secureMining.address, ethers.utils.parseUnits("700", 6));
+      await usdc.connect(user1).approve(await secureMining.getAddress(), ethers.parseUnits("700", 6));
       await secureMining.connect(user1).purchaseMiningPosition(20);
       
-      // Add some DeFi earnings
-      await secureMining.connect(yieldManager).distributeDefiEarnings(1, ethers.utils.parseUnits("10", 6));
-      
-      // Claim maximum times (5 per day)
+      // Claim maximum times (5 per day), with DeFi earnings to claim each time
       for (let i = 0; i < 5; i++) {
+        await secureMining.connect(yieldManager).distributeDefiEarnings(1, ethers.parseUnits("10", 6));
         await secureMining.connect(user1).claimEarnings(1);
       }
       
       // 6th claim should fail
+      await secureMining.connect(yieldManager).distributeDefiEarnings(1, ethers.parseUnits("10", 6));
       await expect(
         secureMining.connect(user1).claimEarnings(1)
       ).to.be.revertedWithCustomError(secureMining, "DailyClaimLimitExceeded");
@@ -306,10 +311,10 @@ describe("🔒 Security Tests for Mining Contracts", function () {
       const { secureMining, usdc, user1, admin } = await loadFixture(deploySecureContractsFixture);
       
       // Set very low contract balance limit
-      await secureMining.connect(admin).setMaxContractBalance(ethers.utils.parseUnits("500", 6));
+      await secureMining.connect(admin).setMaxContractBalance(ethers.parseUnits("500", 6));
       
       // Try to purchase above limit
-      await usdc.connect(user1).approve(secureMining.address, ethers.utils.parseUnits("700", 6));
+      await usdc.connect(user1).approve(await secureMining.getAddress(), ethers.parseUnits("700", 6));
       await expect(
         secureMining.connect(user1).purchaseMiningPosition(20)
       ).to.be.revertedWith("Contract balance limit exceeded");
@@ -319,7 +324,7 @@ describe("🔒 Security Tests for Mining Contracts", function () {
       const { secureMining, usdc, user1, attacker } = await loadFixture(deploySecureContractsFixture);
       
       // Purchase position as user1
-      await usdc.connect(user1).approve(secureMining.address, ethers.utils.parseUnits("700", 6));
+      await usdc.connect(user1).approve(await secureMining.getAddress(), ethers.parseUnits("700", 6));
       await secureMining.connect(user1).purchaseMiningPosition(20);
       
       // Attacker tries to claim user1's earnings
@@ -339,8 +344,8 @@ describe("🔒 Security Tests for Mining Contracts", function () {
       await secureAave.connect(admin).grantRole(DEPOSITOR_ROLE, user1.address);
       
       // Try to deposit more than daily limit
-      const largeAmount = ethers.utils.parseUnits("200000", 8); // > 100,000 daily limit
-      await cbBTC.connect(user1).approve(secureAave.address, largeAmount);
+      const largeAmount = ethers.parseUnits("200000", 8); // > 100,000 daily limit
+      await cbBTC.connect(user1).approve(await secureAave.getAddress(), largeAmount);
       
       await expect(
         secureAave.connect(user1).depositToAave(largeAmount)
@@ -358,23 +363,31 @@ describe("🔒 Security Tests for Mining Contracts", function () {
       await secureAave.connect(admin).freezeUser(user1.address, "Suspicious activity");
       
       // Try to deposit as frozen user
-      await cbBTC.connect(user1).approve(secureAave.address, ethers.utils.parseUnits("1", 8));
+      await cbBTC.connect(user1).approve(await secureAave.getAddress(), ethers.parseUnits("1", 8));
       await expect(
-        secureAave.connect(user1).depositToAave(ethers.utils.parseUnits("1", 8))
-      ).to.be.revertedWithCustomError(secureAave, "UserFrozen");
+        secureAave.connect(user1).depositToAave(ethers.parseUnits("1", 8))
+      ).to.be.revertedWithCustomError(secureAave, "AccountFrozen");
     });
   });
   
   describe("⚡ Circuit Breaker Tests", function () {
     
     it("Should trigger circuit breaker on large aToken supply changes", async function () {
-      const { secureAave, aToken } = await loadFixture(deploySecureContractsFixture);
+      const { secureAave, cbBTC, aToken, user1, admin } = await loadFixture(deploySecureContractsFixture);
+      
+      // Deposits give the breaker an aToken supply to compare against
+      const DEPOSITOR_ROLE = await secureAave.DEPOSITOR_ROLE();
+      await secureAave.connect(admin).grantRole(DEPOSITOR_ROLE, user1.address);
+      await cbBTC.connect(user1).approve(await secureAave.getAddress(), ethers.MaxUint256);
+      await secureAave.connect(user1).depositToAave(ethers.parseUnits("1", 8));
+      await secureAave.connect(user1).depositToAave(ethers.parseUnits("1", 8));
       
       // Simulate large supply change (>10%)
       const currentSupply = await aToken.totalSupply();
-      const largeIncrease = currentSupply.mul(15).div(100); // 15% increase
+      const largeIncrease = (currentSupply * 15n) / 100n; // 15% increase
       
-      await aToken.mint(secureAave.address, largeIncrease);
+      await aToken.mint(await secureAave.getAddress(), largeIncrease);
+      await secureAave.connect(user1).depositToAave(ethers.parseUnits("1", 8));
       
       // Circuit breaker should be triggered on next operation
       expect(await secureAave.circuitBreakerTriggered()).to.be.true;
@@ -391,10 +404,10 @@ describe("🔒 Security Tests for Mining Contracts", function () {
       
       // Deploy flash loan attacker contract
       const FlashLoanAttacker = await ethers.getContractFactory("FlashLoanAttacker");
-      const attacker = await FlashLoanAttacker.deploy(secureMining.address, usdc.address);
+      const attacker = await FlashLoanAttacker.deploy(await secureMining.getAddress(), await usdc.getAddress());
       
       // Mint large amount to simulate flash loan
-      await usdc.mint(attacker.address, ethers.utils.parseUnits("1000000", 6));
+      await usdc.mint(await attacker.getAddress(), ethers.parseUnits("1000000", 6));
       
       // Attempt attack
       await expect(
@@ -403,9 +416,10 @@ describe("🔒 Security Tests for Mining Contracts", function () {
     });
     
     it("Should prevent sandwich attacks on oracle prices", async function () {
-      const { secureMining, btcPriceFeed } = await loadFixture(deploySecureContractsFixture);
+      const { secureMining, btcPriceFeed, operator } = await loadFixture(deploySecureContractsFixture);
       
-      const currentTime = Math.floor(Date.now() / 1000);
+      const currentTime = await time.latest();
+      await secureMining.connect(operator).updateLastValidPrice("BTC/USD", 4500000000000); // $45,000
       
       // Attacker tries to manipulate price just before legitimate transaction
       await btcPriceFeed.setLatestRoundData(1, 4000000000000, currentTime, currentTime, 1); // $40,000
@@ -417,110 +431,3 @@ describe("🔒 Security Tests for Mining Contracts", function () {
     });
   });
 });
-
-// Mock contracts for testing
-
-// Mock ERC20 contract
-contract MockERC20 {
-  constructor(string memory name, string memory symbol, uint8 decimals) {}
-  function mint(address to, uint256 amount) external {}
-  function balanceOf(address account) external view returns (uint256) {}
-  function transfer(address to, uint256 amount) external returns (bool) {}
-  function approve(address spender, uint256 amount) external returns (bool) {}
-  function allowance(address owner, address spender) external view returns (uint256) {}
-}
-
-// Mock Chainlink Aggregator
-contract MockChainlinkAggregator {
-  int256 private _price;
-  uint256 private _timestamp;
-  uint80 private _roundId;
-  
-  constructor(int256 initialPrice) {
-    _price = initialPrice;
-    _timestamp = block.timestamp;
-    _roundId = 1;
-  }
-  
-  function latestRoundData() external view returns (
-    uint80 roundId,
-    int256 answer,
-    uint256 startedAt,
-    uint256 updatedAt,
-    uint80 answeredInRound
-  ) {
-    return (_roundId, _price, _timestamp, _timestamp, _roundId);
-  }
-  
-  function setLatestRoundData(
-    uint80 roundId,
-    int256 answer,
-    uint256 startedAt,
-    uint256 updatedAt,
-    uint80 answeredInRound
-  ) external {
-    _roundId = roundId;
-    _price = answer;
-    _timestamp = updatedAt;
-  }
-}
-
-// Mock Aave Pool
-contract MockAavePool {
-  IERC20 public asset;
-  IERC20 public aToken;
-  
-  constructor(address _asset, address _aToken) {
-    asset = IERC20(_asset);
-    aToken = IERC20(_aToken);
-  }
-  
-  function supply(address asset, uint256 amount, address onBehalfOf, uint16 referralCode) external {
-    // Mock implementation
-  }
-  
-  function withdraw(address asset, uint256 amount, address to) external returns (uint256) {
-    return amount;
-  }
-}
-
-// Malicious contracts for testing
-
-contract MaliciousReceiver {
-  address public target;
-  bool public attacking;
-  
-  constructor(address _target) {
-    target = _target;
-  }
-  
-  function attackClaimEarnings(uint256 tokenId) external {
-    attacking = true;
-    // This would attempt to re-enter claimEarnings
-    // But should be blocked by ReentrancyGuard
-  }
-  
-  receive() external payable {
-    if (attacking) {
-      // Attempt reentrancy
-      bytes memory data = abi.encodeWithSignature("claimEarnings(uint256)", 1);
-      (bool success,) = target.call(data);
-      require(success, "Reentrancy attack failed");
-    }
-  }
-}
-
-contract FlashLoanAttacker {
-  address public target;
-  address public token;
-  
-  constructor(address _target, address _token) {
-    target = _target;
-    token = _token;
-  }
-  
-  function executeFlashLoanAttack() external {
-    // Mock flash loan attack implementation
-    // Would try various attack vectors but should be blocked
-  }
-}
\ No newline at end of file
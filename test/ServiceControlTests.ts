@@ -0,0 +1,84 @@
+import { expect } from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { spawnSync } from "child_process";
+import { LoopControl } from "../scripts/service/loopControl";
+import { ServiceLock, ServiceLockError } from "../scripts/service/serviceLock";
+
+describe("🎛️ Service Control Tests", function () {
+  describe("LoopControl", function () {
+    it("Should wake up early for run-once and stop", async function () {
+      const loop = new LoopControl();
+
+      setTimeout(() => loop.apply("run-once"), 10);
+      expect(await loop.wait(60000)).to.equal("run-once");
+
+      setTimeout(() => loop.apply("stop"), 10);
+      expect(await loop.wait(60000)).to.equal("stop");
+      expect(loop.state).to.equal("stopping");
+    });
+
+    it("Should hold cycles while paused until resumed", async function () {
+      const loop = new LoopControl();
+      loop.apply("pause");
+
+      let resumed = false;
+      setTimeout(() => {
+        resumed = true;
+        loop.apply("resume");
+      }, 20);
+
+      expect(await loop.wait(0)).to.equal("due");
+      expect(resumed).to.equal(true);
+      expect(loop.state).to.equal("running");
+    });
+
+    it("Should run once without leaving pause", async function () {
+      const loop = new LoopControl();
+      loop.apply("pause");
+      loop.apply("run-once");
+
+      expect(await loop.wait(0)).to.equal("run-once");
+      expect(loop.state).to.equal("paused");
+    });
+  });
+
+  describe("ServiceLock", function () {
+    let dir: string;
+
+    beforeEach(function () {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), "service-lock-"));
+    });
+
+    afterEach(function () {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("Should refuse a second instance for the same MiningPool", function () {
+      const first = ServiceLock.forPool("localhost", "0xAbC", dir);
+      const info = first.acquire("localhost", "0xAbC");
+      expect(first.holder()).to.deep.equal(info);
+
+      const second = ServiceLock.forPool("localhost", "0xabc", dir);
+      expect(() => second.acquire("localhost", "0xabc")).to.throw(ServiceLockError, `pid ${process.pid}`);
+
+      // A different pool gets its own lock
+      ServiceLock.forPool("localhost", "0xdef", dir).acquire("localhost", "0xdef");
+
+      first.release();
+      expect(first.holder()).to.equal(null);
+      expect(() => second.acquire("localhost", "0xabc")).to.not.throw();
+    });
+
+    it("Should take over a lock left by a dead process", function () {
+      // The pid of a process that has already exited
+      const deadPid = spawnSync(process.execPath, ["-e", ""]).pid;
+      const lock = ServiceLock.forPool("localhost", "0xabc", dir);
+      fs.writeFileSync(lock.filePath, JSON.stringify({ pid: deadPid, network: "localhost", miningPool: "0xabc" }));
+
+      expect(lock.holder()).to.equal(null);
+      expect(lock.acquire("localhost", "0xabc").pid).to.equal(process.pid);
+    });
+  });
+});
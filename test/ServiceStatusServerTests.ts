@@ -0,0 +1,94 @@
+import { expect } from "chai";
+import axios from "axios";
+import { MetricsRegistry, createServiceMetrics } from "../scripts/service/metrics";
+import { HealthReport, ServiceStatusServer } from "../scripts/service/statusServer";
+import { ControlCommand } from "../scripts/service/loopControl";
+
+describe("📡 Service Status Server Tests", function () {
+  describe("Metrics", function () {
+    it("Should render counters and labelled gauges in the Prometheus text format", function () {
+      const metrics = createServiceMetrics();
+      metrics.inc("minerfi_conversions_total", 1, { strategy: "exchange" });
+      metrics.inc("minerfi_conversions_total", 1, { strategy: "exchange" });
+      metrics.set("minerfi_pool_btc_balance", 0.05, { pool_id: "antminer_s21_pool" });
+
+      const text = metrics.render();
+
+      expect(text).to.contain("# TYPE minerfi_conversions_total counter");
+      expect(text).to.contain('minerfi_conversions_total{strategy="exchange"} 2');
+      expect(text).to.contain('minerfi_pool_btc_balance{pool_id="antminer_s21_pool"} 0.05');
+      // Unlabelled counters are exported before their first increment
+      expect(text).to.contain("minerfi_conversions_abandoned_total 0");
+    });
+
+    it("Should reject decreasing a counter and setting unknown metrics", function () {
+      const metrics = new MetricsRegistry().counter("cycles_total", "Cycles");
+
+      expect(() => metrics.inc("cycles_total", -1)).to.throw("cannot decrease");
+      expect(() => metrics.set("cycles_total", 1)).to.throw("use inc");
+      expect(() => metrics.inc("unknown_total")).to.throw("unknown metric");
+    });
+  });
+
+  describe("HTTP API", function () {
+    let server: ServiceStatusServer;
+    let url: string;
+    let health: HealthReport;
+    const commands: ControlCommand[] = [];
+
+    before(async function () {
+      server = new ServiceStatusServer({
+        health: () => health,
+        status: async () => ({ network: "localhost", pendingConversions: [] }),
+        metrics: () => "minerfi_service_cycles_total 3\n",
+        control: (command) => {
+          commands.push(command);
+          return "paused";
+        }
+      }, "secret-token");
+      url = await server.start();
+    });
+
+    after(async function () {
+      await server.stop();
+    });
+
+    it("Should answer /health with 200 while healthy and 503 otherwise", async function () {
+      health = { healthy: true };
+      const ok = await axios.get(`${url}/health`);
+      expect(ok.status).to.equal(200);
+
+      health = { healthy: false, unhealthyTasks: ["conversion"] };
+      const unhealthy = await axios.get(`${url}/health`, { validateStatus: () => true });
+      expect(unhealthy.status).to.equal(503);
+      expect(unhealthy.data).to.deep.equal({ healthy: false, unhealthyTasks: ["conversion"] });
+    });
+
+    it("Should serve /status as JSON and /metrics as text", async function () {
+      const status = await axios.get(`${url}/status`);
+      expect(status.data).to.deep.equal({ network: "localhost", pendingConversions: [] });
+
+      const metrics = await axios.get(`${url}/metrics`);
+      expect(metrics.headers["content-type"]).to.contain("text/plain");
+      expect(metrics.data).to.equal("minerfi_service_cycles_total 3\n");
+    });
+
+    it("Should apply control commands only with the control token", async function () {
+      const unauthorized = await axios.post(`${url}/control/pause`, null, { validateStatus: () => true });
+      expect(unauthorized.status).to.equal(401);
+
+      const headers = { Authorization: "Bearer secret-token" };
+      const unknown = await axios.post(`${url}/control/reboot`, null, { headers, validateStatus: () => true });
+      expect(unknown.status).to.equal(400);
+
+      const paused = await axios.post(`${url}/control/pause`, null, { headers });
+      expect(paused.data).to.deep.equal({ command: "pause", state: "paused" });
+      expect(commands).to.deep.equal(["pause"]);
+    });
+
+    it("Should return 404 for unknown routes", async function () {
+      const response = await axios.get(`${url}/nope`, { validateStatus: () => true });
+      expect(response.status).to.equal(404);
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import { expect } from "chai";
+import { AbiCoder, Contract, Interface } from "ethers";
+import { UpkeepSimulator, decodePerformData, parseTaskExecutions } from "../scripts/sandbox/upkeepSimulator";
+
+const AUTOMATION_EVENTS = [
+  "event AutomationTaskExecuted(uint8 indexed taskType, bool success, uint256 gasUsed)",
+  // JSON form: the human-readable parser treats `error` as a keyword
+  {
+    type: "event",
+    name: "AutomationError",
+    inputs: [
+      { name: "taskType", type: "uint8", indexed: true },
+      { name: "error", type: "string", indexed: false }
+    ]
+  }
+];
+const events = new Interface(AUTOMATION_EVENTS);
+const automation = new Contract("0x0000000000000000000000000000000000000001", AUTOMATION_EVENTS);
+
+// checkUpkeep encodes a dynamic TaskType[] with a slot per task type plus how many entries are used
+const performData = (taskTypes: number[]) =>
+  AbiCoder.defaultAbiCoder().encode(["uint8[]", "uint256"], [[...taskTypes, 0, 0, 0, 0, 0].slice(0, 5), taskTypes.length]);
+
+const log = (name: string, args: unknown[]) => events.encodeEventLog(name, args);
+
+describe("🤖 Upkeep Simulator Tests", function () {
+  it("Should decode only the tasks checkUpkeep counted", function () {
+    expect(decodePerformData(performData([0, 4]))).to.deep.equal(["DAILY_DISTRIBUTION", "PERFORMANCE_MONITORING"]);
+  });
+
+  it("Should pair AutomationError reasons with the failed execution", function () {
+    const logs = [
+      log("AutomationTaskExecuted", [4, true, 41000]),
+      log("AutomationError", [0, "Ownable: caller is not the owner"]),
+      log("AutomationTaskExecuted", [0, false, 38000])
+    ];
+
+    expect(parseTaskExecutions(automation, logs as any)).to.deep.equal([
+      { task: "PERFORMANCE_MONITORING", success: true, gasUsed: 41000 },
+      { task: "DAILY_DISTRIBUTION", success: false, gasUsed: 38000, error: "Ownable: caller is not the owner" }
+    ]);
+  });
+
+  it("Should jump to the next due task and perform the upkeep it reports", async function () {
+    let chainTime = 1_700_000_000;
+    const calls: string[] = [];
+    const rpc = {
+      send: async (method: string, params: any[]) => {
+        calls.push(method);
+        if (method === "evm_increaseTime") chainTime += params[0];
+        return { timestamp: chainTime };
+      }
+    };
+    // Only PERFORMANCE_MONITORING (hourly) is enabled
+    const fake = {
+      interface: events,
+      getTaskInfo: async (index: number) => [0n, 3600n, index === 4, 0n, 200000n, BigInt(1_700_003_600)],
+      checkUpkeep: { staticCall: async () => [chainTime >= 1_700_003_600, performData([4])] },
+      performUpkeep: async (data: string, overrides: { gasLimit: number }) => {
+        expect(data).to.equal(performData([4]));
+        expect(overrides.gasLimit).to.equal(5_000_000);
+        return { wait: async () => ({ hash: "0xabc", gasUsed: 80000n, logs: [log("AutomationTaskExecuted", [4, true, 41000])] }) };
+      }
+    };
+
+    const simulator = new UpkeepSimulator(fake as any, rpc, { rounds: 1, advanceSeconds: 0, performGasLimit: 5_000_000 });
+    const [round] = await simulator.run();
+
+    expect(calls).to.include.members(["evm_increaseTime", "evm_mine"]);
+    expect(round).to.deep.include({ upkeepNeeded: true, tasks: ["PERFORMANCE_MONITORING"], transactionHash: "0xabc", gasUsed: 80000 });
+    expect(round.executions).to.deep.equal([{ task: "PERFORMANCE_MONITORING", success: true, gasUsed: 41000 }]);
+  });
+});